@@ -0,0 +1,135 @@
+// Server-side processing pipeline for /api/dashboard
+// Runs the shared TypeScript pipeline once per fetch from the configured data source and caches the result
+// so every open browser tab gets the same precomputed numbers. Each processed
+// fetch is also recorded as a historical snapshot.
+
+import { DashboardData, SourceRows, WeekSettings } from '../src/types';
+import { buildDashboardData, withAsOfDate } from '../src/utils/dashboardData';
+import { mapRawRow } from '../src/utils/rowMapping';
+import { isDefaultWeekSettings } from '../src/utils/weekWindows';
+import { createNormalizationRegistry } from '../src/utils/normalizationRules';
+import { DEFAULT_WEEK_SETTINGS } from '../src/config/weekConfig';
+import { getDataSource } from './dataSources';
+import { getActiveColumnMapping } from './mappingProfiles';
+import { getRegionModel } from './regionModel';
+import { getLenderMasterList } from './lenderMasterList';
+import { getNormalizationRules } from './normalizationRules';
+import { getDuplicateDecisions } from './duplicateDecisions';
+import { saveSnapshot } from './snapshots';
+
+// Slightly shorter than the client refresh interval (5 minutes) so each
+// auto-refresh sees fresh data while simultaneous tabs share one fetch
+// (read lazily: .env is loaded after this module is imported)
+function getCacheTtl(): number {
+  return Number(process.env.DASHBOARD_CACHE_TTL_MS) || 4 * 60 * 1000;
+}
+
+interface CacheEntry {
+  expiresAt: number;
+  data: Promise<DashboardData>;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Returns processed dashboard data for a sheet tab
+ * @param forceRefresh - Ignore any cached result and re-fetch the sheet
+ * @param asOfDate - "yyyy-MM-dd" date to calculate metrics as of; null for now
+ * @param weekSettings - How the weekly roll-up splits time into weeks
+ */
+export async function getDashboardData(
+  sheetName: string,
+  forceRefresh: boolean = false,
+  asOfDate: string | null = null,
+  weekSettings: WeekSettings = DEFAULT_WEEK_SETTINGS
+): Promise<DashboardData> {
+  const data = await getLiveDashboardData(sheetName, forceRefresh);
+
+  // Processing is shared; only the (cheap) metrics are recalculated for past
+  // dates or other week settings
+  return asOfDate || !isDefaultWeekSettings(weekSettings)
+    ? withAsOfDate(data, asOfDate, weekSettings)
+    : data;
+}
+
+function getLiveDashboardData(
+  sheetName: string,
+  forceRefresh: boolean
+): Promise<DashboardData> {
+  const cached = cache.get(sheetName);
+  if (cached && !forceRefresh && cached.expiresAt > Date.now()) {
+    return cached.data;
+  }
+
+  // Cache the promise itself so concurrent requests share a single fetch
+  const data = getDataSource()
+    .fetchRows(sheetName)
+    .then(sourceRows => processRows(sheetName, sourceRows));
+  cacheDashboardData(sheetName, data);
+  return data;
+}
+
+/**
+ * Processes rows fetched elsewhere (e.g. by /api/sheet-data) so they are
+ * snapshotted and served by /api/dashboard without another sheet fetch
+ */
+export function processSheetRows(sheetName: string, sourceRows: SourceRows): Promise<DashboardData> {
+  const data = processRows(sheetName, sourceRows);
+  cacheDashboardData(sheetName, data);
+  return data;
+}
+
+/**
+ * Drops every cached result, e.g. after the active column mapping or the region model changes
+ */
+export function clearDashboardCache(): void {
+  cache.clear();
+}
+
+function cacheDashboardData(sheetName: string, data: Promise<DashboardData>): void {
+  cache.set(sheetName, { expiresAt: Date.now() + getCacheTtl(), data });
+
+  // Don't keep failures around
+  data.catch(() => {
+    if (cache.get(sheetName)?.data === data) {
+      cache.delete(sheetName);
+    }
+  });
+}
+
+async function processRows(
+  sheetName: string,
+  { rows: rawRows, parseErrors }: SourceRows
+): Promise<DashboardData> {
+  const [mapping, regions, lenders, normalizationRules, duplicateDecisions] = await Promise.all([
+    getActiveColumnMapping(),
+    getRegionModel(),
+    getLenderMasterList(),
+    getNormalizationRules(sheetName),
+    getDuplicateDecisions(),
+  ]);
+  const rows = rawRows.map(row => mapRawRow(row, mapping));
+  const data = buildDashboardData(rows, {
+    parseErrors,
+    regions,
+    lenders,
+    normalization: createNormalizationRegistry(normalizationRules),
+    duplicateDecisions: duplicateDecisions.decisions,
+  });
+
+  console.log(
+    `📊 Processed ${data.summary.totalRows} rows from "${sheetName}" via ${getDataSource().label} ` +
+    `(${data.summary.validRows} valid, ${data.issues.length} issues)`
+  );
+
+  // Snapshot in the background; a storage failure shouldn't fail the request
+  saveSnapshot(sheetName, data)
+    .then(snapshot => {
+      if (snapshot) {
+        console.log(`🗂️  Saved snapshot ${snapshot.id} of "${sheetName}"`);
+      }
+    })
+    .catch(error => console.error('Error saving snapshot:', error));
+
+  return data;
+}
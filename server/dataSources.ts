@@ -0,0 +1,102 @@
+// Data sources available to the backend, selected with DATA_SOURCE
+// - google-sheets (default): service account, falling back to the public CSV export
+// - csv-directory: the newest .csv (or .xlsx) file dropped into CSV_DROP_DIR
+// - json-http: rows from JSON_SOURCE_URL
+
+import { createReadStream } from 'fs';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import { DataSource, SourceRows } from '../src/types';
+import { parseCSVStream } from '../src/utils/csv';
+import {
+  combineWorkbookTabs,
+  isWorkbookFile,
+  parseWorkbook,
+  resolveTabSelection,
+} from '../src/utils/spreadsheetFile';
+import { createJsonHttpSource } from '../src/services/dataSources/jsonHttpSource';
+import { fetchRawSheetRows } from './googleSheets';
+import { dataPath } from './dataStore';
+
+let dataSource: DataSource | null = null;
+
+function createGoogleSheetsSource(): DataSource {
+  return {
+    label: 'Google Sheets',
+    fetchRows: fetchRawSheetRows,
+  };
+}
+
+/**
+ * Reads the requested tabs of a workbook (see resolveTabSelection)
+ */
+async function parseWorkbookFile(path: string, sheetName: string): Promise<SourceRows> {
+  const data = await readFile(path);
+  const arrayBuffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const tabs = parseWorkbook(arrayBuffer);
+  return {
+    rows: combineWorkbookTabs(tabs, resolveTabSelection(tabs.map(tab => tab.name), sheetName)),
+    parseErrors: [],
+  };
+}
+
+/**
+ * Reads the most recently modified export in a directory, so exports can be
+ * dropped in (e.g. by a scheduled job) without restarting the server.
+ * Workbooks are read from the requested sheet's tab.
+ */
+function createCsvDirectorySource(directory: string): DataSource {
+  return {
+    label: `CSV directory (${directory})`,
+    async fetchRows(sheetName: string): Promise<SourceRows> {
+      const fileNames = (await readdir(directory)).filter(
+        name => name.toLowerCase().endsWith('.csv') || isWorkbookFile(name)
+      );
+      if (fileNames.length === 0) {
+        throw new Error(`No .csv or .xlsx files found in ${directory}`);
+      }
+
+      const files = await Promise.all(
+        fileNames.map(async name => ({ name, modified: (await stat(join(directory, name))).mtimeMs }))
+      );
+      const newest = files.sort((a, b) => b.modified - a.modified)[0];
+
+      console.log(`📂 Reading ${newest.name} from ${directory}`);
+      const path = join(directory, newest.name);
+      return isWorkbookFile(newest.name)
+        ? parseWorkbookFile(path, sheetName)
+        : parseCSVStream(createReadStream(path, { encoding: 'utf8' }));
+    },
+  };
+}
+
+/**
+ * Creates a data source from the environment
+ */
+export function createDataSource(type: string | undefined): DataSource {
+  switch (type || 'google-sheets') {
+    case 'google-sheets':
+      return createGoogleSheetsSource();
+    case 'csv-directory':
+      return createCsvDirectorySource(process.env.CSV_DROP_DIR || dataPath('csv-drop'));
+    case 'json-http':
+      if (!process.env.JSON_SOURCE_URL) {
+        throw new Error('DATA_SOURCE=json-http requires JSON_SOURCE_URL');
+      }
+      return createJsonHttpSource(process.env.JSON_SOURCE_URL);
+    default:
+      throw new Error(
+        `Unknown DATA_SOURCE "${type}". Expected google-sheets, csv-directory or json-http`
+      );
+  }
+}
+
+/**
+ * The configured data source (created on first use, after .env has loaded)
+ */
+export function getDataSource(): DataSource {
+  if (!dataSource) {
+    dataSource = createDataSource(process.env.DATA_SOURCE);
+  }
+  return dataSource;
+}
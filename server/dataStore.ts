@@ -0,0 +1,44 @@
+// Local JSON-file storage for server-side state (snapshots, saved settings)
+// Files live under DATA_DIR (default: <repo>/data), which is not committed.
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const ROOT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+/**
+ * Resolves a path inside the data directory
+ * Read lazily so DATA_DIR from .env is honoured (env files load after imports)
+ */
+export function dataPath(...segments: string[]): string {
+  return join(process.env.DATA_DIR || join(ROOT_DIR, 'data'), ...segments);
+}
+
+/**
+ * Reads and parses a JSON file, returning the fallback when it doesn't exist yet
+ */
+export async function readJsonFile<T>(
+  path: string,
+  fallback: T,
+  reviver?: (key: string, value: unknown) => unknown
+): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'), reviver) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Writes a JSON file atomically (write to a temp file, then rename over the target)
+ */
+export async function writeJsonFile(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await rename(tempPath, path);
+}
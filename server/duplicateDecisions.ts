@@ -0,0 +1,48 @@
+// Saved duplicate reviews
+// Decisions made in the Duplicates screen, stored under DATA_DIR and keyed by
+// the fingerprints of the cluster's rows, so every fetch applies them however
+// the sheet is reordered
+
+import { DuplicateDecision, DuplicateDecisionList } from '../src/types';
+import { sanitizeDuplicateDecisionList, setDuplicateDecision } from '../src/utils/duplicateClusters';
+import { dataPath, readJsonFile, writeJsonFile } from './dataStore';
+
+// Writes are queued so concurrent saves can't interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function decisionsPath(): string {
+  return dataPath('duplicate-decisions.json');
+}
+
+/**
+ * Returns the saved decisions (none until a cluster is reviewed)
+ */
+export async function getDuplicateDecisions(): Promise<DuplicateDecisionList> {
+  const stored = await readJsonFile<DuplicateDecisionList | null>(decisionsPath(), null);
+  return stored ? sanitizeDuplicateDecisionList(stored) : { decisions: [] };
+}
+
+function update(change: (list: DuplicateDecisionList) => DuplicateDecisionList): Promise<DuplicateDecisionList> {
+  const result = writeQueue.then(async () => {
+    const list = change(await getDuplicateDecisions());
+    await writeJsonFile(decisionsPath(), list);
+    return list;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Saves the decision for a cluster, replacing any earlier one
+ * @param decision - Already checked with sanitizeDuplicateDecision
+ */
+export function saveDuplicateDecision(decision: DuplicateDecision): Promise<DuplicateDecisionList> {
+  return update(list => setDuplicateDecision(list, { ...decision, decidedAt: new Date().toISOString() }));
+}
+
+/**
+ * Removes the decision for a cluster, so it's pending review again
+ */
+export function deleteDuplicateDecision(clusterId: string): Promise<DuplicateDecisionList> {
+  return update(list => ({ decisions: list.decisions.filter(decision => decision.clusterId !== clusterId) }));
+}
@@ -0,0 +1,134 @@
+// Google Sheets access for the backend
+// Uses the service account when configured, otherwise the public CSV export
+
+import { google } from 'googleapis';
+import { JWT } from 'google-auth-library';
+import https from 'https';
+import { GOOGLE_SHEET_ID } from '../src/config/sheetConfig';
+import { RawSheetRow, SourceRows } from '../src/types';
+import { parseCSVStream } from '../src/utils/csv';
+
+let authClient: JWT | null = null;
+
+/**
+ * Initializes the service account client from the environment
+ * Returns null (and logs why) when the key is missing or invalid
+ */
+export function initializeAuth(): JWT | null {
+  // Try both with and without VITE_ prefix
+  const serviceAccountKey = process.env.VITE_GOOGLE_SERVICE_ACCOUNT_KEY ||
+                            process.env.GOOGLE_SERVICE_ACCOUNT_KEY;
+
+  if (!serviceAccountKey) {
+    console.error('ERROR: Service account key not found in .env file');
+    console.error('Looking for: VITE_GOOGLE_SERVICE_ACCOUNT_KEY or GOOGLE_SERVICE_ACCOUNT_KEY');
+    console.error('Available env vars:', Object.keys(process.env).filter(k => k.includes('GOOGLE')));
+    return null;
+  }
+
+  try {
+    // Remove surrounding quotes if present (from .env file)
+    let keyToParse = serviceAccountKey.trim();
+
+    // Remove quotes - handle both single and double quotes
+    const firstChar = keyToParse.charAt(0);
+    const lastChar = keyToParse.charAt(keyToParse.length - 1);
+
+    if ((firstChar === "'" && lastChar === "'") || (firstChar === '"' && lastChar === '"')) {
+      keyToParse = keyToParse.slice(1, -1);
+    }
+
+    // Final trim - DO NOT convert \\n to \n here, JSON.parse will handle it
+    keyToParse = keyToParse.trim();
+
+    const credentials = JSON.parse(keyToParse);
+
+    // Now convert the \n in the private_key to actual newlines (after parsing)
+    if (credentials.private_key) {
+      credentials.private_key = credentials.private_key.replace(/\\n/g, '\n');
+    }
+
+    authClient = new JWT({
+      email: credentials.client_email,
+      key: credentials.private_key,
+      scopes: ['https://www.googleapis.com/auth/spreadsheets.readonly'],
+    });
+
+    console.log('✅ Service account initialized successfully');
+    return authClient;
+  } catch (error) {
+    console.error('ERROR: Failed to initialize service account:', error instanceof Error ? error.message : error);
+    console.error('First 100 chars of key:', serviceAccountKey.substring(0, 100));
+    return null;
+  }
+}
+
+/**
+ * Whether the service account client is available
+ */
+export function isAuthenticated(): boolean {
+  return authClient !== null;
+}
+
+/**
+ * Fetches a sheet tab as header-keyed rows, with any malformed CSV records
+ * Tries the service account first, then falls back to the public CSV export
+ */
+export async function fetchRawSheetRows(sheetName: string): Promise<SourceRows> {
+  // Try service account first if available
+  if (authClient) {
+    try {
+      const sheets = google.sheets({ version: 'v4', auth: authClient });
+
+      const response = await sheets.spreadsheets.values.get({
+        spreadsheetId: GOOGLE_SHEET_ID,
+        range: sheetName,
+      });
+
+      const values = response.data.values;
+      if (!values || values.length === 0) {
+        return { rows: [], parseErrors: [] };
+      }
+
+      const [headers, ...rows] = values as string[][];
+      return {
+        rows: rows.map(row => {
+          const rowObj: RawSheetRow = {};
+          headers.forEach((header, index) => {
+            rowObj[header] = row[index] || '';
+          });
+          return rowObj;
+        }),
+        parseErrors: [],
+      };
+    } catch (error) {
+      console.error('Error fetching sheet data via API:', error);
+      // Fall through to CSV export
+      console.log('Falling back to CSV export...');
+    }
+  } else {
+    console.log('Service account not available, using CSV export...');
+  }
+
+  // Fallback to CSV export (works for public sheets)
+  const csvUrl = `https://docs.google.com/spreadsheets/d/${GOOGLE_SHEET_ID}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(sheetName)}`;
+  return downloadCSV(csvUrl);
+}
+
+/**
+ * Downloads a CSV export, parsing it as it streams in
+ */
+function downloadCSV(url: string): Promise<SourceRows> {
+  return new Promise((resolve, reject) => {
+    https.get(url, response => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error(`Failed to fetch CSV: ${response.statusCode}`));
+        return;
+      }
+
+      response.setEncoding('utf8');
+      parseCSVStream(response as AsyncIterable<string>).then(resolve, reject);
+    }).on('error', reject);
+  });
+}
@@ -0,0 +1,469 @@
+// Backend server for accessing private Google Sheets
+// Uses the service account to fetch data securely and runs the shared
+// processing pipeline so browsers receive precomputed dashboard data
+
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import { existsSync } from 'fs';
+import { initializeAuth, isAuthenticated } from './googleSheets';
+import { getDataSource } from './dataSources';
+import { clearDashboardCache, getDashboardData, processSheetRows } from './dashboard';
+import { compareStoredSnapshots, listSnapshots } from './snapshots';
+import {
+  deleteMappingProfile,
+  getMappingSettings,
+  parseProfileName,
+  saveMappingProfile,
+  setActiveMappingProfile,
+} from './mappingProfiles';
+import { getRegionModel, saveRegionModel } from './regionModel';
+import { getLenderMasterList, saveLenderMasterList } from './lenderMasterList';
+import { getNormalizationRules } from './normalizationRules';
+import { deleteDuplicateDecision, getDuplicateDecisions, saveDuplicateDecision } from './duplicateDecisions';
+import { isValidAsOfDate } from '../src/utils/reportingDate';
+import { sanitizeColumnMapping } from '../src/utils/rowMapping';
+import { parseWeekSettings } from '../src/utils/weekWindows';
+import { sanitizeRegionModel } from '../src/utils/regionMapping';
+import { sanitizeLenderMasterList } from '../src/utils/lenderResolution';
+import { sanitizeDuplicateDecision } from '../src/utils/duplicateClusters';
+import { MAX_WEEKS } from '../src/config/weekConfig';
+import { ColumnMapping, DuplicateDecision, LenderMasterList, RegionModel } from '../src/types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const ROOT_DIR = join(__dirname, '..');
+
+// Load environment variables - try .env.server first, then .env
+let envPath = join(ROOT_DIR, '.env.server');
+let result;
+
+// Try to load .env.server, but fall back to .env if it fails
+if (existsSync(envPath)) {
+  console.log('Loading .env from:', envPath);
+  result = dotenv.config({ path: envPath });
+
+  // If there's an error (like permission issues), fall back to .env
+  if (result.error) {
+    console.warn('⚠️  Could not load .env.server, falling back to .env:', result.error.message);
+    envPath = join(ROOT_DIR, '.env');
+    result = dotenv.config({ path: envPath });
+  }
+} else {
+  envPath = join(ROOT_DIR, '.env');
+  console.log('Loading .env from:', envPath);
+  result = dotenv.config({ path: envPath });
+}
+
+if (result.error) {
+  console.warn('⚠️  Could not load .env file (permission issue). Server will continue but may not have access to Google Sheets.');
+  console.warn('   Error:', result.error.message);
+  // Continue anyway - the server can still run, just won't have auth
+} else {
+  console.log('✅ .env file loaded');
+  // Debug: show if the key exists (without showing the value)
+  if (process.env.VITE_GOOGLE_SERVICE_ACCOUNT_KEY) {
+    console.log('✅ VITE_GOOGLE_SERVICE_ACCOUNT_KEY found in environment');
+  } else {
+    console.log('❌ VITE_GOOGLE_SERVICE_ACCOUNT_KEY NOT found in environment');
+  }
+}
+
+const app = express();
+const PORT = Number(process.env.PORT) || 3001;
+const HOST = process.env.HOST || '0.0.0.0';
+const NODE_ENV = process.env.NODE_ENV || 'development';
+
+// Enable CORS for the frontend
+const allowedOrigins = [
+  'http://localhost:5173',
+  'http://localhost:5174',
+  'http://localhost:3000',
+  'http://127.0.0.1:5173',
+  'http://127.0.0.1:5174',
+  'http://localhost:3001',
+  'http://127.0.0.1:3001',
+  'http://127.0.0.1:3002',
+];
+
+app.use(cors({
+  origin: (origin, callback) => {
+    // Allow requests with no origin (like mobile apps or curl requests)
+    if (!origin) return callback(null, true);
+    if (allowedOrigins.indexOf(origin) !== -1 || NODE_ENV === 'production') {
+      callback(null, true);
+    } else {
+      callback(null, true); // Allow all in production for flexibility
+    }
+  },
+  credentials: true
+}));
+app.use(express.json());
+
+// Log all requests for debugging
+app.use((req, _res, next) => {
+  console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
+  next();
+});
+
+// Initialize on startup
+initializeAuth();
+
+try {
+  console.log(`📥 Data source: ${getDataSource().label}`);
+} catch (error) {
+  console.error('ERROR:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+/**
+ * Reads the ?sheet= query parameter
+ */
+function getSheetName(req: express.Request): string {
+  return typeof req.query.sheet === 'string' && req.query.sheet
+    ? req.query.sheet
+    : 'Complaints';
+}
+
+// API endpoint to fetch raw sheet data
+app.get('/api/sheet-data', async (req, res) => {
+  try {
+    const sheetName = getSheetName(req);
+    const sourceRows = await getDataSource().fetchRows(sheetName);
+
+    // Process (and snapshot) in the background; the raw rows are returned as-is
+    processSheetRows(sheetName, sourceRows).catch(error => {
+      console.error('Error processing sheet data:', error);
+    });
+
+    res.json({ data: sourceRows.rows, parseErrors: sourceRows.parseErrors });
+  } catch (error) {
+    console.error('Error fetching sheet data:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to fetch sheet data',
+      message: `Could not read rows from ${getDataSource().label}. For Google Sheets, make sure the sheet is public or service account is configured.`
+    });
+  }
+});
+
+// API endpoint returning processed complaints, quality issues and precomputed metrics
+// Optional ?asOf=yyyy-MM-dd calculates the time-windowed metrics as of that date
+// Optional ?weekMode=, ?weeks=, ?weekStartsOn= and ?fiscalYearStart= set the weekly roll-up's weeks
+app.get('/api/dashboard', async (req, res) => {
+  const { asOf } = req.query;
+  if (asOf !== undefined && !isValidAsOfDate(asOf)) {
+    return res.status(400).json({ error: 'Invalid asOf date, expected yyyy-MM-dd' });
+  }
+
+  const weekSettings = parseWeekSettings(req.query);
+  if (!weekSettings) {
+    return res.status(400).json({
+      error: `Invalid week settings, expected weekMode rolling|iso|custom|fiscal, weeks 1-${MAX_WEEKS}, weekStartsOn 0-6 and fiscalYearStart MM-dd`
+    });
+  }
+
+  try {
+    const data = await getDashboardData(
+      getSheetName(req),
+      req.query.refresh === 'true',
+      asOf ?? null,
+      weekSettings
+    );
+    res.json(data);
+  } catch (error) {
+    console.error('Error building dashboard data:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to build dashboard data',
+      message: `Could not fetch or process rows from ${getDataSource().label}. For Google Sheets, make sure the sheet is public or service account is configured.`
+    });
+  }
+});
+
+// API endpoint listing stored snapshots of a sheet, newest first
+app.get('/api/snapshots', async (req, res) => {
+  try {
+    res.json({ snapshots: await listSnapshots(getSheetName(req)) });
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to list snapshots'
+    });
+  }
+});
+
+// API endpoint comparing two snapshots: ?from=<id>&to=<id>
+app.get('/api/snapshots/compare', async (req, res) => {
+  const { from, to } = req.query;
+  if (typeof from !== 'string' || typeof to !== 'string' || !from || !to) {
+    return res.status(400).json({ error: 'Both from and to snapshot IDs are required' });
+  }
+
+  try {
+    const comparison = await compareStoredSnapshots(from, to);
+    if (!comparison) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.json(comparison);
+  } catch (error) {
+    console.error('Error comparing snapshots:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to compare snapshots'
+    });
+  }
+});
+
+// API endpoint listing saved column mapping profiles and the active one
+app.get('/api/column-mapping', async (_req, res) => {
+  try {
+    res.json(await getMappingSettings());
+  } catch (error) {
+    console.error('Error reading column mapping profiles:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read column mapping profiles'
+    });
+  }
+});
+
+// API endpoint creating or replacing a profile: body { mapping: { field: [columns...] } }
+app.put('/api/column-mapping/profiles/:name', async (req, res) => {
+  let name: string;
+  let mapping: ColumnMapping;
+  try {
+    name = parseProfileName(req.params.name);
+    mapping = sanitizeColumnMapping(req.body?.mapping);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const profile = await saveMappingProfile(name, mapping);
+    // Rows mapped with the old version of the active profile are stale
+    if ((await getMappingSettings()).activeProfile === name) {
+      clearDashboardCache();
+    }
+    console.log(`🗺️  Saved column mapping profile "${name}"`);
+    res.json(profile);
+  } catch (error) {
+    console.error('Error saving column mapping profile:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to save column mapping profile'
+    });
+  }
+});
+
+app.delete('/api/column-mapping/profiles/:name', async (req, res) => {
+  try {
+    if (!(await deleteMappingProfile(req.params.name))) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+    clearDashboardCache();
+    console.log(`🗺️  Deleted column mapping profile "${req.params.name}"`);
+    res.json(await getMappingSettings());
+  } catch (error) {
+    console.error('Error deleting column mapping profile:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to delete column mapping profile'
+    });
+  }
+});
+
+// API endpoint choosing the profile used to map rows: body { name } (null for the built-in mapping)
+app.put('/api/column-mapping/active', async (req, res) => {
+  const name = req.body?.name ?? null;
+  if (name !== null && typeof name !== 'string') {
+    return res.status(400).json({ error: 'Expected a profile name or null' });
+  }
+
+  try {
+    if (!(await setActiveMappingProfile(name))) {
+      return res.status(404).json({ error: 'Profile not found' });
+    }
+    clearDashboardCache();
+    console.log(`🗺️  Active column mapping: ${name ?? 'built-in'}`);
+    res.json(await getMappingSettings());
+  } catch (error) {
+    console.error('Error activating column mapping profile:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to activate column mapping profile'
+    });
+  }
+});
+
+// API endpoint returning the region model (the built-in one until a model is saved)
+app.get('/api/regions', async (_req, res) => {
+  try {
+    res.json(await getRegionModel());
+  } catch (error) {
+    console.error('Error reading the region model:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read the region model'
+    });
+  }
+});
+
+// API endpoint replacing the region model: body { regions: [{ name, state?, counties: [...] }] }
+app.put('/api/regions', async (req, res) => {
+  let model: RegionModel;
+  try {
+    model = sanitizeRegionModel(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const saved = await saveRegionModel(model);
+    // Rows were assigned regions with the old model
+    clearDashboardCache();
+    console.log(`🗺️  Saved region model (${saved.regions.length} regions)`);
+    res.json(saved);
+  } catch (error) {
+    console.error('Error saving the region model:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to save the region model'
+    });
+  }
+});
+
+// API endpoint returning the lender master list (the built-in one until a list is saved)
+app.get('/api/lenders', async (_req, res) => {
+  try {
+    res.json(await getLenderMasterList());
+  } catch (error) {
+    console.error('Error reading the lender master list:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read the lender master list'
+    });
+  }
+});
+
+// API endpoint replacing the lender master list: body { lenders: [{ name, aliases: [...], patterns: [...] }] }
+app.put('/api/lenders', async (req, res) => {
+  let list: LenderMasterList;
+  try {
+    list = sanitizeLenderMasterList(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const saved = await saveLenderMasterList(list);
+    // Lender names were resolved with the old list
+    clearDashboardCache();
+    console.log(`🏦 Saved lender master list (${saved.lenders.length} lenders)`);
+    res.json(saved);
+  } catch (error) {
+    console.error('Error saving the lender master list:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to save the lender master list'
+    });
+  }
+});
+
+// API endpoint returning the normalization rules a sheet's rows are normalized with
+// (its tenant's rule set from the rule file, else the file's default)
+app.get('/api/normalization-rules', async (req, res) => {
+  try {
+    res.json(await getNormalizationRules(getSheetName(req)));
+  } catch (error) {
+    console.error('Error reading the normalization rules:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read the normalization rules'
+    });
+  }
+});
+
+// API endpoint returning the saved duplicate cluster reviews
+app.get('/api/duplicate-decisions', async (_req, res) => {
+  try {
+    res.json(await getDuplicateDecisions());
+  } catch (error) {
+    console.error('Error reading duplicate decisions:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read duplicate decisions'
+    });
+  }
+});
+
+// API endpoint confirming or rejecting a duplicate cluster:
+// body { status: "confirmed" | "rejected", fingerprints: [...], survivor }
+app.put('/api/duplicate-decisions/:clusterId', async (req, res) => {
+  let decision: DuplicateDecision;
+  try {
+    decision = sanitizeDuplicateDecision({ ...req.body, clusterId: req.params.clusterId });
+  } catch (error) {
+    return res.status(400).json({ error: (error as Error).message });
+  }
+
+  try {
+    const saved = await saveDuplicateDecision(decision);
+    // Duplicates were dropped by the old decisions
+    clearDashboardCache();
+    console.log(`🧮 Marked duplicate cluster ${decision.clusterId} as ${decision.status}`);
+    res.json(saved);
+  } catch (error) {
+    console.error('Error saving duplicate decision:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to save duplicate decision'
+    });
+  }
+});
+
+// API endpoint clearing a cluster's decision, so it's pending review again
+app.delete('/api/duplicate-decisions/:clusterId', async (req, res) => {
+  try {
+    const saved = await deleteDuplicateDecision(req.params.clusterId);
+    clearDashboardCache();
+    console.log(`🧮 Cleared the decision for duplicate cluster ${req.params.clusterId}`);
+    res.json(saved);
+  } catch (error) {
+    console.error('Error clearing duplicate decision:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to clear duplicate decision'
+    });
+  }
+});
+
+// Health check
+app.get('/api/health', (_req, res) => {
+  res.json({
+    status: 'ok',
+    authenticated: isAuthenticated(),
+    dataSource: getDataSource().label
+  });
+});
+
+// Serve static files from the React app in production
+if (NODE_ENV === 'production') {
+  const distPath = join(ROOT_DIR, 'dist');
+  if (existsSync(distPath)) {
+    // Serve static files
+    app.use(express.static(distPath));
+
+    // Handle React routing - return all requests to React app
+    app.get('*', (req, res) => {
+      // Don't serve index.html for API routes
+      if (req.path.startsWith('/api/')) {
+        return res.status(404).json({ error: 'API endpoint not found' });
+      }
+      res.sendFile(join(distPath, 'index.html'));
+    });
+
+    console.log('✅ Serving static files from dist/');
+  } else {
+    console.warn('⚠️  Production mode but dist/ folder not found. Run "npm run build" first.');
+  }
+}
+
+app.listen(PORT, HOST, () => {
+  console.log(`🚀 Server running on http://${HOST}:${PORT}`);
+  if (NODE_ENV === 'production') {
+    console.log(`📱 Open http://${HOST}:${PORT} in your browser`);
+  } else {
+    console.log(`📊 API endpoint: http://${HOST}:${PORT}/api/dashboard?sheet=Complaints`);
+  }
+  if (!isAuthenticated()) {
+    console.log('⚠️  WARNING: Service account not initialized. Check your .env file.');
+  }
+});
@@ -0,0 +1,35 @@
+// Saved lender master list
+// Edited in the Lenders screen and stored under DATA_DIR, so new aliases and
+// consolidation patterns don't need a deploy. Every fetch resolves lenders with it.
+
+import { LenderMasterList } from '../src/types';
+import { DEFAULT_LENDER_MASTER_LIST } from '../src/config/lenderConfig';
+import { sanitizeLenderMasterList } from '../src/utils/lenderResolution';
+import { dataPath, readJsonFile, writeJsonFile } from './dataStore';
+
+// Writes are queued so concurrent saves can't interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function listPath(): string {
+  return dataPath('lenders.json');
+}
+
+/**
+ * Returns the saved lender master list, or the built-in one when none has been saved
+ */
+export async function getLenderMasterList(): Promise<LenderMasterList> {
+  const stored = await readJsonFile<LenderMasterList | null>(listPath(), null);
+  if (!stored) return DEFAULT_LENDER_MASTER_LIST;
+  return { ...sanitizeLenderMasterList(stored), updatedAt: stored.updatedAt };
+}
+
+/**
+ * Replaces the saved lender master list
+ * @param list - Already checked with sanitizeLenderMasterList
+ */
+export function saveLenderMasterList(list: LenderMasterList): Promise<LenderMasterList> {
+  const saved: LenderMasterList = { lenders: list.lenders, updatedAt: new Date().toISOString() };
+  const result = writeQueue.then(() => writeJsonFile(listPath(), saved)).then(() => saved);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
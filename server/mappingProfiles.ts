@@ -0,0 +1,108 @@
+// Saved column mapping profiles
+// Profiles are edited in the Column Mapping screen and stored under DATA_DIR,
+// so they survive redeploys. The active profile is used to map every fetch.
+
+import { ColumnMapping, ColumnMappingProfile, ColumnMappingSettings } from '../src/types';
+import { resolveActiveMapping, sanitizeColumnMapping } from '../src/utils/rowMapping';
+import { dataPath, readJsonFile, writeJsonFile } from './dataStore';
+
+const MAX_NAME_LENGTH = 100;
+
+const EMPTY_SETTINGS: ColumnMappingSettings = { activeProfile: null, profiles: [] };
+
+// Writes are queued so concurrent edits can't overwrite each other
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function settingsPath(): string {
+  return dataPath('column-mapping.json');
+}
+
+function update<T>(change: (settings: ColumnMappingSettings) => T): Promise<T> {
+  const result = writeQueue.then(async () => {
+    const settings = await getMappingSettings();
+    const value = change(settings);
+    await writeJsonFile(settingsPath(), settings);
+    return value;
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Validates a profile name from a request
+ * @throws When the name is blank or too long
+ */
+export function parseProfileName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new Error(`Profile names must be 1-${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+/**
+ * Returns the saved profiles (sorted by name) and which one is active
+ */
+export async function getMappingSettings(): Promise<ColumnMappingSettings> {
+  const settings = await readJsonFile<ColumnMappingSettings>(settingsPath(), EMPTY_SETTINGS);
+  return {
+    activeProfile: settings.activeProfile ?? null,
+    // Profiles saved as plain column lists are read as coalesce rules
+    profiles: (settings.profiles ?? [])
+      .map(profile => ({ ...profile, mapping: sanitizeColumnMapping(profile.mapping) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Returns the active profile's mapping, or the built-in mapping when none is active
+ */
+export async function getActiveColumnMapping(): Promise<ColumnMapping> {
+  return resolveActiveMapping(await getMappingSettings());
+}
+
+/**
+ * Creates or replaces a named profile
+ * @param mapping - Already checked with sanitizeColumnMapping
+ */
+export function saveMappingProfile(name: string, mapping: ColumnMapping): Promise<ColumnMappingProfile> {
+  const profile: ColumnMappingProfile = {
+    name,
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+
+  return update(settings => {
+    settings.profiles = [...settings.profiles.filter(existing => existing.name !== name), profile];
+    return profile;
+  });
+}
+
+/**
+ * Deletes a profile; deleting the active profile reverts to the built-in mapping
+ * @returns Whether the profile existed
+ */
+export function deleteMappingProfile(name: string): Promise<boolean> {
+  return update(settings => {
+    const existed = settings.profiles.some(profile => profile.name === name);
+    settings.profiles = settings.profiles.filter(profile => profile.name !== name);
+    if (settings.activeProfile === name) {
+      settings.activeProfile = null;
+    }
+    return existed;
+  });
+}
+
+/**
+ * Activates a profile, or the built-in mapping when name is null
+ * @returns False when the profile doesn't exist
+ */
+export function setActiveMappingProfile(name: string | null): Promise<boolean> {
+  return update(settings => {
+    if (name !== null && !settings.profiles.some(profile => profile.name === name)) {
+      return false;
+    }
+    settings.activeProfile = name;
+    return true;
+  });
+}
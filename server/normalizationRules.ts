@@ -0,0 +1,34 @@
+// Normalization rule file
+// Declarative county and lender rules, per tenant (sheet tab), in a JSON file
+// maintained by hand: DATA_DIR/normalization-rules.json unless
+// NORMALIZATION_RULES_FILE points elsewhere. It is read on every fetch, so
+// edits apply from the next refresh without a restart.
+
+import { NormalizationRuleFile, NormalizationRuleSet } from '../src/types';
+import { getTenantRuleSet, sanitizeNormalizationRuleFile } from '../src/utils/normalizationRules';
+import { dataPath, readJsonFile } from './dataStore';
+
+// Read lazily so NORMALIZATION_RULES_FILE from .env is honoured
+function rulesPath(): string {
+  return process.env.NORMALIZATION_RULES_FILE || dataPath('normalization-rules.json');
+}
+
+/**
+ * Returns the rule file, or an empty one when there is no file
+ * @throws When the file isn't valid JSON or a rule is invalid, naming the file
+ */
+export async function getNormalizationRuleFile(): Promise<NormalizationRuleFile> {
+  const path = rulesPath();
+  try {
+    return sanitizeNormalizationRuleFile(await readJsonFile<unknown>(path, {}));
+  } catch (error) {
+    throw new Error(`Invalid normalization rules in ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Returns the rule set a sheet's rows are normalized with
+ */
+export async function getNormalizationRules(sheetName: string): Promise<NormalizationRuleSet> {
+  return getTenantRuleSet(await getNormalizationRuleFile(), sheetName);
+}
@@ -0,0 +1,35 @@
+// Saved region model
+// Edited in the Regions screen and stored under DATA_DIR, so new regions and
+// counties don't need a code change. Every fetch assigns regions with it.
+
+import { RegionModel } from '../src/types';
+import { DEFAULT_REGION_MODEL } from '../src/config/regionConfig';
+import { sanitizeRegionModel } from '../src/utils/regionMapping';
+import { dataPath, readJsonFile, writeJsonFile } from './dataStore';
+
+// Writes are queued so concurrent saves can't interleave
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function modelPath(): string {
+  return dataPath('regions.json');
+}
+
+/**
+ * Returns the saved region model, or the built-in one when none has been saved
+ */
+export async function getRegionModel(): Promise<RegionModel> {
+  const stored = await readJsonFile<RegionModel | null>(modelPath(), null);
+  if (!stored) return DEFAULT_REGION_MODEL;
+  return { ...sanitizeRegionModel(stored), updatedAt: stored.updatedAt };
+}
+
+/**
+ * Replaces the saved region model
+ * @param model - Already checked with sanitizeRegionModel
+ */
+export function saveRegionModel(model: RegionModel): Promise<RegionModel> {
+  const saved: RegionModel = { regions: model.regions, updatedAt: new Date().toISOString() };
+  const result = writeQueue.then(() => writeJsonFile(modelPath(), saved)).then(() => saved);
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
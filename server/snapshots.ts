@@ -0,0 +1,111 @@
+// Historical snapshots of processed sheet data
+// Every processed fetch whose rows differ from the sheet's latest snapshot is
+// saved, so edits and deletions in the sheet can be compared after the fact.
+
+import { createHash, randomUUID } from 'crypto';
+import { unlink } from 'fs/promises';
+import { DashboardData, Snapshot, SnapshotComparison, SnapshotMeta } from '../src/types';
+import { compareSnapshots, toSnapshotMeta } from '../src/utils/snapshotDiff';
+import { reviveDates } from '../src/utils/jsonDates';
+import { dataPath, readJsonFile, writeJsonFile } from './dataStore';
+
+const DEFAULT_MAX_SNAPSHOTS = 200;
+
+// Writes are queued so concurrent fetches can't interleave index updates
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function indexPath(): string {
+  return dataPath('snapshots', 'index.json');
+}
+
+function snapshotPath(id: string): string {
+  return dataPath('snapshots', `${id}.json`);
+}
+
+function getMaxSnapshots(): number {
+  return Number(process.env.SNAPSHOT_MAX_COUNT) || DEFAULT_MAX_SNAPSHOTS;
+}
+
+function hashComplaints(data: DashboardData): string {
+  return createHash('sha256').update(JSON.stringify(data.complaints)).digest('hex');
+}
+
+/**
+ * Lists stored snapshots, newest first
+ * @param sheetName - Only list snapshots of this sheet tab
+ */
+export async function listSnapshots(sheetName?: string): Promise<SnapshotMeta[]> {
+  const index = await readJsonFile<SnapshotMeta[]>(indexPath(), []);
+  return index
+    .filter(meta => !sheetName || meta.sheetName === sheetName)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Loads a stored snapshot, or null when the ID is unknown
+ */
+export async function getSnapshot(id: string): Promise<Snapshot | null> {
+  const index = await readJsonFile<SnapshotMeta[]>(indexPath(), []);
+  if (!index.some(meta => meta.id === id)) {
+    return null;
+  }
+  return readJsonFile<Snapshot | null>(snapshotPath(id), null, reviveDates);
+}
+
+/**
+ * Compares two stored snapshots, or returns null when either doesn't exist
+ */
+export async function compareStoredSnapshots(
+  fromId: string,
+  toId: string
+): Promise<SnapshotComparison | null> {
+  const [from, to] = await Promise.all([getSnapshot(fromId), getSnapshot(toId)]);
+  return from && to ? compareSnapshots(from, to) : null;
+}
+
+/**
+ * Saves processed data as a new snapshot unless the rows are identical to the
+ * sheet's latest snapshot
+ * @returns The new snapshot's list entry, or null when nothing changed
+ */
+export function saveSnapshot(sheetName: string, data: DashboardData): Promise<SnapshotMeta | null> {
+  const result = writeQueue.then(() => writeSnapshot(sheetName, data));
+  writeQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function writeSnapshot(sheetName: string, data: DashboardData): Promise<SnapshotMeta | null> {
+  const contentHash = hashComplaints(data);
+  const index = await readJsonFile<SnapshotMeta[]>(indexPath(), []);
+
+  const latest = index
+    .filter(meta => meta.sheetName === sheetName)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (latest?.contentHash === contentHash) {
+    return null;
+  }
+
+  const snapshot: Snapshot = {
+    id: randomUUID(),
+    sheetName,
+    createdAt: data.generatedAt,
+    contentHash,
+    totalRows: data.summary.totalRows,
+    validRows: data.summary.validRows,
+    complaints: data.complaints,
+    summary: data.summary,
+    metrics: data.metrics,
+  };
+  await writeJsonFile(snapshotPath(snapshot.id), snapshot);
+
+  // Keep the newest snapshots, dropping the oldest once over the limit
+  const updated = [...index, toSnapshotMeta(snapshot)]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const kept = updated.slice(0, getMaxSnapshots());
+  const dropped = updated.slice(kept.length);
+
+  await writeJsonFile(indexPath(), kept);
+  await Promise.all(dropped.map(meta => unlink(snapshotPath(meta.id)).catch(() => undefined)));
+
+  return toSnapshotMeta(snapshot);
+}
@@ -1,33 +1,153 @@
 // Main App Component
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useSheetData } from './hooks/useSheetData';
-import {
-  calculateFourWeekRollUpWeekly,
-  calculateMonthlyLenderData,
-  calculateMonthlyTrendSummary,
-  calculateLenderCriteriaSummary,
-  getFlowThroughYTD,
-  getFlowThroughLastWeek,
-  calculateCurrentMonthRegionSummary,
-  calculateYTDRegionSummary,
-  calculateYearSummary,
-} from './utils/calculations';
 import { FourWeekRollUpWeeklyTable } from './components/FourWeekRollUpWeekly';
 import { TopLendersMonthly } from './components/TopLendersMonthly';
 import { LenderAnalysisSummary } from './components/LenderAnalysisSummary';
 import { FlowThroughAnalysis } from './components/FlowThroughAnalysis';
 import { DataQualityPanel } from './components/DataQualityPanel';
 import { SummaryPage } from './components/SummaryPage';
+import { AsOfDatePicker } from './components/AsOfDatePicker';
+import { SnapshotHistory } from './components/SnapshotHistory';
+import { DataSourcePicker } from './components/DataSourcePicker';
+import { ColumnMappingEditor } from './components/ColumnMappingEditor';
+import { CriteriaReconciliation } from './components/CriteriaReconciliation';
+import { CriteriaSimulator } from './components/CriteriaSimulator';
+import { RegionEditor } from './components/RegionEditor';
+import { LenderEditor } from './components/LenderEditor';
+import { NormalizationAudit } from './components/NormalizationAudit';
+import { DuplicateReview } from './components/DuplicateReview';
+import { RefreshChanges } from './components/RefreshChanges';
+import { createDataSource } from './services/dataSources';
+import { fetchMappingSettings } from './services/columnMappingApi';
+import { fetchRegionModel } from './services/regionApi';
+import { fetchLenderMasterList } from './services/lenderApi';
+import { fetchNormalizationRules } from './services/normalizationApi';
+import { fetchDuplicateDecisions } from './services/duplicateApi';
+import {
+  ColumnMapping,
+  DataSource,
+  DuplicateDecisionList,
+  LenderMasterList,
+  NormalizationRuleSet,
+  RegionModel,
+  WeekSettings,
+} from './types';
+import { resolveReferenceDate } from './utils/reportingDate';
+import { resolveActiveMapping } from './utils/rowMapping';
+import { createNormalizationRegistry } from './utils/normalizationRules';
+import { formatDate } from './utils/calculations';
 import './App.css';
 
 import { SHEET_NAME } from './config/sheetConfig';
+import { DataSourceType, DEFAULT_DATA_SOURCE } from './config/dataSourceConfig';
+import { DEFAULT_COLUMN_MAPPING } from './config/columnMapping';
+import { DEFAULT_WEEK_SETTINGS } from './config/weekConfig';
+import { DEFAULT_REGION_MODEL } from './config/regionConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from './config/lenderConfig';
+import { DEFAULT_NORMALIZATION_RULES } from './config/normalizationConfig';
 
 function App() {
-  const { complaints, loading, error, issues, summary, refresh } = useSheetData(SHEET_NAME);
+  const [asOfDate, setAsOfDate] = useState<string | null>(null);
+  const [dataSourceType, setDataSourceType] = useState<DataSourceType>(DEFAULT_DATA_SOURCE);
+  const [dataSource, setDataSource] = useState<DataSource>(() => createDataSource(DEFAULT_DATA_SOURCE));
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(DEFAULT_COLUMN_MAPPING);
+  const [weekSettings, setWeekSettings] = useState<WeekSettings>(DEFAULT_WEEK_SETTINGS);
+  const [regionModel, setRegionModel] = useState<RegionModel>(DEFAULT_REGION_MODEL);
+  const [lenderMasterList, setLenderMasterList] = useState<LenderMasterList>(DEFAULT_LENDER_MASTER_LIST);
+  const [normalizationRules, setNormalizationRules] = useState<NormalizationRuleSet>(DEFAULT_NORMALIZATION_RULES);
+  const normalization = useMemo(() => createNormalizationRegistry(normalizationRules), [normalizationRules]);
+  const [duplicateDecisions, setDuplicateDecisions] = useState<DuplicateDecisionList>({ decisions: [] });
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const {
+    complaints,
+    metrics,
+    loading,
+    error,
+    issues,
+    summary,
+    lastUpdated,
+    regions,
+    lenders,
+    duplicateClusters,
+    rowChanges,
+    refresh,
+  } = useSheetData(dataSource, SHEET_NAME, {
+    settingsLoaded,
+    asOfDate,
+    columnMapping,
+    weekSettings,
+    regions: regionModel,
+    lenders: lenderMasterList,
+    normalization,
+    duplicateDecisions: duplicateDecisions.decisions,
+  });
   const [showQualityPanel, setShowQualityPanel] = useState(false);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'summary'>('dashboard');
+  const [highlightNew, setHighlightNew] = useState(false);
+  const [currentView, setCurrentView] = useState<
+    'dashboard' | 'summary' | 'history' | 'mapping' | 'criteria' | 'regions' | 'lenders' | 'audit' | 'duplicates'
+  >('dashboard');
   const isSummary = currentView === 'summary';
+  const isHistory = currentView === 'history';
+  const isMapping = currentView === 'mapping';
+  const isCriteria = currentView === 'criteria';
+  const isRegions = currentView === 'regions';
+  const isLenders = currentView === 'lenders';
+  const isAudit = currentView === 'audit';
+  const isDuplicates = currentView === 'duplicates';
+
+  // Rows processed in the browser use the backend's active profile, regions, lenders,
+  // normalization rules and duplicate decisions when it is reachable; the dashboard
+  // loads once they have arrived (or failed)
+  useEffect(() => {
+    Promise.all([
+      fetchMappingSettings()
+        .then(settings => setColumnMapping(resolveActiveMapping(settings)))
+        .catch(() => {
+          // No backend: keep the built-in mapping
+        }),
+      fetchRegionModel()
+        .then(setRegionModel)
+        .catch(() => {
+          // No backend: keep the built-in regions
+        }),
+      fetchLenderMasterList()
+        .then(setLenderMasterList)
+        .catch(() => {
+          // No backend: keep the built-in lenders
+        }),
+      fetchNormalizationRules(SHEET_NAME)
+        .then(setNormalizationRules)
+        .catch(() => {
+          // No backend: only the built-in normalization
+        }),
+      fetchDuplicateDecisions()
+        .then(setDuplicateDecisions)
+        .catch(() => {
+          // No backend: nothing has been reviewed
+        }),
+    ]).then(() => setSettingsLoaded(true));
+  }, []);
+
+  // With no as-of date it's now, as of the last load: kept between renders so
+  // the views memoizing on it (e.g. the criteria simulator) don't recalculate
+  const loadedAt = lastUpdated?.getTime();
+  const referenceDate = useMemo(() => resolveReferenceDate(asOfDate), [asOfDate, loadedAt]);
+
+  // Rows added since the last refresh, highlighted on request
+  const newRowIds = useMemo(
+    () => new Set((rowChanges?.added ?? []).flatMap(complaint => (complaint.rowId ? [complaint.rowId] : []))),
+    [rowChanges]
+  );
+
+  const dataSourcePicker = (
+    <DataSourcePicker
+      type={dataSourceType}
+      onTypeChange={setDataSourceType}
+      onChange={setDataSource}
+    />
+  );
 
   if (loading && complaints.length === 0) {
     return (
@@ -48,63 +168,103 @@ function App() {
         </header>
         <div className="error">
           <p>Error loading data: {error}</p>
+          {dataSourcePicker}
           <button onClick={refresh}>Retry</button>
         </div>
       </div>
     );
   }
 
-  // Calculate all metrics (with error handling)
-  let fourWeekRollUpWeekly, monthlyLenders, monthlyTrendSummary, lenderCriteriaSummary, flowThroughYTD, flowThroughLastWeek;
-  let currentMonthRegionSummary, ytdRegionSummary, yearSummary;
-  
-  try {
-    fourWeekRollUpWeekly = calculateFourWeekRollUpWeekly(complaints);
-    monthlyLenders = calculateMonthlyLenderData(complaints);
-    monthlyTrendSummary = calculateMonthlyTrendSummary(complaints);
-    lenderCriteriaSummary = calculateLenderCriteriaSummary(complaints);
-    flowThroughYTD = getFlowThroughYTD(complaints);
-    flowThroughLastWeek = getFlowThroughLastWeek(complaints);
-    currentMonthRegionSummary = calculateCurrentMonthRegionSummary(complaints);
-    ytdRegionSummary = calculateYTDRegionSummary(complaints);
-    yearSummary = calculateYearSummary(complaints);
-  } catch (calcError) {
-    console.error('Error calculating metrics:', calcError);
-    return (
-      <div className="app">
-        <header className="app-header">
-          <h1>Collector Analytics Dashboard</h1>
-        </header>
-        <div className="error">
-          <p>Error calculating metrics: {calcError instanceof Error ? calcError.message : 'Unknown error'}</p>
-          <button onClick={refresh}>Retry</button>
-        </div>
-      </div>
-    );
-  }
+  // Metrics are precomputed by the backend (or by the hook when it falls back)
+  const {
+    fourWeekRollUpWeekly,
+    monthlyLenders,
+    monthlyTrendSummary,
+    lenderCriteriaSummary,
+    flowThroughYTD,
+    flowThroughLastWeek,
+    currentMonthRegionSummary,
+    ytdRegionSummary,
+    yearSummary,
+    zipSummary,
+    criteriaReconciliation,
+    unmappedCounties,
+  } = metrics;
+
+  const viewSwitcher = (
+    <div className="view-switcher">
+      <button
+        onClick={() => setCurrentView('summary')}
+        className={isSummary ? 'active' : ''}
+      >
+        Summary
+      </button>
+      <button
+        onClick={() => setCurrentView('dashboard')}
+        className={currentView === 'dashboard' ? 'active' : ''}
+      >
+        Detail
+      </button>
+      <button
+        onClick={() => setCurrentView('history')}
+        className={isHistory ? 'active' : ''}
+      >
+        History
+      </button>
+      <button
+        onClick={() => setCurrentView('mapping')}
+        className={isMapping ? 'active' : ''}
+      >
+        Columns
+      </button>
+      <button
+        onClick={() => setCurrentView('criteria')}
+        className={isCriteria ? 'active' : ''}
+      >
+        Criteria
+      </button>
+      <button
+        onClick={() => setCurrentView('regions')}
+        className={isRegions ? 'active' : ''}
+      >
+        Regions
+      </button>
+      <button
+        onClick={() => setCurrentView('lenders')}
+        className={isLenders ? 'active' : ''}
+      >
+        Lenders
+      </button>
+      <button
+        onClick={() => setCurrentView('audit')}
+        className={isAudit ? 'active' : ''}
+      >
+        Audit
+      </button>
+      <button
+        onClick={() => setCurrentView('duplicates')}
+        className={isDuplicates ? 'active' : ''}
+      >
+        Duplicates
+      </button>
+    </div>
+  );
 
   // If summary view, show summary page
   if (isSummary) {
     return (
       <>
-        <div className="view-switcher">
-          <button
-            onClick={() => setCurrentView('summary')}
-            className={isSummary ? 'active' : ''}
-          >
-            Summary
-          </button>
-          <button
-            onClick={() => setCurrentView('dashboard')}
-            className={!isSummary ? 'active' : ''}
-          >
-            Detail
-          </button>
-        </div>
+        {viewSwitcher}
+        <AsOfDatePicker value={asOfDate} onChange={setAsOfDate} />
         <SummaryPage
           currentMonthData={currentMonthRegionSummary}
           ytdData={ytdRegionSummary}
           yearData={yearSummary}
+          zipData={zipSummary}
+          referenceDate={referenceDate}
+          regions={regions}
+          unmappedCounties={unmappedCounties}
+          complaints={complaints}
         />
       </>
     );
@@ -115,23 +275,22 @@ function App() {
       <header className="app-header">
         <h1>Collector Analytics Dashboard</h1>
         <div className="header-actions">
-          <div className="view-switcher">
-            <button
-              onClick={() => setCurrentView('summary')}
-              className={isSummary ? 'active' : ''}
-            >
-              Summary
-            </button>
-            <button
-              onClick={() => setCurrentView('dashboard')}
-              className={!isSummary ? 'active' : ''}
-            >
-              Detail
-            </button>
-          </div>
+          {viewSwitcher}
+          {dataSourcePicker}
+          <AsOfDatePicker value={asOfDate} onChange={setAsOfDate} />
           <button onClick={refresh} className="refresh-button">
             Refresh Data
           </button>
+          {rowChanges && rowChanges.added.length > 0 && (
+            <button
+              onClick={() => setHighlightNew(!highlightNew)}
+              className={`new-rows-button${highlightNew ? ' active' : ''}`}
+              aria-pressed={highlightNew}
+            >
+              {rowChanges.added.length} new {rowChanges.added.length === 1 ? 'complaint' : 'complaints'} since
+              last refresh
+            </button>
+          )}
           {issues.length > 0 && (
             <button
               onClick={() => setShowQualityPanel(!showQualityPanel)}
@@ -143,39 +302,119 @@ function App() {
         </div>
       </header>
 
+      {highlightNew && rowChanges && (
+        <RefreshChanges changes={rowChanges} onClose={() => setHighlightNew(false)} />
+      )}
+
       {showQualityPanel && (
         <DataQualityPanel
           issues={issues}
           summary={summary}
+          complaints={complaints}
           onClose={() => setShowQualityPanel(false)}
         />
       )}
 
-      <main className="dashboard-content">
-        <section className="dashboard-section">
-          <FourWeekRollUpWeeklyTable data={fourWeekRollUpWeekly} />
-        </section>
+      {isHistory ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <SnapshotHistory sheetName={SHEET_NAME} />
+          </section>
+        </main>
+      ) : isMapping ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <ColumnMappingEditor
+              dataSource={dataSource}
+              sheetName={SHEET_NAME}
+              onActiveMappingChange={setColumnMapping}
+            />
+          </section>
+        </main>
+      ) : isCriteria ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <CriteriaReconciliation data={criteriaReconciliation} complaints={complaints} />
+          </section>
+          <section className="dashboard-section">
+            <CriteriaSimulator
+              complaints={complaints}
+              referenceDate={referenceDate}
+              regions={regions}
+              lenders={lenders}
+            />
+          </section>
+        </main>
+      ) : isRegions ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <RegionEditor
+              regions={regions}
+              unmappedCounties={unmappedCounties}
+              onSaved={setRegionModel}
+            />
+          </section>
+        </main>
+      ) : isLenders ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <LenderEditor complaints={complaints} onSaved={setLenderMasterList} />
+          </section>
+        </main>
+      ) : isAudit ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <NormalizationAudit complaints={complaints} />
+          </section>
+        </main>
+      ) : isDuplicates ? (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <DuplicateReview
+              clusters={duplicateClusters}
+              complaints={complaints}
+              onDecisionsChange={setDuplicateDecisions}
+            />
+          </section>
+        </main>
+      ) : (
+        <main className="dashboard-content">
+          <section className="dashboard-section">
+            <FourWeekRollUpWeeklyTable
+              data={fourWeekRollUpWeekly}
+              referenceDate={referenceDate}
+              weekSettings={weekSettings}
+              onWeekSettingsChange={setWeekSettings}
+            />
+          </section>
 
-        <section className="dashboard-section">
-          <TopLendersMonthly data={monthlyLenders} monthlySummary={monthlyTrendSummary} />
-        </section>
+          <section className="dashboard-section">
+            <TopLendersMonthly data={monthlyLenders} monthlySummary={monthlyTrendSummary} />
+          </section>
 
-        <section className="dashboard-section">
-          <LenderAnalysisSummary data={lenderCriteriaSummary} complaints={complaints} />
-        </section>
+          <section className="dashboard-section">
+            <LenderAnalysisSummary
+              data={lenderCriteriaSummary}
+              complaints={complaints}
+              referenceDate={referenceDate}
+            />
+          </section>
 
-        <section className="dashboard-section">
-          <FlowThroughAnalysis
-            ytdData={flowThroughYTD}
-            lastWeekData={flowThroughLastWeek}
-          />
-        </section>
-      </main>
+          <section className="dashboard-section">
+            <FlowThroughAnalysis
+              ytdData={flowThroughYTD}
+              lastWeekData={flowThroughLastWeek}
+              highlightedRowIds={highlightNew ? newRowIds : undefined}
+            />
+          </section>
+        </main>
+      )}
 
       <footer className="app-footer">
         <p>
-          Data refreshes automatically every 5 minutes. Last updated:{' '}
-          {new Date().toLocaleTimeString()}
+          Data from {dataSource.label}. Refreshes automatically every 5 minutes. Last updated:{' '}
+          {(lastUpdated ?? new Date()).toLocaleTimeString()}
+          {asOfDate && ` • Metrics shown as of ${formatDate(referenceDate)}`}
         </p>
       </footer>
     </div>
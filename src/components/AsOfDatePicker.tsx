@@ -0,0 +1,33 @@
+// Reporting "as-of" date picker
+
+import { formatAsOfDate } from '../utils/reportingDate';
+
+interface AsOfDatePickerProps {
+  value: string | null; // "yyyy-MM-dd", or null for today
+  onChange: (value: string | null) => void;
+}
+
+export function AsOfDatePicker({ value, onChange }: AsOfDatePickerProps) {
+  const today = formatAsOfDate(new Date());
+
+  return (
+    <div className={`as-of-picker${value ? ' active' : ''}`}>
+      <label htmlFor="as-of-date">As of</label>
+      <input
+        id="as-of-date"
+        type="date"
+        value={value ?? today}
+        max={today}
+        onChange={event => {
+          const next = event.target.value;
+          onChange(!next || next === today ? null : next);
+        }}
+      />
+      {value && (
+        <button onClick={() => onChange(null)} className="as-of-reset">
+          Today
+        </button>
+      )}
+    </div>
+  );
+}
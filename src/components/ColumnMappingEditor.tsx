@@ -0,0 +1,405 @@
+// Column Mapping Editor - map the live sheet headers to dashboard fields and save named profiles
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ColumnMapping,
+  ColumnMappingSettings,
+  DataSource,
+  FieldMapping,
+  FieldMappingRule,
+} from '../types';
+import { DEFAULT_COLUMN_MAPPING, STANDARD_FIELDS, toLookupKey } from '../config/columnMapping';
+import {
+  activateMappingProfile,
+  deleteMappingProfile,
+  fetchMappingSettings,
+  saveMappingProfile,
+} from '../services/columnMappingApi';
+import { collectHeaders, getMappedField, resolveActiveMapping } from '../utils/rowMapping';
+
+interface ColumnMappingEditorProps {
+  dataSource: DataSource;
+  sheetName: string;
+  onActiveMappingChange: (mapping: ColumnMapping) => void;
+}
+
+const BUILT_IN = '';
+
+const RULE_LABELS: Record<FieldMappingRule, string> = {
+  coalesce: 'First with a value',
+  sum: 'Sum',
+  concatenate: 'Concatenate',
+};
+
+const getFieldLabel = (field: string) =>
+  STANDARD_FIELDS.find(standard => standard.field === field)?.label ?? field;
+
+const sameColumn = (a: string, b: string) => toLookupKey(a) === toLookupKey(b);
+
+export function ColumnMappingEditor({
+  dataSource,
+  sheetName,
+  onActiveMappingChange,
+}: ColumnMappingEditorProps) {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [headersError, setHeadersError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<ColumnMappingSettings | null>(null);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [selectedProfile, setSelectedProfile] = useState(BUILT_IN);
+  const [profileName, setProfileName] = useState('');
+  const [draft, setDraft] = useState<ColumnMapping>(DEFAULT_COLUMN_MAPPING);
+  const [newField, setNewField] = useState('');
+  const [newFieldColumn, setNewFieldColumn] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Read the live headers from whichever source the dashboard is using
+  useEffect(() => {
+    let cancelled = false;
+    setHeadersError(null);
+
+    dataSource
+      .fetchRows(sheetName)
+      .then(({ rows }) => {
+        if (!cancelled) setHeaders(collectHeaders(rows));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error reading sheet headers:', err);
+        setHeadersError(`Could not read headers from ${dataSource.label}`);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource, sheetName]);
+
+  // Start from the active profile
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMappingSettings()
+      .then(loaded => {
+        if (cancelled) return;
+        setSettings(loaded);
+        setSelectedProfile(loaded.activeProfile ?? BUILT_IN);
+        setProfileName(loaded.activeProfile ?? '');
+        setDraft(resolveActiveMapping(loaded));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading column mapping profiles:', err);
+        setSettingsError('Profiles can only be saved when the backend server is running.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const fields = useMemo(() => {
+    const standard = STANDARD_FIELDS.map(({ field }) => field);
+    return [...standard, ...Object.keys(draft).filter(field => !standard.includes(field))];
+  }, [draft]);
+
+  const updateField = (field: string, changes: Partial<FieldMapping>) => {
+    setDraft(current => {
+      const next = { ...current };
+      const fieldMapping: FieldMapping = {
+        ...(current[field] ?? { columns: [], rule: 'coalesce' }),
+        ...changes,
+      };
+      if (fieldMapping.columns.length > 0) {
+        next[field] = fieldMapping;
+      } else {
+        delete next[field];
+      }
+      return next;
+    });
+    setStatus(null);
+  };
+
+  const moveColumn = (field: string, index: number, offset: number) => {
+    const columns = [...(draft[field]?.columns ?? [])];
+    const target = index + offset;
+    if (target < 0 || target >= columns.length) return;
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateField(field, { columns });
+  };
+
+  const loadProfile = (name: string) => {
+    setSelectedProfile(name);
+    setProfileName(name);
+    setDraft(settings?.profiles.find(profile => profile.name === name)?.mapping ?? DEFAULT_COLUMN_MAPPING);
+    setStatus(null);
+  };
+
+  const applySettings = (next: ColumnMappingSettings) => {
+    setSettings(next);
+    onActiveMappingChange(resolveActiveMapping(next));
+  };
+
+  const handleSave = async () => {
+    const name = profileName.trim();
+    if (!name) return;
+
+    try {
+      await saveMappingProfile(name, draft);
+      applySettings(await fetchMappingSettings());
+      setSelectedProfile(name);
+      setStatus(`Saved "${name}"`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save profile');
+    }
+  };
+
+  const handleActivate = async () => {
+    try {
+      applySettings(await activateMappingProfile(selectedProfile || null));
+      setStatus(`Dashboard now uses ${selectedProfile ? `"${selectedProfile}"` : 'the built-in mapping'}`);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to activate profile');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedProfile) return;
+
+    try {
+      applySettings(await deleteMappingProfile(selectedProfile));
+      setStatus(`Deleted "${selectedProfile}"`);
+      loadProfile(BUILT_IN);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to delete profile');
+    }
+  };
+
+  const handleAddField = () => {
+    const field = newField.trim();
+    if (!field || !newFieldColumn) return;
+    updateField(field, { columns: [...(draft[field]?.columns ?? []), newFieldColumn] });
+    setNewField('');
+    setNewFieldColumn('');
+  };
+
+  const isSaved = settings?.profiles.some(profile => profile.name === selectedProfile) ?? false;
+  const activeProfile = settings?.activeProfile ?? null;
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Column Mapping</h2>
+        <div className="header-actions">
+          <label className="snapshot-select">
+            Profile
+            <select value={selectedProfile} onChange={event => loadProfile(event.target.value)}>
+              <option value={BUILT_IN}>Built-in mapping</option>
+              {settings?.profiles.map(profile => (
+                <option key={profile.name} value={profile.name}>
+                  {profile.name === activeProfile ? `${profile.name} (active)` : profile.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={handleActivate}
+            className="export-button"
+            disabled={!settings || (selectedProfile !== BUILT_IN && !isSaved)}
+          >
+            Use for Dashboard
+          </button>
+          {isSaved && (
+            <button onClick={handleDelete} className="export-button">
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {settingsError && <div className="empty-state">{settingsError}</div>}
+      {headersError && <div className="empty-state">{headersError}</div>}
+
+      <div className="mapping-save">
+        <input
+          type="text"
+          value={profileName}
+          placeholder="Profile name"
+          aria-label="Profile name"
+          onChange={event => setProfileName(event.target.value)}
+        />
+        <button
+          onClick={handleSave}
+          className="export-button"
+          disabled={!settings || !profileName.trim()}
+        >
+          Save Profile
+        </button>
+        <span className="mapping-status">
+          Active: {activeProfile ? `"${activeProfile}"` : 'built-in mapping'}
+          {status && ` • ${status}`}
+        </span>
+      </div>
+
+      <div className="snapshot-section">
+        <h3>Fields</h3>
+        <p className="mapping-hint">
+          "First with a value" falls back down the list when a column is empty in a row.
+          "Sum" adds up every numeric column, and "Concatenate" joins every column with a value.
+        </p>
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Source Columns (in priority order)</th>
+                <th>Rule</th>
+                <th>Add Column</th>
+              </tr>
+            </thead>
+            <tbody>
+              {fields.map(field => {
+                const { columns, rule, separator } = draft[field] ?? { columns: [], rule: 'coalesce' };
+                const available = headers.filter(
+                  header => !columns.some(column => sameColumn(column, header))
+                );
+
+                return (
+                  <tr key={field}>
+                    <td className="county-cell">{getFieldLabel(field)}</td>
+                    <td>
+                      {columns.length === 0 && <span className="mapping-unmapped">Not mapped</span>}
+                      {columns.map((column, index) => {
+                        const inSheet = headers.some(header => sameColumn(header, column));
+                        return (
+                          <span
+                            key={column}
+                            className={`mapping-column ${inSheet ? '' : 'mapping-missing'}`}
+                            title={inSheet ? undefined : 'Not in the current sheet'}
+                          >
+                            {index + 1}. {column}
+                            <button onClick={() => moveColumn(field, index, -1)} aria-label={`Move ${column} up`}>
+                              ↑
+                            </button>
+                            <button onClick={() => moveColumn(field, index, 1)} aria-label={`Move ${column} down`}>
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => updateField(field, { columns: columns.filter(c => c !== column) })}
+                              aria-label={`Remove ${column}`}
+                            >
+                              ×
+                            </button>
+                          </span>
+                        );
+                      })}
+                    </td>
+                    <td>
+                      <select
+                        value={rule}
+                        aria-label={`Rule for ${getFieldLabel(field)}`}
+                        onChange={event => updateField(field, { rule: event.target.value as FieldMappingRule })}
+                        disabled={columns.length === 0}
+                      >
+                        {(Object.keys(RULE_LABELS) as FieldMappingRule[]).map(option => (
+                          <option key={option} value={option}>
+                            {RULE_LABELS[option]}
+                          </option>
+                        ))}
+                      </select>
+                      {rule === 'concatenate' && (
+                        <input
+                          type="text"
+                          className="mapping-separator"
+                          value={separator ?? ' '}
+                          aria-label={`Separator for ${getFieldLabel(field)}`}
+                          onChange={event => updateField(field, { separator: event.target.value })}
+                        />
+                      )}
+                    </td>
+                    <td>
+                      <select
+                        value=""
+                        aria-label={`Add column to ${getFieldLabel(field)}`}
+                        onChange={event => updateField(field, { columns: [...columns, event.target.value] })}
+                        disabled={available.length === 0}
+                      >
+                        <option value="">Add…</option>
+                        {available.map(header => (
+                          <option key={header} value={header}>
+                            {header}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <div className="mapping-save">
+          <input
+            type="text"
+            value={newField}
+            placeholder="New field name"
+            aria-label="New field name"
+            onChange={event => setNewField(event.target.value)}
+          />
+          <select
+            value={newFieldColumn}
+            aria-label="Column for the new field"
+            onChange={event => setNewFieldColumn(event.target.value)}
+          >
+            <option value="">Column…</option>
+            {headers.map(header => (
+              <option key={header} value={header}>
+                {header}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddField}
+            className="export-button"
+            disabled={!newField.trim() || !newFieldColumn}
+          >
+            Add Field
+          </button>
+        </div>
+      </div>
+
+      <div className="snapshot-section">
+        <h3>Sheet Headers</h3>
+        {headers.length === 0 ? (
+          <div className="empty-state">No headers found in {dataSource.label}</div>
+        ) : (
+          <div className="table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Header</th>
+                  <th>Maps To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {headers.map(header => {
+                  const mapped = getMappedField(header, draft);
+                  return (
+                    <tr key={header}>
+                      <td>{header}</td>
+                      <td>
+                        {mapped ? (
+                          `${getFieldLabel(mapped.field)}${mapped.priority > 0 ? ` (fallback ${mapped.priority})` : ''}`
+                        ) : (
+                          <span className="mapping-unmapped">Not mapped (kept as "{header.trim()}")</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+// Criteria Reconciliation - where the criteria rules and the sheet's "Meets Criteria?" flag disagree
+
+import { useState } from 'react';
+import { CriteriaMismatch, CriteriaReconciliation as Reconciliation, ProcessedComplaint } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { toBusinessDayKey } from '../utils/businessDate';
+import { findRowByLabel } from '../utils/rowFingerprint';
+import { CRITERIA_SOURCE } from '../config/criteriaConfig';
+
+interface CriteriaReconciliationProps {
+  data: Reconciliation;
+  complaints: ProcessedComplaint[];
+}
+
+type MismatchView = 'sheetOnly' | 'engineOnly';
+
+const VIEW_LABELS: Record<MismatchView, string> = {
+  sheetOnly: 'Sheet says meets, rules say no',
+  engineOnly: 'Rules say meets, sheet says no',
+};
+
+export function CriteriaReconciliation({ data, complaints }: CriteriaReconciliationProps) {
+  const [view, setView] = useState<MismatchView>('sheetOnly');
+  const [lookupRow, setLookupRow] = useState('');
+
+  const mismatches: CriteriaMismatch[] = data[view];
+  const lookedUp = findRowByLabel(complaints, lookupRow);
+
+  const exportToCSV = () => {
+    const headers = ['Sheet Row', 'Property Address', 'County', 'Lender', 'UPB', 'Complaint Date', 'Sheet Flag', 'Rules Verdict', 'Failed Rules'];
+    const rows = [...data.sheetOnly, ...data.engineOnly].map(row => [
+      row.rowLabel,
+      row.propertyAddress,
+      row.county,
+      row.lender,
+      row.upb.toString(),
+      formatDate(row.complaintDate),
+      row.sheetValue,
+      row.engineMeetsCriteria ? 'Meets criteria' : 'Does not meet criteria',
+      row.failedRules.map(rule => `${rule.label}: ${rule.detail}`).join('; '),
+    ]);
+
+    const csv = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `criteria-reconciliation-${toBusinessDayKey(new Date())}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Criteria Reconciliation</h2>
+        <div className="header-actions">
+          <span className="summary-badge">
+            Metrics use {CRITERIA_SOURCE === 'engine' ? 'the criteria rules' : 'the sheet\'s flag'}
+          </span>
+          <button onClick={exportToCSV} className="export-button">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="snapshot-summary">
+        <span className="summary-badge">{data.evaluated} evaluated</span>
+        <span className="summary-badge">{data.agreed} agree</span>
+        <span className="summary-badge">{data.sheetOnly.length} only the sheet qualifies</span>
+        <span className="summary-badge">{data.engineOnly.length} only the rules qualify</span>
+      </div>
+
+      <div className="snapshot-section">
+        <h3>Rules</h3>
+        {data.ruleWarnings.map(warning => (
+          <div key={warning} className="quality-issue">
+            {warning}
+          </div>
+        ))}
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Rule</th>
+                <th className="text-right">Failed</th>
+                <th className="text-right">% of Evaluated</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.ruleFailures.map(rule => (
+                <tr key={rule.ruleId}>
+                  <td>{rule.label}</td>
+                  <td className="text-right">{rule.failed}</td>
+                  <td className="text-right">
+                    {data.evaluated > 0 ? `${((rule.failed / data.evaluated) * 100).toFixed(1)}%` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="snapshot-section">
+        <div className="card-header">
+          <h3>Disagreements</h3>
+          <label className="snapshot-select">
+            Show
+            <select value={view} onChange={event => setView(event.target.value as MismatchView)}>
+              {(Object.keys(VIEW_LABELS) as MismatchView[]).map(option => (
+                <option key={option} value={option}>
+                  {`${VIEW_LABELS[option]} (${data[option].length})`}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {mismatches.length === 0 ? (
+          <div className="empty-state">The rules and the sheet agree on every complaint</div>
+        ) : (
+          <div className="table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Sheet Row</th>
+                  <th>Property Address</th>
+                  <th>County</th>
+                  <th>Lender</th>
+                  <th className="text-right">UPB</th>
+                  <th>Complaint Date</th>
+                  <th>Sheet Flag</th>
+                  <th>Failed Rules</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mismatches.map(row => (
+                  <tr key={row.rowIndex}>
+                    <td>{row.rowLabel}</td>
+                    <td>{row.propertyAddress}</td>
+                    <td className="county-cell">{row.county}</td>
+                    <td>{row.lender}</td>
+                    <td className="text-right currency-cell">{formatCurrency(row.upb)}</td>
+                    <td>{formatDate(row.complaintDate)}</td>
+                    <td>{row.sheetValue || '(blank)'}</td>
+                    <td>
+                      {row.failedRules.length === 0
+                        ? 'None'
+                        : row.failedRules.map(rule => (
+                            <div key={rule.ruleId} className="criteria-failure">
+                              {rule.label}: {rule.detail}
+                            </div>
+                          ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="snapshot-section">
+        <div className="quality-provenance">
+          <label>
+            Explain row{' '}
+            <input
+              type="text"
+              size={8}
+              placeholder="Sheet row"
+              value={lookupRow}
+              aria-label="Row number"
+              onChange={event => setLookupRow(event.target.value)}
+            />
+          </label>
+          {lookupRow !== '' && !lookedUp && <span> No row {lookupRow}</span>}
+        </div>
+        {lookedUp?.criteria && (
+          <div className="table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Rule</th>
+                  <th>Result</th>
+                  <th>Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lookedUp.criteria.results.map(result => (
+                  <tr key={result.ruleId}>
+                    <td>{result.label}</td>
+                    <td className={result.passed ? 'criteria-pass' : 'criteria-fail'}>
+                      {result.passed ? 'Pass' : 'Fail'}
+                    </td>
+                    <td>{result.detail}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
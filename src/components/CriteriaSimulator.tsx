@@ -0,0 +1,239 @@
+// Criteria Simulator - what-if thresholds and how the summaries would change
+
+import { useMemo, useState } from 'react';
+import { CriteriaScenario, CriteriaSimulationDeal, LenderMasterList, ProcessedComplaint, RegionModel } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { getScenarioFromRules, simulateCriteria } from '../utils/criteriaSimulation';
+import { normalizeCounty, normalizeLender } from '../utils/normalization';
+import { CRITERIA_SOURCE } from '../config/criteriaConfig';
+import { DeltaCell, TotalsDeltaTable } from './DeltaTables';
+
+interface CriteriaSimulatorProps {
+  complaints: ProcessedComplaint[];
+  referenceDate: Date;
+  regions: RegionModel;
+  lenders: LenderMasterList; // Excluded lenders are resolved with it
+}
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+function DealTable({ title, deals, reasonHeader }: {
+  title: string;
+  deals: CriteriaSimulationDeal[];
+  reasonHeader: string;
+}) {
+  return (
+    <div className="snapshot-section">
+      <h3>{title} ({deals.length})</h3>
+      {deals.length === 0 ? (
+        <div className="empty-state">None</div>
+      ) : (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Sheet Row</th>
+                <th>Property Address</th>
+                <th>County</th>
+                <th>Lender</th>
+                <th className="text-right">UPB</th>
+                <th>Complaint Date</th>
+                <th>{reasonHeader}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deals.map(deal => (
+                <tr key={deal.rowIndex}>
+                  <td>{deal.rowLabel}</td>
+                  <td>{deal.propertyAddress}</td>
+                  <td className="county-cell">{deal.county}</td>
+                  <td>{deal.lender}</td>
+                  <td className="text-right currency-cell">{formatCurrency(deal.upb)}</td>
+                  <td>{formatDate(deal.complaintDate)}</td>
+                  <td>
+                    {deal.failedRules.map(rule => (
+                      <div key={rule.ruleId} className="criteria-failure">
+                        {rule.label}: {rule.detail}
+                      </div>
+                    ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CriteriaSimulator({ complaints, referenceDate, regions, lenders: lenderList }: CriteriaSimulatorProps) {
+  const [scenario, setScenario] = useState<CriteriaScenario>(() => getScenarioFromRules());
+  const [lenderInput, setLenderInput] = useState('');
+
+  const counties = useMemo(
+    () => uniqueSorted(complaints.map(c => c.normalizedCounty || normalizeCounty(c.county))),
+    [complaints]
+  );
+  const lenders = useMemo(
+    () => uniqueSorted(complaints.map(c => c.normalizedLender || normalizeLender(c.lender || c.plaintiff))),
+    [complaints]
+  );
+
+  const referenceTime = referenceDate.getTime();
+  const simulation = useMemo(
+    () => simulateCriteria(complaints, new Date(referenceTime), scenario, { regions, lenders: lenderList }),
+    [complaints, referenceTime, scenario, regions, lenderList]
+  );
+
+  const update = (changes: Partial<CriteriaScenario>) => setScenario({ ...scenario, ...changes });
+
+  const toggleCounty = (county: string) =>
+    update({
+      includedCounties: scenario.includedCounties.includes(county)
+        ? scenario.includedCounties.filter(name => name !== county)
+        : [...scenario.includedCounties, county],
+    });
+
+  const addLender = () => {
+    const lender = lenderInput.trim();
+    if (lender && !scenario.excludedLenders.includes(lender)) {
+      update({ excludedLenders: [...scenario.excludedLenders, lender] });
+    }
+    setLenderInput('');
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Criteria Simulator</h2>
+        <div className="header-actions">
+          <span className="summary-badge">
+            {CRITERIA_SOURCE === 'engine'
+              ? 'Compared with the current criteria rules'
+              : 'Compared with the sheet\'s "Meets Criteria?" flag'}
+          </span>
+          <button onClick={() => setScenario(getScenarioFromRules())} className="export-button">
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="criteria-simulator-controls">
+        <label className="snapshot-select">
+          Minimum UPB
+          <input
+            type="number"
+            min={0}
+            step={10000}
+            value={scenario.minUpb ?? ''}
+            placeholder="None"
+            onChange={event =>
+              update({ minUpb: event.target.value === '' ? null : Number(event.target.value) })
+            }
+          />
+        </label>
+
+        <fieldset className="criteria-simulator-counties">
+          <legend>
+            Included counties {scenario.includedCounties.length === 0 && '(all)'}
+          </legend>
+          {counties.map(county => (
+            <label key={county}>
+              <input
+                type="checkbox"
+                checked={scenario.includedCounties.includes(county)}
+                onChange={() => toggleCounty(county)}
+              />
+              {county}
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="snapshot-select">
+          Excluded lenders
+          <input
+            type="text"
+            list="criteria-simulator-lenders"
+            value={lenderInput}
+            aria-label="Lender to exclude"
+            onChange={event => setLenderInput(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter') addLender();
+            }}
+          />
+          <datalist id="criteria-simulator-lenders">
+            {lenders.map(lender => (
+              <option key={lender} value={lender} />
+            ))}
+          </datalist>
+          <button onClick={addLender} className="export-button" disabled={!lenderInput.trim()}>
+            Exclude
+          </button>
+          {scenario.excludedLenders.map(lender => (
+            <span key={lender} className="summary-badge">
+              {lender}{' '}
+              <button
+                className="criteria-simulator-remove"
+                aria-label={`Stop excluding ${lender}`}
+                onClick={() =>
+                  update({ excludedLenders: scenario.excludedLenders.filter(name => name !== lender) })
+                }
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="snapshot-summary">
+        <span className="summary-badge">{simulation.newlyQualifying.length} would newly qualify</span>
+        <span className="summary-badge">{simulation.droppingOut.length} would drop out</span>
+      </div>
+
+      <TotalsDeltaTable title="Region Summary (YTD)" labelHeader="Region" data={simulation.ytdRegionSummary} />
+      <TotalsDeltaTable title="Year Summary" labelHeader="Year" data={simulation.yearSummary} />
+
+      <div className="snapshot-section">
+        <h3>Top Lenders</h3>
+        {simulation.topLenders.length === 0 ? (
+          <div className="empty-state">No lenders meet the criteria either way</div>
+        ) : (
+          <div className="table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Lender</th>
+                  <th>Complaints That Meet Criteria</th>
+                  <th>UPB That Meets Criteria</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.topLenders.map(row => (
+                  <tr key={row.lender}>
+                    <td>{row.lender}</td>
+                    <DeltaCell before={row.before.totalComplaints} after={row.after.totalComplaints} />
+                    <DeltaCell before={row.before.totalUPB} after={row.after.totalUPB} currency />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <DealTable
+        title="Would Newly Qualify"
+        deals={simulation.newlyQualifying}
+        reasonHeader="Failed Under Current Rules"
+      />
+      <DealTable
+        title="Would Drop Out"
+        deals={simulation.droppingOut}
+        reasonHeader="Failed Under Scenario"
+      />
+    </div>
+  );
+}
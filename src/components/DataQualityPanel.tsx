@@ -1,12 +1,21 @@
 // Data Quality Issues Panel Component
 
+import { useState } from 'react';
+import { ComplaintRow, DateParseStrategy, ProcessedComplaint, QualityFinding, QualityRuleCode } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { findRowByLabel } from '../utils/rowFingerprint';
+
 interface DataQualityPanelProps {
   issues: Array<{
     rowIndex: number;
-    errors: string[];
+    rowLabel: string; // The sheet row, with its tab when there are several
+    row?: ComplaintRow;
+    findings: QualityFinding[];
     isDuplicate: boolean;
-    duplicateOf?: number;
+    duplicateOfRowLabel?: string;
   }>;
+  // Rows in sheet order, for looking up any row's UPB source by its sheet row
+  complaints?: Array<ComplaintRow & Pick<ProcessedComplaint, 'rowLabel' | 'sheetRow'>>;
   summary?: {
     totalRows: number;
     validRows: number;
@@ -14,20 +23,82 @@ interface DataQualityPanelProps {
     duplicateRows: number;
     rowsWithJSONErrors: number;
     rowsWithOtherErrors: number;
+    rowsWithWarnings?: number;
+    findingCounts?: Partial<Record<QualityRuleCode, number>>;
+    pendingDuplicateClusters?: number;
+    dateParseStrategies?: Partial<Record<DateParseStrategy, number>>;
   };
   onClose?: () => void;
 }
 
-export function DataQualityPanel({ issues, summary, onClose }: DataQualityPanelProps) {
+const DATE_STRATEGY_LABELS: Record<DateParseStrategy, string> = {
+  'date-object': 'Date values',
+  'sheets-serial': 'Sheets serial numbers',
+  iso: 'ISO dates',
+  numeric: 'Numeric dates',
+  'month-name': 'Dates with month names',
+  'log-entry': 'Processing log entries',
+};
+
+const RULE_LABELS: Record<QualityRuleCode, string> = {
+  'missing-address': 'Missing address',
+  'short-address': 'Short address',
+  'missing-county': 'Missing county',
+  'unresolved-county': 'Unknown county',
+  'ambiguous-county': 'County in several states',
+  'state-mismatch': 'State differs from region',
+  'uncovered-state': 'State not in county reference',
+  'missing-lender': 'Missing lender',
+  'invalid-lender': 'Invalid lender',
+  'missing-upb': 'Missing UPB',
+  'invalid-upb': 'Invalid UPB',
+  'negative-upb': 'Negative UPB',
+  'zero-upb': 'Zero UPB',
+  'high-upb': 'Unusually high UPB',
+  'missing-date': 'Missing date',
+  'invalid-date': 'Invalid date',
+  'ambiguous-date': 'Ambiguous date',
+  'unfiled-log-date': 'Log without filing entry',
+  'future-date': 'Future date',
+  'old-date': 'Date over 10 years old',
+  'invalid-json': 'Invalid JSON',
+  'fixed-json': 'Auto-fixed JSON',
+  'malformed-record': 'Malformed record',
+  'duplicate-row': 'Duplicate',
+  'possible-duplicate': 'Possible duplicate',
+  'validation-failed': 'Validation failed',
+};
+
+const isJSONError = (finding: QualityFinding) =>
+  finding.severity === 'error' && finding.code === 'invalid-json';
+
+const hasSeverity = (findings: QualityFinding[], severity: QualityFinding['severity']) =>
+  findings.some(finding => finding.severity === severity);
+
+/**
+ * Describes where a row's UPB came from, e.g. "$250,000 from Unpaid Balance(s)"
+ */
+function describeUPBSource(row: ComplaintRow): string {
+  const sources = row.fieldSources?.upb ?? [];
+  if (row.upb === undefined || sources.length === 0) {
+    return 'No UPB in any mapped column';
+  }
+  const amount = typeof row.upb === 'number' ? formatCurrency(row.upb) : String(row.upb);
+  return `${amount} from ${sources.join(' + ')}`;
+}
+
+export function DataQualityPanel({ issues, summary, complaints, onClose }: DataQualityPanelProps) {
+  const [lookupRow, setLookupRow] = useState('');
+
   if (issues.length === 0) {
     return null;
   }
 
-  const errorCount = issues.filter(i => i.errors.length > 0).length;
+  const errorCount = issues.filter(i => hasSeverity(i.findings, 'error')).length;
+  const warningCount = issues.filter(i => hasSeverity(i.findings, 'warning')).length;
   const duplicateCount = issues.filter(i => i.isDuplicate).length;
-  const jsonErrorCount = issues.filter(i => 
-    i.errors.some(err => err.toLowerCase().includes('json'))
-  ).length;
+  const jsonErrorCount = issues.filter(i => i.findings.some(isJSONError)).length;
+  const lookedUp = complaints ? findRowByLabel(complaints, lookupRow) : undefined;
 
   return (
     <div className="quality-panel">
@@ -66,6 +137,44 @@ export function DataQualityPanel({ issues, summary, onClose }: DataQualityPanelP
             <span className="stat-label">Other Errors:</span>
             <span className="stat-value error">{summary.rowsWithOtherErrors}</span>
           </div>
+          {!!summary.pendingDuplicateClusters && (
+            <div className="stat-item">
+              <span className="stat-label">Duplicate Clusters to Review:</span>
+              <span className="stat-value warning">{summary.pendingDuplicateClusters}</span>
+            </div>
+          )}
+          {summary.rowsWithWarnings !== undefined && (
+            <div className="stat-item">
+              <span className="stat-label">Rows with Warnings:</span>
+              <span className="stat-value warning">{summary.rowsWithWarnings}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {summary?.findingCounts && Object.keys(summary.findingCounts).length > 0 && (
+        <div className="quality-provenance">
+          <span>Findings by rule:</span>
+          {(Object.entries(summary.findingCounts) as [QualityRuleCode, number][])
+            .sort(([, a], [, b]) => b - a)
+            .map(([code, count]) => (
+              <span key={code} title={code}>
+                {RULE_LABELS[code] ?? code} ({count})
+              </span>
+            ))}
+        </div>
+      )}
+
+      {summary?.dateParseStrategies && Object.keys(summary.dateParseStrategies).length > 0 && (
+        <div className="quality-provenance">
+          <span>Complaint dates read from:</span>
+          {(Object.entries(summary.dateParseStrategies) as [DateParseStrategy, number][]).map(
+            ([strategy, count]) => (
+              <span key={strategy}>
+                {DATE_STRATEGY_LABELS[strategy]} ({count})
+              </span>
+            )
+          )}
         </div>
       )}
       
@@ -74,33 +183,58 @@ export function DataQualityPanel({ issues, summary, onClose }: DataQualityPanelP
         <span>Duplicates: {duplicateCount}</span>
         <span>JSON Errors: {jsonErrorCount}</span>
         <span>Other Errors: {errorCount - jsonErrorCount}</span>
+        <span>With Warnings: {warningCount}</span>
       </div>
       
+      {complaints && (
+        <div className="quality-provenance">
+          <label>
+            UPB source for row{' '}
+            <input
+              type="text"
+              size={8}
+              placeholder="Sheet row"
+              value={lookupRow}
+              onChange={event => setLookupRow(event.target.value)}
+              aria-label="Row number"
+            />
+          </label>
+          {lookupRow && (
+            <span>{lookedUp ? describeUPBSource(lookedUp) : `No row ${lookupRow}`}</span>
+          )}
+        </div>
+      )}
+
       <div className="quality-details">
         <h4>Issue Details (showing first 20):</h4>
         {issues.slice(0, 20).map((issue, index) => (
           <div key={index} className="quality-issue">
             <div className="issue-header">
-              <strong>Row {issue.rowIndex + 1}</strong>
+              <strong>Row {issue.rowLabel}</strong>
               {issue.isDuplicate && (
                 <span className="badge duplicate">
-                  Duplicate{issue.duplicateOf !== undefined && ` (of row ${issue.duplicateOf + 1})`}
+                  Duplicate{issue.duplicateOfRowLabel !== undefined && ` (of row ${issue.duplicateOfRowLabel})`}
                 </span>
               )}
-              {issue.errors.some(err => err.toLowerCase().includes('json')) && (
+              {issue.findings.some(isJSONError) && (
                 <span className="badge json-error">JSON Error</span>
               )}
             </div>
-            {issue.errors.length > 0 && (
+            {issue.row && (
+              <div className="issue-provenance">UPB: {describeUPBSource(issue.row)}</div>
+            )}
+            {issue.findings.length > 0 && (
               <ul className="issue-errors">
-                {issue.errors.map((error, errIndex) => {
-                  const isJSONError = error.toLowerCase().includes('json');
-                  return (
-                    <li key={errIndex} className={isJSONError ? 'json-error-text' : ''}>
-                      {error}
-                    </li>
-                  );
-                })}
+                {issue.findings.map((finding, findingIndex) => (
+                  <li
+                    key={findingIndex}
+                    className={`finding-${finding.severity}${isJSONError(finding) ? ' json-error-text' : ''}`}
+                  >
+                    <span className="finding-severity">{finding.severity === 'error' ? 'Error' : 'Warning'}</span>
+                    <span>{finding.message}</span>
+                    {finding.field && <span className="finding-field" title={finding.value}>{finding.field}</span>}
+                  </li>
+                ))}
               </ul>
             )}
           </div>
@@ -0,0 +1,127 @@
+// Data source picker - switch between Google Sheets, a JSON endpoint and an uploaded export
+
+import { useState } from 'react';
+import { DataSource } from '../types';
+import { DataSourceType, JSON_SOURCE_URL } from '../config/dataSourceConfig';
+import { SHEET_NAME } from '../config/sheetConfig';
+import { createDataSource } from '../services/dataSources';
+import { readFile } from '../services/dataSources/fileUploadSource';
+import { getDefaultTab, isWorkbookFile, listWorkbookTabs } from '../utils/spreadsheetFile';
+
+interface DataSourcePickerProps {
+  type: DataSourceType;
+  onTypeChange: (type: DataSourceType) => void;
+  onChange: (dataSource: DataSource) => void;
+}
+
+const SOURCE_LABELS: Record<DataSourceType, string> = {
+  'google-sheets': 'Google Sheets',
+  'json-http': 'JSON endpoint',
+  'file-upload': 'Uploaded file',
+};
+
+export function DataSourcePicker({ type, onTypeChange, onChange }: DataSourcePickerProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [tabs, setTabs] = useState<string[]>([]);
+  const [selectedTabs, setSelectedTabs] = useState<string[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  // The JSON option is only offered when an endpoint is configured
+  const types = (Object.keys(SOURCE_LABELS) as DataSourceType[]).filter(
+    option => option !== 'json-http' || JSON_SOURCE_URL
+  );
+
+  const handleTypeChange = (next: DataSourceType) => {
+    onTypeChange(next);
+    // A file source is created once a file has been picked
+    if (next !== 'file-upload') {
+      onChange(createDataSource(next));
+    }
+  };
+
+  const handleFileChange = async (picked: File) => {
+    setFile(picked);
+    setFileError(null);
+
+    if (!isWorkbookFile(picked.name)) {
+      setTabs([]);
+      setSelectedTabs([]);
+      onChange(createDataSource('file-upload', { file: picked }));
+      return;
+    }
+
+    try {
+      // Start with the configured tab, like the Google Sheets source
+      const tabNames = listWorkbookTabs(await readFile(picked));
+      const defaultTab = getDefaultTab(tabNames, SHEET_NAME);
+      const selected = defaultTab ? [defaultTab] : [];
+
+      setTabs(tabNames);
+      setSelectedTabs(selected);
+      onChange(createDataSource('file-upload', { file: picked, tabNames: selected }));
+    } catch (err) {
+      console.error('Error reading workbook:', err);
+      setTabs([]);
+      setFileError(`Could not read ${picked.name} as a workbook`);
+    }
+  };
+
+  const toggleTab = (tabName: string) => {
+    if (!file) return;
+
+    // Keep workbook order, and at least one tab selected
+    const next = tabs.filter(name =>
+      name === tabName ? !selectedTabs.includes(name) : selectedTabs.includes(name)
+    );
+    if (next.length === 0) return;
+
+    setSelectedTabs(next);
+    onChange(createDataSource('file-upload', { file, tabNames: next }));
+  };
+
+  return (
+    <div className="data-source-picker">
+      <label htmlFor="data-source">Source</label>
+      <select
+        id="data-source"
+        value={type}
+        onChange={event => handleTypeChange(event.target.value as DataSourceType)}
+      >
+        {types.map(option => (
+          <option key={option} value={option}>
+            {SOURCE_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      {type === 'file-upload' && (
+        <input
+          type="file"
+          accept=".csv,.xlsx,.xlsm,.xls"
+          aria-label="Sheet export file"
+          onChange={event => {
+            const picked = event.target.files?.[0];
+            if (picked) {
+              handleFileChange(picked);
+            }
+          }}
+        />
+      )}
+      {type === 'file-upload' && tabs.length > 1 && (
+        <fieldset className="workbook-tabs">
+          <legend>Tabs</legend>
+          {tabs.map(tabName => (
+            <label key={tabName}>
+              <input
+                type="checkbox"
+                checked={selectedTabs.includes(tabName)}
+                onChange={() => toggleTab(tabName)}
+              />
+              {tabName}
+            </label>
+          ))}
+        </fieldset>
+      )}
+      {fileError && <span className="data-source-error">{fileError}</span>}
+    </div>
+  );
+}
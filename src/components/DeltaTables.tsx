@@ -0,0 +1,93 @@
+// Before/after tables shared by the snapshot comparison and the criteria simulator
+
+import { useMemo } from 'react';
+import { SummaryTotals, SummaryTotalsDelta } from '../types';
+import { formatCurrency } from '../utils/calculations';
+
+export function DeltaCell({
+  before,
+  after,
+  currency = false,
+}: {
+  before: number;
+  after: number;
+  currency?: boolean;
+}) {
+  const delta = after - before;
+  const format = (value: number) => (currency ? formatCurrency(value) : value.toString());
+
+  return (
+    <td className={currency ? 'currency-cell' : 'number-cell'}>
+      {format(after)}
+      {delta !== 0 && (
+        <span className={`delta ${delta > 0 ? 'delta-positive' : 'delta-negative'}`}>
+          {delta > 0 ? '+' : '−'}{format(Math.abs(delta))}
+        </span>
+      )}
+    </td>
+  );
+}
+
+export function TotalsDeltaTable({
+  title,
+  labelHeader,
+  data,
+}: {
+  title: string;
+  labelHeader: string;
+  data: SummaryTotalsDelta[];
+}) {
+  const totals = useMemo(() => {
+    const sum = (pick: (row: SummaryTotalsDelta) => SummaryTotals): SummaryTotals =>
+      data.reduce(
+        (acc, row) => ({
+          totalComplaints: acc.totalComplaints + pick(row).totalComplaints,
+          totalUPB: acc.totalUPB + pick(row).totalUPB,
+          complaintsMeetingCriteria: acc.complaintsMeetingCriteria + pick(row).complaintsMeetingCriteria,
+          upbMeetingCriteria: acc.upbMeetingCriteria + pick(row).upbMeetingCriteria,
+        }),
+        { totalComplaints: 0, totalUPB: 0, complaintsMeetingCriteria: 0, upbMeetingCriteria: 0 }
+      );
+    return { before: sum(row => row.before), after: sum(row => row.after) };
+  }, [data]);
+
+  const renderCells = (before: SummaryTotals, after: SummaryTotals) => (
+    <>
+      <DeltaCell before={before.totalComplaints} after={after.totalComplaints} />
+      <DeltaCell before={before.totalUPB} after={after.totalUPB} currency />
+      <DeltaCell before={before.complaintsMeetingCriteria} after={after.complaintsMeetingCriteria} />
+      <DeltaCell before={before.upbMeetingCriteria} after={after.upbMeetingCriteria} currency />
+    </>
+  );
+
+  return (
+    <div className="snapshot-section">
+      <h3>{title}</h3>
+      <div className="table-container">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{labelHeader}</th>
+              <th>Total Complaints</th>
+              <th>Total UPB</th>
+              <th>Complaints That Meet Criteria</th>
+              <th>UPB That Meets Criteria</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.map(row => (
+              <tr key={row.label}>
+                <td className="county-cell">{row.label}</td>
+                {renderCells(row.before, row.after)}
+              </tr>
+            ))}
+            <tr className="totals-row">
+              <td><strong>Totals</strong></td>
+              {renderCells(totals.before, totals.after)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
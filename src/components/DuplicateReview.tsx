@@ -0,0 +1,209 @@
+// Duplicate Review - confirm or reject each duplicate cluster and pick the record kept
+
+import { useMemo, useState } from 'react';
+import { DuplicateCluster, DuplicateDecisionList, DuplicateDecisionStatus, ProcessedComplaint } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { DUPLICATE_STRATEGY_LABELS, needsDuplicateReview } from '../utils/duplicateClusters';
+import { getRowLabel } from '../utils/rowFingerprint';
+import { deleteDuplicateDecision, saveDuplicateDecision } from '../services/duplicateApi';
+import { AUTO_MERGE_CONFIDENCE } from '../config/duplicateConfig';
+
+interface DuplicateReviewProps {
+  clusters: DuplicateCluster[];
+  complaints: ProcessedComplaint[]; // Rows in sheet order
+  onDecisionsChange: (list: DuplicateDecisionList) => void;
+}
+
+type StatusFilter = DuplicateCluster['status'] | 'all';
+
+const FILTER_LABELS: Record<StatusFilter, string> = {
+  pending: 'To review',
+  confirmed: 'Confirmed',
+  rejected: 'Rejected',
+  all: 'All',
+};
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+/**
+ * Describes where a cluster stands, e.g. "Dropped until reviewed"
+ */
+function describeStatus(cluster: DuplicateCluster): string {
+  const added = cluster.members.filter(member => member.addedSinceDecision).length;
+  const since = added > 0 ? ` (${added} ${added === 1 ? 'row' : 'rows'} added since)` : '';
+  if (cluster.status === 'confirmed') return `Confirmed duplicate${since}`;
+  if (cluster.status === 'rejected') return `Not duplicates${since}`;
+  return cluster.autoMerged ? 'Dropped until reviewed' : 'Counted until reviewed';
+}
+
+export function DuplicateReview({ clusters, complaints, onDecisionsChange }: DuplicateReviewProps) {
+  const [filter, setFilter] = useState<StatusFilter>('pending');
+  const [survivors, setSurvivors] = useState<Record<string, number>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const pendingCount = clusters.filter(needsDuplicateReview).length;
+
+  // Least certain first, as they're the ones that need a person
+  const shown = useMemo(
+    () =>
+      clusters
+        .filter(cluster =>
+          filter === 'all' || (filter === 'pending' ? needsDuplicateReview(cluster) : cluster.status === filter)
+        )
+        .sort((a, b) => a.confidence - b.confidence || a.members[0].rowIndex - b.members[0].rowIndex),
+    [clusters, filter]
+  );
+
+  const decide = async (cluster: DuplicateCluster, decision: DuplicateDecisionStatus | null) => {
+    const survivorIndex = survivors[cluster.id] ?? cluster.survivor;
+    const survivor = cluster.members.find(member => member.rowIndex === survivorIndex)?.fingerprint;
+
+    setSavingId(cluster.id);
+    try {
+      const list = decision === null
+        ? await deleteDuplicateDecision(cluster.decisionId ?? cluster.id)
+        : await saveDuplicateDecision(
+            cluster.id,
+            decision,
+            cluster.members.map(member => member.fingerprint),
+            decision === 'confirmed' ? survivor : undefined
+          );
+      onDecisionsChange(list);
+      setStatus(
+        decision === 'confirmed'
+          ? `Kept row ${getRowLabel(complaints[survivorIndex] ?? {}, survivorIndex)}; the dashboard is being recalculated`
+          : decision === 'rejected'
+            ? 'Marked as not duplicates; the dashboard is being recalculated'
+            : 'Cleared the decision; the dashboard is being recalculated'
+      );
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save the decision');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Duplicate Review</h2>
+        <div className="header-actions">
+          <label className="snapshot-select">
+            Show
+            <select value={filter} onChange={event => setFilter(event.target.value as StatusFilter)}>
+              {(Object.keys(FILTER_LABELS) as StatusFilter[]).map(option => (
+                <option key={option} value={option}>
+                  {FILTER_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="snapshot-summary">
+        <span className="summary-badge">{clusters.length} clusters</span>
+        <span className="summary-badge">{pendingCount} to review</span>
+        <span className="summary-badge">
+          {clusters.filter(cluster => cluster.autoMerged).length} dropped until reviewed
+        </span>
+      </div>
+
+      <p className="mapping-hint">
+        Rows matched at {formatConfidence(AUTO_MERGE_CONFIDENCE)} confidence or more are left out of
+        the metrics until reviewed; less certain matches are counted until someone confirms them.
+        Decisions are saved on the server and applied on every refresh. Rows that join a decided
+        cluster are handled as if it were pending until it's reviewed again.
+        {status && ` • ${status}`}
+      </p>
+
+      {shown.length === 0 ? (
+        <div className="empty-state">No duplicate clusters</div>
+      ) : (
+        shown.map(cluster => {
+          const selected = survivors[cluster.id] ?? cluster.survivor;
+          const saving = savingId === cluster.id;
+          return (
+            <div key={cluster.id} className="duplicate-cluster">
+              <div className="duplicate-cluster-header">
+                <strong>{cluster.members.length} rows</strong>
+                <span>{DUPLICATE_STRATEGY_LABELS[cluster.strategy]}</span>
+                <span className={cluster.confidence < AUTO_MERGE_CONFIDENCE ? 'audit-warning' : undefined}>
+                  {formatConfidence(cluster.confidence)} confidence
+                </span>
+                <span className={`duplicate-status duplicate-status-${cluster.status}`}>{describeStatus(cluster)}</span>
+                <div className="header-actions">
+                  <button onClick={() => decide(cluster, 'confirmed')} className="export-button" disabled={saving}>
+                    Confirm
+                  </button>
+                  <button onClick={() => decide(cluster, 'rejected')} className="export-button" disabled={saving}>
+                    Not Duplicates
+                  </button>
+                  {cluster.status !== 'pending' && (
+                    <button onClick={() => decide(cluster, null)} className="export-button" disabled={saving}>
+                      Undo
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Keep</th>
+                      <th>Sheet Row</th>
+                      <th>Address</th>
+                      <th>County</th>
+                      <th>Lender</th>
+                      <th>Complaint Date</th>
+                      <th className="text-right">UPB</th>
+                      <th>Match</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {cluster.members.map(member => {
+                      const row = complaints[member.rowIndex];
+                      const label = getRowLabel(row ?? {}, member.rowIndex);
+                      // Rows with the same key fields share a fingerprint, so the first of them is kept
+                      const sameAsEarlier = cluster.members.some(
+                        other => other.rowIndex < member.rowIndex && other.fingerprint === member.fingerprint
+                      );
+                      return (
+                        <tr key={member.rowIndex}>
+                          <td>
+                            <input
+                              type="radio"
+                              name={`survivor-${cluster.id}`}
+                              checked={selected === member.rowIndex}
+                              disabled={sameAsEarlier}
+                              onChange={() => setSurvivors(current => ({ ...current, [cluster.id]: member.rowIndex }))}
+                              aria-label={`Keep row ${label}`}
+                            />
+                          </td>
+                          <td>{label}</td>
+                          <td>{row?.propertyAddress}</td>
+                          <td>{row?.normalizedCounty}</td>
+                          <td>{row?.normalizedLender}</td>
+                          <td>{formatDate(row?.complaintDate)}</td>
+                          <td className="text-right currency-cell">
+                            {row?.upb !== undefined ? formatCurrency(row.upb) : ''}
+                          </td>
+                          <td>
+                            {member.strategy
+                              ? `${DUPLICATE_STRATEGY_LABELS[member.strategy]} (${formatConfidence(member.confidence ?? 0)})`
+                              : 'First row'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
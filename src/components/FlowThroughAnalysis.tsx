@@ -3,10 +3,12 @@
 import { useState, useMemo } from 'react';
 import { FlowThroughDeal } from '../types';
 import { formatCurrency, formatDate } from '../utils/calculations';
+import { toBusinessDayKey } from '../utils/businessDate';
 
 interface FlowThroughAnalysisProps {
   ytdData: FlowThroughDeal[];
   lastWeekData: FlowThroughDeal[];
+  highlightedRowIds?: Set<string>; // e.g. rows added since the last refresh
 }
 
 type SortField = 'propertyAddress' | 'county' | 'lender' | 'upb' | 'complaintDate';
@@ -16,10 +18,12 @@ function FlowThroughTable({
   title,
   data,
   exportFileName,
+  highlightedRowIds,
 }: {
   title: string;
   data: FlowThroughDeal[];
   exportFileName: string;
+  highlightedRowIds?: Set<string>;
 }) {
   const [sortField, setSortField] = useState<SortField>('complaintDate');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
@@ -95,7 +99,7 @@ function FlowThroughTable({
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${exportFileName}-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `${exportFileName}-${toBusinessDayKey(new Date())}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -151,7 +155,7 @@ function FlowThroughTable({
             </thead>
             <tbody>
               {sortedData.map((row, idx) => (
-                <tr key={idx}>
+                <tr key={idx} className={row.rowId && highlightedRowIds?.has(row.rowId) ? 'row-new' : undefined}>
                   <td>{row.propertyAddress}</td>
                   <td>{row.county}</td>
                   <td>{row.lender}</td>
@@ -167,7 +171,7 @@ function FlowThroughTable({
   );
 }
 
-export function FlowThroughAnalysis({ ytdData, lastWeekData }: FlowThroughAnalysisProps) {
+export function FlowThroughAnalysis({ ytdData, lastWeekData, highlightedRowIds }: FlowThroughAnalysisProps) {
   return (
     <div className="dashboard-card">
       <div className="card-header">
@@ -178,11 +182,13 @@ export function FlowThroughAnalysis({ ytdData, lastWeekData }: FlowThroughAnalys
           title="Year-to-Date (YTD): All Deals Meeting Criteria"
           data={ytdData}
           exportFileName="flow-through-ytd"
+          highlightedRowIds={highlightedRowIds}
         />
         <FlowThroughTable
           title="Last Week: Deals Meeting Criteria (Last 7 Days)"
           data={lastWeekData}
           exportFileName="flow-through-last-week"
+          highlightedRowIds={highlightedRowIds}
         />
       </div>
     </div>
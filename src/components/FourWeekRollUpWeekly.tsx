@@ -1,53 +1,52 @@
 // Four-Week Roll-Up Component with Weekly Breakdown
+// The number of weeks and how they're counted (rolling, ISO, calendar or fiscal)
+// come from the week settings
 
 import { useState, useMemo } from 'react';
-import { FourWeekRollUpWeekly } from '../types';
+import { FourWeekRollUpWeekly, WeekSettings } from '../types';
 import { formatCurrency } from '../utils/calculations';
-import { subDays, format } from 'date-fns';
+import { toBusinessDayKey } from '../utils/businessDate';
+import { getWeekWindows } from '../utils/weekWindows';
+import { DEFAULT_WEEK_SETTINGS } from '../config/weekConfig';
+import { WeekSettingsPicker } from './WeekSettingsPicker';
 
 interface FourWeekRollUpWeeklyTableProps {
   data: FourWeekRollUpWeekly[];
+  referenceDate?: Date; // "As-of" date the weeks are anchored to (defaults to now)
+  weekSettings?: WeekSettings; // Must match the settings the data was calculated with
+  onWeekSettingsChange?: (value: WeekSettings) => void;
 }
 
-type SortField = 'county' | 'week1' | 'week2' | 'week3' | 'week4' | 'total';
+// A week's index (0 = week 1), or the county / total column
+type SortField = 'county' | 'total' | number;
 type SortDirection = 'asc' | 'desc';
 
-export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTableProps) {
+export function FourWeekRollUpWeeklyTable({
+  data,
+  referenceDate = new Date(),
+  weekSettings = DEFAULT_WEEK_SETTINGS,
+  onWeekSettingsChange,
+}: FourWeekRollUpWeeklyTableProps) {
   const [sortField, setSortField] = useState<SortField>('county');
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
 
+  // The same windows the calculation bucketed the complaints into
+  const windows = getWeekWindows(referenceDate, weekSettings);
+
   const sortedData = useMemo(() => {
     const sorted = [...data].sort((a, b) => {
       let aValue: number | string;
       let bValue: number | string;
 
-      switch (sortField) {
-        case 'county':
-          aValue = a.county;
-          bValue = b.county;
-          break;
-        case 'week1':
-          aValue = a.week1.totalComplaints;
-          bValue = b.week1.totalComplaints;
-          break;
-        case 'week2':
-          aValue = a.week2.totalComplaints;
-          bValue = b.week2.totalComplaints;
-          break;
-        case 'week3':
-          aValue = a.week3.totalComplaints;
-          bValue = b.week3.totalComplaints;
-          break;
-        case 'week4':
-          aValue = a.week4.totalComplaints;
-          bValue = b.week4.totalComplaints;
-          break;
-        case 'total':
-          aValue = a.totalComplaints;
-          bValue = b.totalComplaints;
-          break;
-        default:
-          return 0;
+      if (sortField === 'county') {
+        aValue = a.county;
+        bValue = b.county;
+      } else if (sortField === 'total') {
+        aValue = a.totalComplaints;
+        bValue = b.totalComplaints;
+      } else {
+        aValue = a.weeks[sortField]?.totalComplaints ?? 0;
+        bValue = b.weeks[sortField]?.totalComplaints ?? 0;
       }
 
       if (typeof aValue === 'string' && typeof bValue === 'string') {
@@ -76,23 +75,19 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
   const exportToCSV = () => {
     const headers = [
       'County',
-      'Week 1 Complaints', 'Week 1 UPB',
-      'Week 2 Complaints', 'Week 2 UPB',
-      'Week 3 Complaints', 'Week 3 UPB',
-      'Week 4 Complaints', 'Week 4 UPB',
+      ...windows.flatMap(({ week, rangeLabel }) => [
+        `Week ${week} (${rangeLabel}) Complaints`,
+        `Week ${week} (${rangeLabel}) UPB`,
+      ]),
       'Total Complaints', 'Total UPB',
     ];
 
     const rows = sortedData.map(row => [
       row.county,
-      row.week1.totalComplaints.toString(),
-      row.week1.totalUPB.toString(),
-      row.week2.totalComplaints.toString(),
-      row.week2.totalUPB.toString(),
-      row.week3.totalComplaints.toString(),
-      row.week3.totalUPB.toString(),
-      row.week4.totalComplaints.toString(),
-      row.week4.totalUPB.toString(),
+      ...windows.flatMap((_, index) => [
+        (row.weeks[index]?.totalComplaints ?? 0).toString(),
+        (row.weeks[index]?.totalUPB ?? 0).toString(),
+      ]),
       row.totalComplaints.toString(),
       row.totalUPB.toString(),
     ]);
@@ -105,36 +100,27 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `four-week-rollup-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    a.download = `weekly-rollup-${weekSettings.mode}-${toBusinessDayKey(referenceDate)}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const getWeekLabel = (weekNum: number) => {
-    const now = new Date();
-    // Week 1 is most recent (last 7 days), Week 4 is oldest (28-21 days ago)
-    const weekStart = subDays(now, weekNum * 7);
-    return format(weekStart, 'MMM d');
-  };
-
-  const getWeekRangeLabel = (weekNum: number) => {
-    const now = new Date();
-    const rangeStart = subDays(now, weekNum * 7);
-    const rangeEnd = weekNum === 1 ? now : subDays(now, (weekNum - 1) * 7);
-    const displayEnd = weekNum === 1 ? rangeEnd : subDays(rangeEnd, 1);
-    return `${format(rangeStart, 'MMM d')}–${format(displayEnd, 'MMM d')}`;
-  };
-
   const SortIcon = ({ field }: { field: SortField }) => {
     if (sortField !== field) return <span className="sort-icon">↕</span>;
     return <span className="sort-icon">{sortDirection === 'asc' ? '↑' : '↓'}</span>;
   };
 
+  const title = `${weekSettings.weeks}-Week Roll-Up (Weekly Breakdown)`;
+  const settingsPicker = onWeekSettingsChange && (
+    <WeekSettingsPicker value={weekSettings} onChange={onWeekSettingsChange} />
+  );
+
   if (data.length === 0) {
     return (
       <div className="dashboard-card">
         <div className="card-header">
-          <h2>Four-Week Roll-Up (Weekly Breakdown)</h2>
+          <h2>{title}</h2>
+          {settingsPicker}
         </div>
         <div className="empty-state">No data available</div>
       </div>
@@ -142,53 +128,41 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
   }
 
   // Calculate totals for summary
-  const totals = sortedData.reduce(
+  const weekTotals = windows.map((_, index) =>
+    sortedData.reduce(
+      (acc, row) => ({
+        complaints: acc.complaints + (row.weeks[index]?.totalComplaints ?? 0),
+        upb: acc.upb + (row.weeks[index]?.totalUPB ?? 0),
+      }),
+      { complaints: 0, upb: 0 }
+    )
+  );
+  const total = sortedData.reduce(
     (acc, row) => ({
-      week1: {
-        complaints: acc.week1.complaints + row.week1.totalComplaints,
-        upb: acc.week1.upb + row.week1.totalUPB,
-      },
-      week2: {
-        complaints: acc.week2.complaints + row.week2.totalComplaints,
-        upb: acc.week2.upb + row.week2.totalUPB,
-      },
-      week3: {
-        complaints: acc.week3.complaints + row.week3.totalComplaints,
-        upb: acc.week3.upb + row.week3.totalUPB,
-      },
-      week4: {
-        complaints: acc.week4.complaints + row.week4.totalComplaints,
-        upb: acc.week4.upb + row.week4.totalUPB,
-      },
-      total: {
-        complaints: acc.total.complaints + row.totalComplaints,
-        upb: acc.total.upb + row.totalUPB,
-      },
+      complaints: acc.complaints + row.totalComplaints,
+      upb: acc.upb + row.totalUPB,
     }),
-    {
-      week1: { complaints: 0, upb: 0 },
-      week2: { complaints: 0, upb: 0 },
-      week3: { complaints: 0, upb: 0 },
-      week4: { complaints: 0, upb: 0 },
-      total: { complaints: 0, upb: 0 },
-    }
+    { complaints: 0, upb: 0 }
   );
+  const maxUpb = Math.max(...weekTotals.map(w => w.upb));
 
   return (
     <div className="dashboard-card">
       <div className="card-header">
-        <h2>Four-Week Roll-Up (Weekly Breakdown)</h2>
-        <button onClick={exportToCSV} className="export-button">
-          Export CSV
-        </button>
+        <h2>{title}</h2>
+        <div className="header-actions">
+          {settingsPicker}
+          <button onClick={exportToCSV} className="export-button">
+            Export CSV
+          </button>
+        </div>
       </div>
 
       {/* Summary Visual */}
       <div className="summary-chart">
         <div className="chart-bars">
-          {[1, 2, 3, 4].map(week => {
-            const weekData = totals[`week${week}` as keyof typeof totals];
-            const maxUpb = Math.max(...Object.values(totals).map(w => w.upb));
+          {windows.map(({ week, rangeLabel }, index) => {
+            const weekData = weekTotals[index];
             const height = maxUpb > 0 ? (weekData.upb / maxUpb) * 100 : 0;
 
             return (
@@ -199,10 +173,10 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
                   <div
                     className="chart-bar"
                     style={{ height: `${height}%` }}
-                    title={`${getWeekRangeLabel(week)}: ${weekData.complaints} complaints, ${formatCurrency(weekData.upb)}`}
+                    title={`${rangeLabel}: ${weekData.complaints} complaints, ${formatCurrency(weekData.upb)}`}
                   />
                 </div>
-                <div className="chart-label">{getWeekRangeLabel(week)}</div>
+                <div className="chart-label">{rangeLabel}</div>
               </div>
             );
           })}
@@ -216,20 +190,13 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
               <th onClick={() => handleSort('county')} className="sortable">
                 County <SortIcon field="county" />
               </th>
-              <th onClick={() => handleSort('week1')} className="sortable">
-                Week 1 ({getWeekLabel(1)}) <SortIcon field="week1" />
-              </th>
-              <th onClick={() => handleSort('week2')} className="sortable">
-                Week 2 ({getWeekLabel(2)}) <SortIcon field="week2" />
-              </th>
-              <th onClick={() => handleSort('week3')} className="sortable">
-                Week 3 ({getWeekLabel(3)}) <SortIcon field="week3" />
-              </th>
-              <th onClick={() => handleSort('week4')} className="sortable">
-                Week 4 ({getWeekLabel(4)}) <SortIcon field="week4" />
-              </th>
+              {windows.map(({ week, label, rangeLabel }, index) => (
+                <th key={week} onClick={() => handleSort(index)} className="sortable" title={rangeLabel}>
+                  Week {week} ({label}) <SortIcon field={index} />
+                </th>
+              ))}
               <th onClick={() => handleSort('total')} className="sortable">
-                Total (4 Weeks) <SortIcon field="total" />
+                Total ({windows.length} Weeks) <SortIcon field="total" />
               </th>
             </tr>
           </thead>
@@ -237,30 +204,14 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
             {sortedData.map((row, idx) => (
               <tr key={idx}>
                 <td className="county-cell">{row.county}</td>
-                <td>
-                  <div className="week-cell">
-                    <span className="complaint-count">{row.week1.totalComplaints}</span>
-                    <span className="upb-amount">{formatCurrency(row.week1.totalUPB)}</span>
-                  </div>
-                </td>
-                <td>
-                  <div className="week-cell">
-                    <span className="complaint-count">{row.week2.totalComplaints}</span>
-                    <span className="upb-amount">{formatCurrency(row.week2.totalUPB)}</span>
-                  </div>
-                </td>
-                <td>
-                  <div className="week-cell">
-                    <span className="complaint-count">{row.week3.totalComplaints}</span>
-                    <span className="upb-amount">{formatCurrency(row.week3.totalUPB)}</span>
-                  </div>
-                </td>
-                <td>
-                  <div className="week-cell">
-                    <span className="complaint-count">{row.week4.totalComplaints}</span>
-                    <span className="upb-amount">{formatCurrency(row.week4.totalUPB)}</span>
-                  </div>
-                </td>
+                {windows.map(({ week }, index) => (
+                  <td key={week}>
+                    <div className="week-cell">
+                      <span className="complaint-count">{row.weeks[index]?.totalComplaints ?? 0}</span>
+                      <span className="upb-amount">{formatCurrency(row.weeks[index]?.totalUPB ?? 0)}</span>
+                    </div>
+                  </td>
+                ))}
                 <td className="total-cell">
                   <div className="week-cell">
                     <span className="complaint-count">{row.totalComplaints}</span>
@@ -271,34 +222,18 @@ export function FourWeekRollUpWeeklyTable({ data }: FourWeekRollUpWeeklyTablePro
             ))}
             <tr className="totals-row">
               <td className="county-cell"><strong>Total</strong></td>
-              <td>
-                <div className="week-cell">
-                  <span className="complaint-count"><strong>{totals.week1.complaints}</strong></span>
-                  <span className="upb-amount"><strong>{formatCurrency(totals.week1.upb)}</strong></span>
-                </div>
-              </td>
-              <td>
-                <div className="week-cell">
-                  <span className="complaint-count"><strong>{totals.week2.complaints}</strong></span>
-                  <span className="upb-amount"><strong>{formatCurrency(totals.week2.upb)}</strong></span>
-                </div>
-              </td>
-              <td>
-                <div className="week-cell">
-                  <span className="complaint-count"><strong>{totals.week3.complaints}</strong></span>
-                  <span className="upb-amount"><strong>{formatCurrency(totals.week3.upb)}</strong></span>
-                </div>
-              </td>
-              <td>
-                <div className="week-cell">
-                  <span className="complaint-count"><strong>{totals.week4.complaints}</strong></span>
-                  <span className="upb-amount"><strong>{formatCurrency(totals.week4.upb)}</strong></span>
-                </div>
-              </td>
+              {weekTotals.map((weekData, index) => (
+                <td key={index}>
+                  <div className="week-cell">
+                    <span className="complaint-count"><strong>{weekData.complaints}</strong></span>
+                    <span className="upb-amount"><strong>{formatCurrency(weekData.upb)}</strong></span>
+                  </div>
+                </td>
+              ))}
               <td className="total-cell">
                 <div className="week-cell">
-                  <span className="complaint-count"><strong>{totals.total.complaints}</strong></span>
-                  <span className="upb-amount"><strong>{formatCurrency(totals.total.upb)}</strong></span>
+                  <span className="complaint-count"><strong>{total.complaints}</strong></span>
+                  <span className="upb-amount"><strong>{formatCurrency(total.upb)}</strong></span>
                 </div>
               </td>
             </tr>
@@ -0,0 +1,230 @@
+// Geography Drill-Down - expand states into regions, regions into counties, counties into deals
+
+import { useMemo, useState } from 'react';
+import { DrillDownPeriod, ProcessedComplaint, RegionModel, StateDrillDown, SummaryTotals } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { calculateGeographyDrillDown, DRILL_DOWN_PERIOD_LABELS } from '../utils/geographyDrillDown';
+import { toBusinessDayKey } from '../utils/businessDate';
+
+interface GeographyDrillDownProps {
+  complaints: ProcessedComplaint[];
+  referenceDate: Date;
+  regions: RegionModel;
+}
+
+const formatPercent = (numerator: number, denominator: number) =>
+  denominator > 0 ? `${Math.round((numerator / denominator) * 100)}%` : '0%';
+
+function TotalsCells({ totals }: { totals: SummaryTotals }) {
+  return (
+    <>
+      <td className="text-right">{totals.totalComplaints.toLocaleString()}</td>
+      <td className="text-right currency-cell">{formatCurrency(totals.totalUPB)}</td>
+      <td className="text-right">
+        {totals.complaintsMeetingCriteria.toLocaleString()}
+        <div className="cell-subtext">
+          {formatPercent(totals.complaintsMeetingCriteria, totals.totalComplaints)}
+        </div>
+      </td>
+      <td className="text-right currency-cell">
+        {formatCurrency(totals.upbMeetingCriteria)}
+        <div className="cell-subtext">{formatPercent(totals.upbMeetingCriteria, totals.totalUPB)}</div>
+      </td>
+    </>
+  );
+}
+
+function ExpandButton({ label, expanded, onToggle }: {
+  label: string;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <button
+      className="drill-toggle"
+      aria-expanded={expanded}
+      aria-label={`${expanded ? 'Collapse' : 'Expand'} ${label}`}
+      onClick={onToggle}
+    >
+      {expanded ? '▾' : '▸'}
+    </button>
+  );
+}
+
+const allKeys = (states: StateDrillDown[]) =>
+  states.flatMap(state => [
+    state.state,
+    ...state.regions.flatMap(region => [
+      `${state.state}|${region.region}`,
+      ...region.counties.map(county => `${state.state}|${region.region}|${county.county}`),
+    ]),
+  ]);
+
+export function GeographyDrillDown({ complaints, referenceDate, regions }: GeographyDrillDownProps) {
+  const [period, setPeriod] = useState<DrillDownPeriod>('ytd');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const referenceTime = referenceDate.getTime();
+  const states = useMemo(
+    () => calculateGeographyDrillDown(complaints, new Date(referenceTime), regions, period),
+    [complaints, referenceTime, regions, period]
+  );
+
+  const toggle = (key: string) =>
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+
+  const exportToCSV = () => {
+    const headers = ['State', 'Region', 'County', 'Total Complaints', 'Total UPB', 'Complaints That Meet Criteria', 'UPB That Meets Criteria'];
+    const rows = states.flatMap(state =>
+      state.regions.flatMap(region =>
+        region.counties.map(county => [
+          state.state,
+          region.region,
+          county.county,
+          county.totalComplaints.toString(),
+          county.totalUPB.toString(),
+          county.complaintsMeetingCriteria.toString(),
+          county.upbMeetingCriteria.toString(),
+        ])
+      )
+    );
+
+    const csv = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `geography-${period}-${toBusinessDayKey(referenceDate)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Geography Drill-Down</h2>
+        <div className="header-actions">
+          <label className="snapshot-select">
+            Period
+            <select value={period} onChange={event => setPeriod(event.target.value as DrillDownPeriod)}>
+              {(Object.keys(DRILL_DOWN_PERIOD_LABELS) as DrillDownPeriod[]).map(option => (
+                <option key={option} value={option}>
+                  {DRILL_DOWN_PERIOD_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={() => setExpanded(new Set(allKeys(states)))} className="export-button">
+            Expand All
+          </button>
+          <button onClick={() => setExpanded(new Set())} className="export-button">
+            Collapse All
+          </button>
+          <button onClick={exportToCSV} className="export-button">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {states.length === 0 ? (
+        <div className="empty-state">No complaints in this period</div>
+      ) : (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>State / Region / County</th>
+                <th className="text-right">Total Complaints</th>
+                <th className="text-right">Total UPB</th>
+                <th className="text-right">Complaints That Meet Criteria</th>
+                <th className="text-right">UPB That Meets Criteria</th>
+              </tr>
+            </thead>
+            <tbody>
+              {states.map(state => {
+                const stateKey = state.state;
+                const stateLabel = state.stateName ? `${state.stateName} (${state.state})` : state.state;
+                return [
+                  <tr key={stateKey} className="drill-state">
+                    <td className="region-cell">
+                      <ExpandButton label={stateLabel} expanded={expanded.has(stateKey)} onToggle={() => toggle(stateKey)} />
+                      {stateLabel}
+                    </td>
+                    <TotalsCells totals={state} />
+                  </tr>,
+                  ...(!expanded.has(stateKey) ? [] : state.regions.flatMap(region => {
+                    const regionKey = `${stateKey}|${region.region}`;
+                    return [
+                      <tr key={regionKey} className="drill-region">
+                        <td className="region-cell">
+                          <ExpandButton label={region.region} expanded={expanded.has(regionKey)} onToggle={() => toggle(regionKey)} />
+                          {region.region}
+                        </td>
+                        <TotalsCells totals={region} />
+                      </tr>,
+                      ...(!expanded.has(regionKey) ? [] : region.counties.flatMap(county => {
+                        const countyKey = `${regionKey}|${county.county}`;
+                        return [
+                          <tr key={countyKey} className="drill-county">
+                            <td className="county-cell">
+                              <ExpandButton label={county.county} expanded={expanded.has(countyKey)} onToggle={() => toggle(countyKey)} />
+                              {county.county}
+                            </td>
+                            <TotalsCells totals={county} />
+                          </tr>,
+                          ...(!expanded.has(countyKey) ? [] : [
+                            <tr key={`${countyKey}|deals`} className="drill-deals">
+                              <td colSpan={5}>
+                                <table className="data-table">
+                                  <thead>
+                                    <tr>
+                                      <th>Sheet Row</th>
+                                      <th>Property Address</th>
+                                      <th>Lender</th>
+                                      <th className="text-right">UPB</th>
+                                      <th>Complaint Date</th>
+                                      <th>Meets Criteria</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {county.deals.map(deal => (
+                                      <tr key={deal.rowIndex}>
+                                        <td>{deal.rowLabel}</td>
+                                        <td>{deal.propertyAddress}</td>
+                                        <td>{deal.lender}</td>
+                                        <td className="text-right currency-cell">{formatCurrency(deal.upb)}</td>
+                                        <td>{formatDate(deal.complaintDate)}</td>
+                                        <td className={deal.meetsCriteria ? 'criteria-pass' : 'criteria-fail'}>
+                                          {deal.meetsCriteria ? 'Yes' : 'No'}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </td>
+                            </tr>,
+                          ]),
+                        ];
+                      })),
+                    ];
+                  })),
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
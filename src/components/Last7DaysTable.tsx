@@ -3,6 +3,7 @@
 import { useState, useMemo } from 'react';
 import { Last7DaysComplaint } from '../types';
 import { formatCurrency, formatDate } from '../utils/calculations';
+import { toBusinessDayKey } from '../utils/businessDate';
 
 interface Last7DaysTableProps {
   data: Last7DaysComplaint[];
@@ -81,7 +82,7 @@ export function Last7DaysTable({ data }: Last7DaysTableProps) {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `last-7-days-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `last-7-days-${toBusinessDayKey(new Date())}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
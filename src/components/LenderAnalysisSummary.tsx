@@ -1,35 +1,44 @@
-// Lender Analysis Summary - Meets Criteria only
+// Lender Analysis Summary - Meets Criteria only, by lender or by a party parsed from the plaintiff
 
 import { useMemo, useState } from 'react';
-import { LenderCriteriaSummary, ProcessedComplaint } from '../types';
-import { formatCurrency, formatDate, meetsCriteria } from '../utils/calculations';
-import { normalizeLender } from '../utils/normalization';
+import { LenderCriteriaSummary, PlaintiffParty, ProcessedComplaint } from '../types';
+import {
+  calculateLenderCriteriaSummary,
+  formatCurrency,
+  formatDate,
+  meetsCriteria,
+} from '../utils/calculations';
+import { getPlaintiffParty, PLAINTIFF_PARTY_LABELS } from '../utils/plaintiffParser';
 
 interface LenderAnalysisSummaryProps {
-  data: LenderCriteriaSummary[];
+  data: LenderCriteriaSummary[]; // Totals by lender
   complaints: ProcessedComplaint[];
+  referenceDate: Date; // For totals by trustee, trust or servicer
   topCount?: number;
 }
 
-export function LenderAnalysisSummary({ data, complaints, topCount = 10 }: LenderAnalysisSummaryProps) {
+export function LenderAnalysisSummary({ data, complaints, referenceDate, topCount = 10 }: LenderAnalysisSummaryProps) {
+  const [groupBy, setGroupBy] = useState<PlaintiffParty>('lender');
   const [selectedLender, setSelectedLender] = useState<string | null>(null);
   const [dealSortField, setDealSortField] = useState<'property' | 'county' | 'upb' | 'percent' | 'date'>('upb');
   const [dealSortDirection, setDealSortDirection] = useState<'asc' | 'desc'>('desc');
 
+  const partyLabel = PLAINTIFF_PARTY_LABELS[groupBy];
+
   const topByComplaints = useMemo(() => {
-    return [...data]
+    const totals = groupBy === 'lender'
+      ? data
+      : calculateLenderCriteriaSummary(complaints, referenceDate, groupBy);
+    return [...totals]
       .sort((a, b) => b.totalComplaints - a.totalComplaints)
       .slice(0, topCount);
-  }, [data, topCount]);
+  }, [data, complaints, referenceDate, groupBy, topCount]);
 
   const lenderDeals = useMemo(() => {
     if (!selectedLender) return [];
     const deals = complaints
       .filter(row => row.isValid && !row.isDuplicate && meetsCriteria(row))
-      .filter(row => {
-        const lender = normalizeLender(row.normalizedLender || row.lender || row.plaintiff);
-        return lender === selectedLender;
-      })
+      .filter(row => getPlaintiffParty(row, groupBy).toLowerCase() === selectedLender.toLowerCase())
       .map(row => ({
         propertyAddress: row.propertyAddress || 'Unknown',
         county: row.normalizedCounty || row.county || 'Unknown',
@@ -67,7 +76,7 @@ export function LenderAnalysisSummary({ data, complaints, topCount = 10 }: Lende
         ? (aValue as number) - (bValue as number)
         : (bValue as number) - (aValue as number);
     });
-  }, [complaints, selectedLender, dealSortField, dealSortDirection]);
+  }, [complaints, groupBy, selectedLender, dealSortField, dealSortDirection]);
 
   const handleDealSort = (field: typeof dealSortField) => {
     if (dealSortField === field) {
@@ -102,15 +111,33 @@ export function LenderAnalysisSummary({ data, complaints, topCount = 10 }: Lende
     <div className="dashboard-card">
       <div className="card-header">
         <h2>Lender Analysis (Meets Criteria)</h2>
+        <div className="header-actions">
+          <label className="snapshot-select">
+            Group by
+            <select
+              value={groupBy}
+              onChange={event => {
+                setGroupBy(event.target.value as PlaintiffParty);
+                setSelectedLender(null);
+              }}
+            >
+              {(Object.keys(PLAINTIFF_PARTY_LABELS) as PlaintiffParty[]).map(option => (
+                <option key={option} value={option}>
+                  {PLAINTIFF_PARTY_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
       </div>
 
       <div className="analysis-table-card">
-        <h3>Top Lenders by Complaints (Meets Criteria)</h3>
+        <h3>Top {partyLabel}s by Complaints (Meets Criteria)</h3>
         <div className="table-container">
           <table className="data-table">
             <thead>
               <tr>
-                <th>Lender</th>
+                <th>{partyLabel}</th>
                 <th className="text-right">Complaints</th>
                 <th className="text-right">Total UPB</th>
               </tr>
@@ -167,7 +194,7 @@ export function LenderAnalysisSummary({ data, complaints, topCount = 10 }: Lende
                       UPB <SortIndicator field="upb" />
                     </th>
                     <th onClick={() => handleDealSort('percent')} className="sortable text-right">
-                      % of Lender UPB <SortIndicator field="percent" />
+                      % of {partyLabel} UPB <SortIndicator field="percent" />
                     </th>
                     <th onClick={() => handleDealSort('date')} className="sortable text-right">
                       Complaint Date <SortIndicator field="date" />
@@ -178,7 +205,7 @@ export function LenderAnalysisSummary({ data, complaints, topCount = 10 }: Lende
                   {lenderDeals.length === 0 ? (
                     <tr>
                       <td colSpan={5} className="empty-state">
-                        No deals found for this lender.
+                        No deals found for this {partyLabel.toLowerCase()}.
                       </td>
                     </tr>
                   ) : (
@@ -0,0 +1,267 @@
+// Lender Editor - the lender master list: canonical names, aliases and patterns
+
+import { useEffect, useMemo, useState } from 'react';
+import { LenderEntity, LenderMasterList, ProcessedComplaint } from '../types';
+import { fetchLenderMasterList, saveLenderMasterList } from '../services/lenderApi';
+import { approveLenderMerge, sanitizeLenderMasterList } from '../utils/lenderResolution';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { LenderMergeSuggestions } from './LenderMergeSuggestions';
+
+interface LenderEditorProps {
+  complaints: ProcessedComplaint[];
+  onSaved: (list: LenderMasterList) => void;
+}
+
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export function LenderEditor({ complaints, onSaved }: LenderEditorProps) {
+  const [saved, setSaved] = useState<LenderMasterList | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LenderEntity[]>(DEFAULT_LENDER_MASTER_LIST.lenders);
+  const [newAliases, setNewAliases] = useState<Record<number, string>>({});
+  const [newPatterns, setNewPatterns] = useState<Record<number, string>>({});
+  const [status, setStatus] = useState<string | null>(null);
+  const draftList = useMemo(() => ({ lenders: draft }), [draft]);
+
+  // Start from the saved list
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchLenderMasterList()
+      .then(loaded => {
+        if (cancelled) return;
+        setSaved(loaded);
+        setDraft(loaded.lenders);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading the lender master list:', err);
+        setLoadError('Lenders can only be saved when the backend server is running.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateLender = (index: number, changes: Partial<LenderEntity>) => {
+    setDraft(current => current.map((lender, i) => (i === index ? { ...lender, ...changes } : lender)));
+    setStatus(null);
+  };
+
+  const moveLender = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+    setNewAliases({});
+    setNewPatterns({});
+    setStatus(null);
+  };
+
+  const removeLender = (index: number) => {
+    setDraft(current => current.filter((_, i) => i !== index));
+    setNewAliases({});
+    setNewPatterns({});
+    setStatus(null);
+  };
+
+  const addLender = () => {
+    setDraft(current => [...current, { name: `Lender ${current.length + 1}`, aliases: [], patterns: [] }]);
+    setStatus(null);
+  };
+
+  const addAlias = (index: number) => {
+    const alias = (newAliases[index] ?? '').trim();
+    if (!alias) return;
+    if (!draft[index].aliases.includes(alias)) {
+      updateLender(index, { aliases: [...draft[index].aliases, alias] });
+    }
+    setNewAliases(current => ({ ...current, [index]: '' }));
+  };
+
+  const addPattern = (index: number) => {
+    const pattern = (newPatterns[index] ?? '').trim();
+    if (!pattern) return;
+    if (!isValidPattern(pattern)) {
+      setStatus(`"${pattern}" is not a valid regular expression`);
+      return;
+    }
+    if (!draft[index].patterns.includes(pattern)) {
+      updateLender(index, { patterns: [...draft[index].patterns, pattern] });
+    }
+    setNewPatterns(current => ({ ...current, [index]: '' }));
+  };
+
+  const save = async (lenders: LenderEntity[], message: string) => {
+    try {
+      const list = await saveLenderMasterList(sanitizeLenderMasterList({ lenders }));
+      setSaved(list);
+      setDraft(list.lenders);
+      onSaved(list);
+      setStatus(message);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save lenders');
+    }
+  };
+
+  const approveMerge = (canonical: string, names: string[]) =>
+    save(
+      approveLenderMerge(draftList, canonical, names).lenders,
+      `Merged ${names.length} name${names.length === 1 ? '' : 's'} into ${canonical}; the dashboard is being recalculated`
+    );
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Lenders</h2>
+        <div className="header-actions">
+          <button onClick={addLender} className="export-button">
+            Add Lender
+          </button>
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_LENDER_MASTER_LIST.lenders);
+              setStatus('Loaded the built-in lenders (not saved yet)');
+            }}
+            className="export-button"
+          >
+            Built-in Lenders
+          </button>
+          <button
+            onClick={() => save(draft, 'Saved; the dashboard is being recalculated')}
+            className="export-button"
+            disabled={!saved}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      {loadError && <div className="empty-state">{loadError}</div>}
+
+      <div className="mapping-save">
+        <span className="mapping-status">
+          {saved?.updatedAt
+            ? `Last saved ${new Date(saved.updatedAt).toLocaleString()}`
+            : 'Using the built-in lenders'}
+          {status && ` • ${status}`}
+        </span>
+      </div>
+
+      <div className="snapshot-section">
+        <h3>Master List</h3>
+        <p className="mapping-hint">
+          A lender name becomes the canonical name of the entity it (or one of its aliases) matches
+          after normalization, so "ABC Bank, N.A." and "abc bank na" are the same name. Names that
+          match no alias are tested against the patterns (case-insensitive regular expressions), in
+          list order.
+        </p>
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Order</th>
+                <th>Canonical Name</th>
+                <th>Aliases</th>
+                <th>Patterns</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((lender, index) => (
+                <tr key={index}>
+                  <td>
+                    <span className="mapping-column">
+                      {index + 1}
+                      <button onClick={() => moveLender(index, -1)} aria-label={`Move ${lender.name} up`}>
+                        ↑
+                      </button>
+                      <button onClick={() => moveLender(index, 1)} aria-label={`Move ${lender.name} down`}>
+                        ↓
+                      </button>
+                      <button onClick={() => removeLender(index)} aria-label={`Remove ${lender.name}`}>
+                        ×
+                      </button>
+                    </span>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="region-input"
+                      value={lender.name}
+                      aria-label={`Name of lender ${index + 1}`}
+                      onChange={event => updateLender(index, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    {lender.aliases.map(alias => (
+                      <span key={alias} className="mapping-column">
+                        {alias}
+                        <button
+                          onClick={() => updateLender(index, { aliases: lender.aliases.filter(a => a !== alias) })}
+                          aria-label={`Remove alias ${alias} from ${lender.name}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      className="region-input"
+                      value={newAliases[index] ?? ''}
+                      placeholder="Alias"
+                      aria-label={`Add alias to ${lender.name}`}
+                      onChange={event => setNewAliases(current => ({ ...current, [index]: event.target.value }))}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') addAlias(index);
+                      }}
+                    />
+                  </td>
+                  <td>
+                    {lender.patterns.map(pattern => (
+                      <span key={pattern} className="mapping-column lender-pattern">
+                        {pattern}
+                        <button
+                          onClick={() => updateLender(index, { patterns: lender.patterns.filter(p => p !== pattern) })}
+                          aria-label={`Remove pattern ${pattern} from ${lender.name}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      type="text"
+                      className="region-input lender-pattern"
+                      value={newPatterns[index] ?? ''}
+                      placeholder="^pattern\b"
+                      aria-label={`Add pattern to ${lender.name}`}
+                      onChange={event => setNewPatterns(current => ({ ...current, [index]: event.target.value }))}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') addPattern(index);
+                      }}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <LenderMergeSuggestions
+        complaints={complaints}
+        list={draftList}
+        disabled={!saved}
+        onApprove={approveMerge}
+      />
+    </div>
+  );
+}
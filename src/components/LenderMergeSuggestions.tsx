@@ -0,0 +1,132 @@
+// Lender Merge Suggestions - clusters of similar lender names to approve as aliases
+
+import { useMemo, useState } from 'react';
+import { LenderMasterList, LenderMergeSuggestion, ProcessedComplaint } from '../types';
+import { MERGE_SIMILARITY_THRESHOLD, suggestLenderMerges } from '../utils/lenderResolution';
+
+interface LenderMergeSuggestionsProps {
+  complaints: ProcessedComplaint[];
+  list: LenderMasterList; // The list being edited; suggestions reflect its aliases
+  disabled: boolean; // Approving saves the list, which needs the backend
+  onApprove: (canonical: string, names: string[]) => void;
+}
+
+const suggestionKey = (suggestion: LenderMergeSuggestion) =>
+  suggestion.names.map(({ name }) => name).join('|');
+
+export function LenderMergeSuggestions({ complaints, list, disabled, onApprove }: LenderMergeSuggestionsProps) {
+  const [threshold, setThreshold] = useState(MERGE_SIMILARITY_THRESHOLD);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [canonicals, setCanonicals] = useState<Record<string, string>>({});
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({});
+
+  const suggestions = useMemo(
+    () => suggestLenderMerges(complaints, list, threshold),
+    [complaints, list, threshold]
+  );
+  const shown = suggestions.filter(suggestion => !dismissed.has(suggestionKey(suggestion)));
+
+  const toggleName = (key: string, name: string) =>
+    setExcluded(current => {
+      const names = current[key] ?? [];
+      return {
+        ...current,
+        [key]: names.includes(name) ? names.filter(other => other !== name) : [...names, name],
+      };
+    });
+
+  return (
+    <div className="snapshot-section">
+      <h3>Suggested Merges ({shown.length})</h3>
+      <p className="mapping-hint">
+        Lender names that share most of their distinctive words (ignoring words like "Bank",
+        "Trust" or "National Association"). Approving adds the checked names to the chosen
+        lender's aliases and saves the list; dismissed suggestions come back on the next visit.
+      </p>
+      <label className="snapshot-select">
+        Minimum similarity
+        <select value={threshold} onChange={event => setThreshold(Number(event.target.value))}>
+          {[0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1].map(value => (
+            <option key={value} value={value}>
+              {Math.round(value * 100)}%
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {shown.length === 0 ? (
+        <div className="empty-state">No similar lender names</div>
+      ) : (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Names</th>
+                <th className="text-right">Similarity</th>
+                <th>Merge Into</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(suggestion => {
+                const key = suggestionKey(suggestion);
+                const canonical = canonicals[key] ?? suggestion.canonical;
+                const names = suggestion.names
+                  .map(({ name }) => name)
+                  .filter(name => name !== canonical && !(excluded[key] ?? []).includes(name));
+                return (
+                  <tr key={key}>
+                    <td>
+                      {suggestion.names.map(({ name, complaints: count }) => (
+                        <label key={name} className="lender-merge-name">
+                          <input
+                            type="checkbox"
+                            checked={name === canonical || !(excluded[key] ?? []).includes(name)}
+                            disabled={name === canonical}
+                            onChange={() => toggleName(key, name)}
+                          />
+                          {name} <span className="cell-subtext">({count})</span>
+                        </label>
+                      ))}
+                    </td>
+                    <td className="text-right">{Math.round(suggestion.similarity * 100)}%</td>
+                    <td>
+                      <select
+                        value={canonical}
+                        aria-label={`Lender to merge ${suggestion.canonical}'s cluster into`}
+                        onChange={event => setCanonicals(current => ({ ...current, [key]: event.target.value }))}
+                      >
+                        {suggestion.names.map(({ name }) => (
+                          <option key={name} value={name}>
+                            {name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td>
+                      <span className="header-actions">
+                        <button
+                          onClick={() => onApprove(canonical, names)}
+                          className="export-button"
+                          disabled={disabled || names.length === 0}
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => setDismissed(current => new Set(current).add(key))}
+                          className="export-button"
+                        >
+                          Dismiss
+                        </button>
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
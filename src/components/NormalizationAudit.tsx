@@ -0,0 +1,214 @@
+// Normalization Audit - every raw county or lender value and what it normalized to
+
+import { useMemo, useState } from 'react';
+import { NormalizationAuditEntry, NormalizationField, ProcessedComplaint } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { toBusinessDayKey } from '../utils/businessDate';
+import {
+  buildNormalizationAudit,
+  isFlaggedAuditEntry,
+  MANY_VARIANTS_THRESHOLD,
+} from '../utils/normalizationAudit';
+
+interface NormalizationAuditProps {
+  complaints: ProcessedComplaint[];
+}
+
+type SortField = 'raw' | 'normalized' | 'rows' | 'upb' | 'variants';
+
+const FIELD_LABELS: Record<NormalizationField, string> = {
+  lender: 'Lenders / Plaintiffs',
+  county: 'Counties',
+};
+
+const formatRaw = (raw: string) => raw || '(blank)';
+
+export function NormalizationAudit({ complaints }: NormalizationAuditProps) {
+  const [field, setField] = useState<NormalizationField>('lender');
+  const [search, setSearch] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [sortField, setSortField] = useState<SortField>('rows');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const entries = useMemo(() => buildNormalizationAudit(complaints, field), [complaints, field]);
+  const flaggedCount = useMemo(() => entries.filter(isFlaggedAuditEntry).length, [entries]);
+
+  const shown = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = entries.filter(
+      entry =>
+        (!flaggedOnly || isFlaggedAuditEntry(entry)) &&
+        (!query || entry.raw.toLowerCase().includes(query) || entry.normalized.toLowerCase().includes(query))
+    );
+
+    const getSortValue = (entry: NormalizationAuditEntry): string | number => {
+      switch (sortField) {
+        case 'raw':
+          return entry.raw;
+        case 'normalized':
+          return entry.normalized;
+        case 'upb':
+          return entry.totalUPB;
+        case 'variants':
+          return entry.variants;
+        case 'rows':
+        default:
+          return entry.rows;
+      }
+    };
+
+    return [...filtered].sort((a, b) => {
+      const aValue = getSortValue(a);
+      const bValue = getSortValue(b);
+      const order = typeof aValue === 'string' && typeof bValue === 'string'
+        ? aValue.localeCompare(bValue)
+        : (aValue as number) - (bValue as number);
+      return sortDirection === 'asc' ? order : -order;
+    });
+  }, [entries, search, flaggedOnly, sortField, sortDirection]);
+
+  const handleSort = (next: SortField) => {
+    if (sortField === next) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(next);
+      setSortDirection(next === 'raw' || next === 'normalized' ? 'asc' : 'desc');
+    }
+  };
+
+  const SortIcon = ({ field: column }: { field: SortField }) => {
+    if (sortField !== column) return <span className="sort-icon">↕</span>;
+    return <span className="sort-icon">{sortDirection === 'asc' ? '↑' : '↓'}</span>;
+  };
+
+  const exportToCSV = () => {
+    const headers = ['Raw Value', 'Normalized', 'Rows', 'Total UPB', 'Raw Variants', 'Look-Alikes', 'Rules'];
+    const rows = shown.map(entry => [
+      entry.raw,
+      entry.normalized,
+      entry.rows.toString(),
+      entry.totalUPB.toString(),
+      entry.variants.toString(),
+      entry.lookalikes.map(({ raw, normalized }) => `${raw} → ${normalized}`).join('; '),
+      entry.rules.join('; '),
+    ]);
+
+    const csv = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `normalization-audit-${field}-${toBusinessDayKey(new Date())}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Normalization Audit</h2>
+        <div className="header-actions">
+          <label className="snapshot-select">
+            Field
+            <select value={field} onChange={event => setField(event.target.value as NormalizationField)}>
+              {(Object.keys(FIELD_LABELS) as NormalizationField[]).map(option => (
+                <option key={option} value={option}>
+                  {FIELD_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <button onClick={exportToCSV} className="export-button">
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="snapshot-summary">
+        <span className="summary-badge">{entries.length} distinct raw values</span>
+        <span className="summary-badge">{new Set(entries.map(entry => entry.normalized)).size} normalized names</span>
+        <span className="summary-badge">{flaggedCount} highlighted</span>
+      </div>
+
+      <p className="mapping-hint">
+        Every loaded row is counted, including invalid and duplicate rows. Highlighted rows are
+        normalized names that {MANY_VARIANTS_THRESHOLD} or more raw values map to, and raw values
+        that look the same as another (ignoring case, spaces and punctuation) but normalized to a
+        different name.
+      </p>
+
+      <div className="audit-controls">
+        <input
+          type="search"
+          className="region-input"
+          value={search}
+          placeholder="Search raw or normalized values"
+          aria-label="Search raw or normalized values"
+          onChange={event => setSearch(event.target.value)}
+        />
+        <label className="snapshot-select">
+          <input type="checkbox" checked={flaggedOnly} onChange={event => setFlaggedOnly(event.target.checked)} />
+          Highlighted only
+        </label>
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="empty-state">No values match</div>
+      ) : (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th onClick={() => handleSort('raw')} className="sortable">
+                  Raw Value <SortIcon field="raw" />
+                </th>
+                <th onClick={() => handleSort('normalized')} className="sortable">
+                  Normalized <SortIcon field="normalized" />
+                </th>
+                <th onClick={() => handleSort('rows')} className="sortable text-right">
+                  Rows <SortIcon field="rows" />
+                </th>
+                <th onClick={() => handleSort('upb')} className="sortable text-right">
+                  Total UPB <SortIcon field="upb" />
+                </th>
+                <th onClick={() => handleSort('variants')} className="sortable text-right">
+                  Raw Variants <SortIcon field="variants" />
+                </th>
+                <th>Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map(entry => (
+                <tr
+                  key={`${entry.raw}\u0000${entry.normalized}`}
+                  className={isFlaggedAuditEntry(entry) ? 'audit-flagged' : undefined}
+                >
+                  <td>{formatRaw(entry.raw)}</td>
+                  <td>{entry.normalized}</td>
+                  <td className="text-right">{entry.rows.toLocaleString()}</td>
+                  <td className="text-right currency-cell">{formatCurrency(entry.totalUPB)}</td>
+                  <td className={`text-right${entry.variants >= MANY_VARIANTS_THRESHOLD ? ' audit-warning' : ''}`}>
+                    {entry.variants}
+                  </td>
+                  <td>
+                    {entry.lookalikes.map(({ raw, normalized }) => (
+                      <span key={`${raw}\u0000${normalized}`} className="cell-subtext audit-note audit-warning">
+                        Looks like "{formatRaw(raw)}" → {normalized}
+                      </span>
+                    ))}
+                    {entry.rules.length > 0 && (
+                      <span className="cell-subtext audit-note">Rules: {entry.rules.join(', ')}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
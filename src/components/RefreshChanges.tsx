@@ -0,0 +1,98 @@
+// Refresh Changes Panel - rows added, changed and removed since the last refresh
+
+import { useMemo } from 'react';
+import { ProcessedComplaint, RowChanges } from '../types';
+import { formatCurrency, formatDate } from '../utils/calculations';
+
+interface RefreshChangesProps {
+  changes: RowChanges;
+  onClose?: () => void;
+}
+
+type RowStatus = 'Added' | 'Changed' | 'Removed';
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+};
+
+export function RefreshChanges({ changes, onClose }: RefreshChangesProps) {
+  // New rows first, in sheet order
+  const rows = useMemo<Array<{ status: RowStatus; complaint: ProcessedComplaint; details: string }>>(
+    () => [
+      ...changes.added.map(complaint => ({ status: 'Added' as const, complaint, details: '' })),
+      ...changes.changed.map(change => ({
+        status: 'Changed' as const,
+        complaint: change.after,
+        details: change.changes
+          .map(c => `${c.field}: ${formatValue(c.before)} → ${formatValue(c.after)}`)
+          .join('; '),
+      })),
+      ...changes.removed.map(complaint => ({ status: 'Removed' as const, complaint, details: '' })),
+    ],
+    [changes]
+  );
+
+  return (
+    <div className="quality-panel">
+      <div className="quality-panel-header">
+        <h3>Changes Since Last Refresh</h3>
+        {onClose && (
+          <button onClick={onClose} className="close-button" aria-label="Close">
+            ×
+          </button>
+        )}
+      </div>
+
+      <div className="snapshot-summary">
+        <span className="summary-badge">{changes.added.length} added</span>
+        <span className="summary-badge">{changes.changed.length} changed</span>
+        <span className="summary-badge">{changes.removed.length} removed</span>
+      </div>
+
+      <p className="mapping-hint">
+        New deals are highlighted in the dashboard tables. Rows are matched by their values, so
+        inserting or sorting rows in the sheet doesn't show them as changed.
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="empty-state">No rows were added, changed or removed</div>
+      ) : (
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Status</th>
+                <th>Sheet Row</th>
+                <th>Property Address</th>
+                <th>County</th>
+                <th>Lender</th>
+                <th>UPB</th>
+                <th>Complaint Date</th>
+                <th>Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ status, complaint, details }) => (
+                <tr
+                  key={`${status}-${complaint.rowId ?? complaint.sheetRow}`}
+                  className={`row-${status.toLowerCase()}${status === 'Added' ? ' row-new' : ''}`}
+                >
+                  <td>{status}</td>
+                  <td>{complaint.rowLabel ?? complaint.sheetRow ?? '—'}</td>
+                  <td>{formatValue(complaint.propertyAddress)}</td>
+                  <td>{formatValue(complaint.normalizedCounty || complaint.county)}</td>
+                  <td>{formatValue(complaint.normalizedLender || complaint.lender)}</td>
+                  <td className="currency-cell">{formatCurrency(complaint.upb ?? 0)}</td>
+                  <td>{formatDate(complaint.complaintDate)}</td>
+                  <td>{details}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+// Region Editor - define regions, their order, state and counties
+
+import { useEffect, useState } from 'react';
+import { RegionDefinition, RegionModel, UnmappedCounty } from '../types';
+import { fetchRegionModel, saveRegionModel } from '../services/regionApi';
+import { sanitizeRegionModel } from '../utils/regionMapping';
+import { normalizeCounty } from '../utils/normalization';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+
+interface RegionEditorProps {
+  regions: RegionModel; // The model the loaded rows were assigned with
+  unmappedCounties: UnmappedCounty[];
+  onSaved: (model: RegionModel) => void;
+}
+
+const sameCounty = (a: string, b: string) =>
+  normalizeCounty(a).toLowerCase() === normalizeCounty(b).toLowerCase();
+
+export function RegionEditor({ regions, unmappedCounties, onSaved }: RegionEditorProps) {
+  const [saved, setSaved] = useState<RegionModel | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RegionDefinition[]>(regions.regions);
+  const [newCounties, setNewCounties] = useState<Record<number, string>>({});
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Start from the saved model
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchRegionModel()
+      .then(loaded => {
+        if (cancelled) return;
+        setSaved(loaded);
+        setDraft(loaded.regions);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading the region model:', err);
+        setLoadError('Regions can only be saved when the backend server is running.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRegion = (index: number, changes: Partial<RegionDefinition>) => {
+    setDraft(current => current.map((region, i) => (i === index ? { ...region, ...changes } : region)));
+    setStatus(null);
+  };
+
+  const moveRegion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.length) return;
+    const next = [...draft];
+    [next[index], next[target]] = [next[target], next[index]];
+    setDraft(next);
+    setNewCounties({});
+    setStatus(null);
+  };
+
+  const removeRegion = (index: number) => {
+    setDraft(current => current.filter((_, i) => i !== index));
+    setNewCounties({});
+    setStatus(null);
+  };
+
+  const addRegion = () => {
+    setDraft(current => [...current, { name: `Region ${current.length + 1}`, counties: [] }]);
+    setStatus(null);
+  };
+
+  const addCounty = (index: number, county: string) => {
+    const name = county.trim();
+    if (!name) return;
+    const owner = draft.find(region => region.counties.some(existing => sameCounty(existing, name)));
+    if (owner) {
+      setStatus(`${name} is already in "${owner.name}"`);
+      return;
+    }
+    updateRegion(index, { counties: [...draft[index].counties, name] });
+    setNewCounties(current => ({ ...current, [index]: '' }));
+  };
+
+  const handleSave = async () => {
+    try {
+      const model = await saveRegionModel(sanitizeRegionModel({ regions: draft }));
+      setSaved(model);
+      setDraft(model.regions);
+      onSaved(model);
+      setStatus('Saved; the dashboard is being recalculated');
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : 'Failed to save regions');
+    }
+  };
+
+  const stillUnmapped = unmappedCounties.filter(
+    ({ county }) => !draft.some(region => region.counties.some(existing => sameCounty(existing, county)))
+  );
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Regions</h2>
+        <div className="header-actions">
+          <button onClick={addRegion} className="export-button">
+            Add Region
+          </button>
+          <button
+            onClick={() => {
+              setDraft(DEFAULT_REGION_MODEL.regions);
+              setStatus('Loaded the built-in regions (not saved yet)');
+            }}
+            className="export-button"
+          >
+            Built-in Regions
+          </button>
+          <button onClick={handleSave} className="export-button" disabled={!saved}>
+            Save
+          </button>
+        </div>
+      </div>
+
+      {loadError && <div className="empty-state">{loadError}</div>}
+
+      <div className="mapping-save">
+        <span className="mapping-status">
+          {saved?.updatedAt
+            ? `Last saved ${new Date(saved.updatedAt).toLocaleString()}`
+            : 'Using the built-in regions'}
+          {status && ` • ${status}`}
+        </span>
+      </div>
+
+      <div className="snapshot-section">
+        <p className="mapping-hint">
+          Regions are listed in the order the summary tables show them. County names are matched
+          after normalization, so "Broward County" and "broward" are the same county.
+        </p>
+        <div className="table-container">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Order</th>
+                <th>Region</th>
+                <th>State</th>
+                <th>Counties</th>
+                <th>Add County</th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((region, index) => (
+                <tr key={index}>
+                  <td>
+                    <span className="mapping-column">
+                      {index + 1}
+                      <button onClick={() => moveRegion(index, -1)} aria-label={`Move ${region.name} up`}>
+                        ↑
+                      </button>
+                      <button onClick={() => moveRegion(index, 1)} aria-label={`Move ${region.name} down`}>
+                        ↓
+                      </button>
+                      <button onClick={() => removeRegion(index)} aria-label={`Remove ${region.name}`}>
+                        ×
+                      </button>
+                    </span>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="region-input"
+                      value={region.name}
+                      aria-label={`Name of region ${index + 1}`}
+                      onChange={event => updateRegion(index, { name: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="region-input region-state"
+                      value={region.state ?? ''}
+                      placeholder="—"
+                      aria-label={`State of ${region.name}`}
+                      onChange={event => updateRegion(index, { state: event.target.value })}
+                    />
+                  </td>
+                  <td>
+                    {region.counties.length === 0 && <span className="mapping-unmapped">No counties</span>}
+                    {region.counties.map(county => (
+                      <span key={county} className="mapping-column">
+                        {county}
+                        <button
+                          onClick={() =>
+                            updateRegion(index, { counties: region.counties.filter(c => c !== county) })
+                          }
+                          aria-label={`Remove ${county} from ${region.name}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      className="region-input"
+                      list="region-unmapped-counties"
+                      value={newCounties[index] ?? ''}
+                      placeholder="County"
+                      aria-label={`Add county to ${region.name}`}
+                      onChange={event => setNewCounties(current => ({ ...current, [index]: event.target.value }))}
+                      onKeyDown={event => {
+                        if (event.key === 'Enter') addCounty(index, newCounties[index] ?? '');
+                      }}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="region-unmapped-counties">
+            {stillUnmapped.map(({ county }) => (
+              <option key={county} value={county} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="snapshot-section">
+        <h3>Unmapped Counties</h3>
+        {stillUnmapped.length === 0 ? (
+          <div className="empty-state">Every county in the data is in a region</div>
+        ) : (
+          <div className="table-container">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>County</th>
+                  <th className="text-right">Complaints</th>
+                  <th>Add To</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stillUnmapped.map(({ county, complaints }) => (
+                  <tr key={county}>
+                    <td className="county-cell">{county}</td>
+                    <td className="text-right">{complaints}</td>
+                    <td>
+                      <select
+                        value=""
+                        aria-label={`Add ${county} to a region`}
+                        onChange={event => addCounty(Number(event.target.value), county)}
+                        disabled={draft.length === 0}
+                      >
+                        <option value="">Region…</option>
+                        {draft.map((region, index) => (
+                          <option key={index} value={index}>
+                            {region.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+// Snapshot History Component - compare the processed data at two points in time
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  ProcessedComplaint,
+  SnapshotComparison,
+  SnapshotMeta,
+} from '../types';
+import { fetchSnapshotComparison, fetchSnapshots } from '../services/snapshotApi';
+import { formatCurrency, formatDate } from '../utils/calculations';
+import { TotalsDeltaTable } from './DeltaTables';
+
+interface SnapshotHistoryProps {
+  sheetName: string;
+}
+
+type RowStatus = 'Added' | 'Removed' | 'Changed';
+
+interface RowChange {
+  status: RowStatus;
+  complaint: ProcessedComplaint;
+  details: string;
+}
+
+const formatSnapshotLabel = (meta: SnapshotMeta) =>
+  `${new Date(meta.createdAt).toLocaleString()} (${meta.totalRows} rows)`;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+};
+
+export function SnapshotHistory({ sheetName }: SnapshotHistoryProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [comparison, setComparison] = useState<SnapshotComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the snapshot list, defaulting to the two most recent snapshots
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSnapshots(sheetName)
+      .then(list => {
+        if (cancelled) return;
+        setSnapshots(list);
+        setToId(list[0]?.id ?? '');
+        setFromId(list[1]?.id ?? '');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading snapshots:', err);
+        setError('Snapshot history is only available when the backend server is running.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sheetName]);
+
+  useEffect(() => {
+    if (!fromId || !toId || fromId === toId) {
+      setComparison(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchSnapshotComparison(fromId, toId)
+      .then(result => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error comparing snapshots:', err);
+        setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, toId]);
+
+  const rowChanges = useMemo<RowChange[]>(() => {
+    if (!comparison) return [];
+    return [
+      ...comparison.added.map(complaint => ({ status: 'Added' as const, complaint, details: '' })),
+      ...comparison.removed.map(complaint => ({ status: 'Removed' as const, complaint, details: '' })),
+      ...comparison.changed.map(change => ({
+        status: 'Changed' as const,
+        complaint: change.after,
+        details: change.changes
+          .map(c => `${c.field}: ${formatValue(c.before)} → ${formatValue(c.after)}`)
+          .join('; '),
+      })),
+    ];
+  }, [comparison]);
+
+  const exportToCSV = () => {
+    if (!comparison) return;
+
+    const headers = ['Status', 'Property Address', 'County', 'Lender', 'UPB', 'Complaint Date', 'Changes'];
+    const rows = rowChanges.map(({ status, complaint, details }) => [
+      status,
+      formatValue(complaint.propertyAddress),
+      formatValue(complaint.county),
+      formatValue(complaint.lender),
+      (complaint.upb ?? 0).toString(),
+      formatDate(complaint.complaintDate as Date | undefined),
+      details,
+    ]);
+
+    const csv = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n');
+
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `snapshot-changes-${comparison.from.createdAt.split('T')[0]}-to-${comparison.to.createdAt.split('T')[0]}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderSelect = (label: string, value: string, onChange: (id: string) => void) => (
+    <label className="snapshot-select">
+      {label}
+      <select value={value} onChange={event => onChange(event.target.value)}>
+        <option value="">Select a snapshot</option>
+        {snapshots.map(meta => (
+          <option key={meta.id} value={meta.id}>
+            {formatSnapshotLabel(meta)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="dashboard-card">
+      <div className="card-header">
+        <h2>Snapshot History</h2>
+        <div className="header-actions">
+          {renderSelect('From', fromId, setFromId)}
+          {renderSelect('To', toId, setToId)}
+          {comparison && (
+            <button onClick={exportToCSV} className="export-button">
+              Export CSV
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="empty-state">{error}</div>}
+
+      {!error && snapshots.length < 2 && (
+        <div className="empty-state">
+          Snapshots are saved each time the sheet is fetched and its rows have changed.
+          At least two are needed for a comparison.
+        </div>
+      )}
+
+      {!error && snapshots.length >= 2 && fromId === toId && (
+        <div className="empty-state">Select two different snapshots to compare.</div>
+      )}
+
+      {loading && <div className="loading">Comparing snapshots...</div>}
+
+      {comparison && !loading && (
+        <>
+          <div className="snapshot-summary">
+            <span className="summary-badge">{comparison.added.length} added</span>
+            <span className="summary-badge">{comparison.removed.length} removed</span>
+            <span className="summary-badge">{comparison.changed.length} changed</span>
+            <span className="summary-badge">{comparison.unchangedCount} unchanged</span>
+          </div>
+
+          <TotalsDeltaTable
+            title="Year-to-Date by Region"
+            labelHeader="Region"
+            data={comparison.ytdRegionSummary}
+          />
+          <TotalsDeltaTable
+            title="By Year"
+            labelHeader="Year"
+            data={comparison.yearSummary}
+          />
+
+          <div className="snapshot-section">
+            <h3>Row Changes</h3>
+            {rowChanges.length === 0 ? (
+              <div className="empty-state">No rows were added, removed or changed</div>
+            ) : (
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Status</th>
+                      <th>Property Address</th>
+                      <th>County</th>
+                      <th>Lender</th>
+                      <th>UPB</th>
+                      <th>Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rowChanges.map(({ status, complaint, details }, idx) => (
+                      <tr key={idx} className={`row-${status.toLowerCase()}`}>
+                        <td>{status}</td>
+                        <td>{formatValue(complaint.propertyAddress)}</td>
+                        <td>{formatValue(complaint.county)}</td>
+                        <td>{formatValue(complaint.lender)}</td>
+                        <td className="currency-cell">{formatCurrency(complaint.upb ?? 0)}</td>
+                        <td>{details}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
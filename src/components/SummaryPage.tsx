@@ -1,17 +1,33 @@
 // Summary Page Component - Region-based aggregation
 
 import { useMemo } from 'react';
-import { RegionSummary, YearSummary } from '../types';
+import { ProcessedComplaint, RegionModel, RegionSummary, UnmappedCounty, YearSummary, ZipSummary } from '../types';
 import { formatCurrency } from '../utils/calculations';
-import { format } from 'date-fns';
+import { formatBusinessDate, toBusinessDayKey } from '../utils/businessDate';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+import { GeographyDrillDown } from './GeographyDrillDown';
 
 interface SummaryPageProps {
   currentMonthData: RegionSummary[];
   ytdData: RegionSummary[];
   yearData: YearSummary[];
+  zipData?: ZipSummary[]; // Year-to-date totals by ZIP code
+  referenceDate?: Date; // "As-of" date the current month / YTD tables are anchored to
+  regions?: RegionModel; // The region model the rows were assigned with
+  unmappedCounties?: UnmappedCounty[]; // Left out of the region tables
+  complaints?: ProcessedComplaint[]; // For the geography drill-down
 }
 
-export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPageProps) {
+export function SummaryPage({
+  currentMonthData,
+  ytdData,
+  yearData,
+  zipData = [],
+  referenceDate = new Date(),
+  regions = DEFAULT_REGION_MODEL,
+  unmappedCounties = [],
+  complaints = [],
+}: SummaryPageProps) {
   const formatPercent = (numerator: number, denominator: number) => {
     if (!denominator || denominator <= 0) return '0%';
     return `${Math.round((numerator / denominator) * 100)}%`;
@@ -70,7 +86,19 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
     );
   }, [yearData]);
 
-  const currentMonth = format(new Date(), 'MMMM yyyy');
+  const getState = (name: string) => regions.regions.find(region => region.name === name)?.state;
+
+  const renderRegionCell = (name: string) => {
+    const state = getState(name);
+    return (
+      <td className="region-cell">
+        {name}
+        {state && <div className="cell-subtext">{state}</div>}
+      </td>
+    );
+  };
+
+  const currentMonth = formatBusinessDate(referenceDate, { month: 'long', year: 'numeric' });
 
   const exportToCSV = (data: RegionSummary[] | YearSummary[], title: string, isYearData: boolean = false) => {
     const headers = [
@@ -119,7 +147,33 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
     
     rows.push(totals);
 
-    const csv = [headers, ...rows]
+    downloadCSV([headers, ...rows], title);
+  };
+
+  const exportZipCSV = () => {
+    const headers = [
+      'ZIP Code',
+      'City',
+      'State',
+      'Total Complaints Collected',
+      'Total UPB Collected',
+      'Complaints That Meet Criteria',
+      'UPB That Meets Criteria',
+    ];
+    const rows = zipData.map(row => [
+      row.zip,
+      row.city ?? '',
+      row.state ?? '',
+      row.totalComplaints.toString(),
+      row.totalUPB.toString(),
+      row.complaintsMeetingCriteria.toString(),
+      row.upbMeetingCriteria.toString(),
+    ]);
+    downloadCSV([headers, ...rows], 'ZIP Codes Year to Date');
+  };
+
+  const downloadCSV = (rows: string[][], title: string) => {
+    const csv = rows
       .map(row => row.map(cell => `"${cell}"`).join(','))
       .join('\n');
 
@@ -127,7 +181,7 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${title.toLowerCase().replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.csv`;
+    a.download = `${title.toLowerCase().replace(/\s+/g, '-')}-${toBusinessDayKey(referenceDate)}.csv`;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -260,7 +314,7 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
                     <>
                       {currentMonthData.map((region, idx) => (
                         <tr key={idx}>
-                          <td className="region-cell">{region.region}</td>
+                          {renderRegionCell(region.region)}
                           <td className="text-right">{region.totalComplaints.toLocaleString()}</td>
                           <td className="text-right currency-cell">
                             {formatCurrency(region.totalUPB)}
@@ -346,7 +400,7 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
                     <>
                       {ytdData.map((region, idx) => (
                         <tr key={idx}>
-                          <td className="region-cell">{region.region}</td>
+                          {renderRegionCell(region.region)}
                           <td className="text-right">{region.totalComplaints.toLocaleString()}</td>
                           <td className="text-right currency-cell">
                             {formatCurrency(region.totalUPB)}
@@ -396,6 +450,105 @@ export function SummaryPage({ currentMonthData, ytdData, yearData }: SummaryPage
             </div>
           </div>
         </section>
+
+        {/* ZIP codes - Year-to-Date */}
+        <section className="dashboard-section">
+          <div className="dashboard-card">
+            <div className="card-header">
+              <h2>ZIP Codes — Year-to-Date (YTD)</h2>
+              <button onClick={exportZipCSV} className="export-button">
+                Export CSV
+              </button>
+            </div>
+
+            <div className="table-container">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>ZIP Code</th>
+                    <th className="text-right">Total Complaints Collected</th>
+                    <th className="text-right">Total UPB Collected</th>
+                    <th className="text-right">Complaints That Meet Criteria</th>
+                    <th className="text-right">UPB That Meets Criteria</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {zipData.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="empty-state">
+                        No data available for year-to-date
+                      </td>
+                    </tr>
+                  ) : (
+                    zipData.map(row => (
+                      <tr key={row.zip}>
+                        <td className="region-cell">
+                          {row.zip || 'No ZIP code'}
+                          {(row.city || row.state) && (
+                            <div className="cell-subtext">{[row.city, row.state].filter(Boolean).join(', ')}</div>
+                          )}
+                        </td>
+                        <td className="text-right">{row.totalComplaints.toLocaleString()}</td>
+                        <td className="text-right currency-cell">{formatCurrency(row.totalUPB)}</td>
+                        <td className="text-right">
+                          {row.complaintsMeetingCriteria.toLocaleString()}
+                          <div className="cell-subtext">
+                            {formatPercent(row.complaintsMeetingCriteria, row.totalComplaints)}
+                          </div>
+                        </td>
+                        <td className="text-right currency-cell">
+                          {formatCurrency(row.upbMeetingCriteria)}
+                          <div className="cell-subtext">
+                            {formatPercent(row.upbMeetingCriteria, row.totalUPB)}
+                          </div>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </section>
+
+        <section className="dashboard-section">
+          <GeographyDrillDown complaints={complaints} referenceDate={referenceDate} regions={regions} />
+        </section>
+
+        {unmappedCounties.length > 0 && (
+          <section className="dashboard-section">
+            <div className="dashboard-card">
+              <div className="card-header">
+                <h2>Unmapped Counties</h2>
+                <span className="summary-badge">
+                  {unmappedCounties.reduce((total, county) => total + county.complaints, 0)} complaints
+                </span>
+              </div>
+              <p className="unmapped-note">
+                No region includes these counties, so their complaints are left out of Tables A and B.
+                Add them to a region in the Regions view.
+              </p>
+              <div className="table-container">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>County</th>
+                      <th className="text-right">Complaints</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {unmappedCounties.map(county => (
+                      <tr key={county.county}>
+                        <td className="county-cell">{county.county}</td>
+                        <td className="text-right">{county.complaints.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </section>
+        )}
       </main>
     </div>
   );
@@ -39,7 +39,7 @@ export function TopLendersMonthly({ data, monthlySummary }: TopLendersMonthlyPro
       <div className="card-header">
         <h2>Monthly Trends (Totals vs Criteria)</h2>
         <div className="header-note">
-          Lenders are normalized for grouping (e.g., Wilmington, JPMorgan, SIG RCRS).
+          Lenders are grouped by the lender master list (edited in the Lenders view).
         </div>
       </div>
 
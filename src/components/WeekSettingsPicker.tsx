@@ -0,0 +1,81 @@
+// Week settings picker for the weekly roll-up
+
+import { useEffect, useState } from 'react';
+import { WeekMode, WeekSettings } from '../types';
+import { MAX_WEEKS, WEEK_MODE_LABELS } from '../config/weekConfig';
+import { isValidFiscalYearStart } from '../utils/weekWindows';
+
+interface WeekSettingsPickerProps {
+  value: WeekSettings;
+  onChange: (value: WeekSettings) => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function WeekSettingsPicker({ value, onChange }: WeekSettingsPickerProps) {
+  // Typed values only apply once they're valid
+  const [fiscalYearStart, setFiscalYearStart] = useState(value.fiscalYearStart);
+
+  useEffect(() => {
+    setFiscalYearStart(value.fiscalYearStart);
+  }, [value.fiscalYearStart]);
+
+  const update = (changes: Partial<WeekSettings>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="week-settings">
+      <label className="snapshot-select">
+        Weeks
+        <select value={value.mode} onChange={event => update({ mode: event.target.value as WeekMode })}>
+          {(Object.keys(WEEK_MODE_LABELS) as WeekMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {WEEK_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="snapshot-select">
+        Show
+        <select value={value.weeks} onChange={event => update({ weeks: Number(event.target.value) })}>
+          {Array.from({ length: MAX_WEEKS }, (_, index) => index + 1).map(count => (
+            <option key={count} value={count}>
+              {count === 1 ? '1 week' : `${count} weeks`}
+            </option>
+          ))}
+        </select>
+      </label>
+      {(value.mode === 'custom' || value.mode === 'fiscal') && (
+        <label className="snapshot-select">
+          Starting
+          <select
+            value={value.weekStartsOn}
+            onChange={event => update({ weekStartsOn: Number(event.target.value) })}
+          >
+            {WEEKDAYS.map((day, index) => (
+              <option key={day} value={index}>
+                {day}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {value.mode === 'fiscal' && (
+        <label className="snapshot-select">
+          Fiscal year starts
+          <input
+            type="text"
+            className={isValidFiscalYearStart(fiscalYearStart) ? '' : 'invalid'}
+            value={fiscalYearStart}
+            placeholder="MM-DD"
+            size={5}
+            onChange={event => {
+              const next = event.target.value;
+              setFiscalYearStart(next);
+              if (isValidFiscalYearStart(next)) update({ fiscalYearStart: next });
+            }}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
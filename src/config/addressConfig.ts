@@ -0,0 +1,140 @@
+// Address standardization tables
+// USPS Publication 28 abbreviations used by utils/addressParser.ts. Each map is
+// keyed by the spellings seen in addresses (upper case, without periods) and
+// gives the USPS standard form.
+
+// Street suffixes (Pub 28, Appendix C1): the standard abbreviation, its full
+// name and the common variants
+const SUFFIX_VARIANTS: Record<string, string[]> = {
+  ALY: ['ALLEY', 'ALLEE', 'ALLY'],
+  AVE: ['AVENUE', 'AV', 'AVEN', 'AVENU', 'AVN', 'AVNUE'],
+  BLVD: ['BOULEVARD', 'BOUL', 'BOULV'],
+  BND: ['BEND'],
+  BYP: ['BYPASS', 'BYPA', 'BYPAS', 'BYPS'],
+  CIR: ['CIRCLE', 'CIRC', 'CIRCL', 'CRCL', 'CRCLE'],
+  CSWY: ['CAUSEWAY', 'CAUSWA'],
+  CT: ['COURT', 'CRT'],
+  CTR: ['CENTER', 'CEN', 'CENT', 'CENTR', 'CENTRE', 'CNTER', 'CNTR'],
+  CV: ['COVE'],
+  CRES: ['CRESCENT', 'CRSENT', 'CRSNT'],
+  XING: ['CROSSING', 'CRSSNG'],
+  DR: ['DRIVE', 'DRIV', 'DRV'],
+  EXPY: ['EXPRESSWAY', 'EXP', 'EXPR', 'EXPRESS', 'EXPW'],
+  EXT: ['EXTENSION', 'EXTN', 'EXTNSN'],
+  FWY: ['FREEWAY', 'FREEWY', 'FRWAY', 'FRWY'],
+  GDNS: ['GARDENS', 'GARDN', 'GRDEN', 'GRDN'],
+  GRV: ['GROVE', 'GROV'],
+  HBR: ['HARBOR', 'HARB', 'HARBR', 'HRBOR'],
+  HTS: ['HEIGHTS', 'HT'],
+  HWY: ['HIGHWAY', 'HIGHWY', 'HIWAY', 'HIWY', 'HWAY'],
+  HL: ['HILL'],
+  HOLW: ['HOLLOW', 'HLLW', 'HOLLOWS', 'HOLWS'],
+  IS: ['ISLAND', 'ISLND'],
+  ISLE: ['ISLES'],
+  JCT: ['JUNCTION', 'JCTION', 'JCTN', 'JUNCTN', 'JUNCTON'],
+  KY: ['KEY'],
+  LK: ['LAKE'],
+  LN: ['LANE'],
+  LOOP: ['LOOPS'],
+  MNR: ['MANOR'],
+  MDWS: ['MEADOWS', 'MEDOWS'],
+  MTN: ['MOUNTAIN', 'MNTAIN', 'MNTN', 'MOUNTIN', 'MTIN'],
+  OVAL: ['OVL'],
+  PARK: ['PRK', 'PARKS'],
+  PKWY: ['PARKWAY', 'PARKWY', 'PKWAY', 'PKY', 'PARKWAYS', 'PKWYS'],
+  PASS: [],
+  PATH: ['PATHS'],
+  PIKE: ['PIKES'],
+  PL: ['PLACE'],
+  PLZ: ['PLAZA', 'PLZA'],
+  PT: ['POINT'],
+  PR: ['PRAIRIE', 'PRR'],
+  RD: ['ROAD'],
+  RDG: ['RIDGE', 'RDGE'],
+  ROW: [],
+  RUN: [],
+  SQ: ['SQUARE', 'SQR', 'SQRE', 'SQU'],
+  ST: ['STREET', 'STR', 'STRT'],
+  TER: ['TERRACE', 'TERR'],
+  TRCE: ['TRACE', 'TRACES'],
+  TRL: ['TRAIL', 'TRAILS', 'TRLS'],
+  TPKE: ['TURNPIKE', 'TRNPK', 'TURNPK'],
+  VIS: ['VISTA', 'VIST', 'VST', 'VSTA'],
+  WALK: ['WALKS'],
+  WAY: ['WY'],
+};
+
+export const STREET_SUFFIXES: Record<string, string> = Object.fromEntries(
+  Object.entries(SUFFIX_VARIANTS).flatMap(([standard, variants]) =>
+    [standard, ...variants].map(variant => [variant, standard])
+  )
+);
+
+// Directionals (Pub 28, Appendix B)
+export const DIRECTIONALS: Record<string, string> = {
+  N: 'N',
+  NORTH: 'N',
+  S: 'S',
+  SOUTH: 'S',
+  E: 'E',
+  EAST: 'E',
+  W: 'W',
+  WEST: 'W',
+  NE: 'NE',
+  NORTHEAST: 'NE',
+  NW: 'NW',
+  NORTHWEST: 'NW',
+  SE: 'SE',
+  SOUTHEAST: 'SE',
+  SW: 'SW',
+  SOUTHWEST: 'SW',
+};
+
+// Secondary unit designators (Pub 28, Appendix C2). "#" is kept as is
+export const UNIT_DESIGNATORS: Record<string, string> = {
+  APARTMENT: 'APT',
+  APT: 'APT',
+  BUILDING: 'BLDG',
+  BLDG: 'BLDG',
+  FLOOR: 'FL',
+  FL: 'FL',
+  SUITE: 'STE',
+  STE: 'STE',
+  UNIT: 'UNIT',
+  ROOM: 'RM',
+  RM: 'RM',
+  DEPARTMENT: 'DEPT',
+  DEPT: 'DEPT',
+  LOT: 'LOT',
+  SPACE: 'SPC',
+  SPC: 'SPC',
+  TRAILER: 'TRLR',
+  TRLR: 'TRLR',
+  PENTHOUSE: 'PH',
+  PH: 'PH',
+  '#': '#',
+};
+
+// Spelled-out ordinals in street names ("Fifth Avenue" is "5TH AVE")
+export const ORDINAL_WORDS: Record<string, string> = {
+  FIRST: '1ST',
+  SECOND: '2ND',
+  THIRD: '3RD',
+  FOURTH: '4TH',
+  FIFTH: '5TH',
+  SIXTH: '6TH',
+  SEVENTH: '7TH',
+  EIGHTH: '8TH',
+  NINTH: '9TH',
+  TENTH: '10TH',
+  ELEVENTH: '11TH',
+  TWELFTH: '12TH',
+  THIRTEENTH: '13TH',
+  FOURTEENTH: '14TH',
+  FIFTEENTH: '15TH',
+  SIXTEENTH: '16TH',
+  SEVENTEENTH: '17TH',
+  EIGHTEENTH: '18TH',
+  NINETEENTH: '19TH',
+  TWENTIETH: '20TH',
+};
@@ -0,0 +1,8 @@
+// Backend API configuration
+
+/**
+ * Base URL of the backend server
+ * Uses the Vite proxy in development, or VITE_API_URL when it is set
+ */
+export const API_BASE_URL =
+  import.meta.env.VITE_API_URL || (import.meta.env.DEV ? '' : 'http://localhost:3001');
@@ -1,28 +1,77 @@
 // Column mapping configuration
-// Update this file to match your actual Google Sheet column names
+// The built-in mapping used until a saved profile is activated in the
+// Column Mapping screen (profiles are stored by the backend)
+
+import { ColumnMapping } from '../types';
 
 export const COLUMN_MAPPING: Record<string, string> = {
   // Map your actual spreadsheet column names to standard field names
   'Property Address': 'propertyAddress',
   'County': 'county',
+  'State': 'state',
   'Plaintiff': 'plaintiff',
   'Sum of Unpaid Balance(s)': 'upb',
   'Unpaid Balance(s)': 'upb', // Fallback if Sum column is empty
   'Meets Criteria?': 'meetsCriteria',
+  'Meets Criteria': 'meetsCriteria', // As named in Spreadsheet_mapping.xlsx
   'Processing Log': 'complaintDate',
-  
+
   // Additional mappings for flexibility
   'Document Title': 'documentTitle',
   'Defendant': 'defendant',
   'Original Loan Amount': 'originalLoanAmount',
   'Default Date': 'defaultDate',
+
+  // Added when rows are combined from several workbook tabs
+  'Source Tab': 'sourceTab',
 };
 
+// Fields the dashboard reads, with the labels shown in the mapping editor
+export const STANDARD_FIELDS: { field: string; label: string }[] = [
+  { field: 'propertyAddress', label: 'Property Address' },
+  { field: 'county', label: 'County' },
+  { field: 'state', label: 'State' },
+  { field: 'plaintiff', label: 'Plaintiff' },
+  { field: 'lender', label: 'Lender' },
+  { field: 'upb', label: 'UPB' },
+  { field: 'meetsCriteria', label: 'Meets Criteria' },
+  { field: 'complaintDate', label: 'Complaint Date' },
+  { field: 'id', label: 'ID' },
+  { field: 'documentTitle', label: 'Document Title' },
+  { field: 'defendant', label: 'Defendant' },
+  { field: 'originalLoanAmount', label: 'Original Loan Amount' },
+  { field: 'defaultDate', label: 'Default Date' },
+  { field: 'sourceTab', label: 'Source Tab' },
+];
+
+/**
+ * Built-in mapping by field: each field takes the first of its columns with a
+ * value, and columns listed earlier in COLUMN_MAPPING take priority
+ */
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = Object.entries(COLUMN_MAPPING).reduce(
+  (mapping, [column, field]) => ({
+    ...mapping,
+    [field]: { columns: [...(mapping[field]?.columns ?? []), column], rule: 'coalesce' },
+  }),
+  {} as ColumnMapping
+);
+
+/**
+ * Lookup key that ignores case and repeated whitespace
+ * (exports don't always match the sheet exactly, e.g. "Document  Title")
+ */
+export function toLookupKey(columnName: string): string {
+  return columnName.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+const COLUMN_LOOKUP = new Map(
+  Object.entries(COLUMN_MAPPING).map(([column, field]) => [toLookupKey(column), field])
+);
+
 /**
  * Maps a column name to the standard field name
  */
 export function mapColumnName(columnName: string): string {
   const trimmed = columnName.trim();
-  return COLUMN_MAPPING[trimmed] || trimmed;
+  return COLUMN_MAPPING[trimmed] || COLUMN_LOOKUP.get(toLookupKey(trimmed)) || trimmed;
 }
-
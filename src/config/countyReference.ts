@@ -0,0 +1,152 @@
+// County reference
+// Census FIPS codes and official names for every county in the states the
+// dashboard reports on, with the other spellings seen in the data.
+// To cover a new state, add its counties here (3-digit county code, name and
+// any aliases) and list it in COUNTY_REFERENCE.
+
+import { CountyReference } from '../types';
+
+type CountyEntry = [code: string, name: string, aliases?: string[]];
+
+const FLORIDA: CountyEntry[] = [
+  ['001', 'Alachua'],
+  ['003', 'Baker'],
+  ['005', 'Bay'],
+  ['007', 'Bradford'],
+  ['009', 'Brevard'],
+  ['011', 'Broward'],
+  ['013', 'Calhoun'],
+  ['015', 'Charlotte'],
+  ['017', 'Citrus'],
+  ['019', 'Clay'],
+  ['021', 'Collier'],
+  ['023', 'Columbia'],
+  ['027', 'DeSoto', ['De Soto']],
+  ['029', 'Dixie'],
+  ['031', 'Duval'],
+  ['033', 'Escambia'],
+  ['035', 'Flagler'],
+  ['037', 'Franklin'],
+  ['039', 'Gadsden'],
+  ['041', 'Gilchrist'],
+  ['043', 'Glades'],
+  ['045', 'Gulf'],
+  ['047', 'Hamilton'],
+  ['049', 'Hardee'],
+  ['051', 'Hendry'],
+  ['053', 'Hernando'],
+  ['055', 'Highlands'],
+  ['057', 'Hillsborough'],
+  ['059', 'Holmes'],
+  ['061', 'Indian River'],
+  ['063', 'Jackson'],
+  ['065', 'Jefferson'],
+  ['067', 'Lafayette'],
+  ['069', 'Lake'],
+  ['071', 'Lee'],
+  ['073', 'Leon'],
+  ['075', 'Levy'],
+  ['077', 'Liberty'],
+  ['079', 'Madison'],
+  ['081', 'Manatee'],
+  ['083', 'Marion'],
+  ['085', 'Martin'],
+  ['086', 'Miami-Dade', ['Dade', 'Miami']],
+  ['087', 'Monroe'],
+  ['089', 'Nassau'],
+  ['091', 'Okaloosa'],
+  ['093', 'Okeechobee'],
+  ['095', 'Orange'],
+  ['097', 'Osceola'],
+  ['099', 'Palm Beach'],
+  ['101', 'Pasco'],
+  ['103', 'Pinellas'],
+  ['105', 'Polk'],
+  ['107', 'Putnam'],
+  ['109', 'St. Johns'],
+  ['111', 'St. Lucie'],
+  ['113', 'Santa Rosa'],
+  ['115', 'Sarasota'],
+  ['117', 'Seminole'],
+  ['119', 'Sumter'],
+  ['121', 'Suwannee'],
+  ['123', 'Taylor'],
+  ['125', 'Union'],
+  ['127', 'Volusia'],
+  ['129', 'Wakulla'],
+  ['131', 'Walton'],
+  ['133', 'Washington'],
+];
+
+const NEW_YORK: CountyEntry[] = [
+  ['001', 'Albany'],
+  ['003', 'Allegany'],
+  ['005', 'Bronx', ['The Bronx', 'Bronxs']], // "Bronxs" is a typo seen in the sheet
+  ['007', 'Broome'],
+  ['009', 'Cattaraugus'],
+  ['011', 'Cayuga'],
+  ['013', 'Chautauqua'],
+  ['015', 'Chemung'],
+  ['017', 'Chenango'],
+  ['019', 'Clinton'],
+  ['021', 'Columbia'],
+  ['023', 'Cortland'],
+  ['025', 'Delaware'],
+  ['027', 'Dutchess'],
+  ['029', 'Erie'],
+  ['031', 'Essex'],
+  ['033', 'Franklin'],
+  ['035', 'Fulton'],
+  ['037', 'Genesee'],
+  ['039', 'Greene'],
+  ['041', 'Hamilton'],
+  ['043', 'Herkimer'],
+  ['045', 'Jefferson'],
+  ['047', 'Kings', ['Brooklyn']],
+  ['049', 'Lewis'],
+  ['051', 'Livingston'],
+  ['053', 'Madison'],
+  ['055', 'Monroe'],
+  ['057', 'Montgomery'],
+  ['059', 'Nassau'],
+  ['061', 'New York', ['Manhattan']],
+  ['063', 'Niagara'],
+  ['065', 'Oneida'],
+  ['067', 'Onondaga'],
+  ['069', 'Ontario'],
+  ['071', 'Orange'],
+  ['073', 'Orleans'],
+  ['075', 'Oswego'],
+  ['077', 'Otsego'],
+  ['079', 'Putnam'],
+  ['081', 'Queens'],
+  ['083', 'Rensselaer'],
+  ['085', 'Richmond', ['Staten Island']],
+  ['087', 'Rockland'],
+  ['089', 'St. Lawrence'],
+  ['091', 'Saratoga'],
+  ['093', 'Schenectady'],
+  ['095', 'Schoharie'],
+  ['097', 'Schuyler'],
+  ['099', 'Seneca'],
+  ['101', 'Steuben'],
+  ['103', 'Suffolk'],
+  ['105', 'Sullivan'],
+  ['107', 'Tioga'],
+  ['109', 'Tompkins'],
+  ['111', 'Ulster'],
+  ['113', 'Warren'],
+  ['115', 'Washington'],
+  ['117', 'Wayne'],
+  ['119', 'Westchester'],
+  ['121', 'Wyoming'],
+  ['123', 'Yates'],
+];
+
+const toCounties = (state: string, stateFips: string, entries: CountyEntry[]): CountyReference[] =>
+  entries.map(([code, name, aliases = []]) => ({ name, state, fips: `${stateFips}${code}`, aliases }));
+
+export const COUNTY_REFERENCE: CountyReference[] = [
+  ...toCounties('FL', '12', FLORIDA),
+  ...toCounties('NY', '36', NEW_YORK),
+];
@@ -0,0 +1,54 @@
+// Criteria configuration
+// The rules a complaint must pass to meet the investment criteria. The engine
+// checks every complaint against them and the Criteria view reconciles its
+// verdict with the sheet's "Meets Criteria?" column.
+
+import { CriteriaRule, CriteriaSource } from '../types';
+
+/**
+ * Which verdict the dashboard's "meets criteria" metrics use
+ * - 'sheet': the sheet's "Meets Criteria?" column (the rules are only reconciled against it)
+ * - 'engine': the rules below
+ */
+export const CRITERIA_SOURCE: CriteriaSource = 'sheet';
+
+/**
+ * Every enabled rule must pass. Set `enabled: false` to keep a rule without applying it.
+ * County, region and lender names are compared after normalization.
+ * The region rule covers every region of the active region model unless it lists
+ * `regions`; names the model doesn't have are flagged in the Criteria view.
+ */
+export const CRITERIA_RULES: CriteriaRule[] = [
+  {
+    id: 'upb-range',
+    label: 'UPB between $100,000 and $5,000,000',
+    type: 'upb-range',
+    min: 100000,
+    max: 5000000,
+  },
+  {
+    id: 'regions',
+    label: 'In a covered region',
+    type: 'region',
+  },
+  {
+    id: 'excluded-lenders',
+    label: 'Lender not excluded',
+    type: 'lender-exclusion',
+    lenders: [],
+  },
+  {
+    id: 'complaint-age',
+    label: 'Filed within the last 2 years',
+    type: 'complaint-age',
+    maxDays: 730,
+  },
+  {
+    id: 'document-title',
+    label: 'Foreclosure complaint',
+    type: 'document-title',
+    keywords: ['foreclos'],
+    mode: 'require',
+    enabled: false, // Not every export has a Document Title column
+  },
+];
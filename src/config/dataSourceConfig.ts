@@ -0,0 +1,18 @@
+// Data source configuration
+
+export type DataSourceType = 'google-sheets' | 'json-http' | 'file-upload';
+
+/**
+ * Where the dashboard loads its rows from on startup
+ * - 'google-sheets': the backend (service account), falling back to the public CSV export
+ * - 'json-http': JSON_SOURCE_URL, fetched directly from the browser
+ * An exported CSV/XLSX file can also be picked in the header at any time.
+ * The backend's own source is set separately with DATA_SOURCE (see CONFIGURATION.md)
+ */
+export const DEFAULT_DATA_SOURCE: Exclude<DataSourceType, 'file-upload'> = 'google-sheets';
+
+/**
+ * JSON endpoint returning an array of header-keyed rows
+ * Leave empty to hide the JSON option
+ */
+export const JSON_SOURCE_URL = '';
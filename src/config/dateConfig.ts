@@ -0,0 +1,17 @@
+// Date parsing configuration
+
+import { NumericDateOrder } from '../types';
+
+/**
+ * IANA time zone that sheet dates without an explicit offset are read in
+ * (e.g. "01/15/2024 9:30 PM" in the Processing Log is 9:30 PM in this zone)
+ */
+export const TIME_ZONE = 'America/New_York';
+
+/**
+ * How all-numeric dates such as 03/04/2024 are read when either part could be the month
+ * Ambiguous dates are only flagged when a date in the same column can only be
+ * read in the other order (e.g. 25/04/2024 with MDY). With null they're read
+ * month first and every one is flagged.
+ */
+export const NUMERIC_DATE_ORDER: NumericDateOrder | null = 'MDY';
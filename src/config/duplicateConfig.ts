@@ -0,0 +1,16 @@
+// Duplicate detection configuration
+// How sure each matching strategy is that two rows are the same complaint, and
+// how sure a cluster must be for its copies to be dropped before anyone reviews it
+
+import { DuplicateStrategy } from '../types';
+
+export const DUPLICATE_STRATEGY_CONFIDENCE: Record<DuplicateStrategy, number> = {
+  exact: 1,
+  'same-lender-date': 0.9,
+  // Below AUTO_MERGE_CONFIDENCE: a fuzzy street match is reviewed before a row is dropped
+  'similar-address': 0.6,
+  // Usually two lenders' complaints on one property, so kept until reviewed
+  'same-address-date': 0.5,
+};
+
+export const AUTO_MERGE_CONFIDENCE = 0.75;
@@ -0,0 +1,25 @@
+// Lender configuration
+// The built-in lender master list, used until one is saved in the Lenders screen
+// (the backend stores it under DATA_DIR) and when rows are processed without a backend
+
+import { LenderMasterList } from '../types';
+
+export const DEFAULT_LENDER_MASTER_LIST: LenderMasterList = {
+  lenders: [
+    { name: 'Wilmington', aliases: [], patterns: ['^wilmington\\b'] },
+    { name: 'JPMorgan', aliases: [], patterns: ['^jpmorgan\\b'] },
+    { name: 'Wells Fargo', aliases: [], patterns: ['^wells\\s*fargo\\b'] },
+    {
+      name: 'Computer Trust Company',
+      aliases: [],
+      patterns: ['^computershare\\s+trust\\s+company\\s+national\\b'],
+    },
+    { name: 'Lincoln Street', aliases: [], patterns: ['^lincoln\\s+street\\b'] },
+    { name: 'American General Life', aliases: [], patterns: ['^american\\s+general\\s+life\\s+insurance\\b'] },
+    { name: 'EF Mortgage', aliases: [], patterns: ['ef\\s+mortgage'] },
+    { name: 'Tryon Street', aliases: [], patterns: ['(tryon|tyron)\\s+street'] }, // "Tyron" is a common misspelling
+    // SIG RCRS and Sig Cre are different lenders
+    { name: 'SIG RCRS', aliases: [], patterns: ['^sig\\s*rcrs\\b'] },
+    { name: 'Sig Cre', aliases: [], patterns: ['^sig\\s*cre\\b'] },
+  ],
+};
@@ -0,0 +1,9 @@
+// Normalization rule configuration
+// The rule set used when the backend's rule file has none for a tenant, and when
+// rows are processed without a backend: the built-in normalization only
+
+import { NormalizationRuleSet } from '../types';
+
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRuleSet = {
+  rules: [],
+};
@@ -0,0 +1,37 @@
+// Region configuration
+// The built-in region model, used until one is saved in the Regions screen
+// (the backend stores it under DATA_DIR) and when rows are processed without a backend
+
+import { RegionModel } from '../types';
+
+// Counties no region includes are reported under this name and left out of the region summaries
+export const UNMAPPED_REGION = 'Other/Unmapped';
+
+export const DEFAULT_REGION_MODEL: RegionModel = {
+  regions: [
+    {
+      name: 'Miami-Dade',
+      state: 'FL',
+      counties: ['Miami-Dade'],
+    },
+    {
+      name: 'Other Florida',
+      state: 'FL',
+      counties: ['Pinellas', 'Orange', 'Broward', 'Collier', 'Volusia'],
+    },
+    {
+      name: 'New York',
+      state: 'NY',
+      counties: [
+        'Kings',
+        'Suffolk',
+        'Bronx', // "Bronxs" in the sheet resolves to it through the county reference
+        'New York',
+        'Queens',
+        'Nassau',
+        'Rockland',
+        'Westchester',
+      ],
+    },
+  ],
+};
@@ -0,0 +1,62 @@
+// Validation configuration
+// The rules each complaint row is checked against (see utils/rowValidation.ts).
+// To turn a rule off or change its threshold, add it to VALIDATION_RULE_OVERRIDES
+// by code rather than editing the schema
+
+import { QualityRuleCode, ValidationRuleOverride, ValidationSchema } from '../types';
+
+export const DEFAULT_VALIDATION_SCHEMA: ValidationSchema = {
+  fields: {
+    propertyAddress: {
+      type: 'text',
+      label: 'property address',
+      required: { code: 'missing-address', severity: 'error' },
+      minLength: { code: 'short-address', severity: 'warning', limit: 5 },
+    },
+    county: {
+      type: 'text',
+      label: 'county',
+      required: { code: 'missing-county', severity: 'error' },
+    },
+    lender: {
+      type: 'text',
+      label: 'lender/plaintiff',
+      fallbackFields: ['plaintiff'],
+      required: { code: 'missing-lender', severity: 'error' },
+      invalid: { code: 'invalid-lender', severity: 'error' },
+    },
+    upb: {
+      type: 'number',
+      label: 'UPB',
+      required: { code: 'missing-upb', severity: 'error', message: 'UPB is missing' },
+      invalid: { code: 'invalid-upb', severity: 'error' },
+      ranges: [
+        { code: 'negative-upb', severity: 'warning', below: 0, message: 'UPB is negative' },
+        { code: 'zero-upb', severity: 'warning', equals: 0, message: 'UPB is zero' },
+        { code: 'high-upb', severity: 'warning', above: 1000000000, message: 'UPB seems unusually high' },
+      ],
+    },
+    complaintDate: {
+      type: 'date',
+      label: 'complaint date',
+      required: { code: 'missing-date', severity: 'warning', message: 'Complaint date is missing' },
+      invalid: { code: 'invalid-date', severity: 'error' },
+      ranges: [
+        { code: 'future-date', severity: 'warning', below: 0, message: 'Complaint date is in the future' },
+        { code: 'old-date', severity: 'warning', above: 10, message: 'Complaint date is more than {above} years old' },
+      ],
+      parseWarnings: [
+        { code: 'ambiguous-date', severity: 'warning' },
+        { code: 'unfiled-log-date', severity: 'warning' },
+      ],
+    },
+  },
+  json: {
+    invalid: { code: 'invalid-json', severity: 'error' },
+    fixed: { code: 'fixed-json', severity: 'warning' },
+  },
+  custom: [],
+};
+
+// e.g. { 'short-address': { enabled: false }, 'old-date': { above: 20 }, 'missing-upb': { severity: 'warning' } }
+export const VALIDATION_RULE_OVERRIDES: Partial<Record<QualityRuleCode, ValidationRuleOverride>> = {};
@@ -0,0 +1,22 @@
+// Weekly roll-up configuration
+// The defaults used by the backend and on first load; the Detail view lets
+// each user pick another week mode and number of weeks
+
+import { WeekMode, WeekSettings } from '../types';
+
+export const DEFAULT_WEEK_SETTINGS: WeekSettings = {
+  mode: 'rolling',
+  weeks: 4,
+  weekStartsOn: 1, // Monday
+  fiscalYearStart: '01-01',
+};
+
+// Upper limit on the number of weeks shown (one quarter)
+export const MAX_WEEKS = 13;
+
+export const WEEK_MODE_LABELS: Record<WeekMode, string> = {
+  rolling: 'Rolling 7 days',
+  iso: 'ISO weeks (Mon–Sun)',
+  custom: 'Calendar weeks',
+  fiscal: 'Fiscal weeks',
+};
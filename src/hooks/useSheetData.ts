@@ -1,80 +1,200 @@
 // Custom hook for fetching and processing sheet data
 
-import { useState, useEffect, useCallback } from 'react';
-import { fetchSheetData } from '../services/googleSheets';
-import { processRowsWithQualityChecks } from '../utils/dataQuality';
-import { normalizeCounty, normalizeLender } from '../utils/normalization';
-import { ComplaintRow, ProcessedComplaint } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { buildDashboardData, calculateDashboardMetrics } from '../utils/dashboardData';
+import { mapRawRow } from '../utils/rowMapping';
+import { DEFAULT_COLUMN_MAPPING } from '../config/columnMapping';
+import { DEFAULT_WEEK_SETTINGS } from '../config/weekConfig';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { NormalizationRegistry } from '../utils/normalization';
+import { createNormalizationRegistry } from '../utils/normalizationRules';
+import { diffRows } from '../utils/snapshotDiff';
+import {
+  ColumnMapping,
+  DashboardData,
+  DataSource,
+  DashboardMetrics,
+  DataQualityIssue,
+  DataQualitySummary,
+  DuplicateCluster,
+  DuplicateDecision,
+  LenderMasterList,
+  ProcessedComplaint,
+  RegionModel,
+  RowChanges,
+  WeekSettings,
+} from '../types';
 
 interface UseSheetDataResult {
   complaints: ProcessedComplaint[];
+  metrics: DashboardMetrics;
   loading: boolean;
   error: string | null;
-  issues: Array<{
-    rowIndex: number;
-    row: ComplaintRow;
-    errors: string[];
-    isDuplicate: boolean;
-    duplicateOf?: number;
-  }>;
-  summary: {
-    totalRows: number;
-    validRows: number;
-    invalidRows: number;
-    duplicateRows: number;
-    rowsWithJSONErrors: number;
-    rowsWithOtherErrors: number;
-  };
+  issues: DataQualityIssue[];
+  summary: DataQualitySummary;
+  lastUpdated: Date | null;
+  regions: RegionModel; // The region model the loaded rows were assigned with
+  lenders: LenderMasterList; // The lender master list the loaded rows were resolved with
+  duplicateClusters: DuplicateCluster[];
+  rowChanges: RowChanges | null; // Since the previous load of the same sheet; null until there is one
   refresh: () => Promise<void>;
 }
 
 const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
+// One instance, so the default doesn't change the fetch callback every render
+const DEFAULT_NORMALIZATION_REGISTRY = createNormalizationRegistry();
+const NO_DUPLICATE_DECISIONS: DuplicateDecision[] = [];
+
+export interface SheetDataOptions {
+  autoRefresh?: boolean; // Reload every 5 minutes; defaults to true
+  settingsLoaded?: boolean; // The first load waits until the settings below have loaded; defaults to true
+  asOfDate?: string | null; // "yyyy-MM-dd" date to calculate metrics as of; null for now
+  weekSettings?: WeekSettings; // How the weekly roll-up splits time into weeks
+  // Used when rows are processed in the browser (the backend applies its active
+  // profile and its saved regions, lenders, rule file and duplicate reviews)
+  columnMapping?: ColumnMapping;
+  regions?: RegionModel;
+  lenders?: LenderMasterList;
+  normalization?: NormalizationRegistry;
+  duplicateDecisions?: DuplicateDecision[];
+}
+
+type LoadSettings = Required<Omit<SheetDataOptions, 'autoRefresh' | 'settingsLoaded'>>;
+
+/**
+ * Loads processed data from the source's backend when it has one, which runs the
+ * pipeline once per fetch. Otherwise (or when the backend is unavailable, e.g.
+ * frontend-only deployments against a public sheet) the source's raw rows are
+ * processed in the browser.
+ */
+async function loadDashboardData(
+  dataSource: DataSource,
+  sheetName: string,
+  forceRefresh: boolean,
+  { asOfDate, weekSettings, columnMapping, ...settings }: LoadSettings
+): Promise<DashboardData> {
+  if (dataSource.fetchDashboardData) {
+    try {
+      return await dataSource.fetchDashboardData(sheetName, forceRefresh, asOfDate, weekSettings);
+    } catch (apiError) {
+      const message = apiError instanceof Error ? apiError.message : 'Unknown error';
+      console.warn('Dashboard API not available, processing rows in the browser:', message);
+    }
+  }
+
+  const { rows, parseErrors } = await dataSource.fetchRows(sheetName);
+  return buildDashboardData(rows.map(row => mapRawRow(row, columnMapping)), {
+    asOfDate,
+    parseErrors,
+    weekSettings,
+    ...settings,
+  });
+}
+
+/**
+ * @param dataSource - Where rows are loaded from (see services/dataSources)
+ */
 export function useSheetData(
+  dataSource: DataSource,
   sheetName: string = 'Sheet1',
-  autoRefresh: boolean = true
+  options: SheetDataOptions = {}
 ): UseSheetDataResult {
+  const {
+    autoRefresh = true,
+    settingsLoaded = true,
+    asOfDate = null,
+    weekSettings = DEFAULT_WEEK_SETTINGS,
+    columnMapping = DEFAULT_COLUMN_MAPPING,
+    regions = DEFAULT_REGION_MODEL,
+    lenders = DEFAULT_LENDER_MASTER_LIST,
+    normalization = DEFAULT_NORMALIZATION_REGISTRY,
+    duplicateDecisions = NO_DUPLICATE_DECISIONS,
+  } = options;
   const [complaints, setComplaints] = useState<ProcessedComplaint[]>([]);
+  const [metrics, setMetrics] = useState<DashboardMetrics>(() => calculateDashboardMetrics([]));
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [issues, setIssues] = useState<UseSheetDataResult['issues']>([]);
-  const [summary, setSummary] = useState<UseSheetDataResult['summary']>({
+  const [issues, setIssues] = useState<DataQualityIssue[]>([]);
+  const [summary, setSummary] = useState<DataQualitySummary>({
     totalRows: 0,
     validRows: 0,
     invalidRows: 0,
     duplicateRows: 0,
     rowsWithJSONErrors: 0,
     rowsWithOtherErrors: 0,
+    rowsWithWarnings: 0,
+    findingCounts: {},
+    pendingDuplicateClusters: 0,
   });
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [loadedRegions, setLoadedRegions] = useState<RegionModel>(regions);
+  const [loadedLenders, setLoadedLenders] = useState<LenderMasterList>(lenders);
+  const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster[]>([]);
+  const [rowChanges, setRowChanges] = useState<RowChanges | null>(null);
+  // The last load, to diff the next one against
+  const previousLoad = useRef<{
+    source: DataSource;
+    sheetName: string;
+    columnMapping: ColumnMapping;
+    data: DashboardData;
+  } | null>(null);
 
-  const fetchData = useCallback(async () => {
+  // The backend applies its own saved settings, so these only matter when rows are
+  // processed in the browser. Kept out of fetchData's dependencies so each one
+  // arriving doesn't load the dashboard again and restart the auto-refresh.
+  const browserSettings = useMemo(
+    () => ({ columnMapping, regions, lenders, normalization, duplicateDecisions }),
+    [columnMapping, regions, lenders, normalization, duplicateDecisions]
+  );
+  const browserSettingsRef = useRef(browserSettings);
+  const hasLoaded = useRef(false);
+
+  const fetchData = useCallback(async (forceRefresh: boolean = false) => {
+    const settings = browserSettingsRef.current;
+    const { columnMapping } = settings;
     try {
       setLoading(true);
       setError(null);
-      
-      const rawRows = await fetchSheetData(sheetName);
-      
-      // Process with comprehensive quality checks
-      const { processed, issues: qualityIssues, summary: qualitySummary } = 
-        processRowsWithQualityChecks(rawRows);
-      
+
+      const data = await loadDashboardData(dataSource, sheetName, forceRefresh, {
+        asOfDate,
+        weekSettings,
+        ...settings,
+      });
+
       // Log summary for debugging
-      console.log('Data Quality Summary:', qualitySummary);
-      if (qualityIssues.length > 0) {
-        console.warn(`Found ${qualityIssues.length} data quality issues`);
-        console.warn('Issues:', qualityIssues.slice(0, 10)); // Log first 10 issues
+      console.log('Data Quality Summary:', data.summary);
+      if (data.issues.length > 0) {
+        console.warn(`Found ${data.issues.length} data quality issues`);
+        console.warn('Issues:', data.issues.slice(0, 10)); // Log first 10 issues
+      }
+
+      setComplaints(data.complaints);
+      setMetrics(data.metrics);
+      setIssues(data.issues);
+      setSummary(data.summary);
+      setLastUpdated(new Date(data.generatedAt));
+      // Data cached before region models existed doesn't say which it used
+      setLoadedRegions(data.regions ?? DEFAULT_REGION_MODEL);
+      setLoadedLenders(data.lenders ?? DEFAULT_LENDER_MASTER_LIST);
+      setDuplicateClusters(data.duplicateClusters ?? []);
+
+      // Rows only change when they were fetched again (not e.g. recalculated as of
+      // another date); another source, sheet or mapping starts over
+      const previous = previousLoad.current;
+      if (
+        !previous ||
+        previous.source !== dataSource ||
+        previous.sheetName !== sheetName ||
+        previous.columnMapping !== columnMapping
+      ) {
+        setRowChanges(null);
+      } else if (previous.data.generatedAt !== data.generatedAt) {
+        setRowChanges(diffRows(previous.data.complaints, data.complaints));
       }
-      
-      // Apply normalization
-      const normalized = processed.map(row => ({
-        ...row,
-        normalizedCounty: normalizeCounty(row.county),
-        normalizedLender: normalizeLender(row.lender || row.plaintiff),
-      }));
-      
-      setComplaints(normalized);
-      setIssues(qualityIssues);
-      setSummary(qualitySummary);
+      previousLoad.current = { source: dataSource, sheetName, columnMapping, data };
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
       setError(errorMessage);
@@ -82,24 +202,43 @@ export function useSheetData(
     } finally {
       setLoading(false);
     }
-  }, [sheetName]);
+  }, [dataSource, sheetName, asOfDate, weekSettings]);
+
+  // Manual refreshes bypass the server-side cache
+  const refresh = useCallback(() => fetchData(true), [fetchData]);
+
+  // A setting saved after the first load (e.g. a region edit) reloads once; the
+  // backend has dropped its cached result by then. A new fetchData alone is
+  // loaded by the effect below, so only changed settings fetch here.
+  useEffect(() => {
+    if (browserSettingsRef.current === browserSettings) return;
+    browserSettingsRef.current = browserSettings;
+    if (hasLoaded.current) fetchData();
+  }, [browserSettings, fetchData]);
 
   useEffect(() => {
+    if (!settingsLoaded) return;
+    hasLoaded.current = true;
     fetchData();
-    
+
     if (autoRefresh) {
-      const interval = setInterval(fetchData, REFRESH_INTERVAL);
+      const interval = setInterval(() => fetchData(), REFRESH_INTERVAL);
       return () => clearInterval(interval);
     }
-  }, [fetchData, autoRefresh]);
+  }, [fetchData, autoRefresh, settingsLoaded]);
 
   return {
     complaints,
+    metrics,
     loading,
     error,
     issues,
     summary,
-    refresh: fetchData,
+    lastUpdated,
+    regions: loadedRegions,
+    lenders: loadedLenders,
+    duplicateClusters,
+    rowChanges,
+    refresh,
   };
 }
-
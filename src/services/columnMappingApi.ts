@@ -0,0 +1,77 @@
+// Backend column mapping profile API
+
+import axios from 'axios';
+import { ColumnMapping, ColumnMappingProfile, ColumnMappingSettings } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+
+const profileUrl = (name: string) =>
+  `${API_BASE_URL}/api/column-mapping/profiles/${encodeURIComponent(name)}`;
+
+/**
+ * Reads an error message from a failed request
+ */
+function toError(error: unknown, fallback: string): Error {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return new Error(error.response.data.error);
+  }
+  return error instanceof Error ? error : new Error(fallback);
+}
+
+function checkSettings(data: unknown): ColumnMappingSettings {
+  const settings = data as ColumnMappingSettings;
+  if (!settings || !Array.isArray(settings.profiles)) {
+    throw new Error('Unexpected response from /api/column-mapping');
+  }
+  return settings;
+}
+
+/**
+ * Lists the saved profiles and which one is active
+ */
+export async function fetchMappingSettings(): Promise<ColumnMappingSettings> {
+  const response = await axios.get(`${API_BASE_URL}/api/column-mapping`, { timeout: 10000 });
+  return checkSettings(response.data);
+}
+
+/**
+ * Creates or replaces a named profile
+ */
+export async function saveMappingProfile(
+  name: string,
+  mapping: ColumnMapping
+): Promise<ColumnMappingProfile> {
+  try {
+    const response = await axios.put(profileUrl(name), { mapping }, { timeout: 10000 });
+    return response.data as ColumnMappingProfile;
+  } catch (error) {
+    throw toError(error, 'Failed to save profile');
+  }
+}
+
+/**
+ * Deletes a profile, returning the remaining profiles
+ */
+export async function deleteMappingProfile(name: string): Promise<ColumnMappingSettings> {
+  try {
+    const response = await axios.delete(profileUrl(name), { timeout: 10000 });
+    return checkSettings(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to delete profile');
+  }
+}
+
+/**
+ * Makes a profile the one used to map rows (null for the built-in mapping)
+ */
+export async function activateMappingProfile(name: string | null): Promise<ColumnMappingSettings> {
+  try {
+    const response = await axios.put(
+      `${API_BASE_URL}/api/column-mapping/active`,
+      { name },
+      { timeout: 10000 }
+    );
+    return checkSettings(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to activate profile');
+  }
+}
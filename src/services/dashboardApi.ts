@@ -0,0 +1,41 @@
+// Backend dashboard API (precomputed metrics)
+
+import axios from 'axios';
+import { DashboardData, WeekSettings } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+import { reviveDates } from '../utils/jsonDates';
+import { toWeekQuery } from '../utils/weekWindows';
+import { DEFAULT_WEEK_SETTINGS } from '../config/weekConfig';
+
+/**
+ * Fetches processed complaints, quality issues and precomputed metrics from the backend
+ * @param forceRefresh - Bypass the server cache and re-fetch the sheet
+ * @param asOfDate - "yyyy-MM-dd" date to calculate metrics as of; null for now
+ * @param weekSettings - How the weekly roll-up splits time into weeks
+ */
+export async function fetchDashboardData(
+  sheetName: string,
+  forceRefresh: boolean = false,
+  asOfDate: string | null = null,
+  weekSettings: WeekSettings = DEFAULT_WEEK_SETTINGS
+): Promise<DashboardData> {
+  const response = await axios.get(`${API_BASE_URL}/api/dashboard`, {
+    params: {
+      sheet: sheetName,
+      ...(forceRefresh ? { refresh: 'true' } : {}),
+      ...(asOfDate ? { asOf: asOfDate } : {}),
+      ...toWeekQuery(weekSettings),
+    },
+    timeout: 30000, // Processing runs server-side, allow more time than a raw fetch
+    responseType: 'text',
+    // Parse ourselves so dates come back as Date objects
+    transformResponse: [(data: string) => data],
+  });
+
+  const data = JSON.parse(response.data, reviveDates) as DashboardData;
+  if (!data || !Array.isArray(data.complaints) || !data.metrics) {
+    throw new Error('Unexpected response from /api/dashboard');
+  }
+
+  return data;
+}
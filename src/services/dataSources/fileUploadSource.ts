@@ -0,0 +1,32 @@
+// Local file upload data source (a CSV or XLSX export of the sheet)
+
+import { DataSource, SourceRows } from '../../types';
+import { isWorkbookFile, parseSpreadsheetFile } from '../../utils/spreadsheetFile';
+
+/**
+ * Reads a picked file into memory
+ */
+export function readFile(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Reads rows from a file picked in the browser
+ * Lets the dashboard run off an exported file when Google Sheets is unavailable
+ * @param tabNames - Workbook tabs to combine (the first tab when omitted)
+ */
+export function createFileUploadSource(file: File, tabNames?: string[]): DataSource {
+  const tabs = isWorkbookFile(file.name) && tabNames?.length ? `: ${tabNames.join(', ')}` : '';
+
+  return {
+    label: `Uploaded file (${file.name}${tabs})`,
+    async fetchRows(): Promise<SourceRows> {
+      return parseSpreadsheetFile(file.name, await readFile(file), tabNames);
+    },
+  };
+}
@@ -0,0 +1,17 @@
+// Google Sheets data source (through the backend's service account)
+
+import { DataSource } from '../../types';
+import { fetchRawSheetData } from '../googleSheets';
+import { fetchDashboardData } from '../dashboardApi';
+
+/**
+ * Reads the configured sheet through the backend, which processes it server-side
+ * Rows fall back to the public CSV export when the backend is unavailable
+ */
+export function createGoogleSheetsSource(): DataSource {
+  return {
+    label: 'Google Sheets',
+    fetchRows: fetchRawSheetData,
+    fetchDashboardData,
+  };
+}
@@ -0,0 +1,36 @@
+// Data source adapters available in the browser
+
+import { DataSource } from '../../types';
+import { DataSourceType, JSON_SOURCE_URL } from '../../config/dataSourceConfig';
+import { createGoogleSheetsSource } from './googleSheetsSource';
+import { createJsonHttpSource } from './jsonHttpSource';
+import { createFileUploadSource } from './fileUploadSource';
+
+export { createGoogleSheetsSource, createJsonHttpSource, createFileUploadSource };
+
+export interface FileUpload {
+  file: File;
+  tabNames?: string[]; // Workbook tabs to combine
+}
+
+/**
+ * Creates the data source for a configured type
+ * @param upload - The picked file, required for 'file-upload'
+ */
+export function createDataSource(type: DataSourceType, upload?: FileUpload): DataSource {
+  switch (type) {
+    case 'json-http':
+      if (!JSON_SOURCE_URL) {
+        throw new Error('JSON_SOURCE_URL is not configured');
+      }
+      return createJsonHttpSource(JSON_SOURCE_URL);
+    case 'file-upload':
+      if (!upload) {
+        throw new Error('Pick a CSV or XLSX file to load');
+      }
+      return createFileUploadSource(upload.file, upload.tabNames);
+    case 'google-sheets':
+    default:
+      return createGoogleSheetsSource();
+  }
+}
@@ -0,0 +1,55 @@
+// Generic JSON HTTP endpoint data source
+// Used by the browser and the backend, so it must not depend on Vite config.
+
+import axios from 'axios';
+import { DataSource, RawSheetRow, SourceRows } from '../../types';
+
+/**
+ * Converts a JSON payload to header-keyed rows
+ * Accepts an array of row objects, or an object wrapping one in `data` or `rows`
+ */
+export function toRawRows(payload: unknown): RawSheetRow[] {
+  const records = Array.isArray(payload)
+    ? payload
+    : payload && typeof payload === 'object'
+      ? (payload as { data?: unknown; rows?: unknown }).data ??
+        (payload as { data?: unknown; rows?: unknown }).rows
+      : undefined;
+
+  if (!Array.isArray(records)) {
+    throw new Error('Expected a JSON array of rows, or an object with a "data" or "rows" array');
+  }
+
+  return records
+    .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object')
+    .map(record => {
+      const row: RawSheetRow = {};
+      Object.entries(record).forEach(([header, value]) => {
+        if (value === null || value === undefined) {
+          row[header] = '';
+        } else if (typeof value === 'object') {
+          // Keep nested values as JSON text, as they would appear in a sheet cell
+          row[header] = JSON.stringify(value);
+        } else {
+          row[header] = String(value);
+        }
+      });
+      return row;
+    });
+}
+
+/**
+ * Reads rows from a JSON endpoint; the sheet name is sent as ?sheet=
+ */
+export function createJsonHttpSource(url: string): DataSource {
+  return {
+    label: `JSON endpoint (${url})`,
+    async fetchRows(sheetName: string): Promise<SourceRows> {
+      const response = await axios.get(url, {
+        params: { sheet: sheetName },
+        timeout: 30000,
+      });
+      return { rows: toRawRows(response.data), parseErrors: [] };
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// Backend duplicate review API
+
+import axios from 'axios';
+import { DuplicateDecisionList, DuplicateDecisionStatus } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+
+const decisionsUrl = () => `${API_BASE_URL}/api/duplicate-decisions`;
+
+/**
+ * Reads an error message from a failed request
+ */
+function toError(error: unknown, fallback: string): Error {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return new Error(error.response.data.error);
+  }
+  return error instanceof Error ? error : new Error(fallback);
+}
+
+function checkList(data: unknown): DuplicateDecisionList {
+  const list = data as DuplicateDecisionList;
+  if (!list || !Array.isArray(list.decisions)) {
+    throw new Error('Unexpected response from /api/duplicate-decisions');
+  }
+  return list;
+}
+
+/**
+ * Reads the saved duplicate cluster reviews
+ */
+export async function fetchDuplicateDecisions(): Promise<DuplicateDecisionList> {
+  const response = await axios.get(decisionsUrl(), { timeout: 10000 });
+  return checkList(response.data);
+}
+
+/**
+ * Confirms or rejects a duplicate cluster
+ * @param fingerprints - Fingerprints of the cluster's rows
+ * @param survivor - Fingerprint of the record to keep, when confirming
+ */
+export async function saveDuplicateDecision(
+  clusterId: string,
+  status: DuplicateDecisionStatus,
+  fingerprints: string[],
+  survivor?: string
+): Promise<DuplicateDecisionList> {
+  try {
+    const response = await axios.put(
+      `${decisionsUrl()}/${encodeURIComponent(clusterId)}`,
+      { status, fingerprints, survivor },
+      { timeout: 10000 }
+    );
+    return checkList(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to save the decision');
+  }
+}
+
+/**
+ * Clears a cluster's decision, so it's pending review again
+ */
+export async function deleteDuplicateDecision(clusterId: string): Promise<DuplicateDecisionList> {
+  try {
+    const response = await axios.delete(`${decisionsUrl()}/${encodeURIComponent(clusterId)}`, { timeout: 10000 });
+    return checkList(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to clear the decision');
+  }
+}
@@ -1,22 +1,31 @@
 // Google Sheets API integration service
 
 import axios from 'axios';
-import { ComplaintRow } from '../types';
-import { mapColumnName } from '../config/columnMapping';
+import { ComplaintRow, RawSheetRow, SourceRows } from '../types';
 import { GOOGLE_SHEET_ID } from '../config/sheetConfig';
+import { API_BASE_URL } from '../config/apiConfig';
+import { mapRawRow } from '../utils/rowMapping';
+import { parseCSV } from '../utils/csv';
 
 const GOOGLE_SHEETS_API_BASE = 'https://sheets.googleapis.com/v4/spreadsheets';
 
-// Use proxy in development, or direct URL if VITE_API_URL is set
-const API_BASE_URL = import.meta.env.VITE_API_URL || (import.meta.env.DEV ? '' : 'http://localhost:3001');
-
 /**
- * Fetches data from Google Sheets
- * Tries backend API first (for private sheets), then falls back to CSV export (for public sheets)
+ * Fetches data from Google Sheets, mapped to standard field names
  */
 export async function fetchSheetData(
   sheetName: string = 'Sheet1'
 ): Promise<ComplaintRow[]> {
+  const { rows } = await fetchRawSheetData(sheetName);
+  return rows.map(row => mapRawRow(row));
+}
+
+/**
+ * Fetches a sheet tab as header-keyed rows, with any malformed CSV records
+ * Tries backend API first (for private sheets), then falls back to CSV export (for public sheets)
+ */
+export async function fetchRawSheetData(
+  sheetName: string = 'Sheet1'
+): Promise<SourceRows> {
   // Try backend API first (for private sheets with service account)
   try {
     const response = await axios.get(`${API_BASE_URL}/api/sheet-data`, {
@@ -25,15 +34,10 @@ export async function fetchSheetData(
     });
     
     if (response.data && response.data.data) {
-      // Map the data to our standard format
-      return response.data.data.map((row: Record<string, unknown>) => {
-        const mapped: ComplaintRow = {};
-        Object.keys(row).forEach(key => {
-          const mappedKey = mapColumnName(key);
-          mapped[mappedKey] = parseValue(String(row[key] || ''), mappedKey);
-        });
-        return mapped;
-      });
+      return {
+        rows: response.data.data as RawSheetRow[],
+        parseErrors: response.data.parseErrors ?? [],
+      };
     }
   } catch (apiError: any) {
     // Log the error for debugging
@@ -57,7 +61,7 @@ export async function fetchSheetData(
       responseType: 'text',
     });
     
-    return parseCSVToRows(response.data);
+    return parseCSV(response.data);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     
@@ -90,15 +94,13 @@ export async function fetchSheetDataAPI(
       return [];
     }
     
-    const [headers, ...rows] = response.data.values;
-    return rows.map((row: string[]) => {
-      const rowObj: ComplaintRow = {};
-      headers.forEach((header: string, index: number) => {
-        const value = row[index] || '';
-      const mappedKey = mapColumnName(header);
-      rowObj[mappedKey] = parseValue(value, mappedKey);
+    const [headers, ...rows] = response.data.values as string[][];
+    return rows.map(row => {
+      const rawRow: RawSheetRow = {};
+      headers.forEach((header, index) => {
+        rawRow[header] = row[index] || '';
       });
-      return rowObj;
+      return mapRawRow(rawRow);
     });
   } catch (error) {
     console.error('Error fetching sheet data via API:', error);
@@ -107,103 +109,11 @@ export async function fetchSheetDataAPI(
   }
 }
 
-/**
- * Parses CSV data into row objects
- */
-function parseCSVToRows(csvData: string): ComplaintRow[] {
-  const lines = csvData.split('\n').filter(line => line.trim());
-  if (lines.length === 0) return [];
-  
-  // Parse header
-  const headers = parseCSVLine(lines[0]);
-  
-  // Parse rows
-  const rows: ComplaintRow[] = [];
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    const row: ComplaintRow = {};
-    
-    headers.forEach((header, index) => {
-      const value = values[index] || '';
-      const mappedKey = mapColumnName(header);
-      row[mappedKey] = parseValue(value, mappedKey);
-    });
-    
-    rows.push(row);
-  }
-  
-  return rows;
-}
-
-/**
- * Parses a CSV line handling quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  result.push(current);
-  return result;
-}
-
-/**
- * Parses a value to appropriate type
- */
-function parseValue(value: string, fieldName?: string): unknown {
-  if (!value || value.trim() === '') return undefined;
-  
-  // Try to parse as number
-  const numValue = parseFloat(value.replace(/[^0-9.-]/g, ''));
-  if (!isNaN(numValue) && value.trim() === numValue.toString()) {
-    return numValue;
-  }
-  
-  // Only parse as date for known date fields
-  const dateFields = new Set(['complaintDate', 'defaultDate']);
-  if (fieldName && dateFields.has(fieldName)) {
-    const dateValue = new Date(value);
-    if (!isNaN(dateValue.getTime())) {
-      return dateValue;
-    }
-  }
-  
-  // Return as string
-  return value.trim();
-}
-
 /**
  * Maps column names to standard field names
- * Uses the column mapping configuration
+ * Uses the column mapping configuration (see mapRawRow for how fallback columns combine)
  */
 export function mapColumnsToFields(row: Record<string, unknown>): ComplaintRow {
-  const mapped: ComplaintRow = {};
-  
-  Object.keys(row).forEach(key => {
-    const mappedKey = mapColumnName(key);
-    mapped[mappedKey] = row[key];
-  });
-  
-  return mapped;
+  return mapRawRow(row);
 }
 
@@ -0,0 +1,45 @@
+// Backend lender master list API
+
+import axios from 'axios';
+import { LenderMasterList } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+
+const lendersUrl = () => `${API_BASE_URL}/api/lenders`;
+
+/**
+ * Reads an error message from a failed request
+ */
+function toError(error: unknown, fallback: string): Error {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return new Error(error.response.data.error);
+  }
+  return error instanceof Error ? error : new Error(fallback);
+}
+
+function checkList(data: unknown): LenderMasterList {
+  const list = data as LenderMasterList;
+  if (!list || !Array.isArray(list.lenders)) {
+    throw new Error('Unexpected response from /api/lenders');
+  }
+  return list;
+}
+
+/**
+ * Reads the lender master list (the built-in one until a list is saved)
+ */
+export async function fetchLenderMasterList(): Promise<LenderMasterList> {
+  const response = await axios.get(lendersUrl(), { timeout: 10000 });
+  return checkList(response.data);
+}
+
+/**
+ * Replaces the lender master list
+ */
+export async function saveLenderMasterList(list: LenderMasterList): Promise<LenderMasterList> {
+  try {
+    const response = await axios.put(lendersUrl(), { lenders: list.lenders }, { timeout: 10000 });
+    return checkList(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to save lenders');
+  }
+}
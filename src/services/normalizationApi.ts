@@ -0,0 +1,22 @@
+// Backend normalization rules API
+
+import axios from 'axios';
+import { NormalizationRuleSet } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+import { sanitizeNormalizationRuleSet } from '../utils/normalizationRules';
+
+/**
+ * Reads the normalization rules the backend applies to a sheet's rows
+ * (its tenant's rule set, else the rule file's default)
+ */
+export async function fetchNormalizationRules(sheetName: string): Promise<NormalizationRuleSet> {
+  const response = await axios.get(`${API_BASE_URL}/api/normalization-rules`, {
+    params: { sheet: sheetName },
+    timeout: 10000,
+  });
+  try {
+    return sanitizeNormalizationRuleSet(response.data);
+  } catch {
+    throw new Error('Unexpected response from /api/normalization-rules');
+  }
+}
@@ -0,0 +1,45 @@
+// Backend region model API
+
+import axios from 'axios';
+import { RegionModel } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+
+const regionsUrl = () => `${API_BASE_URL}/api/regions`;
+
+/**
+ * Reads an error message from a failed request
+ */
+function toError(error: unknown, fallback: string): Error {
+  if (axios.isAxiosError(error) && typeof error.response?.data?.error === 'string') {
+    return new Error(error.response.data.error);
+  }
+  return error instanceof Error ? error : new Error(fallback);
+}
+
+function checkModel(data: unknown): RegionModel {
+  const model = data as RegionModel;
+  if (!model || !Array.isArray(model.regions)) {
+    throw new Error('Unexpected response from /api/regions');
+  }
+  return model;
+}
+
+/**
+ * Reads the region model (the built-in one until a model is saved)
+ */
+export async function fetchRegionModel(): Promise<RegionModel> {
+  const response = await axios.get(regionsUrl(), { timeout: 10000 });
+  return checkModel(response.data);
+}
+
+/**
+ * Replaces the region model
+ */
+export async function saveRegionModel(model: RegionModel): Promise<RegionModel> {
+  try {
+    const response = await axios.put(regionsUrl(), { regions: model.regions }, { timeout: 10000 });
+    return checkModel(response.data);
+  } catch (error) {
+    throw toError(error, 'Failed to save regions');
+  }
+}
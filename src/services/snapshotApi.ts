@@ -0,0 +1,45 @@
+// Backend snapshot history API
+
+import axios from 'axios';
+import { SnapshotComparison, SnapshotMeta } from '../types';
+import { API_BASE_URL } from '../config/apiConfig';
+import { reviveDates } from '../utils/jsonDates';
+
+/**
+ * Lists the stored snapshots of a sheet tab, newest first
+ */
+export async function fetchSnapshots(sheetName: string): Promise<SnapshotMeta[]> {
+  const response = await axios.get(`${API_BASE_URL}/api/snapshots`, {
+    params: { sheet: sheetName },
+    timeout: 10000,
+  });
+
+  if (!response.data || !Array.isArray(response.data.snapshots)) {
+    throw new Error('Unexpected response from /api/snapshots');
+  }
+
+  return response.data.snapshots as SnapshotMeta[];
+}
+
+/**
+ * Compares two stored snapshots: rows added, removed and changed, and summary total movements
+ */
+export async function fetchSnapshotComparison(
+  fromId: string,
+  toId: string
+): Promise<SnapshotComparison> {
+  const response = await axios.get(`${API_BASE_URL}/api/snapshots/compare`, {
+    params: { from: fromId, to: toId },
+    timeout: 30000,
+    responseType: 'text',
+    // Parse ourselves so complaint dates come back as Date objects
+    transformResponse: [(data: string) => data],
+  });
+
+  const comparison = JSON.parse(response.data, reviveDates) as SnapshotComparison;
+  if (!comparison || !Array.isArray(comparison.added) || !Array.isArray(comparison.changed)) {
+    throw new Error('Unexpected response from /api/snapshots/compare');
+  }
+
+  return comparison;
+}
@@ -1,27 +1,30 @@
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { DataQualityPanel } from '../../components/DataQualityPanel';
 
 describe('DataQualityPanel', () => {
   const mockIssues = [
     {
       rowIndex: 0,
+      rowLabel: '2',
       row: { propertyAddress: '123 Main St' },
-      errors: ['Missing county'],
+      findings: [{ severity: 'error', code: 'missing-county', field: 'county', message: 'Missing county' }],
       isDuplicate: false,
     },
     {
       rowIndex: 1,
+      rowLabel: '3',
       row: { propertyAddress: '456 Oak Ave' },
-      errors: ['Invalid JSON in metadata'],
+      findings: [{ severity: 'error', code: 'invalid-json', field: 'metadata', message: 'Invalid JSON in metadata' }],
       isDuplicate: false,
     },
     {
       rowIndex: 2,
+      rowLabel: '4',
       row: { propertyAddress: '789 Pine Rd' },
-      errors: [],
+      findings: [],
       isDuplicate: true,
-      duplicateOf: 0,
+      duplicateOfRowLabel: '2',
     },
   ];
 
@@ -54,7 +57,8 @@ describe('DataQualityPanel', () => {
   it('should display issue details', () => {
     render(<DataQualityPanel issues={mockIssues} summary={mockSummary} />);
     
-    expect(screen.getByText('Row 1')).toBeInTheDocument();
+    // Sheet rows, counting the header row
+    expect(screen.getByText('Row 2')).toBeInTheDocument();
     expect(screen.getByText('Missing county')).toBeInTheDocument();
     expect(screen.getByText('Invalid JSON in metadata')).toBeInTheDocument();
   });
@@ -72,6 +76,60 @@ describe('DataQualityPanel', () => {
     expect(screen.getByText(/Duplicate/)).toBeInTheDocument();
   });
 
+  it('should break findings down by rule and severity', () => {
+    render(
+      <DataQualityPanel
+        issues={[
+          {
+            rowIndex: 0,
+            rowLabel: '2',
+            findings: [
+              { severity: 'error', code: 'invalid-json', message: 'Invalid JSON in metadata' },
+              { severity: 'warning', code: 'zero-upb', message: 'UPB is zero' },
+            ],
+            isDuplicate: false,
+          },
+        ]}
+        summary={{ ...mockSummary, rowsWithWarnings: 1, findingCounts: { 'invalid-json': 1, 'zero-upb': 2 } }}
+      />
+    );
+
+    expect(screen.getByText('Rows with Warnings:')).toBeInTheDocument();
+    expect(screen.getByText('Zero UPB (2)')).toBeInTheDocument();
+    expect(screen.getByText('Invalid JSON (1)')).toBeInTheDocument();
+    expect(screen.getByText('UPB is zero').closest('li')).toHaveClass('finding-warning');
+    expect(screen.getByText('JSON Error')).toBeInTheDocument();
+  });
+
+  it('should show which column each UPB came from', () => {
+    const row = {
+      propertyAddress: '123 Main St',
+      upb: 125000,
+      fieldSources: { upb: ['Unpaid Balance(s)'] },
+      sheetRow: 2,
+      rowLabel: '2',
+    };
+    render(
+      <DataQualityPanel
+        issues={[
+          {
+            rowIndex: 0,
+            rowLabel: '2',
+            row,
+            findings: [{ severity: 'error', code: 'missing-county', message: 'Missing county' }],
+            isDuplicate: false,
+          },
+        ]}
+        complaints={[row]}
+      />
+    );
+
+    expect(screen.getByText('UPB: $125,000 from Unpaid Balance(s)')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Row number'), { target: { value: '2' } });
+    expect(screen.getByText('$125,000 from Unpaid Balance(s)')).toBeInTheDocument();
+  });
+
   it('should not render when there are no issues', () => {
     const { container } = render(<DataQualityPanel issues={[]} />);
     expect(container.firstChild).toBeNull();
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useSheetData, SheetDataOptions } from '../../hooks/useSheetData';
+import { buildDashboardData } from '../../utils/dashboardData';
+import { DataSource } from '../../types';
+import { mockRows } from '../mockData';
+
+describe('useSheetData', () => {
+  const createSource = () => {
+    const fetchDashboardData = vi.fn(async () => buildDashboardData(mockRows));
+    const source: DataSource = { label: 'Test', fetchRows: vi.fn(), fetchDashboardData };
+    return { source, fetchDashboardData };
+  };
+
+  it('should wait for the settings and load once however many arrive', async () => {
+    const { source, fetchDashboardData } = createSource();
+    const { result, rerender } = renderHook(
+      (options: SheetDataOptions) => useSheetData(source, 'Sheet1', { autoRefresh: false, ...options }),
+      { initialProps: { settingsLoaded: false } }
+    );
+
+    rerender({ settingsLoaded: false, regions: { regions: [] } });
+    rerender({ settingsLoaded: false, regions: { regions: [] }, lenders: { lenders: [] } });
+    expect(fetchDashboardData).not.toHaveBeenCalled();
+
+    const settings = { regions: { regions: [] }, lenders: { lenders: [] } };
+    rerender({ settingsLoaded: true, ...settings });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    rerender({ settingsLoaded: true, ...settings });
+    expect(fetchDashboardData).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load again when a setting is saved after the first load', async () => {
+    const { source, fetchDashboardData } = createSource();
+    const { result, rerender } = renderHook(
+      (options: SheetDataOptions) => useSheetData(source, 'Sheet1', { autoRefresh: false, ...options }),
+      { initialProps: {} }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ regions: { regions: [{ name: 'Texas', state: 'TX', counties: ['Harris'] }] } });
+    await waitFor(() => expect(fetchDashboardData).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+  });
+
+  it('should load once when the as-of date changes', async () => {
+    const { source, fetchDashboardData } = createSource();
+    const { result, rerender } = renderHook(
+      (options: SheetDataOptions) => useSheetData(source, 'Sheet1', { autoRefresh: false, ...options }),
+      { initialProps: {} }
+    );
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    rerender({ asOfDate: '2024-06-30' });
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(fetchDashboardData).toHaveBeenCalledTimes(2);
+  });
+});
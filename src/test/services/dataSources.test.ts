@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { toRawRows } from '../../services/dataSources/jsonHttpSource';
+import { createDataSource } from '../../services/dataSources';
+
+describe('Data Sources', () => {
+  describe('toRawRows', () => {
+    it('should accept a plain array of rows', () => {
+      const rows = toRawRows([{ 'Property Address': '123 Main St', UPB: 250000 }]);
+      expect(rows).toEqual([{ 'Property Address': '123 Main St', UPB: '250000' }]);
+    });
+
+    it('should unwrap data or rows arrays', () => {
+      expect(toRawRows({ data: [{ County: 'Kings' }] })).toHaveLength(1);
+      expect(toRawRows({ rows: [{ County: 'Kings' }] })).toHaveLength(1);
+    });
+
+    it('should keep nested values as JSON text and blank out nulls', () => {
+      const [row] = toRawRows([{ Plaintiff: { name: 'ABC Bank' }, County: null }]);
+      expect(row.Plaintiff).toBe('{"name":"ABC Bank"}');
+      expect(row.County).toBe('');
+    });
+
+    it('should reject payloads without rows', () => {
+      expect(() => toRawRows({ error: 'nope' })).toThrow('Expected a JSON array');
+    });
+  });
+
+  describe('createDataSource', () => {
+    it('should require a file for uploads', () => {
+      expect(() => createDataSource('file-upload')).toThrow('Pick a CSV or XLSX file');
+    });
+
+    it('should read rows from an uploaded file', async () => {
+      const file = new File(['County,Lender\nKings,ABC Bank\n'], 'export.csv', { type: 'text/csv' });
+      const source = createDataSource('file-upload', { file });
+
+      expect(source.label).toContain('export.csv');
+      expect(await source.fetchRows('Complaints')).toEqual({
+        rows: [{ County: 'Kings', Lender: 'ABC Bank' }],
+        parseErrors: [],
+      });
+    });
+
+    it('should use the backend for Google Sheets', () => {
+      const source = createDataSource('google-sheets');
+      expect(source.fetchDashboardData).toBeDefined();
+    });
+  });
+});
@@ -30,9 +30,9 @@ console.log(`   Other Errors: ${summary.rowsWithOtherErrors}`);
 if (issues.length > 0) {
   console.log('\n⚠️  Issues Found:');
   issues.slice(0, 5).forEach(issue => {
-    console.log(`   Row ${issue.rowIndex + 1}:`);
+    console.log(`   Row ${issue.rowLabel}:`);
     if (issue.isDuplicate) {
-      console.log(`     - Duplicate${issue.duplicateOf !== undefined ? ` (of row ${issue.duplicateOf + 1})` : ''}`);
+      console.log(`     - Duplicate${issue.duplicateOfRowLabel !== undefined ? ` (of row ${issue.duplicateOfRowLabel})` : ''}`);
     }
     issue.errors.forEach(error => {
       console.log(`     - ${error}`);
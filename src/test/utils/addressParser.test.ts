@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { isSameLocation, parseAddress, toAddressKey, toStreetKey } from '../../utils/addressParser';
+
+describe('Address Parser', () => {
+  describe('parseAddress', () => {
+    it('should split an address into USPS components', () => {
+      expect(parseAddress('123 Northwest Fifth Street #2, Miami, Florida 33101-1234')).toEqual({
+        number: '123',
+        predirectional: 'NW',
+        street: '5TH',
+        suffix: 'ST',
+        unitType: '#',
+        unit: '2',
+        city: 'MIAMI',
+        state: 'FL',
+        zip: '33101',
+        standardized: '123 NW 5TH ST # 2, MIAMI, FL 33101',
+      });
+      expect(parseAddress('100 Main St. N.W., Suite 4B, Washington, DC 20001')?.standardized).toBe(
+        '100 MAIN ST NW STE 4B, WASHINGTON, DC 20001'
+      );
+    });
+
+    it('should read the city without commas when a state or ZIP code follows', () => {
+      expect(parseAddress('456 Park Avenue New York NY 10022')).toMatchObject({
+        street: 'PARK',
+        suffix: 'AVE',
+        city: 'NEW YORK',
+        state: 'NY',
+        zip: '10022',
+      });
+      // Without one "CT" is the suffix, not Connecticut
+      expect(parseAddress('9 Saint James Ct')).toEqual({
+        number: '9',
+        street: 'SAINT JAMES',
+        suffix: 'CT',
+        standardized: '9 SAINT JAMES CT',
+      });
+    });
+
+    it('should keep words that only look like a suffix or directional', () => {
+      expect(parseAddress('12 N St')).toMatchObject({ street: 'N', suffix: 'ST' });
+      expect(parseAddress('77 Avenue N')).toMatchObject({ street: 'AVENUE', postdirectional: 'N' });
+      expect(parseAddress('PO Box 123')?.standardized).toBe('PO BOX 123');
+      expect(parseAddress('  ')).toBeUndefined();
+      expect(parseAddress(42)).toBeUndefined();
+    });
+  });
+
+  describe('keys', () => {
+    it('should match the same property whatever the unit designator, suffix or spelling', () => {
+      const a = parseAddress('123 NW 5th St Apt 2')!;
+      const b = parseAddress('123 Northwest Fifth Street, Unit 2, Miami, FL')!;
+      expect(toAddressKey(a)).toBe('123 NW 5TH ST 2');
+      expect(toAddressKey(b)).toBe(toAddressKey(a));
+      expect(toStreetKey(parseAddress('123 NW 5th Ave')!)).toBe(toStreetKey(a));
+      expect(toStreetKey(parseAddress('123 SE 5th St Apt 2')!)).not.toBe(toStreetKey(a));
+    });
+
+    it('should compare ZIP codes when both addresses have one, else cities and states', () => {
+      const goshen = parseAddress('10 Main St, Goshen, NY 10924');
+      expect(isSameLocation(goshen, parseAddress('10 Main St, Orlando, FL 32801'))).toBe(false);
+      expect(isSameLocation(goshen, parseAddress('10 Main St, Goshen Village, NY 10924'))).toBe(true);
+      expect(isSameLocation(goshen, parseAddress('10 Main St, Goshen, NY'))).toBe(true);
+      expect(isSameLocation(goshen, parseAddress('10 Main St, Chester, NY'))).toBe(false);
+      expect(isSameLocation(goshen, parseAddress('10 Main St, Goshen, IN'))).toBe(false);
+      expect(isSameLocation(goshen, parseAddress('10 Main St'))).toBe(true);
+    });
+
+    it('should only match different units when one has no unit', () => {
+      const apt101 = parseAddress('100 Ocean Blvd Apt 101');
+      expect(isSameLocation(apt101, parseAddress('100 Ocean Blvd Apt 202'))).toBe(false);
+      expect(isSameLocation(apt101, parseAddress('100 Ocean Blvd Unit 101'))).toBe(true);
+      expect(isSameLocation(apt101, parseAddress('100 Ocean Blvd'))).toBe(true);
+    });
+  });
+});
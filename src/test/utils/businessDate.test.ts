@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toBusinessDayKey,
+  toBusinessMonthKey,
+  getBusinessYear,
+  parseBusinessDay,
+  startOfBusinessDay,
+  endOfBusinessDay,
+  startOfBusinessMonth,
+  startOfBusinessYear,
+  subBusinessDays,
+  startOfBusinessWindow,
+  formatBusinessDate,
+} from '../../utils/businessDate';
+
+// These tests pin America/New_York and must pass whatever TZ the process runs in
+// (npm run test:tz runs them under several)
+const NEW_YORK = 'America/New_York';
+
+describe('Business Date', () => {
+  describe('day, month and year keys', () => {
+    // 10:30 PM on January 31st in New York; already February 1st in UTC
+    const lateEvening = new Date('2024-02-01T03:30:00Z');
+
+    it('should use the business day rather than the UTC or local day', () => {
+      expect(toBusinessDayKey(lateEvening, NEW_YORK)).toBe('2024-01-31');
+      expect(toBusinessDayKey(lateEvening, 'UTC')).toBe('2024-02-01');
+    });
+
+    it('should use the business month and year', () => {
+      expect(toBusinessMonthKey(lateEvening, NEW_YORK)).toBe('2024-01');
+      expect(getBusinessYear(new Date('2024-01-01T04:00:00Z'), NEW_YORK)).toBe(2023);
+    });
+  });
+
+  describe('boundaries', () => {
+    it('should start and end the business day at midnight in the zone', () => {
+      const noon = new Date('2024-06-14T16:00:00Z');
+      expect(startOfBusinessDay(noon, NEW_YORK).toISOString()).toBe('2024-06-14T04:00:00.000Z');
+      expect(endOfBusinessDay(noon, NEW_YORK).toISOString()).toBe('2024-06-15T03:59:59.999Z');
+      expect(parseBusinessDay('2024-06-14', NEW_YORK)).toEqual(startOfBusinessDay(noon, NEW_YORK));
+    });
+
+    it('should start months and years at midnight in the zone', () => {
+      const date = new Date('2024-03-15T12:00:00Z');
+      expect(startOfBusinessMonth(date, NEW_YORK).toISOString()).toBe('2024-03-01T05:00:00.000Z');
+      expect(startOfBusinessYear(date, NEW_YORK).toISOString()).toBe('2024-01-01T05:00:00.000Z');
+    });
+
+    it('should keep the end of a day that is 23 hours long', () => {
+      // Clocks go forward on March 10th, 2024
+      const dstDay = new Date('2024-03-10T12:00:00Z');
+      expect(startOfBusinessDay(dstDay, NEW_YORK).toISOString()).toBe('2024-03-10T05:00:00.000Z');
+      expect(endOfBusinessDay(dstDay, NEW_YORK).toISOString()).toBe('2024-03-11T03:59:59.999Z');
+    });
+  });
+
+  describe('windows', () => {
+    it('should subtract calendar days across DST changes', () => {
+      const reference = new Date('2024-03-14T13:00:00Z'); // 9 AM EDT
+      expect(subBusinessDays(reference, 7, NEW_YORK).toISOString()).toBe('2024-03-07T14:00:00.000Z'); // 9 AM EST
+    });
+
+    it('should cover whole business days ending on the reference day', () => {
+      const reference = new Date('2024-06-14T16:00:00Z'); // Friday
+      expect(startOfBusinessWindow(reference, 7, NEW_YORK).toISOString()).toBe('2024-06-08T04:00:00.000Z');
+      expect(startOfBusinessWindow(reference, 1, NEW_YORK)).toEqual(startOfBusinessDay(reference, NEW_YORK));
+    });
+  });
+
+  describe('formatBusinessDate', () => {
+    it('should format the business day', () => {
+      expect(formatBusinessDate(new Date('2024-02-01T03:30:00Z'), undefined, NEW_YORK)).toBe('Jan 31, 2024');
+      expect(formatBusinessDate(new Date('2024-02-01T03:30:00Z'), { month: 'long', year: 'numeric' }, NEW_YORK))
+        .toBe('January 2024');
+    });
+  });
+});
@@ -8,10 +8,23 @@ import {
   getRecentComplaints,
   formatCurrency,
   formatDate,
+  calculateFourWeekRollUpWeekly,
+  calculateCurrentMonthRegionSummary,
+  calculateYTDRegionSummary,
+  calculateYearSummary,
+  calculateZipSummary,
+  getFlowThroughLastWeek,
+  getFlowThroughYTD,
 } from '../../utils/calculations';
 import { ProcessedComplaint } from '../../types';
 import { normalizeCounty, normalizeLender } from '../../utils/normalization';
-import { subDays, startOfMonth, startOfYear } from 'date-fns';
+import { subDays } from 'date-fns';
+import { startOfBusinessYear } from '../../utils/businessDate';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { zonedTimeToUtc } from '../../utils/timeZone';
+import { TIME_ZONE } from '../../config/dateConfig';
+import { DEFAULT_WEEK_SETTINGS } from '../../config/weekConfig';
+import { parseAddress } from '../../utils/addressParser';
 
 describe('Calculations', () => {
   let mockComplaints: ProcessedComplaint[];
@@ -60,7 +73,7 @@ describe('Calculations', () => {
         lender: 'ABC Bank',
         upb: 275000,
         meetsCriteria: 'Meets criteria',
-        complaintDate: startOfYear(new Date()),
+        complaintDate: startOfBusinessYear(new Date()),
         isValid: true,
         isDuplicate: false,
         normalizedCounty: normalizeCounty('New York'),
@@ -215,5 +228,165 @@ describe('Calculations', () => {
       expect(formatDate(undefined)).toBe('N/A');
     });
   });
-});
 
+  describe('with a reference (as-of) date', () => {
+    // Friday, June 14th 2024, end of the business day
+    const referenceDate = resolveReferenceDate('2024-06-14');
+
+    // A wall-clock time in the business time zone
+    const at = (year: number, month: number, day: number, hour: number) =>
+      zonedTimeToUtc({ year, month, day, hour }, TIME_ZONE);
+
+    const complaint = (
+      overrides: Partial<ProcessedComplaint> & { complaintDate: Date }
+    ): ProcessedComplaint => ({
+      propertyAddress: '1 Test St',
+      county: 'Kings',
+      lender: 'ABC Bank',
+      upb: 100000,
+      meetsCriteria: 'Meets criteria',
+      isValid: true,
+      isDuplicate: false,
+      normalizedCounty: 'Kings',
+      normalizedLender: 'Abc Bank',
+      ...overrides,
+    });
+
+    const pinnedComplaints: ProcessedComplaint[] = [
+      complaint({ complaintDate: at(2024, 6, 14, 9) }), // On the as-of date
+      complaint({ complaintDate: at(2024, 6, 10, 9), county: 'Broward', normalizedCounty: 'Broward' }),
+      complaint({ complaintDate: at(2024, 5, 30, 9), upb: 50000 }), // Week 3
+      complaint({ complaintDate: at(2024, 1, 2, 9), meetsCriteria: 'Does not meet criteria' }),
+      complaint({ complaintDate: at(2023, 12, 20, 9) }), // Previous year
+      complaint({ complaintDate: at(2024, 6, 17, 9) }), // After the as-of date
+    ];
+
+    it('should bucket the four-week roll-up relative to the reference date', () => {
+      const result = calculateFourWeekRollUpWeekly(pinnedComplaints, referenceDate);
+      const kings = result.find(r => r.county === 'Kings')!;
+      const broward = result.find(r => r.county === 'Broward')!;
+
+      expect(kings.weeks[0].totalComplaints).toBe(1);
+      expect(kings.weeks[2].totalComplaints).toBe(1);
+      expect(kings.weeks[2].totalUPB).toBe(50000);
+      expect(kings.totalComplaints).toBe(2);
+      expect(broward.weeks[0].totalComplaints).toBe(1);
+    });
+
+    it('should exclude complaints dated after the reference date', () => {
+      const lastWeek = getFlowThroughLastWeek(pinnedComplaints, referenceDate);
+      expect(lastWeek).toHaveLength(2);
+      lastWeek.forEach(deal => {
+        expect(deal.complaintDate.getTime()).toBeLessThanOrEqual(referenceDate.getTime());
+      });
+
+      const ytd = getFlowThroughYTD(pinnedComplaints, referenceDate);
+      expect(ytd).toHaveLength(3);
+    });
+
+    it('should use the reference date for month and year boundaries', () => {
+      const currentMonth = calculateCurrentMonthRegionSummary(pinnedComplaints, referenceDate);
+      const totalCurrentMonth = currentMonth.reduce((sum, r) => sum + r.totalComplaints, 0);
+      expect(totalCurrentMonth).toBe(2);
+
+      const ytd = calculateYTDRegionSummary(pinnedComplaints, referenceDate);
+      const newYork = ytd.find(r => r.region === 'New York')!;
+      expect(newYork.totalComplaints).toBe(3);
+      expect(newYork.complaintsMeetingCriteria).toBe(2);
+    });
+
+    it('should total the year to date by ZIP code', () => {
+      const at11201 = (address: string, overrides: Partial<ProcessedComplaint> = {}) =>
+        complaint({ complaintDate: at(2024, 6, 3, 9), address: parseAddress(address), ...overrides });
+      const zips = calculateZipSummary(
+        [
+          at11201('1 Test St, Brooklyn, NY 11201'),
+          at11201('2 Test St Brooklyn NY 11201', { meetsCriteria: 'Does not meet criteria' }),
+          at11201('3 Test St, New York, NY 11201'),
+          at11201('4 Las Olas Blvd, Fort Lauderdale, FL 33301'),
+          at11201('5 Test St'),
+          at11201('6 Test St, Brooklyn, NY 11201', { complaintDate: at(2023, 12, 20, 9) }), // Previous year
+        ],
+        referenceDate
+      );
+
+      expect(zips).toEqual([
+        {
+          zip: '11201',
+          city: 'BROOKLYN',
+          state: 'NY',
+          totalComplaints: 3,
+          totalUPB: 300000,
+          complaintsMeetingCriteria: 2,
+          upbMeetingCriteria: 200000,
+        },
+        {
+          zip: '33301',
+          city: 'FORT LAUDERDALE',
+          state: 'FL',
+          totalComplaints: 1,
+          totalUPB: 100000,
+          complaintsMeetingCriteria: 1,
+          upbMeetingCriteria: 100000,
+        },
+        { zip: '', totalComplaints: 1, totalUPB: 100000, complaintsMeetingCriteria: 1, upbMeetingCriteria: 100000 },
+      ]);
+    });
+
+    it('should reproduce the same numbers regardless of when it runs', () => {
+      const years = calculateYearSummary(pinnedComplaints, referenceDate);
+      const year2024 = years.find(y => y.year === '2024')!;
+      expect(year2024.totalComplaints).toBe(4);
+      expect(year2024.upbMeetingCriteria).toBe(250000);
+    });
+
+    it('should bucket calendar weeks and honour the number of weeks', () => {
+      const withSunday = [
+        ...pinnedComplaints,
+        complaint({ complaintDate: at(2024, 6, 9, 9) }), // Sunday: rolling week 1, ISO week 2
+      ];
+      const result = calculateFourWeekRollUpWeekly(withSunday, referenceDate, {
+        ...DEFAULT_WEEK_SETTINGS,
+        mode: 'iso',
+        weeks: 2,
+      });
+      const kings = result.find(r => r.county === 'Kings')!;
+
+      expect(kings.weeks).toHaveLength(2);
+      expect(kings.weeks[0].totalComplaints).toBe(1);
+      expect(kings.weeks[1].totalComplaints).toBe(1);
+      expect(kings.totalComplaints).toBe(2); // May 30th is outside the two weeks
+    });
+
+    it('should bucket late-evening filings by their business day', () => {
+      const lateComplaints = [
+        complaint({ complaintDate: at(2024, 5, 31, 22) }), // May 31st, 10 PM (June 1st in UTC)
+        complaint({ complaintDate: at(2024, 6, 1, 0) }),
+        complaint({ complaintDate: at(2023, 12, 31, 23) }), // Previous year, New Year's Eve
+      ];
+
+      const currentMonth = calculateCurrentMonthRegionSummary(lateComplaints, referenceDate);
+      expect(currentMonth.reduce((sum, r) => sum + r.totalComplaints, 0)).toBe(1);
+
+      const years = calculateYearSummary(lateComplaints, referenceDate);
+      expect(years.find(y => y.year === '2024')!.totalComplaints).toBe(2);
+    });
+
+    it('should start the week windows at midnight in the business time zone', () => {
+      const edgeComplaints = [
+        complaint({ complaintDate: at(2024, 6, 8, 0) }), // First moment of week 1
+        complaint({ complaintDate: zonedTimeToUtc({ year: 2024, month: 6, day: 7, hour: 23, minute: 59 }, TIME_ZONE) }),
+      ];
+
+      const kings = calculateFourWeekRollUpWeekly(edgeComplaints, referenceDate)[0];
+      expect(kings.weeks[0].totalComplaints).toBe(1);
+      expect(kings.weeks[1].totalComplaints).toBe(1);
+    });
+
+    it('should default to the current date', () => {
+      const withDefault = calculateYTDStats(mockComplaints);
+      const withNow = calculateYTDStats(mockComplaints, new Date());
+      expect(withDefault).toEqual(withNow);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeCountyResolution,
+  editDistance,
+  getCountyByFips,
+  resolveCounty,
+} from '../../utils/countyReference';
+import { COUNTY_REFERENCE } from '../../config/countyReference';
+
+describe('County Reference', () => {
+  it('should list every Florida and New York county once, with unique FIPS codes', () => {
+    expect(COUNTY_REFERENCE.filter(county => county.state === 'FL')).toHaveLength(67);
+    expect(COUNTY_REFERENCE.filter(county => county.state === 'NY')).toHaveLength(62);
+    expect(new Set(COUNTY_REFERENCE.map(county => county.fips)).size).toBe(COUNTY_REFERENCE.length);
+    COUNTY_REFERENCE.forEach(county => expect(county.fips).toMatch(/^\d{5}$/));
+  });
+
+  it('should resolve names, spelling variations and aliases', () => {
+    const fips = (county: string, state?: string) => {
+      const resolution = resolveCounty(county, state);
+      return resolution.status === 'resolved' ? resolution.county.fips : resolution.status;
+    };
+
+    expect(fips('Broward County')).toBe('12011');
+    expect(fips('Miami Dade')).toBe('12086');
+    expect(fips('Dade')).toBe('12086');
+    expect(fips('Saint Johns')).toBe('12109');
+    expect(fips('St Lucie County, FL')).toBe('12111');
+    expect(fips('De Soto')).toBe('12027');
+    expect(fips('Bronxs')).toBe('36005');
+    expect(fips('Brooklyn')).toBe('36047');
+    expect(fips('Kings County, NY')).toBe('36047');
+  });
+
+  it('should need a state for names used in several states', () => {
+    const orange = resolveCounty('Orange');
+    expect(orange.status).toBe('ambiguous');
+    expect(resolveCounty('Orange', 'FL')).toMatchObject({ status: 'resolved', county: { fips: '12095' } });
+    expect(resolveCounty('Orange', 'NY')).toMatchObject({ status: 'resolved', county: { fips: '36071' } });
+    expect(describeCountyResolution('Orange', orange)).toBe(
+      'County "Orange" is in more than one state (FL, NY); give its region a state or add a State column'
+    );
+  });
+
+  it('should suggest close matches for unknown counties', () => {
+    const typo = resolveCounty('Browrd');
+    expect(typo.status).toBe('unresolved');
+    expect(describeCountyResolution('Browrd', typo)).toBe(
+      'County "Browrd" is not in the county reference (did you mean Broward, FL?)'
+    );
+
+    const wrongState = resolveCounty('Broward', 'NY');
+    expect(describeCountyResolution('Broward', wrongState, 'NY')).toBe(
+      'County "Broward" is not in the county reference for NY (did you mean Broward, FL?)'
+    );
+
+    expect(resolveCounty('Springfield')).toEqual({ status: 'unresolved', suggestions: [] });
+  });
+
+  it('should compute edit distances and look counties up by FIPS code', () => {
+    expect(editDistance('bronx', 'bronxs')).toBe(1);
+    expect(editDistance('kitten', 'sitting')).toBe(3);
+    expect(editDistance('', 'abc')).toBe(3);
+    expect(getCountyByFips('36061')?.name).toBe('New York');
+    expect(getCountyByFips(undefined)).toBeUndefined();
+  });
+});
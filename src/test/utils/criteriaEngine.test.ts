@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateCriteria,
+  applyCriteria,
+  reconcileCriteria,
+  sheetMeetsCriteria,
+  validateCriteriaRules,
+} from '../../utils/criteriaEngine';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { CriteriaRule, ProcessedComplaint } from '../../types';
+
+describe('Criteria Engine', () => {
+  const referenceDate = resolveReferenceDate('2024-06-14');
+
+  const rules: CriteriaRule[] = [
+    { id: 'upb', label: 'UPB $100k-$1M', type: 'upb-range', min: 100000, max: 1000000 },
+    { id: 'region', label: 'Covered region', type: 'region', regions: ['Miami-Dade', 'New York'] },
+    { id: 'lenders', label: 'Lender not excluded', type: 'lender-exclusion', lenders: ['XYZ Bank'] },
+    { id: 'age', label: 'Filed within 90 days', type: 'complaint-age', maxDays: 90 },
+    { id: 'title', label: 'Foreclosure', type: 'document-title', keywords: ['foreclos'], mode: 'require' },
+    { id: 'disabled', label: 'Never applied', type: 'county', counties: [], enabled: false },
+  ];
+
+  const complaint = (overrides: Partial<ProcessedComplaint> = {}): ProcessedComplaint => ({
+    propertyAddress: '1 Test St',
+    county: 'Kings',
+    lender: 'ABC Bank',
+    upb: 250000,
+    meetsCriteria: 'Meets criteria',
+    complaintDate: new Date('2024-06-01T14:00:00Z'),
+    documentTitle: 'Complaint to Foreclose Mortgage',
+    isValid: true,
+    isDuplicate: false,
+    normalizedCounty: 'Kings',
+    normalizedLender: 'Abc Bank',
+    ...overrides,
+  });
+
+  describe('evaluateCriteria', () => {
+    it('should pass a complaint that meets every enabled rule', () => {
+      const evaluation = evaluateCriteria(complaint(), referenceDate, rules);
+
+      expect(evaluation.meetsCriteria).toBe(true);
+      expect(evaluation.results.map(result => result.ruleId)).toEqual(['upb', 'region', 'lenders', 'age', 'title']);
+      expect(evaluation.results.every(result => result.passed)).toBe(true);
+    });
+
+    it('should explain each failed rule', () => {
+      const evaluation = evaluateCriteria(
+        complaint({
+          upb: 80000,
+          county: 'Broward',
+          normalizedCounty: 'Broward',
+          lender: 'XYZ Bank',
+          normalizedLender: 'Xyz Bank',
+          complaintDate: new Date('2024-01-02T14:00:00Z'),
+          documentTitle: 'Lis Pendens',
+        }),
+        referenceDate,
+        rules
+      );
+
+      expect(evaluation.meetsCriteria).toBe(false);
+      expect(evaluation.results.filter(result => !result.passed).map(result => result.detail)).toEqual([
+        'UPB $80,000 is below $100,000',
+        'Other Florida is not a covered region',
+        'Xyz Bank is excluded',
+        'Filed 164 days ago (limit 90)',
+        'Title mentions none of "foreclos"',
+      ]);
+    });
+
+    it('should fail rules whose field is missing', () => {
+      const evaluation = evaluateCriteria(
+        complaint({ upb: undefined, complaintDate: undefined, documentTitle: undefined }),
+        referenceDate,
+        rules
+      );
+      const details = evaluation.results.filter(result => !result.passed).map(result => result.detail);
+      expect(details).toEqual(['No UPB', 'No complaint date', 'No document title']);
+    });
+
+    it('should resolve excluded lenders with the master list', () => {
+      const exclusion: CriteriaRule[] = [
+        { id: 'lenders', label: 'Lender not excluded', type: 'lender-exclusion', lenders: ['Wilmington Savings Fund Society'] },
+      ];
+      // Consolidated under its master list name by the pipeline
+      const wilmington = complaint({ lender: 'Wilmington Savings Fund Society, FSB', normalizedLender: 'Wilmington' });
+      expect(evaluateCriteria(wilmington, referenceDate, exclusion).results[0]).toMatchObject({
+        passed: false,
+        detail: 'Wilmington is excluded',
+      });
+
+      const lenders = { lenders: [{ name: 'WSFS', aliases: ['Wilmington Savings Fund Society'], patterns: [] }] };
+      const wsfs = complaint({ lender: 'Wilmington Savings Fund Society', normalizedLender: 'WSFS' });
+      expect(evaluateCriteria(wsfs, referenceDate, exclusion, { lenders }).meetsCriteria).toBe(false);
+      expect(evaluateCriteria(complaint(), referenceDate, exclusion, { lenders }).meetsCriteria).toBe(true);
+    });
+
+    it('should measure complaint age to the as-of date in business days', () => {
+      // 11 PM on March 16th in New York (March 17th in UTC) is 90 days before June 14th
+      const lateFiling = complaint({ complaintDate: new Date('2024-03-17T03:00:00Z') });
+      const age = evaluateCriteria(lateFiling, referenceDate, rules).results.find(r => r.ruleId === 'age')!;
+      expect(age.passed).toBe(true);
+      expect(age.detail).toBe('Filed 90 days ago');
+    });
+  });
+
+  describe('applyCriteria', () => {
+    it('should attach the verdict without changing the input', () => {
+      const input = [complaint()];
+      const [evaluated] = applyCriteria(input, referenceDate, rules);
+      expect(evaluated.criteria?.meetsCriteria).toBe(true);
+      expect(input[0].criteria).toBeUndefined();
+    });
+  });
+
+  describe('region rules', () => {
+    const model = { regions: [{ name: 'Brooklyn', state: 'NY', counties: ['Kings'] }] };
+    const regionRule = (regions?: string[]): CriteriaRule[] => [
+      { id: 'region', label: 'Covered region', type: 'region', ...(regions && { regions }) },
+    ];
+
+    it('should cover every region of the active model when none are listed', () => {
+      const passes = (overrides: Partial<ProcessedComplaint>) =>
+        evaluateCriteria(complaint(overrides), referenceDate, regionRule(), { regions: model }).meetsCriteria;
+
+      expect(passes({ region: 'Brooklyn' })).toBe(true);
+      expect(passes({})).toBe(true); // Kings, mapped with the model
+      expect(passes({ region: 'Other/Unmapped' })).toBe(false);
+      expect(passes({ county: 'Broward', normalizedCounty: 'Broward' })).toBe(false);
+    });
+
+    it('should flag listed regions the model does not have', () => {
+      expect(validateCriteriaRules(regionRule(['Brooklyn', 'New York']), { regions: model })).toEqual([
+        '"Covered region" names region "New York", which the region model doesn\'t have',
+      ]);
+      expect(validateCriteriaRules(regionRule(), { regions: model })).toEqual([]);
+      expect(reconcileCriteria([complaint()], referenceDate, rules).ruleWarnings).toEqual([]);
+    });
+  });
+
+  describe('reconcileCriteria', () => {
+    it('should list complaints where the rules and the sheet disagree', () => {
+      const complaints = [
+        complaint(), // Both qualify
+        complaint({ upb: 50000 }), // Sheet only
+        complaint({ meetsCriteria: 'Does not meet criteria' }), // Rules only
+        complaint({ meetsCriteria: 'Does not meet criteria', upb: 50000 }), // Neither
+        complaint({ upb: 50000, isDuplicate: true }), // Skipped
+        complaint({ upb: 50000, isValid: false }), // Skipped
+      ];
+
+      const report = reconcileCriteria(complaints, referenceDate, rules);
+
+      expect(report.evaluated).toBe(4);
+      expect(report.agreed).toBe(2);
+      expect(report.sheetOnly.map(row => row.rowIndex)).toEqual([1]);
+      expect(report.sheetOnly[0].failedRules.map(rule => rule.ruleId)).toEqual(['upb']);
+      expect(report.engineOnly.map(row => row.rowIndex)).toEqual([2]);
+      expect(report.engineOnly[0].sheetValue).toBe('Does not meet criteria');
+      expect(report.ruleFailures.find(rule => rule.ruleId === 'upb')?.failed).toBe(2);
+    });
+  });
+
+  describe('sheetMeetsCriteria', () => {
+    it('should read the sheet\'s flag', () => {
+      expect(sheetMeetsCriteria(complaint())).toBe(true);
+      expect(sheetMeetsCriteria(complaint({ meetsCriteria: 'Does not meet criteria' }))).toBe(false);
+      expect(sheetMeetsCriteria(complaint({ meetsCriteria: undefined }))).toBe(false);
+    });
+  });
+});
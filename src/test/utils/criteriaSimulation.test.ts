@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getScenarioFromRules,
+  simulateCriteria,
+  toScenarioRules,
+} from '../../utils/criteriaSimulation';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { CriteriaRule, ProcessedComplaint } from '../../types';
+
+describe('Criteria Simulation', () => {
+  const referenceDate = resolveReferenceDate('2024-06-14');
+
+  const rules: CriteriaRule[] = [
+    { id: 'upb', label: 'UPB $100k-$1M', type: 'upb-range', min: 100000, max: 1000000 },
+    { id: 'lenders', label: 'Lender not excluded', type: 'lender-exclusion', lenders: ['XYZ Bank'] },
+    { id: 'age', label: 'Filed within 2 years', type: 'complaint-age', maxDays: 730 },
+  ];
+
+  const complaint = (overrides: Partial<ProcessedComplaint> = {}): ProcessedComplaint => ({
+    propertyAddress: '1 Test St',
+    county: 'Miami-Dade',
+    lender: 'ABC Bank',
+    upb: 250000,
+    meetsCriteria: 'Meets criteria',
+    complaintDate: new Date('2024-06-01T14:00:00Z'),
+    isValid: true,
+    isDuplicate: false,
+    normalizedCounty: 'Miami-Dade',
+    normalizedLender: 'Abc Bank',
+    ...overrides,
+  });
+
+  describe('getScenarioFromRules', () => {
+    it('should read the thresholds from the configured rules', () => {
+      expect(getScenarioFromRules(rules)).toEqual({
+        minUpb: 100000,
+        includedCounties: [],
+        excludedLenders: ['XYZ Bank'],
+      });
+    });
+  });
+
+  describe('toScenarioRules', () => {
+    it('should swap the thresholds and keep the other rules in place', () => {
+      const scenarioRules = toScenarioRules(
+        { minUpb: 50000, includedCounties: ['Kings'], excludedLenders: [] },
+        rules
+      );
+
+      expect(scenarioRules.map(rule => rule.id)).toEqual(['upb', 'age', 'counties']);
+      expect(scenarioRules[0]).toMatchObject({ type: 'upb-range', min: 50000, max: 1000000 });
+      expect(scenarioRules[2]).toMatchObject({ type: 'county', counties: ['Kings'] });
+    });
+  });
+
+  describe('simulateCriteria', () => {
+    it('should change nothing when the scenario matches the rules', () => {
+      const simulation = simulateCriteria(
+        [complaint(), complaint({ upb: 50000 })],
+        referenceDate,
+        getScenarioFromRules(rules),
+        { rules, baseline: 'engine' }
+      );
+
+      expect(simulation.newlyQualifying).toEqual([]);
+      expect(simulation.droppingOut).toEqual([]);
+      simulation.ytdRegionSummary.forEach(row => expect(row.after).toEqual(row.before));
+    });
+
+    it('should list the deals that newly qualify or drop out', () => {
+      const complaints = [
+        complaint(), // Still qualifies
+        complaint({ upb: 60000 }), // Qualifies with a lower minimum
+        complaint({ lender: 'XYZ Bank', normalizedLender: 'Xyz Bank' }), // No longer excluded
+        complaint({ county: 'Kings', normalizedCounty: 'Kings' }), // Outside the included counties
+        complaint({ upb: 60000, isDuplicate: true }), // Skipped
+        complaint({ upb: 60000, complaintDate: new Date('2024-06-20T14:00:00Z') }), // After the as-of date
+      ];
+
+      const simulation = simulateCriteria(
+        complaints,
+        referenceDate,
+        { minUpb: 50000, includedCounties: ['Miami-Dade'], excludedLenders: [] },
+        { rules, baseline: 'engine' }
+      );
+
+      expect(simulation.newlyQualifying.map(deal => deal.rowIndex)).toEqual([1, 2]);
+      expect(simulation.newlyQualifying[0].failedRules.map(rule => rule.detail)).toEqual([
+        'UPB $60,000 is below $100,000',
+      ]);
+      expect(simulation.droppingOut.map(deal => deal.rowIndex)).toEqual([3]);
+      expect(simulation.droppingOut[0].failedRules.map(rule => rule.detail)).toEqual([
+        'Kings County is not included',
+      ]);
+    });
+
+    it("should start from the sheet's verdicts when the sheet is the source", () => {
+      const complaints = [
+        complaint({ upb: 60000 }), // The sheet says it qualifies; the rules disagree
+        complaint({ meetsCriteria: 'Does not meet criteria' }), // The rules say it qualifies; the sheet disagrees
+        complaint({ upb: 70000, meetsCriteria: 'Does not meet criteria' }), // Qualifies with a lower minimum
+        complaint({ upb: 150000 }), // Drops out with a higher minimum
+      ];
+      const withMinimum = (minUpb: number) =>
+        simulateCriteria(
+          complaints,
+          referenceDate,
+          { minUpb, includedCounties: [], excludedLenders: ['XYZ Bank'] },
+          { rules, baseline: 'sheet' }
+        );
+
+      const unchanged = withMinimum(100000);
+      const miami = unchanged.ytdRegionSummary.find(row => row.label === 'Miami-Dade')!;
+      expect(miami.before.complaintsMeetingCriteria).toBe(2);
+      expect(miami.after).toEqual(miami.before);
+
+      // The first two keep the sheet's verdict, as the rules' verdict on them doesn't change
+      expect(withMinimum(50000).newlyQualifying.map(deal => deal.rowIndex)).toEqual([2]);
+      expect(withMinimum(50000).droppingOut).toEqual([]);
+      expect(withMinimum(200000).droppingOut.map(deal => deal.rowIndex)).toEqual([3]);
+    });
+
+    it('should compare the region, year and lender summaries', () => {
+      const complaints = [
+        complaint(),
+        complaint({ upb: 60000 }),
+        complaint({ lender: 'XYZ Bank', normalizedLender: 'Xyz Bank' }),
+      ];
+
+      const simulation = simulateCriteria(
+        complaints,
+        referenceDate,
+        { minUpb: null, includedCounties: [], excludedLenders: [] },
+        { rules, baseline: 'engine' }
+      );
+
+      const miami = simulation.ytdRegionSummary.find(row => row.label === 'Miami-Dade')!;
+      expect(miami.before.complaintsMeetingCriteria).toBe(1);
+      expect(miami.after.complaintsMeetingCriteria).toBe(3);
+      expect(miami.after.totalComplaints).toBe(miami.before.totalComplaints);
+
+      const year = simulation.yearSummary.find(row => row.label === '2024')!;
+      expect(year.after.upbMeetingCriteria - year.before.upbMeetingCriteria).toBe(310000);
+
+      expect(simulation.topLenders.map(row => row.lender)).toEqual(['Abc Bank', 'Xyz Bank']);
+      expect(simulation.topLenders[1].before.totalComplaints).toBe(0);
+      expect(simulation.topLenders[1].after.totalComplaints).toBe(1);
+    });
+  });
+});
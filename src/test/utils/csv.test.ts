@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createCSVParser, parseCSV, parseCSVStream } from '../../utils/csv';
+
+describe('CSV Parsing', () => {
+  describe('parseCSV', () => {
+    it('should key rows by header', () => {
+      const { rows, parseErrors } = parseCSV('County,Lender\nKings,ABC Bank\nQueens,XYZ Trust\n');
+      expect(rows).toEqual([
+        { County: 'Kings', Lender: 'ABC Bank' },
+        { County: 'Queens', Lender: 'XYZ Trust' },
+      ]);
+      expect(parseErrors).toEqual([]);
+    });
+
+    it('should keep delimiters, escaped quotes and line breaks inside quoted fields', () => {
+      const { rows } = parseCSV(
+        'Address,Notes\n"123 Main St, Apt 4","Said ""call back""\nthen hung up"\n'
+      );
+      expect(rows).toEqual([
+        { Address: '123 Main St, Apt 4', Notes: 'Said "call back"\nthen hung up' },
+      ]);
+    });
+
+    it('should handle CRLF line endings, a byte order mark and blank lines', () => {
+      const { rows } = parseCSV('﻿County,UPB\r\nKings,100\r\n\r\nQueens,200');
+      expect(rows).toEqual([
+        { County: 'Kings', UPB: '100' },
+        { County: 'Queens', UPB: '200' },
+      ]);
+    });
+
+    it('should keep an empty last field after a trailing delimiter', () => {
+      const { rows, parseErrors } = parseCSV('County,Lender\nKings,');
+      expect(rows).toEqual([{ County: 'Kings', Lender: '' }]);
+      expect(parseErrors).toEqual([]);
+    });
+
+    it('should report ragged rows with their line and column', () => {
+      const { rows, parseErrors } = parseCSV('A,B\r\n1,2,3\r\n4\r\n');
+      expect(rows).toEqual([{ A: '1', B: '2' }, { A: '4', B: '' }]);
+      expect(parseErrors).toEqual([
+        { rowIndex: 0, line: 2, column: 5, message: 'Expected 2 fields but found 3' },
+        { rowIndex: 1, line: 3, column: 1, message: 'Expected 2 fields but found 1' },
+      ]);
+    });
+
+    it('should report stray and unterminated quotes', () => {
+      const { rows, parseErrors } = parseCSV('A,B\nab"c,1\n"x"y,2\n3,"open\n');
+      expect(rows).toHaveLength(3);
+      expect(parseErrors).toEqual([
+        { rowIndex: 0, line: 2, column: 3, message: 'Unexpected quote in unquoted field' },
+        { rowIndex: 1, line: 3, column: 4, message: 'Unexpected character after closing quote' },
+        { rowIndex: 2, line: 4, column: 3, message: 'Unterminated quoted field' },
+      ]);
+    });
+
+    it('should reject a malformed header', () => {
+      expect(() => parseCSV('"County,Lender\nKings,ABC')).toThrow(
+        'Malformed CSV header at line 1, column 1'
+      );
+    });
+  });
+
+  describe('streaming', () => {
+    it('should parse records split across chunks', () => {
+      const parser = createCSVParser();
+      ['Cou', 'nty,No', 'tes\r', '\nKings,"a', '""b\r', '\nc"\r', '\n'].forEach(chunk => parser.write(chunk));
+      const { rows, parseErrors } = parser.end();
+
+      expect(rows).toEqual([{ County: 'Kings', Notes: 'a"b\r\nc' }]);
+      expect(parseErrors).toEqual([]);
+    });
+
+    it('should parse an async stream of chunks', async () => {
+      async function* chunks() {
+        yield 'County\n';
+        yield 'Kings\nQueens';
+      }
+      const { rows } = await parseCSVStream(chunks());
+      expect(rows.map(row => row.County)).toEqual(['Kings', 'Queens']);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { buildDashboardData, calculateDashboardMetrics } from '../../utils/dashboardData';
+import { mapRawRow } from '../../utils/rowMapping';
+import { mockRows } from '../mockData';
+
+describe('Dashboard Data Pipeline', () => {
+  describe('mapRawRow', () => {
+    it('should map sheet headers to standard field names', () => {
+      const row = mapRawRow({
+        'Property Address': '123 Main St',
+        'County': 'Kings',
+        'Sum of Unpaid Balance(s)': '250000',
+        'Processing Log': '2024-01-15',
+      });
+
+      expect(row.propertyAddress).toBe('123 Main St');
+      expect(row.county).toBe('Kings');
+      expect(row.upb).toBe(250000);
+      // Dates stay as text until validation reads them (see dateExtraction.ts)
+      expect(row.complaintDate).toBe('2024-01-15');
+    });
+
+    it('should leave empty cells undefined', () => {
+      const row = mapRawRow({ 'County': '' });
+      expect(row.county).toBeUndefined();
+    });
+  });
+
+  describe('buildDashboardData', () => {
+    it('should process rows and compute every metric', () => {
+      const data = buildDashboardData(mockRows, { generatedAt: new Date('2024-06-30T12:00:00Z') });
+
+      expect(data.generatedAt).toBe('2024-06-30T12:00:00.000Z');
+      expect(data.complaints).toHaveLength(mockRows.length);
+      expect(data.summary.totalRows).toBe(mockRows.length);
+      expect(data.issues.length).toBeGreaterThan(0);
+      expect(Object.keys(data.metrics)).toEqual(
+        Object.keys(calculateDashboardMetrics([]))
+      );
+    });
+
+    it('should normalize counties and lenders', () => {
+      const data = buildDashboardData(mockRows);
+      data.complaints.forEach(complaint => {
+        expect(complaint.normalizedCounty).not.toBe('');
+        expect(complaint.normalizedLender).not.toBe('');
+      });
+    });
+
+    it('should assign regions with the given model', () => {
+      const regions = { regions: [{ name: 'Brooklyn', state: 'NY', counties: ['Kings'] }] };
+      const data = buildDashboardData(mockRows, { regions });
+
+      expect(data.regions).toBe(regions);
+      data.complaints.forEach(complaint => {
+        expect(complaint.region).toBe(complaint.normalizedCounty === 'Kings' ? 'Brooklyn' : 'Other/Unmapped');
+      });
+      expect(data.metrics.ytdRegionSummary.every(row => row.region === 'Brooklyn')).toBe(true);
+      expect(data.metrics.unmappedCounties.some(row => row.county === 'Kings')).toBe(false);
+    });
+
+    it('should resolve lenders with the given master list', () => {
+      const lenders = { lenders: [{ name: 'Abc Group', aliases: ['ABC Mortgage Company Inc.'], patterns: [] }] };
+      const data = buildDashboardData(mockRows, { lenders });
+
+      const abc = data.complaints.filter(complaint => complaint.lender === 'ABC Mortgage Company Inc.');
+      expect(abc.length).toBeGreaterThan(0);
+      abc.forEach(complaint => expect(complaint.normalizedLender).toBe('Abc Group'));
+    });
+
+    it('should survive a JSON round trip', () => {
+      const data = buildDashboardData(mockRows);
+      expect(() => JSON.parse(JSON.stringify(data))).not.toThrow();
+    });
+  });
+});
@@ -15,6 +15,7 @@ import {
   mockRowInvalidDate,
   mockRows,
 } from '../mockData';
+import { assignRegions } from '../../utils/regionMapping';
 
 describe('Data Quality Checks', () => {
   describe('validateRow', () => {
@@ -55,6 +56,18 @@ describe('Data Quality Checks', () => {
       expect(result.isValid).toBe(true);
       expect(result.errors?.some(err => err.includes('future'))).toBe(true);
     });
+
+    it('should keep warnings alongside errors as coded findings', () => {
+      const result = validateRow({ ...mockRowMissingFields, upb: 0 }, 0);
+
+      expect(result.isValid).toBe(false);
+      expect(result.findings).toEqual([
+        { severity: 'error', code: 'missing-address', field: 'propertyAddress', message: 'Missing or empty property address' },
+        { severity: 'error', code: 'missing-lender', field: 'lender', message: 'Missing or empty lender/plaintiff' },
+        { severity: 'warning', code: 'zero-upb', field: 'upb', value: '0', message: 'UPB is zero' },
+      ]);
+      expect(result.errors).toEqual(result.findings?.map(finding => finding.message));
+    });
   });
 
   describe('validateJSONField', () => {
@@ -106,6 +119,21 @@ describe('Data Quality Checks', () => {
       expect(duplicateMap.get(1)?.duplicateOf).toBe(0);
     });
 
+    it('should key dates by the business day, not the UTC day', () => {
+      const rows = [
+        // 9 AM and 11:30 PM on March 4th in New York; the second is March 5th in UTC
+        { ...mockValidRow, complaintDate: new Date('2024-03-04T14:00:00Z'), isValid: true, isDuplicate: false },
+        { ...mockValidRow, complaintDate: new Date('2024-03-05T04:30:00Z'), isValid: true, isDuplicate: false },
+        // 1 AM on March 5th in New York
+        { ...mockValidRow, complaintDate: new Date('2024-03-05T06:00:00Z'), isValid: true, isDuplicate: false },
+      ];
+
+      const duplicateMap = detectDuplicates(rows);
+      expect(duplicateMap.get(1)?.isDuplicate).toBe(true);
+      expect(duplicateMap.get(1)?.duplicateOf).toBe(0);
+      expect(duplicateMap.get(2)?.isDuplicate).toBe(false);
+    });
+
     it('should detect duplicates with slight variations', () => {
       const rows = [
         {
@@ -127,6 +155,66 @@ describe('Data Quality Checks', () => {
       expect(duplicateMap.get(1)?.isDuplicate).toBe(true);
     });
 
+    it('should match standardized addresses', () => {
+      const rows = [
+        { ...mockValidRow, propertyAddress: '123 NW 5th St Apt 2, Miami, FL 33101', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '123 Northwest Fifth Street #2', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '123 NW 5th Ave', upb: 1, isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '123 SE 5th St Apt 2', isValid: true, isDuplicate: false },
+      ];
+
+      const duplicateMap = detectDuplicates(rows);
+      expect(duplicateMap.get(1)).toMatchObject({ isDuplicate: true, duplicateOf: 0, strategy: 'exact' });
+      // Same street and number, another suffix and no unit
+      expect(duplicateMap.get(2)).toMatchObject({ isDuplicate: true, duplicateOf: 0, strategy: 'similar-address' });
+      expect(duplicateMap.get(3)?.isDuplicate).toBe(false);
+    });
+
+    it('should not match different houses on a long street name', () => {
+      const rows = [
+        { ...mockValidRow, propertyAddress: '1234 Martin Luther King Jr Blvd', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '1234 Martin Luther King Jr Blvd Apt 7', upb: 1, isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '1236 Martin Luther King Jr Blvd', isValid: true, isDuplicate: false },
+      ];
+
+      const duplicateMap = detectDuplicates(rows);
+      expect(duplicateMap.get(1)?.strategy).toBe('similar-address');
+      expect(duplicateMap.get(2)?.isDuplicate).toBe(false);
+    });
+
+    it('should not merge different units in one building', () => {
+      const { processed, duplicateClusters } = processRowsWithQualityChecks([
+        { ...mockValidRow, propertyAddress: '100 Ocean Blvd Apt 101', upb: 250000 },
+        { ...mockValidRow, propertyAddress: '100 Ocean Blvd Apt 202', upb: 310000 },
+        { ...mockValidRow, propertyAddress: '100 Ocean Blvd', upb: 275000 },
+      ]);
+
+      // Only the row without a unit can be either of them, and that's left for review
+      expect(duplicateClusters).toHaveLength(1);
+      expect(duplicateClusters[0]).toMatchObject({ strategy: 'similar-address', autoMerged: false });
+      expect(duplicateClusters[0].members.map(member => member.rowIndex)).toEqual([0, 2]);
+      expect(processed[1].duplicateClusterId).toBeUndefined();
+      expect(processed.filter(row => row.isDuplicate)).toEqual([]);
+    });
+
+    it('should not match the same street in another ZIP code, city or state', () => {
+      const rows = [
+        { ...mockValidRow, propertyAddress: '10 Main St, Goshen, NY 10924', county: 'Orange', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '10 Main St, Orlando, FL 32801', county: 'Orange', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '10 Main Street, Goshen NY', county: 'Orange', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '10 Main St, Middletown, NY', county: 'Orange', isValid: true, isDuplicate: false },
+        { ...mockValidRow, propertyAddress: '10 Main St', county: 'Orange', isValid: true, isDuplicate: false },
+      ];
+
+      const duplicateMap = detectDuplicates(rows);
+      expect(duplicateMap.get(1)?.isDuplicate).toBe(false);
+      // Same city and state; only one of them has a ZIP code
+      expect(duplicateMap.get(2)).toMatchObject({ isDuplicate: true, duplicateOf: 0, strategy: 'exact' });
+      expect(duplicateMap.get(3)?.isDuplicate).toBe(false);
+      // Nothing says where it is
+      expect(duplicateMap.get(4)).toMatchObject({ isDuplicate: true, duplicateOf: 0 });
+    });
+
     it('should not mark different rows as duplicates', () => {
       const rows = [
         { ...mockValidRow, isValid: true, isDuplicate: false },
@@ -166,6 +254,26 @@ describe('Data Quality Checks', () => {
       expect(jsonIssue).toBeDefined();
     });
 
+    it('should count rows and findings by rule code', () => {
+      const { issues, summary } = processRowsWithQualityChecks([
+        { ...mockRowWithJSONError, upb: 0 },
+        { ...mockValidRow, propertyAddress: '', county: 'Browrd' },
+        { ...mockValidRow, propertyAddress: '9 Other St', upb: undefined },
+      ]);
+
+      expect(issues[0].findings.map(finding => finding.code)).toEqual(['invalid-json', 'zero-upb']);
+      expect(issues[0].findings[0]).toMatchObject({ field: 'metadata', value: '{"incomplete": "json' });
+      // A missing UPB is an error, so the last row is invalid
+      expect(summary).toMatchObject({ rowsWithJSONErrors: 1, rowsWithOtherErrors: 2, rowsWithWarnings: 2 });
+      expect(summary.findingCounts).toEqual({
+        'invalid-json': 1,
+        'zero-upb': 1,
+        'missing-address': 1,
+        'unresolved-county': 1,
+        'missing-upb': 1,
+      });
+    });
+
     it('should identify duplicates', () => {
       const rows = [mockValidRow, mockDuplicateRow];
       const { issues, summary } = processRowsWithQualityChecks(rows);
@@ -182,6 +290,63 @@ describe('Data Quality Checks', () => {
       expect(summary.validRows).toBeGreaterThan(0);
       expect(processed.some(p => p.isValid && !p.isDuplicate)).toBe(true);
     });
+
+    it('should report malformed source records with their position', () => {
+      const { processed, issues } = processRowsWithQualityChecks(
+        [mockValidRow, mockRowWithValidJSON],
+        { parseErrors: [{ rowIndex: 1, line: 3, column: 12, message: 'Unterminated quoted field' }] }
+      );
+
+      expect(processed[0].isValid).toBe(true);
+      expect(processed[1].isValid).toBe(false);
+      expect(issues.find(issue => issue.rowIndex === 1)?.errors).toContain(
+        'Malformed record at line 3, column 12: Unterminated quoted field'
+      );
+    });
+
+    it('should resolve counties against the county reference', () => {
+      const { processed, issues } = processRowsWithQualityChecks([
+        { ...mockValidRow, county: 'Bronxs' },
+        { ...mockValidRow, propertyAddress: '2 Other St', county: 'Orange County' },
+        { ...mockValidRow, propertyAddress: '3 Other St', county: 'Browrd' },
+        { ...mockValidRow, propertyAddress: '4 Other St', county: 'Harris', state: 'TX' },
+      ]);
+
+      expect(processed[0]).toMatchObject({ normalizedCounty: 'Bronx', countyFips: '36005' });
+      // Orange is in the built-in "Other Florida" region, so it's Orange, FL
+      expect(processed[1]).toMatchObject({ normalizedCounty: 'Orange', countyFips: '12095' });
+      expect(processed[2].countyFips).toBeUndefined();
+      expect(processed[2].isValid).toBe(true);
+      expect(issues.find(issue => issue.rowIndex === 2)?.errors).toContain(
+        'County "Browrd" is not in the county reference (did you mean Broward, FL?)'
+      );
+      // States without reference data can't be checked, so that's flagged instead
+      expect(processed[3].countyFips).toBeUndefined();
+      expect(processed[3].isValid).toBe(true);
+      expect(issues.find(issue => issue.rowIndex === 3)?.findings).toMatchObject([
+        {
+          severity: 'warning',
+          code: 'uncovered-state',
+          message: 'County "Harris" wasn\'t checked: the county reference doesn\'t cover TX, so it has no FIPS code',
+        },
+      ]);
+    });
+
+    it("should prefer the row's State column to the state of the county's region", () => {
+      const { processed, issues } = processRowsWithQualityChecks([
+        { ...mockValidRow, propertyAddress: '10 Main St, Goshen, NY 10924', county: 'Orange', state: 'NY' },
+      ]);
+
+      expect(processed[0]).toMatchObject({ normalizedCounty: 'Orange', countyFips: '36071', state: 'NY' });
+      expect(issues[0].findings).toMatchObject([
+        {
+          code: 'state-mismatch',
+          field: 'state',
+          message: 'State "NY" isn\'t the state of region "Other Florida" (FL); county "Orange" was looked up in NY',
+        },
+      ]);
+      expect(assignRegions(processed)[0]).toMatchObject({ region: 'Other/Unmapped', normalizedState: 'NY' });
+    });
   });
 });
 
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { extractDate } from '../../utils/dateExtraction';
+import { processRowsWithQualityChecks, validateRow } from '../../utils/dataQuality';
+import { mockValidRow } from '../mockData';
+
+const NEW_YORK = { timeZone: 'America/New_York' };
+
+describe('Date Extraction', () => {
+  it('should read ISO dates in the configured time zone', () => {
+    expect(extractDate('2024-01-15', NEW_YORK)).toMatchObject({
+      date: new Date('2024-01-15T05:00:00Z'),
+      strategy: 'iso',
+      warnings: [],
+    });
+    expect(extractDate('2024-07-15T14:30', NEW_YORK).date).toEqual(new Date('2024-07-15T18:30:00Z'));
+  });
+
+  it('should honour an explicit offset', () => {
+    expect(extractDate('2024-01-15T23:30:00Z', NEW_YORK).date).toEqual(new Date('2024-01-15T23:30:00Z'));
+    expect(extractDate('2024-01-15T10:00:00+0530', NEW_YORK).date).toEqual(new Date('2024-01-15T04:30:00Z'));
+  });
+
+  it('should read Sheets serial dates', () => {
+    expect(extractDate(45306, NEW_YORK)).toMatchObject({
+      date: new Date('2024-01-15T05:00:00Z'),
+      strategy: 'sheets-serial',
+    });
+    expect(extractDate('45306.75', NEW_YORK).date).toEqual(new Date('2024-01-15T23:00:00Z'));
+    expect(extractDate('250000', NEW_YORK).date).toBeUndefined();
+  });
+
+  it('should read US dates with times', () => {
+    expect(extractDate('1/15/2024 9:30 PM', NEW_YORK)).toMatchObject({
+      date: new Date('2024-01-16T02:30:00Z'),
+      strategy: 'numeric',
+      warnings: [],
+    });
+    expect(extractDate('January 15, 2024', NEW_YORK)).toMatchObject({ strategy: 'month-name' });
+    expect(extractDate('15 Jan 2024', NEW_YORK).date).toEqual(new Date('2024-01-15T05:00:00Z'));
+  });
+
+  it('should read ambiguous numeric dates in the configured order', () => {
+    const result = extractDate('03/04/2024', NEW_YORK);
+    expect(result).toMatchObject({ date: new Date('2024-03-04T05:00:00Z'), ambiguous: true, warnings: [] });
+
+    const dayFirst = extractDate('03/04/2024', { ...NEW_YORK, numericOrder: 'DMY' });
+    expect(dayFirst.date).toEqual(new Date('2024-04-03T04:00:00Z'));
+
+    // Only one reading is possible
+    expect(extractDate('25/04/2024', NEW_YORK)).toMatchObject({
+      date: new Date('2024-04-25T04:00:00Z'),
+      impliedOrder: 'DMY',
+      warnings: [],
+    });
+  });
+
+  it('should flag ambiguous numeric dates when no order is configured', () => {
+    const result = extractDate('03/04/2024', { ...NEW_YORK, numericOrder: null });
+    expect(result.date).toEqual(new Date('2024-03-04T05:00:00Z'));
+    expect(result.warnings).toEqual([
+      {
+        code: 'ambiguous-date',
+        message: 'Ambiguous date "03/04/2024" read as March 4, 2024 (MM/DD; no date order is configured)',
+      },
+    ]);
+  });
+
+  it('should pick the filing entry from a processing log', () => {
+    const log = '01/10/2024 10:02 AM - Received\n01/15/2024 3:45 PM - Complaint filed\n01/20/2024 - Served';
+    expect(extractDate(log, NEW_YORK)).toMatchObject({
+      date: new Date('2024-01-15T20:45:00Z'),
+      strategy: 'log-entry',
+      matchedText: '01/15/2024 3:45 PM',
+      warnings: [],
+    });
+  });
+
+  it('should fall back to the earliest log entry', () => {
+    const result = extractDate('2024-02-01 served; 2024-01-20 received', NEW_YORK);
+    expect(result.date).toEqual(new Date('2024-01-20T05:00:00Z'));
+    expect(result.warnings).toEqual([
+      { code: 'unfiled-log-date', message: 'No filing entry in log; used the earliest date "2024-01-20"' },
+    ]);
+  });
+
+  it('should not guess at text without a date', () => {
+    expect(extractDate('pending review', NEW_YORK)).toEqual({ warnings: [] });
+    expect(extractDate('02/30/2024', NEW_YORK).date).toBeUndefined();
+  });
+
+  it('should record the strategy during validation', () => {
+    const result = validateRow({ ...mockValidRow, complaintDate: 'Filed 03/04/2024' }, 0);
+
+    expect(result.isValid).toBe(true);
+    expect(result.complaintDate).toBeInstanceOf(Date);
+    expect(result.complaintDateStrategy).toBe('log-entry');
+    expect(result.findings ?? []).not.toContainEqual(expect.objectContaining({ code: 'ambiguous-date' }));
+  });
+
+  it('should only flag ambiguous dates whose column contradicts the configured order', () => {
+    const address = (n: number) => `${n} Main Street, Miami, FL 33101`;
+    const consistent = processRowsWithQualityChecks([
+      { ...mockValidRow, propertyAddress: address(1), complaintDate: '03/04/2024' },
+      { ...mockValidRow, propertyAddress: address(2), complaintDate: '04/25/2024' },
+    ]);
+    expect(consistent.issues.some(issue => issue.findings.some(f => f.code === 'ambiguous-date'))).toBe(false);
+
+    const { issues } = processRowsWithQualityChecks([
+      { ...mockValidRow, propertyAddress: address(1), complaintDate: '03/04/2024' },
+      { ...mockValidRow, propertyAddress: address(2), complaintDate: '25/04/2024' },
+    ]);
+    expect(issues.flatMap(issue => issue.findings.filter(f => f.code === 'ambiguous-date'))).toEqual([
+      {
+        severity: 'warning',
+        code: 'ambiguous-date',
+        message: 'Ambiguous date "03/04/2024" read as March 4, 2024 (MM/DD), but "25/04/2024" in the same column is DD/MM',
+        field: 'complaintDate',
+        value: '03/04/2024',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { processRowsWithQualityChecks } from '../../utils/dataQuality';
+import { sanitizeDuplicateDecision, setDuplicateDecision } from '../../utils/duplicateClusters';
+import { DuplicateDecision } from '../../types';
+import { mockValidRow } from '../mockData';
+
+describe('Duplicate Clusters', () => {
+  const otherLender = { ...mockValidRow, lender: 'XYZ Bank', upb: 100000 };
+  const exactCopy = { ...mockValidRow };
+  const otherUpb = { ...mockValidRow, upb: 260000 };
+
+  const decide = (clusterId: string, fingerprints: string[], status: DuplicateDecision['status'], survivor?: string) =>
+    sanitizeDuplicateDecision({ clusterId, status, fingerprints, survivor });
+
+  it('should count low-confidence matches until they are reviewed', () => {
+    const { processed, summary, duplicateClusters } = processRowsWithQualityChecks([mockValidRow, otherLender]);
+
+    expect(duplicateClusters).toHaveLength(1);
+    expect(duplicateClusters[0]).toMatchObject({
+      strategy: 'same-address-date',
+      confidence: 0.5,
+      status: 'pending',
+      survivor: 0,
+      autoMerged: false,
+    });
+    expect(processed[1].isDuplicate).toBeFalsy();
+    expect(processed[1].findings?.map(finding => finding.code)).toEqual(['possible-duplicate']);
+    expect(processed[1].duplicateClusterId).toBe(duplicateClusters[0].id);
+    expect(summary.duplicateRows).toBe(0);
+    expect(summary.pendingDuplicateClusters).toBe(1);
+  });
+
+  it('should apply saved decisions by fingerprint', () => {
+    const rows = [mockValidRow, otherUpb];
+    const { duplicateClusters: [cluster] } = processRowsWithQualityChecks(rows);
+    expect(cluster).toMatchObject({ strategy: 'same-lender-date', confidence: 0.9, autoMerged: true });
+    const fingerprints = cluster.members.map(member => member.fingerprint);
+
+    // Keep the second row instead
+    const confirmed = processRowsWithQualityChecks(rows, {
+      duplicateDecisions: [decide(cluster.id, fingerprints, 'confirmed', fingerprints[1])],
+    });
+    expect(confirmed.duplicateClusters[0]).toMatchObject({ status: 'confirmed', survivor: 1, autoMerged: false });
+    expect(confirmed.processed.map(row => !!row.isDuplicate)).toEqual([true, false]);
+    // Rows are referred to by their sheet row, counting the header row
+    expect(confirmed.processed[0].findings?.[0].message).toBe('Duplicate row (confirmed; row 3 kept)');
+    expect(confirmed.issues[0]).toMatchObject({
+      rowId: confirmed.processed[0].rowId,
+      rowLabel: '2',
+      duplicateOfRowId: confirmed.processed[1].rowId,
+      duplicateOfRowLabel: '3',
+    });
+
+    const rejected = processRowsWithQualityChecks(rows, {
+      duplicateDecisions: [decide(cluster.id, fingerprints, 'rejected')],
+    });
+    expect(rejected.processed.map(row => !!row.isDuplicate)).toEqual([false, false]);
+    expect(rejected.processed[1].findings).toBeUndefined();
+    expect(rejected.summary.pendingDuplicateClusters).toBe(0);
+  });
+
+  it('should keep a decision when a row joins its cluster', () => {
+    const rows = [mockValidRow, otherUpb];
+    const { duplicateClusters: [cluster] } = processRowsWithQualityChecks(rows);
+    const fingerprints = cluster.members.map(member => member.fingerprint);
+    const confirmed = decide(cluster.id, fingerprints, 'confirmed', fingerprints[1]);
+    const rejected = decide(cluster.id, fingerprints, 'rejected');
+
+    // A sure match joins the confirmed cluster; only it is left to review
+    const sureMatch = { ...mockValidRow, upb: 270000 };
+    const grown = processRowsWithQualityChecks([...rows, sureMatch], { duplicateDecisions: [confirmed] });
+    expect(grown.duplicateClusters[0].id).not.toBe(cluster.id);
+    expect(grown.duplicateClusters[0]).toMatchObject({ status: 'confirmed', decisionId: cluster.id, survivor: 1 });
+    expect(grown.duplicateClusters[0].members.map(member => !!member.addedSinceDecision)).toEqual([false, false, true]);
+    expect(grown.processed.map(row => !!row.isDuplicate)).toEqual([true, false, true]);
+    expect(grown.processed[0].findings?.[0].message).toBe('Duplicate row (confirmed; row 3 kept)');
+    expect(grown.summary.pendingDuplicateClusters).toBe(1);
+
+    // A weak match joins the rejected cluster; the reviewed rows stay apart
+    const widened = processRowsWithQualityChecks([...rows, otherLender], { duplicateDecisions: [rejected] });
+    expect(widened.duplicateClusters[0]).toMatchObject({ status: 'rejected', decisionId: cluster.id });
+    expect(widened.processed.map(row => !!row.isDuplicate)).toEqual([false, false, false]);
+    expect(widened.processed[1].findings).toBeUndefined();
+    expect(widened.processed[2].findings?.map(finding => finding.code)).toEqual(['possible-duplicate']);
+
+    // Deciding the grown cluster replaces the earlier decision
+    const [grownCluster] = grown.duplicateClusters;
+    const regrown = decide(grownCluster.id, grownCluster.members.map(member => member.fingerprint), 'rejected');
+    expect(setDuplicateDecision({ decisions: [confirmed] }, regrown).decisions).toEqual([regrown]);
+  });
+
+  it('should reject decisions that do not match their cluster', () => {
+    const { duplicateClusters: [cluster] } = processRowsWithQualityChecks([mockValidRow, exactCopy]);
+    // Identical rows share a fingerprint
+    expect(cluster.members[0].fingerprint).toBe(cluster.members[1].fingerprint);
+    const fingerprints = cluster.members.map(member => member.fingerprint);
+
+    expect(() => decide('', fingerprints, 'rejected')).toThrow('cluster id');
+    expect(() => decide(cluster.id, fingerprints.slice(0, 1), 'rejected')).toThrow("fingerprints of the cluster's rows");
+    expect(() => decide(cluster.id, [fingerprints[0], 'abc123'], 'rejected')).toThrow("don't match");
+    expect(() => decide(cluster.id, fingerprints, 'confirmed')).toThrow('Pick the record to keep');
+    expect(() => decide(cluster.id, fingerprints, 'merged' as DuplicateDecision['status'])).toThrow('"confirmed" or "rejected"');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { calculateGeographyDrillDown } from '../../utils/geographyDrillDown';
+import { assignRegions } from '../../utils/regionMapping';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { ProcessedComplaint, RegionModel } from '../../types';
+
+describe('Geography Drill-Down', () => {
+  const referenceDate = resolveReferenceDate('2024-06-14');
+
+  const model: RegionModel = {
+    regions: [
+      { name: 'New York City', state: 'NY', counties: ['Kings', 'Queens'] },
+      { name: 'South Florida', state: 'FL', counties: ['Miami-Dade'] },
+      { name: 'Long Island', state: 'NY', counties: ['Suffolk'] },
+    ],
+  };
+
+  const complaint = (county: string, overrides: Partial<ProcessedComplaint> = {}): ProcessedComplaint => ({
+    propertyAddress: `1 ${county} St`,
+    county,
+    upb: 100000,
+    complaintDate: new Date('2024-06-03T14:00:00Z'),
+    meetsCriteria: 'Meets criteria',
+    isValid: true,
+    isDuplicate: false,
+    normalizedCounty: county,
+    normalizedLender: 'Abc Bank',
+    ...overrides,
+  });
+
+  const complaints = assignRegions(
+    [
+      complaint('Kings'),
+      complaint('Kings', { upb: 50000, meetsCriteria: 'Does not meet criteria', complaintDate: new Date('2024-06-10T14:00:00Z') }),
+      complaint('Queens'),
+      complaint('Suffolk', { complaintDate: new Date('2024-02-01T14:00:00Z') }),
+      complaint('Miami-Dade'),
+      complaint('Harris', { state: 'Texas' }), // Outside every region, state from the sheet
+      complaint('Cook'), // No state anywhere
+      complaint('Kings', { isDuplicate: true }),
+      complaint('Kings', { complaintDate: new Date('2024-06-20T14:00:00Z') }), // After the as-of date
+    ],
+    model
+  );
+
+  it('should nest states, regions, counties and deals in model order', () => {
+    const states = calculateGeographyDrillDown(complaints, referenceDate, model, 'ytd');
+
+    expect(states.map(state => state.state)).toEqual(['NY', 'FL', 'TX', 'Unknown']);
+    expect(states[0].stateName).toBe('New York');
+    expect(states[0].regions.map(region => region.region)).toEqual(['New York City', 'Long Island']);
+    expect(states[0].regions[0].counties.map(county => county.county)).toEqual(['Kings', 'Queens']);
+    expect(states[2].regions.map(region => region.region)).toEqual(['Other/Unmapped']);
+
+    const kings = states[0].regions[0].counties[0];
+    expect(kings.deals.map(deal => deal.upb)).toEqual([50000, 100000]); // Newest first
+    expect(kings.deals[0].meetsCriteria).toBe(false);
+  });
+
+  it('should total every level like the region summaries', () => {
+    const [newYork] = calculateGeographyDrillDown(complaints, referenceDate, model, 'ytd');
+
+    expect(newYork).toMatchObject({
+      totalComplaints: 4,
+      totalUPB: 350000,
+      complaintsMeetingCriteria: 3,
+      upbMeetingCriteria: 300000,
+    });
+    expect(newYork.regions[0]).toMatchObject({ totalComplaints: 3, totalUPB: 250000 });
+  });
+
+  it('should limit deals to the period', () => {
+    const [newYork] = calculateGeographyDrillDown(complaints, referenceDate, model, 'month');
+    expect(newYork.regions.map(region => region.region)).toEqual(['New York City']);
+    expect(newYork.totalComplaints).toBe(3);
+  });
+});
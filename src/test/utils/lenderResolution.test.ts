@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  approveLenderMerge,
+  getLenderTokens,
+  resolveLender,
+  sanitizeLenderMasterList,
+  suggestLenderMerges,
+  tokenSimilarity,
+} from '../../utils/lenderResolution';
+import { LenderMasterList, ProcessedComplaint } from '../../types';
+
+describe('Lender Resolution', () => {
+  const complaint = (lender: string): ProcessedComplaint => ({
+    lender,
+    isValid: true,
+    normalizedCounty: 'Broward',
+    normalizedLender: '',
+  });
+
+  describe('resolveLender', () => {
+    it('should keep the built-in consolidations by default', () => {
+      expect(resolveLender('Wilmington Savings Fund Society, FSB')).toBe('Wilmington');
+      expect(resolveLender('JPMorgan Chase Bank, N.A.')).toBe('JPMorgan');
+      expect(resolveLender('WELLS FARGO BANK NA')).toBe('Wells Fargo');
+      expect(resolveLender('Tyron Street Capital')).toBe('Tryon Street');
+      expect(resolveLender('SIG RCRS LLC')).toBe('SIG RCRS');
+      expect(resolveLender('Sig Cre 2020')).toBe('Sig Cre');
+      expect(resolveLender('ABC Bank')).toBe('Abc Bank');
+      expect(resolveLender('')).toBe('Unknown');
+    });
+
+    it('should resolve aliases after normalization, before patterns', () => {
+      const list: LenderMasterList = {
+        lenders: [
+          { name: 'Acme Lending', aliases: ['ACME Mortgage Co.', 'Wells Fargo Home'], patterns: ['^acme\\b'] },
+          { name: 'Wells Fargo', aliases: [], patterns: ['^wells\\s*fargo\\b'] },
+        ],
+      };
+
+      expect(resolveLender('acme mortgage company', list)).toBe('Acme Lending');
+      expect(resolveLender('Acme Capital', list)).toBe('Acme Lending');
+      expect(resolveLender('Wells Fargo Home', list)).toBe('Acme Lending');
+      expect(resolveLender('Wells Fargo Bank', list)).toBe('Wells Fargo');
+      expect(resolveLender('Jpmorgan Chase', list)).toBe('Jpmorgan Chase');
+    });
+  });
+
+  describe('suggestLenderMerges', () => {
+    it('should compare the distinctive words of names', () => {
+      expect(getLenderTokens('Deutsche Bank National Trust Company')).toEqual(new Set(['deutsche']));
+      expect(tokenSimilarity(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+      expect(tokenSimilarity(new Set(), new Set(['a']))).toBe(0);
+    });
+
+    it('should cluster similar names and keep master list entities apart', () => {
+      const suggestions = suggestLenderMerges([
+        complaint('Deutsche Bank National Trust Company'),
+        complaint('Deutsche Bank National Trust Company'),
+        complaint('Deutsche Bank Trust Company Americas'),
+        complaint('Deutsche Bank'),
+        complaint('SIG RCRS LLC'),
+        complaint('Sig Cre 2020'),
+        complaint('Unrelated Holdings'),
+      ]);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0].canonical).toBe('Deutsche Bank National Trust Company');
+      expect(suggestions[0].names).toEqual([
+        { name: 'Deutsche Bank National Trust Company', complaints: 2 },
+        { name: 'Deutsche Bank', complaints: 1 },
+        { name: 'Deutsche Bank Trust Company Americas', complaints: 1 },
+      ]);
+      expect(suggestions[0].similarity).toBe(0.5);
+    });
+
+    it('should stop suggesting names once they are approved as aliases', () => {
+      const complaints = [complaint('Deutsche Bank National Trust Company'), complaint('Deutsche Bank')];
+      const list = approveLenderMerge({ lenders: [] }, 'Deutsche Bank National Trust Company', ['Deutsche Bank']);
+
+      expect(list.lenders).toEqual([
+        { name: 'Deutsche Bank National Trust Company', aliases: ['Deutsche Bank'], patterns: [] },
+      ]);
+      expect(resolveLender('Deutsche Bank', list)).toBe('Deutsche Bank National Trust Company');
+      expect(suggestLenderMerges(complaints, list)).toEqual([]);
+    });
+  });
+
+  describe('sanitizeLenderMasterList', () => {
+    it('should trim entries and drop aliases that repeat the name', () => {
+      expect(
+        sanitizeLenderMasterList({
+          lenders: [{ name: ' Acme ', aliases: ['ACME', ' Acme Co ', ''], patterns: ['^acme', '^acme'] }],
+        })
+      ).toEqual({ lenders: [{ name: 'Acme', aliases: ['Acme Co'], patterns: ['^acme'] }] });
+    });
+
+    it('should reject duplicate names, shared aliases and invalid patterns', () => {
+      expect(() => sanitizeLenderMasterList({})).toThrow('Expected { lenders');
+      expect(() =>
+        sanitizeLenderMasterList({ lenders: [{ name: 'Acme' }, { name: 'ACME' }] })
+      ).toThrow('There are two lenders named "ACME"');
+      expect(() =>
+        sanitizeLenderMasterList({ lenders: [{ name: 'Acme' }, { name: 'Beta', aliases: ['acme'] }] })
+      ).toThrow('"acme" is used by both "Acme" and "Beta"');
+      expect(() =>
+        sanitizeLenderMasterList({ lenders: [{ name: 'Acme', patterns: ['(unclosed'] }] })
+      ).toThrow('Pattern "(unclosed" for "Acme" must be a valid regular expression');
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeCounty, normalizeLender, NormalizationRegistry } from '../../utils/normalization';
+import { normalizeCounty, normalizeLender, normalizeState, NormalizationRegistry } from '../../utils/normalization';
 
 describe('Normalization', () => {
   describe('normalizeCounty', () => {
@@ -32,6 +32,17 @@ describe('Normalization', () => {
     });
   });
 
+  describe('normalizeState', () => {
+    it('should read postal codes and state names', () => {
+      expect(normalizeState('fl')).toBe('FL');
+      expect(normalizeState(' Florida ')).toBe('FL');
+      expect(normalizeState('N.Y.')).toBeUndefined();
+      expect(normalizeState('new york')).toBe('NY');
+      expect(normalizeState('Atlantis')).toBeUndefined();
+      expect(normalizeState(undefined)).toBeUndefined();
+    });
+  });
+
   describe('normalizeLender', () => {
     it('should normalize lender names consistently', () => {
       expect(normalizeLender('ABC Mortgage Company')).toBe('Abc Mortgage Company');
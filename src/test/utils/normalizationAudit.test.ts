@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildNormalizationAudit, isFlaggedAuditEntry, toLookalikeKey } from '../../utils/normalizationAudit';
+import { ProcessedComplaint } from '../../types';
+
+describe('Normalization Audit', () => {
+  const complaint = (lender: string, normalizedLender: string, upb: number): ProcessedComplaint => ({
+    lender,
+    upb,
+    county: 'Broward County',
+    isValid: true,
+    normalizedCounty: 'Broward',
+    normalizedLender,
+  });
+
+  const complaints = [
+    complaint('ABC Bank, N.A.', 'Abc Bank', 100000),
+    complaint('ABC Bank, N.A.', 'Abc Bank', 50000),
+    complaint('abc bank na', 'Abc Bank', 25000),
+    complaint('ABC BANK', 'Abc Bank', 10000),
+    complaint('XYZ Lending', 'Xyz Lending', 200000),
+    complaint('X.Y.Z. Lending', 'X Y Z Lending', 75000),
+  ];
+
+  it('should list each raw value with its normalized name, rows and UPB', () => {
+    const audit = buildNormalizationAudit(complaints, 'lender');
+
+    expect(audit.map(({ raw, normalized, rows, totalUPB }) => [raw, normalized, rows, totalUPB])).toEqual([
+      ['ABC Bank, N.A.', 'Abc Bank', 2, 150000],
+      ['ABC BANK', 'Abc Bank', 1, 10000],
+      ['abc bank na', 'Abc Bank', 1, 25000],
+      ['X.Y.Z. Lending', 'X Y Z Lending', 1, 75000],
+      ['XYZ Lending', 'Xyz Lending', 1, 200000],
+    ]);
+    expect(buildNormalizationAudit(complaints, 'county')).toMatchObject([
+      { raw: 'Broward County', normalized: 'Broward', rows: 6, variants: 1 },
+    ]);
+  });
+
+  it('should highlight names with many variants and look-alikes that normalize differently', () => {
+    const audit = buildNormalizationAudit(complaints, 'lender');
+    const find = (raw: string) => audit.find(entry => entry.raw === raw)!;
+
+    expect(toLookalikeKey('X.Y.Z. Lending')).toBe('xyzlending');
+    expect(find('ABC BANK')).toMatchObject({ variants: 3, lookalikes: [] });
+    expect(find('XYZ Lending').lookalikes).toEqual([{ raw: 'X.Y.Z. Lending', normalized: 'X Y Z Lending' }]);
+    expect(audit.filter(isFlaggedAuditEntry)).toHaveLength(5);
+    expect(isFlaggedAuditEntry(buildNormalizationAudit(complaints, 'county')[0])).toBe(false);
+  });
+
+  it('should list the configured rules that changed a raw value', () => {
+    const audit = buildNormalizationAudit(
+      [
+        {
+          ...complaint('Acme Home Loans', 'Acme Lending', 1),
+          normalizationRules: [{ ruleId: 'acme', field: 'lender', before: 'Acme Home Loans', after: 'Acme Lending' }],
+        },
+      ],
+      'lender'
+    );
+
+    expect(audit[0].rules).toEqual(['acme']);
+  });
+});
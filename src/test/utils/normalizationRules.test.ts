@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createNormalizationRegistry,
+  getTenantRuleSet,
+  sanitizeNormalizationRuleFile,
+  sanitizeNormalizationRuleSet,
+} from '../../utils/normalizationRules';
+import { processRowsWithQualityChecks } from '../../utils/dataQuality';
+import { NormalizationRuleSet } from '../../types';
+import { mockValidRow } from '../mockData';
+
+describe('Normalization Rules', () => {
+  const ruleSet: NormalizationRuleSet = {
+    rules: [
+      { id: 'browrd-typo', field: 'county', type: 'replace', find: 'Browrd', replaceWith: 'Broward' },
+      { id: 'drop-dba', field: 'lender', type: 'regex', pattern: '\\s+dba\\s+.*$', replaceWith: '' },
+      { id: 'acme', field: 'lender', type: 'map', from: ['Acme Home Loans', 'Acme Loans, Inc.'], to: 'Acme Lending' },
+    ],
+  };
+
+  describe('createNormalizationRegistry', () => {
+    it('should run the rules after the built-in normalization and trace the ones that fired', () => {
+      const registry = createNormalizationRegistry(ruleSet);
+
+      expect(registry.traceCounty('browrd county')).toEqual({
+        value: 'Broward',
+        applied: [{ ruleId: 'browrd-typo', field: 'county', before: 'Browrd', after: 'Broward' }],
+      });
+      expect(registry.traceLender('Acme Mortgage dba Acme Home Loans')).toEqual({
+        value: 'Acme Mortgage',
+        applied: [{ ruleId: 'drop-dba', field: 'lender', before: 'Acme Mortgage Dba Acme Home Loans', after: 'Acme Mortgage' }],
+      });
+      // Map rules compare normalized names
+      expect(registry.normalizeLender('ACME LOANS INC')).toBe('Acme Lending');
+      expect(registry.normalizeLender('Acme Loans')).toBe('Acme Loans');
+      expect(registry.traceCounty('Broward').applied).toEqual([]);
+    });
+  });
+
+  describe('sanitizeNormalizationRuleSet', () => {
+    it('should reject incomplete rules, repeated ids and invalid patterns', () => {
+      expect(sanitizeNormalizationRuleSet(ruleSet)).toEqual(ruleSet);
+      expect(() => sanitizeNormalizationRuleSet([])).toThrow('Expected { rules');
+      expect(() =>
+        sanitizeNormalizationRuleSet({ rules: [{ id: 'x', field: 'state', type: 'replace', find: 'a', replaceWith: 'b' }] })
+      ).toThrow('Rule "x" needs a field of "county" or "lender"');
+      expect(() =>
+        sanitizeNormalizationRuleSet({ rules: [{ id: 'x', field: 'lender', type: 'regex', pattern: '(', replaceWith: '' }] })
+      ).toThrow('Pattern "(" of rule "x" must be a valid regular expression');
+      expect(() =>
+        sanitizeNormalizationRuleSet({ rules: [{ id: 'x', field: 'lender', type: 'map', from: [], to: 'Y' }] })
+      ).toThrow('Rule "x" needs a list of names to map');
+      expect(() => sanitizeNormalizationRuleSet({ rules: [ruleSet.rules[0], ruleSet.rules[0]] })).toThrow(
+        'There are two rules with the id "browrd-typo"'
+      );
+    });
+  });
+
+  describe('getTenantRuleSet', () => {
+    it("should use the tenant's rules, else the default, else none", () => {
+      const file = sanitizeNormalizationRuleFile({ default: ruleSet, tenants: { Miami: { rules: [] } } });
+
+      expect(getTenantRuleSet(file, 'Miami')).toEqual({ rules: [] });
+      expect(getTenantRuleSet(file, 'Complaints')).toEqual(ruleSet);
+      expect(getTenantRuleSet({}, 'Complaints')).toEqual({ rules: [] });
+      expect(() => sanitizeNormalizationRuleFile({ tenants: { Miami: { rules: [{ id: 'x' }] } } })).toThrow(
+        'Rules for "Miami": Rule "x" needs a field'
+      );
+    });
+
+    it('should not take object built-ins for tenants', () => {
+      const file = sanitizeNormalizationRuleFile({ default: ruleSet, tenants: { Miami: { rules: [] } } });
+
+      ['constructor', 'toString', '__proto__', 'hasOwnProperty'].forEach(sheetName => {
+        expect(getTenantRuleSet(file, sheetName)).toEqual(ruleSet);
+        expect(() => createNormalizationRegistry(getTenantRuleSet(file, sheetName))).not.toThrow();
+      });
+    });
+  });
+
+  describe('pipeline', () => {
+    it('should normalize with the registry before the county reference and record the rules that fired', () => {
+      const { processed, issues } = processRowsWithQualityChecks(
+        [
+          { ...mockValidRow, county: 'Browrd', lender: 'Acme Home Loans' },
+          { ...mockValidRow, propertyAddress: '2 Other St' },
+        ],
+        { normalization: createNormalizationRegistry(ruleSet) }
+      );
+
+      expect(processed[0]).toMatchObject({
+        normalizedCounty: 'Broward',
+        countyFips: '12011',
+        normalizedLender: 'Acme Lending',
+        normalizationRules: [
+          { ruleId: 'browrd-typo', field: 'county', before: 'Browrd', after: 'Broward' },
+          { ruleId: 'acme', field: 'lender', before: 'Acme Home Loans', after: 'Acme Lending' },
+        ],
+      });
+      expect(issues.some(issue => issue.rowIndex === 0)).toBe(false);
+      expect(processed[1].normalizationRules).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { getPlaintiffParty, parsePlaintiff, UNNAMED_PARTY } from '../../utils/plaintiffParser';
+import { processRowsWithQualityChecks } from '../../utils/dataQuality';
+import { calculateLenderCriteriaSummary } from '../../utils/calculations';
+import { mockValidRow } from '../mockData';
+
+describe('Plaintiff Parsing', () => {
+  describe('parsePlaintiff', () => {
+    it('should split a trustee suing for a trust', () => {
+      expect(parsePlaintiff('Wilmington Savings Fund Society, FSB, as trustee for XYZ Trust 2021-1')).toEqual({
+        trustee: 'Wilmington Savings Fund Society, FSB',
+        capacity: 'as trustee',
+        trust: 'XYZ Trust 2021-1',
+      });
+
+      expect(
+        parsePlaintiff(
+          'Wilmington Savings Fund Society, FSB, not in its individual capacity but solely as owner trustee of CSMC 2021-RPL1 Trust'
+        )
+      ).toEqual({
+        trustee: 'Wilmington Savings Fund Society, FSB',
+        capacity: 'not in its individual capacity but solely as owner trustee',
+        trust: 'CSMC 2021-RPL1 Trust',
+      });
+    });
+
+    it('should split off the servicer and the certificate description', () => {
+      expect(
+        parsePlaintiff(
+          'U.S. Bank National Association, as Trustee for the Certificateholders of Citigroup Mortgage Loan Trust Inc., ' +
+            'Asset-Backed Pass-Through Certificates, Series 2006-WFHE3, by its servicer Select Portfolio Servicing, Inc.'
+        )
+      ).toEqual({
+        trustee: 'U.S. Bank National Association',
+        capacity: 'as trustee',
+        trust: 'Citigroup Mortgage Loan Trust Inc., Series 2006-WFHE3',
+        servicer: 'Select Portfolio Servicing, Inc.',
+      });
+
+      expect(
+        parsePlaintiff(
+          'Deutsche Bank National Trust Company, as Trustee, in trust for the registered holders of ' +
+            'Morgan Stanley ABS Capital I Inc. Trust 2007-HE5, by and through Ocwen Loan Servicing, LLC, as its servicer'
+        )
+      ).toMatchObject({
+        trustee: 'Deutsche Bank National Trust Company',
+        trust: 'Morgan Stanley ABS Capital I Inc. Trust 2007-HE5',
+        servicer: 'Ocwen Loan Servicing, LLC',
+      });
+
+      expect(parsePlaintiff('The Bank of New York Mellon, as trustee c/o Shellpoint Mortgage Servicing')).toEqual({
+        trustee: 'The Bank of New York Mellon',
+        capacity: 'as trustee',
+        servicer: 'Shellpoint Mortgage Servicing',
+      });
+    });
+
+    it('should leave out parties the plaintiff does not name', () => {
+      expect(parsePlaintiff('CSMC 2021-RPL1 Trust')).toEqual({ trust: 'CSMC 2021-RPL1 Trust' });
+      expect(parsePlaintiff('ABC Mortgage Company Inc.')).toEqual({});
+      expect(parsePlaintiff('')).toEqual({});
+      expect(parsePlaintiff(undefined)).toEqual({});
+    });
+  });
+
+  describe('grouping', () => {
+    const rows = [
+      {
+        ...mockValidRow,
+        lender: 'Wilmington Savings Fund Society, FSB, as trustee for XYZ Trust 2021-1, by its servicer ABC Loan Servicing, LLC',
+      },
+      {
+        ...mockValidRow,
+        propertyAddress: '2 Other St',
+        lender: 'Wilmington Savings Fund Society, not individually but as trustee for xyz trust 2021-1',
+      },
+      { ...mockValidRow, propertyAddress: '3 Other St' },
+    ];
+
+    it('should resolve the trustee and servicer with the lender master list', () => {
+      const { processed } = processRowsWithQualityChecks(rows);
+
+      expect(processed[0].plaintiffParties).toEqual({
+        trustee: 'Wilmington',
+        capacity: 'as trustee',
+        trust: 'XYZ Trust 2021-1',
+        servicer: 'Abc Loan Servicing Limited Liability',
+      });
+      expect(processed[2].plaintiffParties).toEqual({});
+      expect(getPlaintiffParty(processed[2], 'trust')).toBe(UNNAMED_PARTY);
+    });
+
+    it('should total criteria complaints by the chosen party', () => {
+      const { processed } = processRowsWithQualityChecks(rows);
+      const referenceDate = new Date(2024, 11, 31);
+
+      expect(calculateLenderCriteriaSummary(processed, referenceDate, 'trust')).toEqual([
+        { lender: 'XYZ Trust 2021-1', totalComplaints: 2, totalUPB: 500000 },
+        { lender: UNNAMED_PARTY, totalComplaints: 1, totalUPB: 250000 },
+      ]);
+      expect(calculateLenderCriteriaSummary(processed, referenceDate, 'trustee')[0]).toEqual({
+        lender: 'Wilmington',
+        totalComplaints: 2,
+        totalUPB: 500000,
+      });
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findUnmappedCounties,
+  getAllRegions,
+  getOrderedRegions,
+  getRegionFromCounty,
+  sanitizeRegionModel,
+} from '../../utils/regionMapping';
+import { calculateYTDRegionSummary } from '../../utils/calculations';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { ProcessedComplaint, RegionModel } from '../../types';
+
+describe('Region Mapping', () => {
+  const model: RegionModel = {
+    regions: [
+      { name: 'Texas', state: 'TX', counties: ['Harris', 'Travis'] },
+      { name: 'South Florida', state: 'FL', counties: ['Miami-Dade', 'Broward County'] },
+    ],
+  };
+
+  const complaint = (county: string, overrides: Partial<ProcessedComplaint> = {}): ProcessedComplaint => ({
+    county,
+    upb: 100000,
+    complaintDate: new Date('2024-03-01T14:00:00Z'),
+    meetsCriteria: 'Meets criteria',
+    isValid: true,
+    isDuplicate: false,
+    normalizedCounty: county,
+    normalizedLender: 'Abc Bank',
+    ...overrides,
+  });
+
+  describe('getRegionFromCounty', () => {
+    it('should keep the built-in regions by default', () => {
+      expect(getRegionFromCounty('Dade')).toBe('Miami-Dade');
+      expect(getRegionFromCounty('Broward County')).toBe('Other Florida');
+      expect(getRegionFromCounty('Kings County, NY')).toBe('New York');
+      expect(getRegionFromCounty('Harris')).toBe('Other/Unmapped');
+      expect(getRegionFromCounty(undefined)).toBe('Other/Unmapped');
+    });
+
+    it('should match counties of a saved model after normalization', () => {
+      expect(getRegionFromCounty('harris county', model)).toBe('Texas');
+      expect(getRegionFromCounty('Broward', model)).toBe('South Florida');
+      expect(getRegionFromCounty('Miami Dade County', model)).toBe('South Florida');
+      expect(getRegionFromCounty('Kings', model)).toBe('Other/Unmapped');
+    });
+
+    it("should leave out counties of another state than the region's", () => {
+      expect(getRegionFromCounty('Orange', undefined, 'NY')).toBe('Other/Unmapped');
+      expect(getRegionFromCounty('Orange', undefined, 'Florida')).toBe('Other Florida');
+      expect(getRegionFromCounty('Harris', model, 'TX')).toBe('Texas');
+    });
+  });
+
+  describe('getOrderedRegions', () => {
+    it('should follow the model\'s order', () => {
+      expect(getOrderedRegions(model)).toEqual(['Texas', 'South Florida']);
+      expect(getAllRegions(model)).toEqual(['Texas', 'South Florida', 'Other/Unmapped']);
+    });
+
+    it('should order the region summary', () => {
+      const complaints = [complaint('Miami-Dade', { region: 'South Florida' }), complaint('Harris', { region: 'Texas' })];
+      const summary = calculateYTDRegionSummary(complaints, resolveReferenceDate('2024-06-14'), model);
+      expect(summary.map(row => row.region)).toEqual(['Texas', 'South Florida']);
+    });
+  });
+
+  describe('findUnmappedCounties', () => {
+    it('should count valid complaints in counties no region includes', () => {
+      const unmapped = findUnmappedCounties(
+        [
+          complaint('Kings'),
+          complaint('Kings'),
+          complaint('Cook'),
+          complaint('Cook', { isDuplicate: true }),
+          complaint('Harris'),
+        ],
+        model
+      );
+
+      expect(unmapped).toEqual([
+        { county: 'Kings', complaints: 2 },
+        { county: 'Cook', complaints: 1 },
+      ]);
+    });
+  });
+
+  describe('sanitizeRegionModel', () => {
+    it('should trim names and drop blank or repeated counties', () => {
+      expect(
+        sanitizeRegionModel({
+          regions: [{ name: ' Texas ', state: ' ', counties: ['Harris', ' ', 'Harris County'] }],
+        })
+      ).toEqual({ regions: [{ name: 'Texas', counties: ['Harris'] }] });
+    });
+
+    it('should store states as postal codes', () => {
+      expect(sanitizeRegionModel({ regions: [{ name: 'Texas', state: 'texas', counties: [] }] }).regions[0].state).toBe('TX');
+      expect(() => sanitizeRegionModel({ regions: [{ name: 'Texas', state: 'Tex', counties: [] }] })).toThrow('not a US state');
+    });
+
+    it('should reject invalid models', () => {
+      expect(() => sanitizeRegionModel({})).toThrow('Expected');
+      expect(() => sanitizeRegionModel({ regions: [{ name: '', counties: [] }] })).toThrow('needs a name');
+      expect(() => sanitizeRegionModel({ regions: [{ name: 'Other/Unmapped', counties: [] }] })).toThrow('reserved');
+      expect(() =>
+        sanitizeRegionModel({ regions: [{ name: 'A', counties: [] }, { name: 'a', counties: [] }] })
+      ).toThrow('two regions named');
+      expect(() =>
+        sanitizeRegionModel({ regions: [{ name: 'A', counties: ['Kings'] }, { name: 'B', counties: ['Kings County'] }] })
+      ).toThrow('Kings County is in both "A" and "B"');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidAsOfDate,
+  resolveReferenceDate,
+  formatAsOfDate,
+} from '../../utils/reportingDate';
+import { getZonedParts } from '../../utils/timeZone';
+import { TIME_ZONE } from '../../config/dateConfig';
+
+describe('Reporting Date', () => {
+  describe('isValidAsOfDate', () => {
+    it('should accept yyyy-MM-dd dates', () => {
+      expect(isValidAsOfDate('2024-06-14')).toBe(true);
+    });
+
+    it('should reject other formats and impossible dates', () => {
+      expect(isValidAsOfDate('06/14/2024')).toBe(false);
+      expect(isValidAsOfDate('2024-02-30')).toBe(false);
+      expect(isValidAsOfDate('')).toBe(false);
+      expect(isValidAsOfDate(undefined)).toBe(false);
+    });
+  });
+
+  describe('resolveReferenceDate', () => {
+    it('should resolve to the end of the as-of day in the business time zone', () => {
+      const reference = resolveReferenceDate('2024-06-14');
+      expect(getZonedParts(reference, TIME_ZONE)).toEqual({
+        year: 2024,
+        month: 6,
+        day: 14,
+        hour: 23,
+        minute: 59,
+        second: 59,
+      });
+      expect(getZonedParts(new Date(reference.getTime() + 1), TIME_ZONE).day).toBe(15);
+    });
+
+    it('should fall back to now when no date is given', () => {
+      const before = Date.now();
+      const reference = resolveReferenceDate(null);
+      expect(reference.getTime()).toBeGreaterThanOrEqual(before);
+      expect(reference.getTime()).toBeLessThanOrEqual(Date.now());
+    });
+  });
+
+  describe('formatAsOfDate', () => {
+    it('should round-trip through resolveReferenceDate', () => {
+      expect(formatAsOfDate(resolveReferenceDate('2024-01-31'))).toBe('2024-01-31');
+    });
+
+    it('should use the business day rather than the UTC day', () => {
+      // 10 PM on January 31st in New York is already February 1st in UTC
+      expect(formatAsOfDate(new Date('2024-02-01T03:00:00Z'))).toBe('2024-01-31');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMappedField,
+  mapRawRow,
+  resolveActiveMapping,
+  sanitizeColumnMapping,
+} from '../../utils/rowMapping';
+import { DEFAULT_COLUMN_MAPPING } from '../../config/columnMapping';
+
+describe('Row Mapping', () => {
+  describe('mapRawRow', () => {
+    it('should use the first source column with a value', () => {
+      const row = {
+        'Sum of Unpaid Balance(s)': '',
+        'Unpaid Balance(s)': '125000',
+        'Property Address': '123 Main St',
+      };
+      expect(mapRawRow(row)).toMatchObject({ upb: 125000, propertyAddress: '123 Main St' });
+    });
+
+    it('should prefer higher-priority columns even when listed later in the sheet', () => {
+      const row = { 'Unpaid Balance(s)': '100', 'Sum of Unpaid Balance(s)': '250' };
+      expect(mapRawRow(row).upb).toBe(250);
+    });
+
+    it('should apply a custom mapping and keep unmapped columns by header', () => {
+      const row = { Addr: '9 Elm St', Balance: '5', Notes: 'call back' };
+      const mapped = mapRawRow(row, {
+        propertyAddress: { columns: ['Address', 'addr'], rule: 'coalesce' },
+        upb: { columns: ['Balance'], rule: 'coalesce' },
+      });
+
+      expect(mapped).toEqual({
+        propertyAddress: '9 Elm St',
+        upb: 5,
+        Notes: 'call back',
+        fieldSources: { propertyAddress: ['Addr'], upb: ['Balance'] },
+      });
+    });
+
+    it('should record which column a coalesced value came from', () => {
+      const row = { 'Sum of Unpaid Balance(s)': ' ', 'Unpaid Balance(s)': '125000' };
+      expect(mapRawRow(row).fieldSources?.upb).toEqual(['Unpaid Balance(s)']);
+    });
+
+    it('should sum numeric columns', () => {
+      const row = { 'First Lien': '$200,000', 'Second Lien': '50,000.50', Other: '', Note: 'n/a' };
+      const mapped = mapRawRow(row, {
+        upb: { columns: ['First Lien', 'Second Lien', 'Other', 'Note'], rule: 'sum' },
+      });
+
+      expect(mapped.upb).toBe(250000.5);
+      expect(mapped.fieldSources?.upb).toEqual(['First Lien', 'Second Lien']);
+    });
+
+    it('should concatenate columns with a value', () => {
+      const row = { Street: '9 Elm St', Unit: '', City: 'Miami' };
+      const mapped = mapRawRow(row, {
+        propertyAddress: { columns: ['Street', 'Unit', 'City'], rule: 'concatenate', separator: ', ' },
+      });
+
+      expect(mapped.propertyAddress).toBe('9 Elm St, Miami');
+      expect(mapped.fieldSources?.propertyAddress).toEqual(['Street', 'City']);
+    });
+  });
+
+  describe('getMappedField', () => {
+    it('should report the field and fallback priority of a column', () => {
+      expect(getMappedField('Unpaid Balance(s)', DEFAULT_COLUMN_MAPPING)).toEqual({ field: 'upb', priority: 1 });
+      expect(getMappedField('county', DEFAULT_COLUMN_MAPPING)).toEqual({ field: 'county', priority: 0 });
+      expect(getMappedField('Notes', DEFAULT_COLUMN_MAPPING)).toBeNull();
+    });
+  });
+
+  describe('sanitizeColumnMapping', () => {
+    it('should trim names and drop blank or repeated columns', () => {
+      expect(sanitizeColumnMapping({ upb: [' UPB ', 'upb', ''], county: [] })).toEqual({
+        upb: { columns: ['UPB'], rule: 'coalesce' },
+      });
+    });
+
+    it('should keep rules and concatenate separators', () => {
+      expect(sanitizeColumnMapping({
+        upb: { columns: ['A', 'B'], rule: 'sum', separator: '-' },
+        propertyAddress: { columns: ['Street', 'City'], rule: 'concatenate', separator: ', ' },
+      })).toEqual({
+        upb: { columns: ['A', 'B'], rule: 'sum' },
+        propertyAddress: { columns: ['Street', 'City'], rule: 'concatenate', separator: ', ' },
+      });
+    });
+
+    it('should reject malformed mappings', () => {
+      expect(() => sanitizeColumnMapping(['upb'])).toThrow('Expected a mapping');
+      expect(() => sanitizeColumnMapping({ upb: 'UPB' })).toThrow('must be a list');
+      expect(() => sanitizeColumnMapping({ upb: { columns: ['A'], rule: 'max' } })).toThrow('Unknown rule');
+    });
+  });
+
+  describe('resolveActiveMapping', () => {
+    it('should fall back to the built-in mapping', () => {
+      const profile = {
+        name: 'Alt',
+        mapping: { county: { columns: ['Parish'], rule: 'coalesce' as const } },
+        updatedAt: '',
+      };
+
+      expect(resolveActiveMapping({ activeProfile: 'Alt', profiles: [profile] })).toBe(profile.mapping);
+      expect(resolveActiveMapping({ activeProfile: null, profiles: [profile] })).toBe(DEFAULT_COLUMN_MAPPING);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { applyValidationOverrides, validateFields } from '../../utils/rowValidation';
+import { validateRow } from '../../utils/dataQuality';
+import { DEFAULT_VALIDATION_SCHEMA } from '../../config/validationConfig';
+import { ValidationSchema } from '../../types';
+import { mockValidRow } from '../mockData';
+
+describe('Row Validation', () => {
+  const codes = (schema: ValidationSchema, row = mockValidRow) =>
+    validateFields(row, schema).findings.map(finding => finding.code);
+
+  describe('applyValidationOverrides', () => {
+    it('should turn rules off and change their thresholds and severity by code', () => {
+      const row = { ...mockValidRow, propertyAddress: '1 A', upb: 0, complaintDate: '2020-01-15' };
+      expect(codes(DEFAULT_VALIDATION_SCHEMA, row)).toEqual(['short-address', 'zero-upb']);
+
+      const schema = applyValidationOverrides(DEFAULT_VALIDATION_SCHEMA, {
+        'short-address': { enabled: false },
+        'zero-upb': { severity: 'error' },
+        'old-date': { above: 2 },
+      });
+      const { findings } = validateFields(row, schema);
+
+      expect(findings.map(({ code, severity }) => [code, severity])).toEqual([
+        ['zero-upb', 'error'],
+        ['old-date', 'warning'],
+      ]);
+      expect(findings[1].message).toBe('Complaint date is more than 2 years old');
+      expect(validateRow(row, 0, schema).isValid).toBe(false);
+      // The defaults are untouched
+      expect(DEFAULT_VALIDATION_SCHEMA.fields.complaintDate.ranges?.[1].above).toBe(10);
+    });
+
+    it('should make a row without a UPB invalid unless overridden', () => {
+      ['', '  ', undefined].forEach(upb => {
+        const row = { ...mockValidRow, upb: upb as unknown as number };
+        expect(validateRow(row, 0).findings).toEqual([
+          { severity: 'error', code: 'missing-upb', field: 'upb', message: 'UPB is missing' },
+        ]);
+        expect(validateRow(row, 0).isValid).toBe(false);
+
+        const lenient = applyValidationOverrides(DEFAULT_VALIDATION_SCHEMA, { 'missing-upb': { severity: 'warning' } });
+        expect(validateRow(row, 0, lenient).isValid).toBe(true);
+      });
+    });
+  });
+
+  describe('validateFields', () => {
+    it('should check declared fields, patterns and fallbacks', () => {
+      const schema: ValidationSchema = {
+        ...DEFAULT_VALIDATION_SCHEMA,
+        fields: {
+          ...DEFAULT_VALIDATION_SCHEMA.fields,
+          zip: {
+            type: 'text',
+            label: 'ZIP code',
+            pattern: { code: 'custom-zip', severity: 'warning', pattern: '^\\d{5}(-\\d{4})?$' },
+          },
+        },
+      };
+
+      expect(codes(schema, { ...mockValidRow, zip: '10451' })).toEqual([]);
+      expect(validateFields({ ...mockValidRow, zip: '1045' }, schema).findings).toEqual([
+        { severity: 'warning', code: 'custom-zip', field: 'zip', value: '1045', message: 'ZIP code is not in the expected format' },
+      ]);
+      // Lender falls back to plaintiff
+      expect(codes(schema, { ...mockValidRow, lender: '', plaintiff: 'ABC Bank' })).toEqual([]);
+      expect(validateFields({ ...mockValidRow, lender: '', plaintiff: 42 }, schema).findings[0]).toMatchObject({
+        code: 'invalid-lender',
+        field: 'plaintiff',
+        message: 'Invalid lender/plaintiff value type: number',
+      });
+    });
+
+    it('should run custom rules', () => {
+      const schema: ValidationSchema = {
+        ...DEFAULT_VALIDATION_SCHEMA,
+        custom: [
+          {
+            code: 'custom-county-state',
+            severity: 'error',
+            validate: row => (row.county === 'New York' && row.state === 'FL' ? 'New York County is in New York' : undefined),
+          },
+        ],
+      };
+
+      expect(codes(schema)).toEqual([]);
+      expect(validateRow({ ...mockValidRow, state: 'FL' }, 0, schema)).toMatchObject({
+        isValid: false,
+        errors: ['New York County is in New York'],
+      });
+      const disabled = applyValidationOverrides(schema, { 'custom-county-state': { enabled: false } });
+      expect(codes(disabled, { ...mockValidRow, state: 'FL' })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { compareSnapshots, diffComplaint, diffRows, getComplaintKey } from '../../utils/snapshotDiff';
+import { processRowsWithQualityChecks } from '../../utils/dataQuality';
+import { identifyRows } from '../../utils/rowFingerprint';
+import { calculateDashboardMetrics } from '../../utils/dashboardData';
+import { ProcessedComplaint, Snapshot } from '../../types';
+
+const complaint = (overrides: Partial<ProcessedComplaint> = {}): ProcessedComplaint => ({
+  propertyAddress: '123 Main St',
+  county: 'Kings',
+  lender: 'ABC Bank',
+  upb: 100000,
+  meetsCriteria: 'Meets criteria',
+  complaintDate: new Date(2024, 5, 10),
+  isValid: true,
+  isDuplicate: false,
+  normalizedCounty: 'Kings',
+  normalizedLender: 'Abc Bank',
+  ...overrides,
+});
+
+const snapshot = (id: string, complaints: ProcessedComplaint[]): Snapshot => ({
+  id,
+  sheetName: 'Complaints',
+  createdAt: '2024-06-14T12:00:00.000Z',
+  contentHash: id,
+  totalRows: complaints.length,
+  validRows: complaints.length,
+  complaints,
+  summary: {
+    totalRows: complaints.length,
+    validRows: complaints.length,
+    invalidRows: 0,
+    duplicateRows: 0,
+    rowsWithJSONErrors: 0,
+    rowsWithOtherErrors: 0,
+  },
+  metrics: calculateDashboardMetrics(complaints, new Date(2024, 5, 14, 23, 59)),
+});
+
+describe('Snapshot Diff', () => {
+  describe('getComplaintKey', () => {
+    it('should prefer the sheet ID', () => {
+      expect(getComplaintKey(complaint({ id: '42' }))).toBe('id:42');
+    });
+
+    it('should normalize the address case and whitespace', () => {
+      expect(getComplaintKey(complaint({ propertyAddress: '  123  MAIN st ' })))
+        .toBe(getComplaintKey(complaint()));
+    });
+  });
+
+  describe('diffComplaint', () => {
+    it('should list changed fields and ignore derived ones', () => {
+      const changes = diffComplaint(
+        complaint(),
+        complaint({ upb: 150000, lender: 'XYZ Bank', normalizedLender: 'Xyz Bank' })
+      );
+
+      expect(changes.map(c => c.field).sort()).toEqual(['lender', 'upb']);
+      expect(changes.find(c => c.field === 'upb')).toEqual({
+        field: 'upb',
+        before: 100000,
+        after: 150000,
+      });
+    });
+
+    it('should treat a Date and its ISO string as equal', () => {
+      const date = new Date(2024, 5, 10);
+      const changes = diffComplaint(
+        complaint({ complaintDate: date }),
+        complaint({ complaintDate: date.toISOString() })
+      );
+      expect(changes).toHaveLength(0);
+    });
+  });
+
+  describe('compareSnapshots', () => {
+    const before = snapshot('a', [
+      complaint(),
+      complaint({ propertyAddress: '456 Oak Ave', upb: 200000 }),
+      complaint({ propertyAddress: '789 Pine Rd', county: 'Broward', normalizedCounty: 'Broward' }),
+    ]);
+    const after = snapshot('b', [
+      complaint(),
+      complaint({ propertyAddress: '456 Oak Ave', upb: 250000 }),
+      complaint({ propertyAddress: '1 New Rd' }),
+    ]);
+
+    it('should classify rows as added, removed, changed or unchanged', () => {
+      const result = compareSnapshots(before, after);
+
+      expect(result.added.map(c => c.propertyAddress)).toEqual(['1 New Rd']);
+      expect(result.removed.map(c => c.propertyAddress)).toEqual(['789 Pine Rd']);
+      expect(result.changed).toHaveLength(1);
+      expect(result.changed[0].changes).toEqual([{ field: 'upb', before: 200000, after: 250000 }]);
+      expect(result.unchangedCount).toBe(1);
+    });
+
+    it('should match repeated addresses in order', () => {
+      const result = compareSnapshots(
+        snapshot('a', [complaint({ upb: 1 }), complaint({ upb: 2 })]),
+        snapshot('b', [complaint({ upb: 1 }), complaint({ upb: 3 })])
+      );
+
+      expect(result.added).toHaveLength(0);
+      expect(result.removed).toHaveLength(0);
+      expect(result.changed).toHaveLength(1);
+      expect(result.changed[0].key).toBe('address:123 main st#2');
+    });
+
+    it('should report how region and year totals moved', () => {
+      const result = compareSnapshots(before, after);
+
+      const newYork = result.ytdRegionSummary.find(r => r.label === 'New York')!;
+      expect(newYork.before.totalUPB).toBe(300000);
+      expect(newYork.after.totalUPB).toBe(450000);
+
+      const florida = result.ytdRegionSummary.find(r => r.label === 'Other Florida')!;
+      expect(florida.before.totalComplaints).toBe(1);
+      expect(florida.after.totalComplaints).toBe(0);
+
+      const year2024 = result.yearSummary.find(y => y.label === '2024')!;
+      expect(year2024.before.totalComplaints).toBe(3);
+      expect(year2024.after.totalComplaints).toBe(3);
+    });
+
+    it('should return list entries without the row data', () => {
+      const result = compareSnapshots(before, after);
+      expect(result.from.id).toBe('a');
+      expect(result.to).not.toHaveProperty('complaints');
+    });
+  });
+
+  describe('diffRows', () => {
+    const rows = [
+      { propertyAddress: '1 A St', county: 'Kings', lender: 'ABC Bank', upb: 100000, complaintDate: '2024-06-03' },
+      { propertyAddress: '2 B St', county: 'Kings', lender: 'ABC Bank', upb: 200000, complaintDate: '2024-06-04' },
+      { propertyAddress: '3 C St', county: 'Kings', lender: 'XYZ Bank', upb: 300000, complaintDate: '2024-06-05' },
+    ];
+    const load = (sheet: typeof rows) => processRowsWithQualityChecks(sheet).processed;
+
+    it('should give identical rows their own ids, numbering rows per tab', () => {
+      const identities = identifyRows([rows[0], { ...rows[0] }, { ...rows[1], sourceTab: 'Broward' }, rows[2]]);
+      expect(identities[1].rowId).toBe(`${identities[0].rowId}-2`);
+      expect(identities.map(identity => identity.sheetRow)).toEqual([2, 3, 2, 4]);
+      // The tab is only named when the rows come from more than one
+      expect(identities.map(identity => identity.rowLabel)).toEqual(['2', '3', '2 (Broward)', '4']);
+      expect(identifyRows([{ ...rows[0], sourceTab: 'Broward' }])[0].rowLabel).toBe('2');
+      // Adding an empty value keeps the id
+      expect(identifyRows([{ ...rows[0], notes: '' }])[0].rowId).toBe(identities[0].rowId);
+    });
+
+    it('should not report rows that were inserted above or sorted', () => {
+      const before = load(rows);
+      const inserted = { propertyAddress: '9 Z St', county: 'Kings', lender: 'ABC Bank', upb: 1, complaintDate: '2024-06-06' };
+      const after = load([inserted, rows[2], rows[0], rows[1]]);
+
+      const changes = diffRows(before, after);
+      expect(changes.added.map(row => row.propertyAddress)).toEqual(['9 Z St']);
+      expect(changes.changed).toEqual([]);
+      expect(changes.removed).toEqual([]);
+      // The issues follow the row, not its position
+      expect(after[2].rowId).toBe(before[0].rowId);
+    });
+
+    it('should match edited rows by address and then by sheet row', () => {
+      const before = load(rows);
+      const after = load([
+        { ...rows[0], upb: 150000 },
+        { ...rows[1], propertyAddress: '2 B Street' },
+      ]);
+
+      const changes = diffRows(before, after);
+      expect(changes.added).toEqual([]);
+      expect(changes.changed.map(change => change.changes.map(({ field }) => field))).toEqual([
+        ['upb'],
+        ['propertyAddress'],
+      ]);
+      expect(changes.removed.map(row => row.propertyAddress)).toEqual(['3 C St']);
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { read, utils, write } from 'xlsx';
+import {
+  combineWorkbookTabs,
+  getDefaultTab,
+  listWorkbookTabs,
+  parseSpreadsheetFile,
+  parseWorkbook,
+  resolveTabSelection,
+} from '../../utils/spreadsheetFile';
+import { mapRawRow } from '../../utils/rowMapping';
+import { processRowsWithQualityChecks } from '../../utils/dataQuality';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+/**
+ * Builds an XLSX workbook in memory from tab name -> rows (first row is the header)
+ */
+const buildWorkbook = (tabs: Record<string, unknown[][]>): ArrayBuffer => {
+  const workbook = utils.book_new();
+  Object.entries(tabs).forEach(([name, rows]) => {
+    utils.book_append_sheet(workbook, utils.aoa_to_sheet(rows), name);
+  });
+  return write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+};
+
+/**
+ * Column names from the "Column Name" column of the shipped Spreadsheet_mapping.xlsx
+ */
+const readShippedLayout = (): string[] => {
+  const workbook = read(readFileSync(join(process.cwd(), 'Spreadsheet_mapping.xlsx')));
+  const rows = utils.sheet_to_json<Record<string, string>>(workbook.Sheets[workbook.SheetNames[0]]);
+  return rows
+    .map(row => row['Column Name'])
+    .filter(name => name && !name.startsWith('Source:'));
+};
+
+describe('Spreadsheet File Import', () => {
+  describe('parseSpreadsheetFile', () => {
+    it('should parse CSV exports', () => {
+      const { rows } = parseSpreadsheetFile(
+        'export.csv',
+        encode('Property Address,County\n123 Main St,Kings\n')
+      );
+      expect(rows).toEqual([{ 'Property Address': '123 Main St', County: 'Kings' }]);
+    });
+
+    it('should read the first tab of a workbook as text by default', () => {
+      const data = buildWorkbook({
+        Complaints: [['Property Address', 'Sum of Unpaid Balance(s)'], ['123 Main St', 250000]],
+        Archive: [['Property Address'], ['9 Old Rd']],
+      });
+
+      expect(parseSpreadsheetFile('export.xlsx', data).rows).toEqual([
+        { 'Property Address': '123 Main St', 'Sum of Unpaid Balance(s)': '250000', 'Source Tab': 'Complaints' },
+      ]);
+    });
+
+    it('should combine the selected tabs with a source tab column', () => {
+      const data = buildWorkbook({
+        '2024': [['Property Address'], ['1 A St'], ['2 B St']],
+        Notes: [['Note'], ['ignore me']],
+        '2025': [['Property Address'], ['3 C St']],
+      });
+
+      const { rows } = parseSpreadsheetFile('export.xlsx', data, ['2024', '2025']);
+      expect(rows.map(row => [row['Property Address'], row['Source Tab']])).toEqual([
+        ['1 A St', '2024'],
+        ['2 B St', '2024'],
+        ['3 C St', '2025'],
+      ]);
+    });
+  });
+
+  describe('workbook tabs', () => {
+    const data = buildWorkbook({
+      Summary: [['Total'], [3]],
+      Complaints: [['Property Address'], ['1 A St']],
+      Empty: [],
+    });
+
+    it('should list every tab and skip empty ones when parsing', () => {
+      expect(listWorkbookTabs(data)).toEqual(['Summary', 'Complaints', 'Empty']);
+      expect(parseWorkbook(data).map(tab => tab.name)).toEqual(['Summary', 'Complaints']);
+    });
+
+    it('should default to the configured sheet name, then the first tab', () => {
+      expect(getDefaultTab(['Summary', 'Complaints'], 'complaints')).toBe('Complaints');
+      expect(getDefaultTab(['Summary', 'Other'], 'Complaints')).toBe('Summary');
+      expect(getDefaultTab([], 'Complaints')).toBeUndefined();
+    });
+
+    it('should resolve tab selections', () => {
+      const tabNames = ['2024', '2025', 'Notes'];
+      expect(resolveTabSelection(tabNames, '*')).toEqual(tabNames);
+      expect(resolveTabSelection(tabNames, '2025, 2024')).toEqual(['2024', '2025']);
+      expect(resolveTabSelection(tabNames, 'Complaints')).toEqual(['2024']);
+    });
+
+    it('should ignore unknown tab names when combining', () => {
+      const rows = combineWorkbookTabs(parseWorkbook(data), ['Missing', 'Complaints']);
+      expect(rows).toEqual([{ 'Property Address': '1 A St', 'Source Tab': 'Complaints' }]);
+    });
+  });
+
+  describe('shipped Spreadsheet_mapping.xlsx layout', () => {
+    const layout = readShippedLayout();
+
+    it('should describe the columns the dashboard needs', () => {
+      ['Property Address', 'County', 'Plaintiff', 'Unpaid Balance(s)', 'Meets Criteria', 'Processing Log']
+        .forEach(column => expect(layout).toContain(column));
+    });
+
+    it('should import a workbook in that layout into processed complaints', () => {
+      const values: Record<string, unknown> = {
+        'Property Address': '123 Main St',
+        County: 'Kings',
+        Plaintiff: 'ABC Bank',
+        'Unpaid Balance(s)': 250000,
+        'Meets Criteria': 'Meets criteria',
+        'Processing Log': '2024-06-10',
+      };
+      const row = layout.map(column => values[column] ?? '');
+      const data = buildWorkbook({
+        Complaints: [layout, row],
+        Archive: [layout, row.map((value, i) => (layout[i] === 'Property Address' ? '9 Old Rd' : value))],
+      });
+
+      const { rows: rawRows } = parseSpreadsheetFile('export.xlsx', data, ['Complaints', 'Archive']);
+      const { processed, summary } = processRowsWithQualityChecks(rawRows.map(raw => mapRawRow(raw)));
+
+      expect(summary.totalRows).toBe(2);
+      expect(processed[0]).toMatchObject({
+        propertyAddress: '123 Main St',
+        county: 'Kings',
+        plaintiff: 'ABC Bank',
+        upb: 250000,
+        meetsCriteria: 'Meets criteria',
+        sourceTab: 'Complaints',
+      });
+      expect(processed[0].complaintDate).toBeInstanceOf(Date);
+      expect(processed[1].sourceTab).toBe('Archive');
+      // "Document  Title" (double space in the layout) still maps to its field
+      expect(processed[0]).toHaveProperty('documentTitle');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getWeekWindows,
+  parseWeekSettings,
+  toWeekQuery,
+  isValidFiscalYearStart,
+} from '../../utils/weekWindows';
+import { resolveReferenceDate } from '../../utils/reportingDate';
+import { toBusinessDayKey } from '../../utils/businessDate';
+import { DEFAULT_WEEK_SETTINGS } from '../../config/weekConfig';
+import { WeekSettings } from '../../types';
+
+describe('Week Windows', () => {
+  // Friday, June 14th 2024, end of the business day
+  const referenceDate = resolveReferenceDate('2024-06-14');
+  const settings = (overrides: Partial<WeekSettings>): WeekSettings => ({
+    ...DEFAULT_WEEK_SETTINGS,
+    ...overrides,
+  });
+
+  describe('getWeekWindows', () => {
+    it('should split rolling weeks into 7 business days ending on the reference date', () => {
+      const windows = getWeekWindows(referenceDate, settings({ mode: 'rolling', weeks: 2 }));
+
+      expect(windows.map(w => w.rangeLabel)).toEqual(['Jun 8–Jun 14', 'Jun 1–Jun 7']);
+      expect(toBusinessDayKey(windows[0].start)).toBe('2024-06-08');
+      expect(windows[0].end).toEqual(referenceDate);
+    });
+
+    it('should leave no gaps between weeks', () => {
+      const windows = getWeekWindows(referenceDate, settings({ mode: 'custom', weeks: 6 }));
+      windows.slice(1).forEach((window, index) => {
+        expect(window.end.getTime()).toBe(windows[index].start.getTime() - 1);
+      });
+    });
+
+    it('should use Monday-to-Sunday ISO weeks', () => {
+      const windows = getWeekWindows(referenceDate, settings({ mode: 'iso', weekStartsOn: 0, weeks: 2 }));
+
+      expect(windows.map(w => w.label)).toEqual(['2024-W24', '2024-W23']);
+      expect(windows[0].rangeLabel).toBe('Jun 10–Jun 14'); // The current week ends at the reference date
+      expect(windows[1].rangeLabel).toBe('Jun 3–Jun 9');
+    });
+
+    it('should number ISO weeks across the new year', () => {
+      const windows = getWeekWindows(resolveReferenceDate('2024-12-31'), settings({ mode: 'iso', weeks: 2 }));
+      expect(windows.map(w => w.label)).toEqual(['2025-W01', '2024-W52']);
+    });
+
+    it('should start custom weeks on the configured day', () => {
+      const windows = getWeekWindows(referenceDate, settings({ mode: 'custom', weekStartsOn: 0, weeks: 1 }));
+      expect(windows[0].label).toBe('Jun 9');
+      expect(windows[0].rangeLabel).toBe('Jun 9–Jun 14');
+    });
+
+    it('should number fiscal weeks from the week containing the fiscal year start', () => {
+      // FY2025 starts on Tuesday, October 1st 2024, so its week 1 starts on Monday, September 30th
+      const windows = getWeekWindows(
+        resolveReferenceDate('2024-10-15'),
+        settings({ mode: 'fiscal', weekStartsOn: 1, fiscalYearStart: '10-01', weeks: 4 })
+      );
+      expect(windows.map(w => w.label)).toEqual(['FY2025 W03', 'FY2025 W02', 'FY2025 W01', 'FY2024 W53']);
+    });
+
+    it('should name calendar-year fiscal years after the year itself', () => {
+      const windows = getWeekWindows(referenceDate, settings({ mode: 'fiscal', weekStartsOn: 1, weeks: 1 }));
+      expect(windows[0].label).toBe('FY2024 W24');
+    });
+  });
+
+  describe('parseWeekSettings', () => {
+    it('should fill in defaults for missing values', () => {
+      expect(parseWeekSettings({})).toEqual(DEFAULT_WEEK_SETTINGS);
+      expect(parseWeekSettings({ weekMode: 'iso', weeks: '8' })).toEqual(
+        settings({ mode: 'iso', weeks: 8 })
+      );
+    });
+
+    it('should reject invalid values', () => {
+      expect(parseWeekSettings({ weekMode: 'monthly' })).toBeNull();
+      expect(parseWeekSettings({ weeks: '0' })).toBeNull();
+      expect(parseWeekSettings({ weeks: '14' })).toBeNull();
+      expect(parseWeekSettings({ weekStartsOn: '7' })).toBeNull();
+      expect(parseWeekSettings({ fiscalYearStart: '02-30' })).toBeNull();
+    });
+
+    it('should round-trip through toWeekQuery', () => {
+      const custom = settings({ mode: 'fiscal', weeks: 6, weekStartsOn: 0, fiscalYearStart: '07-01' });
+      expect(parseWeekSettings(toWeekQuery(custom))).toEqual(custom);
+      expect(toWeekQuery(DEFAULT_WEEK_SETTINGS)).toEqual({});
+    });
+  });
+
+  describe('isValidFiscalYearStart', () => {
+    it('should accept MM-dd dates that exist every year', () => {
+      expect(isValidFiscalYearStart('10-01')).toBe(true);
+      expect(isValidFiscalYearStart('02-29')).toBe(false);
+      expect(isValidFiscalYearStart('2024-10-01')).toBe(false);
+    });
+  });
+});
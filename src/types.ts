@@ -5,20 +5,349 @@ export interface ComplaintRow {
   id?: string;
   propertyAddress?: string;
   county?: string;
+  state?: string; // As written in the sheet's State column, when it has one
   lender?: string;
   plaintiff?: string;
   upb?: number; // Unpaid Principal Balance
   meetsCriteria?: string; // "Meets criteria" or "Does not meet criteria"
+  sourceTab?: string; // Workbook tab the row was imported from
   complaintDate?: string | Date;
+  fieldSources?: Record<string, string[]>; // Source column(s) each mapped value came from
   [key: string]: unknown; // Allow for additional fields
 }
 
+// A row exactly as read from the source, keyed by its header cell
+export type RawSheetRow = Record<string, string>;
+
+// A malformed record found while parsing a source file (e.g. a ragged CSV row)
+export interface SourceParseError {
+  rowIndex: number; // Data row the record was read into (0 = first row after the header)
+  line: number; // 1-based line in the file where the problem was found
+  column: number; // 1-based character position in that line
+  message: string;
+}
+
+export interface SourceRows {
+  rows: RawSheetRow[];
+  parseErrors: SourceParseError[];
+}
+
+/**
+ * Where the dashboard's rows come from (Google Sheets, an uploaded export,
+ * a JSON endpoint, ...). Sources only read rows; mapping and processing
+ * are shared by all of them.
+ */
+export interface DataSource {
+  label: string; // Shown in the UI and logs
+  fetchRows(sheetName: string): Promise<SourceRows>;
+  // Sources backed by the server can return data it has already processed
+  fetchDashboardData?(
+    sheetName: string,
+    forceRefresh: boolean,
+    asOfDate: string | null,
+    weekSettings?: WeekSettings
+  ): Promise<DashboardData>;
+}
+
+// How a field's value is built from its source columns:
+// - coalesce: the first column (in priority order) with a value
+// - sum: the total of every numeric column with a value
+// - concatenate: every column with a value, joined by the separator
+export type FieldMappingRule = 'coalesce' | 'sum' | 'concatenate';
+
+export interface FieldMapping {
+  columns: string[]; // In priority order
+  rule: FieldMappingRule;
+  separator?: string; // For concatenate; defaults to a space
+}
+
+// Standard field -> the source columns its value is built from
+export type ColumnMapping = Record<string, FieldMapping>;
+
+// A named column mapping saved on the server
+export interface ColumnMappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string; // ISO timestamp
+}
+
+export interface ColumnMappingSettings {
+  activeProfile: string | null; // null = the built-in mapping in config/columnMapping.ts
+  profiles: ColumnMappingProfile[];
+}
+
+// How a date cell was read (see utils/dateExtraction.ts)
+export type DateParseStrategy =
+  | 'date-object' // Already a Date (e.g. revived from JSON)
+  | 'sheets-serial' // Days since 1899-12-30, as exported by Sheets/Excel
+  | 'iso' // 2024-01-15, 2024-01-15T14:30:00Z
+  | 'numeric' // 01/15/2024, 1-15-24 3:30 PM
+  | 'month-name' // January 15, 2024; 15 Jan 2024
+  | 'log-entry'; // A dated entry picked from a multi-entry log
+
+// The order of the parts of an all-numeric date such as 03/04/2024
+export type NumericDateOrder = 'MDY' | 'DMY';
+
 export interface ProcessedComplaint extends ComplaintRow {
   normalizedCounty: string;
   normalizedLender: string;
+  complaintDateStrategy?: DateParseStrategy;
   isValid: boolean;
-  errors?: string[];
+  errors?: string[]; // Messages of the row's findings, errors first
+  findings?: QualityFinding[]; // Every error and warning found while validating the row
   isDuplicate?: boolean;
+  fingerprint?: string; // Hash of the row's key fields, shared by identical rows (see utils/rowFingerprint.ts)
+  rowId?: string; // Hash of all the row's values, numbered when identical rows repeat; stable when rows are inserted or sorted
+  sheetRow?: number; // Row number in the sheet (or its tab), counting the header row
+  rowLabel?: string; // sheetRow as shown to analysts, with the tab when there are several
+  duplicateClusterId?: string; // The duplicate cluster the row belongs to, if any
+  criteria?: CriteriaEvaluation; // The criteria engine's verdict (see utils/criteriaEngine.ts)
+  region?: string; // Assigned from the region model when the rows are processed
+  normalizedState?: string; // Postal code from the region's state, else the State column
+  countyFips?: string; // 5-digit FIPS code of the county, when it resolves against the county reference
+  plaintiffParties?: ParsedPlaintiff; // The plaintiff split into its parties (see utils/plaintiffParser.ts)
+  address?: ParsedAddress; // The property address split into its components (see utils/addressParser.ts)
+  normalizationRules?: AppliedNormalizationRule[]; // Configured normalization rules that changed this row, in order
+}
+
+// A plaintiff such as "X, as trustee for Y Trust 2021-1, by its servicer Z"
+export interface ParsedPlaintiff {
+  trustee?: string; // Canonical name (via the lender master list) of the party suing as trustee
+  capacity?: string; // e.g. "as trustee", "not in its individual capacity but solely as owner trustee"
+  trust?: string; // The trust or series sued for, e.g. "XYZ Trust 2021-1"
+  servicer?: string; // Canonical name of the servicer or attorney-in-fact acting for the plaintiff
+}
+
+// A property address in USPS standard form, e.g. "123 NW 5TH ST APT 2, MIAMI, FL 33101"
+export interface ParsedAddress {
+  number?: string; // House number, e.g. "123" or "12-34"
+  predirectional?: string; // "N", "NW", ...
+  street?: string; // Street name, with spelled-out ordinals as numbers ("FIFTH" -> "5TH")
+  suffix?: string; // USPS suffix abbreviation, e.g. "ST", "AVE"
+  postdirectional?: string;
+  unitType?: string; // USPS unit designator, e.g. "APT", "STE" or "#"
+  unit?: string; // e.g. "2", "4B"
+  city?: string; // Only read when it is set off by a comma
+  state?: string; // Postal code
+  zip?: string; // 5-digit ZIP code
+  standardized: string; // The components above in USPS order
+}
+
+// What lender totals can be grouped by
+export type PlaintiffParty = 'lender' | 'trustee' | 'trust' | 'servicer';
+
+// A county in the bundled county reference (see config/countyReference.ts)
+export interface CountyReference {
+  name: string; // Official name, e.g. "St. Johns"
+  state: string; // Postal code
+  fips: string; // 5-digit state + county FIPS code, e.g. "12109"
+  aliases: string[]; // Other spellings seen in the data, e.g. "Saint Johns", "Brooklyn"
+}
+
+// How a county name resolved against the county reference
+export type CountyResolution =
+  | { status: 'resolved'; county: CountyReference }
+  | { status: 'ambiguous'; candidates: CountyReference[] } // Same name in several states and no state to pick one
+  | { status: 'unresolved'; suggestions: CountyReference[] }; // Close matches by edit distance, closest first
+
+// Reporting regions (edited in the Regions screen and stored by the backend)
+export interface RegionDefinition {
+  name: string;
+  state?: string; // e.g. "FL"
+  counties: string[]; // Compared after county normalization
+}
+
+export interface RegionModel {
+  regions: RegionDefinition[]; // In display order
+  updatedAt?: string; // ISO timestamp of the last save (absent for the built-in model)
+}
+
+// Lender master list (edited in the Lenders screen and stored by the backend)
+export interface LenderEntity {
+  name: string; // Canonical name shown on the dashboard
+  aliases: string[]; // Other names for it, compared after lender normalization
+  patterns: string[]; // Case-insensitive regexes tested against the normalized name
+}
+
+export interface LenderMasterList {
+  lenders: LenderEntity[]; // Patterns are tried in this order
+  updatedAt?: string; // ISO timestamp of the last save (absent for the built-in list)
+}
+
+export interface LenderNameCount {
+  name: string; // A lender name as the master list resolved it
+  complaints: number;
+}
+
+// Normalized lender names that look like the same lender
+export interface LenderMergeSuggestion {
+  canonical: string; // A master list entity's name when one is in the cluster, else the most common name
+  names: LenderNameCount[]; // Every name in the cluster, most complaints first
+  similarity: number; // Token similarity (0-1) of the weakest link holding the cluster together
+}
+
+// Configured normalization rules (a JSON rule file read by the backend; see utils/normalizationRules.ts)
+export type NormalizationField = 'county' | 'lender';
+
+export type NormalizationRule =
+  | { id: string; field: NormalizationField; type: 'replace'; find: string; replaceWith: string } // Literal text, any case
+  | { id: string; field: NormalizationField; type: 'regex'; pattern: string; replaceWith: string } // Case-insensitive, every match
+  | { id: string; field: NormalizationField; type: 'map'; from: string[]; to: string }; // Whole names to a canonical name
+
+export interface NormalizationRuleSet {
+  rules: NormalizationRule[]; // Run in order, after the built-in normalization
+}
+
+// Rule sets by tenant (the sheet tab being processed), with a fallback for the rest
+export interface NormalizationRuleFile {
+  default?: NormalizationRuleSet;
+  tenants?: Record<string, NormalizationRuleSet>;
+}
+
+// A rule that changed a row's county or lender
+export interface AppliedNormalizationRule {
+  ruleId: string;
+  field: NormalizationField;
+  before: string;
+  after: string;
+}
+
+// A distinct raw county or lender value and what it normalized to (see utils/normalizationAudit.ts)
+export interface NormalizationAuditEntry {
+  field: NormalizationField;
+  raw: string; // As written in the sheet, trimmed
+  normalized: string; // normalizedCounty / normalizedLender
+  rows: number;
+  totalUPB: number;
+  variants: number; // Distinct raw values normalized to the same name, this one included
+  lookalikes: Array<{ raw: string; normalized: string }>; // Raw values that look the same but normalized to another name
+  rules: string[]; // Ids of the configured normalization rules that changed it
+}
+
+// A county that no region includes
+export interface UnmappedCounty {
+  county: string;
+  complaints: number; // Valid, non-duplicate complaints
+}
+
+// Geography drill-down: state -> region -> county -> deal
+export type DrillDownPeriod = 'month' | 'ytd' | 'all';
+
+export interface DrillDownDeal {
+  rowIndex: number; // Index of the complaint in the processed rows
+  rowLabel: string; // Its sheet row (see ProcessedComplaint.rowLabel)
+  propertyAddress: string;
+  lender: string;
+  upb: number;
+  complaintDate?: Date;
+  meetsCriteria: boolean;
+}
+
+export interface CountyDrillDown extends SummaryTotals {
+  county: string;
+  deals: DrillDownDeal[]; // Newest first
+}
+
+export interface RegionDrillDown extends SummaryTotals {
+  region: string;
+  counties: CountyDrillDown[]; // Most complaints first
+}
+
+export interface StateDrillDown extends SummaryTotals {
+  state: string; // Postal code, or "Unknown"
+  stateName?: string;
+  regions: RegionDrillDown[]; // In region model order
+}
+
+// Criteria rules (configured in config/criteriaConfig.ts); a complaint meets
+// the criteria when it passes every enabled rule
+export type CriteriaRule = { id: string; label: string; enabled?: boolean } & (
+  | { type: 'upb-range'; min?: number; max?: number }
+  | { type: 'county'; counties: string[] } // Allowed counties
+  | { type: 'region'; regions?: string[] } // Allowed regions; every region of the active model when omitted
+  | { type: 'lender-exclusion'; lenders: string[] }
+  | { type: 'complaint-age'; maxDays: number } // Days between filing and the as-of date
+  | { type: 'document-title'; keywords: string[]; mode: 'require' | 'exclude' }
+);
+
+export type CriteriaRuleType = CriteriaRule['type'];
+
+// Which verdict says a complaint meets the criteria: the sheet's "Meets Criteria?" column or the rules
+export type CriteriaSource = 'sheet' | 'engine';
+
+export interface CriteriaRuleResult {
+  ruleId: string;
+  label: string;
+  passed: boolean;
+  detail: string; // Why, e.g. "UPB $80,000 is below $100,000"
+}
+
+// What rules are evaluated against besides the complaint (the active settings)
+export interface CriteriaContext {
+  lenders?: LenderMasterList; // Excluded lenders are resolved with it, like the complaints' lenders
+  regions?: RegionModel; // The region model complaints were assigned with
+}
+
+export interface CriteriaEvaluation {
+  meetsCriteria: boolean;
+  results: CriteriaRuleResult[];
+}
+
+// A complaint where the engine and the sheet's "Meets Criteria?" flag disagree
+export interface CriteriaMismatch {
+  rowIndex: number; // Index of the complaint in the processed rows
+  rowLabel: string; // Its sheet row (see ProcessedComplaint.rowLabel)
+  propertyAddress: string;
+  county: string;
+  lender: string;
+  upb: number;
+  complaintDate?: Date;
+  sheetValue: string; // The sheet's flag as written
+  sheetMeetsCriteria: boolean;
+  engineMeetsCriteria: boolean;
+  failedRules: CriteriaRuleResult[];
+}
+
+export interface CriteriaReconciliation {
+  evaluated: number; // Valid, non-duplicate complaints
+  agreed: number;
+  engineOnly: CriteriaMismatch[]; // Qualify by the rules but not by the sheet
+  sheetOnly: CriteriaMismatch[]; // Qualify by the sheet but not by the rules
+  ruleFailures: { ruleId: string; label: string; failed: number }[];
+  ruleWarnings: string[]; // Rules that don't fit the active settings, e.g. a region the model doesn't have
+}
+
+// What-if thresholds layered over the configured criteria rules
+export interface CriteriaScenario {
+  minUpb: number | null; // No minimum when null
+  includedCounties: string[]; // Empty includes every county
+  excludedLenders: string[];
+}
+
+// A deal whose verdict changes under the scenario
+export interface CriteriaSimulationDeal {
+  rowIndex: number; // Index of the complaint in the processed rows
+  rowLabel: string; // Its sheet row (see ProcessedComplaint.rowLabel)
+  propertyAddress: string;
+  county: string;
+  lender: string;
+  upb: number;
+  complaintDate?: Date;
+  failedRules: CriteriaRuleResult[]; // Why it failed: the current rules if newly qualifying, the scenario's if dropping out
+}
+
+export interface LenderCriteriaDelta {
+  lender: string;
+  before: Omit<LenderCriteriaSummary, 'lender'>;
+  after: Omit<LenderCriteriaSummary, 'lender'>;
+}
+
+export interface CriteriaSimulation {
+  ytdRegionSummary: SummaryTotalsDelta[];
+  yearSummary: SummaryTotalsDelta[];
+  topLenders: LenderCriteriaDelta[]; // Top lenders under either the current rules or the scenario
+  newlyQualifying: CriteriaSimulationDeal[];
+  droppingOut: CriteriaSimulationDeal[];
 }
 
 export interface FourWeekRollUp {
@@ -65,10 +394,30 @@ export interface WeekData {
 }
 
 export interface FourWeekRollUpWeekly extends FourWeekRollUp {
-  week1: WeekData;
-  week2: WeekData;
-  week3: WeekData;
-  week4: WeekData;
+  weeks: WeekData[]; // One per configured week, most recent (week 1) first
+}
+
+// How the weekly roll-up splits time into weeks:
+// - rolling: 7-day windows ending on the reference date
+// - iso: ISO 8601 weeks (Monday to Sunday)
+// - custom: calendar weeks starting on weekStartsOn
+// - fiscal: calendar weeks starting on weekStartsOn, numbered from the fiscal year start
+export type WeekMode = 'rolling' | 'iso' | 'custom' | 'fiscal';
+
+export interface WeekSettings {
+  mode: WeekMode;
+  weeks: number; // How many weeks to show
+  weekStartsOn: number; // 0 = Sunday ... 6 = Saturday (custom and fiscal modes)
+  fiscalYearStart: string; // "MM-dd" the fiscal year starts on (fiscal mode)
+}
+
+// The span of one week in the roll-up (the current week ends at the reference date)
+export interface WeekWindow {
+  week: number; // 1 = most recent
+  start: Date; // First instant in the week
+  end: Date; // Last instant in the week
+  label: string; // Short column label, e.g. "Jun 10" or "2024-W24"
+  rangeLabel: string; // Days covered, e.g. "Jun 10–Jun 14"
 }
 
 export interface Last7DaysComplaint {
@@ -101,6 +450,7 @@ export interface LenderCriteriaSummary {
 }
 
 export interface FlowThroughDeal {
+  rowId?: string; // The complaint's row id, to highlight new rows
   propertyAddress: string;
   county: string;
   lender: string;
@@ -117,6 +467,13 @@ export interface RegionSummary {
   upbMeetingCriteria: number;
 }
 
+// Year-to-date totals of a ZIP code ("" for addresses without one)
+export interface ZipSummary extends SummaryTotals {
+  zip: string;
+  city?: string; // The city and state most of the ZIP code's addresses name
+  state?: string;
+}
+
 export interface YearSummary {
   year: string;
   totalComplaints: number;
@@ -124,3 +481,261 @@ export interface YearSummary {
   complaintsMeetingCriteria: number;
   upbMeetingCriteria: number;
 }
+
+// Errors make a row invalid; warnings are kept alongside them but don't
+export type QualitySeverity = 'error' | 'warning';
+
+// The check behind a data quality finding
+export type QualityRuleCode =
+  | 'missing-address'
+  | 'short-address'
+  | 'missing-county'
+  | 'unresolved-county' // Not in the county reference for the row's state
+  | 'ambiguous-county' // In the county reference for more than one state
+  | 'state-mismatch' // The State column isn't the state of the county's region
+  | 'uncovered-state' // In a state the county reference has no counties for
+  | 'missing-lender'
+  | 'invalid-lender'
+  | 'missing-upb'
+  | 'invalid-upb'
+  | 'negative-upb'
+  | 'zero-upb'
+  | 'high-upb'
+  | 'missing-date'
+  | 'invalid-date'
+  | 'ambiguous-date' // e.g. 03/04/2024, with no configured order or one the column's other dates contradict
+  | 'unfiled-log-date' // A log without a filing entry; its earliest date was used
+  | 'future-date'
+  | 'old-date'
+  | 'invalid-json'
+  | 'fixed-json' // Malformed JSON that was auto-fixed
+  | 'malformed-record' // The source file couldn't be read cleanly at this row
+  | 'duplicate-row'
+  | 'possible-duplicate' // In a duplicate cluster too uncertain to drop until it's reviewed
+  | 'validation-failed' // Validation threw
+  | `custom-${string}`; // A custom rule of the validation schema
+
+export interface QualityFinding {
+  severity: QualitySeverity;
+  code: QualityRuleCode;
+  field?: string; // The column the finding is about, when there is one
+  value?: string; // The raw value, as text
+  message: string;
+}
+
+// How a field of the validation schema is read
+export type ValidationFieldType = 'text' | 'number' | 'date';
+
+// One rule of the validation schema (see config/validationConfig.ts); a row that
+// breaks it gets a finding with its code and severity
+export interface ValidationCheck {
+  code: QualityRuleCode;
+  severity: QualitySeverity;
+  enabled?: boolean; // Defaults to true
+  message?: string; // Replaces the built-in message; "{value}", "{limit}", "{below}", "{above}" and "{equals}" are filled in
+}
+
+export interface ValidationLimitCheck extends ValidationCheck {
+  limit: number;
+}
+
+export interface ValidationPatternCheck extends ValidationCheck {
+  pattern: string; // Regular expression (case-insensitive) the text must match
+}
+
+// Fails when the value is below, above or exactly the given numbers (for
+// dates, the value is the date's age in years, negative in the future)
+export interface ValidationRangeCheck extends ValidationCheck {
+  message: string;
+  below?: number;
+  above?: number;
+  equals?: number;
+}
+
+export interface FieldValidation {
+  type: ValidationFieldType;
+  label: string; // Used in the built-in messages, e.g. "property address"
+  fallbackFields?: string[]; // Read in turn when the field is empty, e.g. plaintiff for lender
+  required?: ValidationCheck; // The field (and its fallbacks) are empty
+  invalid?: ValidationCheck; // The value isn't a number, date or text
+  minLength?: ValidationLimitCheck; // Text shorter than the limit
+  pattern?: ValidationPatternCheck;
+  ranges?: ValidationRangeCheck[]; // Numbers and dates
+  parseWarnings?: ValidationCheck[]; // Warnings raised while reading a date, e.g. ambiguous-date
+}
+
+// A rule written as code; returns the message when the row breaks it
+export interface CustomValidationRule extends ValidationCheck {
+  validate: (row: ComplaintRow) => string | undefined;
+}
+
+export interface ValidationSchema {
+  fields: Record<string, FieldValidation>; // Keyed by ComplaintRow field
+  json: { invalid: ValidationCheck; fixed: ValidationCheck }; // Fields holding (or named like) JSON
+  custom: CustomValidationRule[];
+}
+
+// Changes to the rules with a code, wherever they are in the schema
+export type ValidationRuleOverride = Partial<Omit<ValidationCheck, 'code'>> & {
+  limit?: number;
+  pattern?: string;
+  below?: number;
+  above?: number;
+  equals?: number;
+};
+
+export interface DataQualityIssue {
+  rowIndex: number;
+  rowId: string; // Identifies the row across refreshes (see ProcessedComplaint.rowId)
+  rowLabel: string; // The sheet row shown to analysts (see ProcessedComplaint.rowLabel)
+  row: ComplaintRow;
+  findings: QualityFinding[]; // Errors first
+  errors: string[]; // Messages of the findings
+  isDuplicate: boolean;
+  duplicateOf?: number; // Index of the original row this duplicates
+  duplicateOfRowId?: string;
+  duplicateOfRowLabel?: string; // The original row's label, found by its rowId
+}
+
+export interface DataQualitySummary {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  rowsWithJSONErrors: number; // Rows with an invalid-json error
+  rowsWithOtherErrors: number; // Rows with errors, none of them invalid JSON
+  rowsWithWarnings: number; // Rows with warnings, not counting duplicates
+  pendingDuplicateClusters: number; // Duplicate clusters nobody has reviewed yet, or that rows joined since
+  findingCounts: Partial<Record<QualityRuleCode, number>>; // Findings of each rule, over all rows
+  dateParseStrategies?: Partial<Record<DateParseStrategy, number>>; // Rows whose complaint date was read each way
+}
+
+// How a row was matched to the first row of its duplicate cluster, strongest first
+export type DuplicateStrategy =
+  | 'exact' // Same address, county, lender, date and UPB
+  | 'same-lender-date' // Same address, county, lender and date; the UPB differs
+  | 'similar-address' // Same county, lender and date, and an address starting the same
+  | 'same-address-date'; // Same address and date, whatever the lender
+
+export type DuplicateDecisionStatus = 'confirmed' | 'rejected';
+
+// An analyst's review of a duplicate cluster (stored by the backend)
+export interface DuplicateDecision {
+  clusterId: string;
+  status: DuplicateDecisionStatus;
+  fingerprints: string[]; // The rows the cluster had when it was reviewed
+  survivor?: string; // Fingerprint of the record kept, when confirmed
+  decidedAt: string; // ISO timestamp
+}
+
+export interface DuplicateDecisionList {
+  decisions: DuplicateDecision[];
+}
+
+export interface DuplicateClusterMember {
+  rowIndex: number;
+  fingerprint: string;
+  strategy?: DuplicateStrategy; // How it matched the cluster's first row (unset for that row)
+  confidence?: number;
+  addedSinceDecision?: boolean; // Not in the cluster when its decision was made; handled as if pending
+}
+
+// Rows found to be copies of the same complaint
+export interface DuplicateCluster {
+  id: string; // Built from its rows' fingerprints, so a decision holds until the rows change
+  members: DuplicateClusterMember[]; // In sheet order; the first is the row the others matched
+  strategy: DuplicateStrategy; // The weakest match in the cluster
+  confidence: number; // 0-1, of the weakest match
+  status: 'pending' | DuplicateDecisionStatus;
+  decisionId?: string; // The cluster id its decision was saved under; a smaller cluster's when rows have joined since
+  survivor: number; // Row index of the record kept
+  autoMerged: boolean; // Pending, but confident enough that the other rows are dropped until reviewed
+}
+
+// Precomputed metrics shared by the backend (/api/dashboard) and the browser
+export interface DashboardMetrics {
+  fourWeekRollUpWeekly: FourWeekRollUpWeekly[];
+  monthlyLenders: MonthlyLenderData[];
+  monthlyTrendSummary: MonthlyTrendSummary[];
+  lenderCriteriaSummary: LenderCriteriaSummary[];
+  flowThroughYTD: FlowThroughDeal[];
+  flowThroughLastWeek: FlowThroughDeal[];
+  currentMonthRegionSummary: RegionSummary[];
+  ytdRegionSummary: RegionSummary[];
+  yearSummary: YearSummary[];
+  zipSummary: ZipSummary[];
+  criteriaReconciliation: CriteriaReconciliation;
+  unmappedCounties: UnmappedCounty[];
+}
+
+export interface DashboardData {
+  generatedAt: string; // ISO timestamp of when the rows were fetched and processed
+  asOfDate: string | null; // "yyyy-MM-dd" the metrics were calculated as of (null = now)
+  complaints: ProcessedComplaint[];
+  issues: DataQualityIssue[];
+  summary: DataQualitySummary;
+  metrics: DashboardMetrics;
+  regions: RegionModel; // The region model the complaints were assigned with
+  lenders: LenderMasterList; // The lender master list lender names were resolved with
+  duplicateClusters: DuplicateCluster[];
+}
+
+// Historical snapshots of processed data (stored by the backend)
+export interface SnapshotMeta {
+  id: string;
+  sheetName: string;
+  createdAt: string; // ISO timestamp of the sheet fetch the snapshot was taken from
+  contentHash: string; // Hash of the processed rows, used to skip unchanged fetches
+  totalRows: number;
+  validRows: number;
+}
+
+export interface Snapshot extends SnapshotMeta {
+  complaints: ProcessedComplaint[];
+  summary: DataQualitySummary;
+  metrics: DashboardMetrics;
+}
+
+export interface ComplaintFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangedComplaint {
+  key: string; // Row key the two versions were matched on
+  before: ProcessedComplaint;
+  after: ProcessedComplaint;
+  changes: ComplaintFieldChange[];
+}
+
+// Rows added, changed and removed between two loads of the same sheet
+export interface RowChanges {
+  added: ProcessedComplaint[];
+  changed: ChangedComplaint[];
+  removed: ProcessedComplaint[];
+}
+
+export interface SummaryTotals {
+  totalComplaints: number;
+  totalUPB: number;
+  complaintsMeetingCriteria: number;
+  upbMeetingCriteria: number;
+}
+
+export interface SummaryTotalsDelta {
+  label: string; // Region or year
+  before: SummaryTotals;
+  after: SummaryTotals;
+}
+
+export interface SnapshotComparison {
+  from: SnapshotMeta;
+  to: SnapshotMeta;
+  added: ProcessedComplaint[];
+  removed: ProcessedComplaint[];
+  changed: ChangedComplaint[];
+  unchangedCount: number;
+  ytdRegionSummary: SummaryTotalsDelta[];
+  yearSummary: SummaryTotalsDelta[];
+}
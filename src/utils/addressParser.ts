@@ -0,0 +1,189 @@
+// Address parsing
+// Splits a property address into its components and writes it in USPS standard
+// form, offline, with the abbreviation tables in config/addressConfig.ts:
+// "123 Northwest Fifth Street #2, Miami, FL 33101-1234" is
+// "123 NW 5TH ST # 2, MIAMI, FL 33101". Duplicate detection compares the
+// components, so the same property written two ways still matches.
+
+import { ParsedAddress } from '../types';
+import { DIRECTIONALS, ORDINAL_WORDS, STREET_SUFFIXES, UNIT_DESIGNATORS } from '../config/addressConfig';
+import { normalizeState } from './normalization';
+
+const HOUSE_NUMBER = /^\d+[A-Z]?(?:-\d+[A-Z]?)?$/;
+const ZIP_AT_END = /[\s,]+(\d{5})(?:-\d{4})?$/;
+
+type AddressParts = Omit<ParsedAddress, 'standardized'>;
+
+/**
+ * Reads a state (postal code or name, up to 3 words) at the end of some text
+ * @returns The state and the text before it, or undefined when it doesn't end in one
+ */
+function splitState(text: string): { state: string; before: string } | undefined {
+  const words = text.split(' ');
+  for (let count = Math.min(3, words.length); count >= 1; count--) {
+    const state = normalizeState(words.slice(-count).join(' '));
+    if (state) return { state, before: words.slice(0, -count).join(' ') };
+  }
+  return undefined;
+}
+
+const isUnitPart = (part: string) => !!UNIT_DESIGNATORS[part.split(' ')[0]] || part.startsWith('#');
+
+/**
+ * Parses the street line: number, directionals, name, suffix and unit
+ * @param cityMayFollow - The city may follow the street without a comma
+ *   ("123 MAIN ST MIAMI"), as a state or ZIP code was found after it
+ */
+function parseStreetLine(line: string, cityMayFollow: boolean): AddressParts {
+  const parts: AddressParts = {};
+  const tokens = line.replace(/#\s*/g, '# ').split(' ').filter(Boolean);
+
+  let start = 0;
+  if (tokens.length > 1 && HOUSE_NUMBER.test(tokens[0])) {
+    parts.number = tokens[0];
+    start = 1;
+  }
+
+  // A unit designator followed by its number ends the street
+  const unitAt = tokens.findIndex((token, index) => index > start && UNIT_DESIGNATORS[token] && index + 1 < tokens.length);
+  let name = tokens.slice(start, unitAt >= 0 ? unitAt : tokens.length);
+  let city: string[] = [];
+  if (unitAt >= 0) {
+    parts.unitType = UNIT_DESIGNATORS[tokens[unitAt]];
+    parts.unit = tokens[unitAt + 1];
+    city = tokens.slice(unitAt + 2);
+  } else if (cityMayFollow) {
+    // The words after the last suffix (and any directional after it)
+    const suffixAt = name.reduce((last, token, index) => (index > 0 && STREET_SUFFIXES[token] ? index : last), -1);
+    if (suffixAt >= 0) {
+      const end = DIRECTIONALS[name[suffixAt + 1]] ? suffixAt + 2 : suffixAt + 1;
+      city = name.slice(end);
+      name = name.slice(0, end);
+    }
+  }
+  if (cityMayFollow && city.length > 0) parts.city = city.join(' ');
+
+  if (name.length > 1 && DIRECTIONALS[name[name.length - 1]]) {
+    parts.postdirectional = DIRECTIONALS[name[name.length - 1]];
+    name = name.slice(0, -1);
+  }
+  if (name.length > 1 && STREET_SUFFIXES[name[name.length - 1]]) {
+    parts.suffix = STREET_SUFFIXES[name[name.length - 1]];
+    name = name.slice(0, -1);
+  }
+  if (name.length > 1 && DIRECTIONALS[name[0]]) {
+    parts.predirectional = DIRECTIONALS[name[0]];
+    name = name.slice(1);
+  }
+  if (name.length > 0) parts.street = name.map(word => ORDINAL_WORDS[word] ?? word).join(' ');
+
+  return parts;
+}
+
+/**
+ * The street line in standard form, e.g. "123 NW 5TH ST APT 2"
+ */
+function formatStreetLine(address: AddressParts): string {
+  return [
+    address.number,
+    address.predirectional,
+    address.street,
+    address.suffix,
+    address.postdirectional,
+    address.unitType,
+    address.unit,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Parses and standardizes an address
+ * - The ZIP code (ZIP+4 is cut to 5 digits) and state are read from the end
+ * - The city is the part after the street set off by commas, or the words
+ *   after the street's suffix when a state or ZIP code follows
+ * - Unit designators may follow the street or be their own comma-separated part
+ * @returns undefined when there is no address
+ */
+export function parseAddress(raw: unknown): ParsedAddress | undefined {
+  if (typeof raw !== 'string') return undefined;
+  let text = raw.toUpperCase().replace(/\./g, '').replace(/\s+/g, ' ').trim();
+  if (!text) return undefined;
+
+  let zip: string | undefined;
+  const zipMatch = text.match(ZIP_AT_END);
+  if (zipMatch && zipMatch.index) {
+    zip = zipMatch[1];
+    text = text.slice(0, zipMatch.index);
+  }
+
+  const [first = '', ...rest] = text.split(',').map(part => part.trim()).filter(Boolean);
+  let line = first;
+  let state: string | undefined;
+
+  if (rest.length > 0) {
+    const split = splitState(rest[rest.length - 1]);
+    if (split) {
+      state = split.state;
+      rest[rest.length - 1] = split.before;
+    }
+  } else if (zip) {
+    // "123 MAIN ST MIAMI FL 33101"
+    const split = splitState(line);
+    if (split && split.before) {
+      state = split.state;
+      line = split.before;
+    }
+  }
+
+  // ", APT 2" is part of the street line; the first other part is the city
+  rest.filter(isUnitPart).forEach(part => {
+    line = `${line} ${part}`;
+  });
+  const city = rest.find(part => part && !isUnitPart(part));
+  const cityMayFollow = !city && !!(state || zip);
+
+  const address: AddressParts = parseStreetLine(line, cityMayFollow);
+  if (city) address.city = city;
+  if (state) address.state = state;
+  if (zip) address.zip = zip;
+
+  const standardized = [formatStreetLine(address), address.city, [address.state, address.zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+  return { ...address, standardized };
+}
+
+/**
+ * The property's key for duplicate detection: the street line with the unit
+ * number, whatever the unit designator ("APT 2" and "# 2" match)
+ */
+export function toAddressKey(address: ParsedAddress): string {
+  const key = formatStreetLine({ ...address, unitType: undefined });
+  return key || address.standardized;
+}
+
+/**
+ * A looser key: the street line without its suffix and unit ("123 MAIN ST" and
+ * "123 MAIN AVE APT 2" match). Directionals are kept, as "NW 5TH ST" and
+ * "SE 5TH ST" are different streets
+ */
+export function toStreetKey(address: ParsedAddress): string {
+  if (!address.street) return toAddressKey(address);
+  return formatStreetLine({ ...address, suffix: undefined, unitType: undefined, unit: undefined });
+}
+
+/**
+ * Whether two addresses can be in the same place: their units match when both
+ * have one, and their ZIP codes match when both have one, else their cities
+ * and states do (where both name them).
+ * Keys hold the street line only, so "10 MAIN ST" in Goshen, NY and in
+ * Orlando, FL only match when neither address says where it is, and the
+ * street key leaves out the unit, so "APT 101" and "APT 202" never match
+ */
+export function isSameLocation(a: ParsedAddress | undefined, b: ParsedAddress | undefined): boolean {
+  if (a?.unit && b?.unit && a.unit !== b.unit) return false;
+  if (a?.zip && b?.zip) return a.zip === b.zip;
+  if (a?.state && b?.state && a.state !== b.state) return false;
+  return !(a?.city && b?.city && a.city !== b.city);
+}
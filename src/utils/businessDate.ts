@@ -0,0 +1,98 @@
+// Business-day helpers
+// Days, months and years are counted in the configured business time zone
+// (TIME_ZONE), never in the time zone of the browser or server running the code,
+// so a complaint filed at 10 PM in New York lands on the same day everywhere.
+
+import { TIME_ZONE } from '../config/dateConfig';
+import { getZonedParts, zonedTimeToUtc } from './timeZone';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Business day of an instant as "yyyy-MM-dd"
+ */
+export function toBusinessDayKey(date: Date, timeZone: string = TIME_ZONE): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Business month of an instant as "yyyy-MM"
+ */
+export function toBusinessMonthKey(date: Date, timeZone: string = TIME_ZONE): string {
+  return toBusinessDayKey(date, timeZone).slice(0, 7);
+}
+
+/**
+ * Business year of an instant
+ */
+export function getBusinessYear(date: Date, timeZone: string = TIME_ZONE): number {
+  return getZonedParts(date, timeZone).year;
+}
+
+/**
+ * The instant a business day ("yyyy-MM-dd") starts
+ */
+export function parseBusinessDay(dayKey: string, timeZone: string = TIME_ZONE): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/**
+ * Midnight at the start of the business day containing the instant
+ */
+export function startOfBusinessDay(date: Date, timeZone: string = TIME_ZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day }, timeZone);
+}
+
+/**
+ * Last millisecond of the business day containing the instant
+ */
+export function endOfBusinessDay(date: Date, timeZone: string = TIME_ZONE): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return new Date(zonedTimeToUtc({ year, month, day: day + 1 }, timeZone).getTime() - 1);
+}
+
+/**
+ * Midnight on the first of the business month containing the instant
+ */
+export function startOfBusinessMonth(date: Date, timeZone: string = TIME_ZONE): Date {
+  const { year, month } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ year, month, day: 1 }, timeZone);
+}
+
+/**
+ * Midnight on January 1st of the business year containing the instant
+ */
+export function startOfBusinessYear(date: Date, timeZone: string = TIME_ZONE): Date {
+  return zonedTimeToUtc({ year: getBusinessYear(date, timeZone), month: 1, day: 1 }, timeZone);
+}
+
+/**
+ * The same wall-clock time a number of calendar days earlier
+ * (unlike subtracting 24-hour periods, this stays put across DST changes)
+ */
+export function subBusinessDays(date: Date, days: number, timeZone: string = TIME_ZONE): Date {
+  const parts = getZonedParts(date, timeZone);
+  return zonedTimeToUtc({ ...parts, day: parts.day - days }, timeZone);
+}
+
+/**
+ * Start of a window of whole business days ending on the reference date's day
+ * e.g. 7 days as of Friday the 14th starts at midnight on Saturday the 8th
+ */
+export function startOfBusinessWindow(referenceDate: Date, days: number, timeZone: string = TIME_ZONE): Date {
+  return startOfBusinessDay(subBusinessDays(referenceDate, days - 1, timeZone), timeZone);
+}
+
+/**
+ * Formats an instant as a date in the business time zone (e.g. "Jun 14, 2024")
+ */
+export function formatBusinessDate(
+  date: Date,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' },
+  timeZone: string = TIME_ZONE
+): string {
+  return date.toLocaleDateString('en-US', { ...options, timeZone });
+}
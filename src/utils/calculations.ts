@@ -13,25 +13,39 @@ import {
   FlowThroughDeal,
   RegionSummary,
   YearSummary,
+  ZipSummary,
   MonthlyTrendSummary,
   LenderCriteriaSummary,
+  PlaintiffParty,
+  RegionModel,
+  WeekSettings,
 } from '../types';
+import { DEFAULT_WEEK_SETTINGS } from '../config/weekConfig';
+import { DEFAULT_REGION_MODEL, UNMAPPED_REGION } from '../config/regionConfig';
+import { CRITERIA_SOURCE } from '../config/criteriaConfig';
+import { sheetMeetsCriteria } from './criteriaEngine';
 import { normalizeCounty, normalizeLender } from './normalization';
-import { getRegionFromCounty, getOrderedRegions } from './regionMapping';
-import { subDays, startOfMonth, startOfYear, format } from 'date-fns';
+import { getComplaintRegion, getOrderedRegions } from './regionMapping';
+import { getPlaintiffParty } from './plaintiffParser';
+import {
+  formatBusinessDate,
+  getBusinessYear,
+  startOfBusinessMonth,
+  startOfBusinessWindow,
+  startOfBusinessYear,
+  toBusinessMonthKey,
+} from './businessDate';
+import { getWeekWindows } from './weekWindows';
 
 /**
- * Checks if a complaint meets criteria
+ * Checks if a complaint meets criteria: the sheet's "Meets Criteria?" flag, or the
+ * criteria engine's verdict when CRITERIA_SOURCE is 'engine' (see criteriaEngine.ts)
  */
 export function meetsCriteria(complaint: ProcessedComplaint): boolean {
-  if (!complaint.meetsCriteria) return false;
-  
-  // Ensure it's a string
-  const criteria = typeof complaint.meetsCriteria === 'string' 
-    ? complaint.meetsCriteria 
-    : String(complaint.meetsCriteria || '');
-  
-  return criteria.toLowerCase().includes('meets criteria');
+  if (CRITERIA_SOURCE === 'engine' && complaint.criteria) {
+    return complaint.criteria.meetsCriteria;
+  }
+  return sheetMeetsCriteria(complaint);
 }
 
 /**
@@ -41,15 +55,28 @@ function filterValidComplaints(complaints: ProcessedComplaint[]): ProcessedCompl
   return complaints.filter(c => c.isValid && !c.isDuplicate);
 }
 
+/**
+ * Checks if a complaint is dated after the reference ("as-of") date,
+ * i.e. it had not been filed yet as of that date. Undated complaints are kept.
+ */
+function isAfterReferenceDate(complaint: ProcessedComplaint, referenceDate: Date): boolean {
+  if (!complaint.complaintDate) return false;
+  const date = complaint.complaintDate instanceof Date
+    ? complaint.complaintDate
+    : new Date(complaint.complaintDate);
+  return date > referenceDate;
+}
+
 /**
  * Calculates four-week roll-up by county
  * Note: Total complaints includes all rows (even invalid/duplicates) for transparency
  *       But "meets criteria" metrics only count valid, non-duplicate rows
  */
 export function calculateFourWeekRollUp(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): FourWeekRollUp[] {
-  const fourWeeksAgo = subDays(new Date(), 28);
+  const fourWeeksAgo = startOfBusinessWindow(referenceDate, 28);
   
   // Get all recent complaints (including invalid/duplicates for total count)
   const allRecentComplaints = complaints.filter(c => {
@@ -57,7 +84,7 @@ export function calculateFourWeekRollUp(
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= fourWeeksAgo;
+    return date >= fourWeeksAgo && date <= referenceDate;
   });
   
   // Get valid, non-duplicate complaints for criteria-based metrics
@@ -113,18 +140,21 @@ export function calculateFourWeekRollUp(
 /**
  * Calculates year-to-date statistics
  */
-export function calculateYTDStats(complaints: ProcessedComplaint[]): YTDStats {
+export function calculateYTDStats(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
+): YTDStats {
   // Only process valid, non-duplicate complaints
   const validComplaints = filterValidComplaints(complaints);
   
-  const yearStart = startOfYear(new Date());
+  const yearStart = startOfBusinessYear(referenceDate);
   
   const ytdComplaints = validComplaints.filter(c => {
     if (!c.complaintDate) return false;
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= yearStart;
+    return date >= yearStart && date <= referenceDate;
   });
   
   const stats: YTDStats = {
@@ -149,19 +179,20 @@ export function calculateYTDStats(complaints: ProcessedComplaint[]): YTDStats {
  * Calculates current month statistics
  */
 export function calculateCurrentMonthStats(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): CurrentMonthStats {
   // Only process valid, non-duplicate complaints
   const validComplaints = filterValidComplaints(complaints);
   
-  const monthStart = startOfMonth(new Date());
+  const monthStart = startOfBusinessMonth(referenceDate);
   
   const monthComplaints = validComplaints.filter(c => {
     if (!c.complaintDate) return false;
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= monthStart;
+    return date >= monthStart && date <= referenceDate;
   });
   
   const stats: CurrentMonthStats = {
@@ -186,21 +217,20 @@ export function calculateCurrentMonthStats(
  * Calculates lender analysis (criteria only)
  */
 export function calculateLenderAnalysis(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): LenderAnalysis[] {
   // Only process valid, non-duplicate complaints that meet criteria
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
   
-  const yearStart = startOfYear(new Date());
-  const monthStart = startOfMonth(new Date());
+  const yearStart = startOfBusinessYear(referenceDate);
+  const monthStart = startOfBusinessMonth(referenceDate);
   
   const lenderMap = new Map<string, LenderAnalysis>();
   
   qualifyingComplaints.forEach(complaint => {
-    const lender = normalizeLender(
-      complaint.normalizedLender || complaint.lender || complaint.plaintiff
-    );
+    const lender = complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff);
     
     if (!lenderMap.has(lender)) {
       lenderMap.set(lender, {
@@ -219,14 +249,14 @@ export function calculateLenderAnalysis(
         ? new Date(complaint.complaintDate)
         : null;
     
-    if (date && date >= yearStart) {
+    if (date && date >= yearStart && date <= referenceDate) {
       stats.ytdComplaints++;
       if (complaint.upb) {
         stats.ytdUPB += complaint.upb;
       }
     }
     
-    if (date && date >= monthStart) {
+    if (date && date >= monthStart && date <= referenceDate) {
       stats.currentMonthComplaints++;
       if (complaint.upb) {
         stats.currentMonthUPB += complaint.upb;
@@ -242,13 +272,14 @@ export function calculateLenderAnalysis(
  * Gets most recent complaints (last 15 days, criteria only)
  */
 export function getRecentComplaints(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): RecentComplaint[] {
   // Only process valid, non-duplicate complaints that meet criteria
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
   
-  const fifteenDaysAgo = subDays(new Date(), 15);
+  const fifteenDaysAgo = startOfBusinessWindow(referenceDate, 15);
   
   const recent = qualifyingComplaints
     .filter(c => {
@@ -257,7 +288,7 @@ export function getRecentComplaints(
       const date = c.complaintDate instanceof Date 
         ? c.complaintDate 
         : new Date(c.complaintDate);
-      return date >= fifteenDaysAgo;
+      return date >= fifteenDaysAgo && date <= referenceDate;
     })
     .map(c => {
       const date = c.complaintDate instanceof Date 
@@ -290,27 +321,27 @@ export function formatCurrency(value: number): string {
 }
 
 /**
- * Formats date value
+ * Formats date value (as a day in the business time zone)
  */
 export function formatDate(date: Date | string | undefined): string {
   if (!date) return 'N/A';
   const d = date instanceof Date ? date : new Date(date);
   if (isNaN(d.getTime())) return 'Invalid Date';
-  return d.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
+  return formatBusinessDate(d);
 }
 
 /**
- * Calculates four-week roll-up with weekly breakdown (only complaints meeting criteria)
+ * Calculates the roll-up with a weekly breakdown (only complaints meeting criteria)
+ * @param weekSettings - Week mode and number of weeks (see weekWindows.ts)
  */
 export function calculateFourWeekRollUpWeekly(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  weekSettings: WeekSettings = DEFAULT_WEEK_SETTINGS
 ): FourWeekRollUpWeekly[] {
-  const now = new Date();
-  const fourWeeksAgo = subDays(now, 28);
+  // Most recent first; the oldest window's start bounds the whole roll-up
+  const windows = getWeekWindows(referenceDate, weekSettings);
+  const earliest = windows[windows.length - 1].start;
   
   // Only get valid, non-duplicate complaints that meet criteria
   const validComplaints = filterValidComplaints(complaints);
@@ -319,15 +350,9 @@ export function calculateFourWeekRollUpWeekly(
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= fourWeeksAgo;
+    return date >= earliest && date <= referenceDate;
   });
   
-  // Calculate week boundaries
-  const week4Start = subDays(now, 28);
-  const week3Start = subDays(now, 21);
-  const week2Start = subDays(now, 14);
-  const week1Start = subDays(now, 7);
-  
   const countyMap = new Map<string, FourWeekRollUpWeekly>();
   
   qualifyingComplaints.forEach(complaint => {
@@ -340,10 +365,7 @@ export function calculateFourWeekRollUpWeekly(
     if (!countyMap.has(county)) {
       countyMap.set(county, {
         county,
-        week1: { week: 1, totalComplaints: 0, totalUPB: 0 },
-        week2: { week: 2, totalComplaints: 0, totalUPB: 0 },
-        week3: { week: 3, totalComplaints: 0, totalUPB: 0 },
-        week4: { week: 4, totalComplaints: 0, totalUPB: 0 },
+        weeks: windows.map(({ week }) => ({ week, totalComplaints: 0, totalUPB: 0 })),
         totalComplaints: 0,
         totalUPB: 0,
         totalMeetsCriteria: 0,
@@ -354,18 +376,10 @@ export function calculateFourWeekRollUpWeekly(
     const stats = countyMap.get(county)!;
     
     // Determine which week
-    if (date >= week1Start) {
-      stats.week1.totalComplaints++;
-      stats.week1.totalUPB += upb;
-    } else if (date >= week2Start) {
-      stats.week2.totalComplaints++;
-      stats.week2.totalUPB += upb;
-    } else if (date >= week3Start) {
-      stats.week3.totalComplaints++;
-      stats.week3.totalUPB += upb;
-    } else if (date >= week4Start) {
-      stats.week4.totalComplaints++;
-      stats.week4.totalUPB += upb;
+    const weekIndex = windows.findIndex(window => date >= window.start && date <= window.end);
+    if (weekIndex >= 0) {
+      stats.weeks[weekIndex].totalComplaints++;
+      stats.weeks[weekIndex].totalUPB += upb;
     }
     
     stats.totalComplaints++;
@@ -384,12 +398,13 @@ export function calculateFourWeekRollUpWeekly(
  * Gets complaints from last 7 days (meeting criteria only)
  */
 export function getLast7DaysComplaints(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): Last7DaysComplaint[] {
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
   
-  const sevenDaysAgo = subDays(new Date(), 7);
+  const sevenDaysAgo = startOfBusinessWindow(referenceDate, 7);
   
   return qualifyingComplaints
     .filter(c => {
@@ -397,7 +412,7 @@ export function getLast7DaysComplaints(
       const date = c.complaintDate instanceof Date 
         ? c.complaintDate 
         : new Date(c.complaintDate);
-      return date >= sevenDaysAgo;
+      return date >= sevenDaysAgo && date <= referenceDate;
     })
     .map(c => {
       const date = c.complaintDate instanceof Date 
@@ -419,7 +434,8 @@ export function getLast7DaysComplaints(
  * Calculates monthly lender data (top lenders by complaints meeting criteria)
  */
 export function calculateMonthlyLenderData(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): MonthlyLenderData[] {
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
@@ -427,12 +443,12 @@ export function calculateMonthlyLenderData(
   const lenderMonthMap = new Map<string, MonthlyLenderData>();
   
   qualifyingComplaints.forEach(complaint => {
-    if (!complaint.complaintDate) return;
+    if (!complaint.complaintDate || isAfterReferenceDate(complaint, referenceDate)) return;
     
     const date = complaint.complaintDate instanceof Date 
       ? complaint.complaintDate 
       : new Date(complaint.complaintDate);
-    const month = format(date, 'yyyy-MM');
+    const month = toBusinessMonthKey(date);
     const lender = complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff);
     const key = `${lender}|${month}`;
     
@@ -464,18 +480,19 @@ export function calculateMonthlyLenderData(
  * Calculates monthly totals vs criteria (complaints + UPB)
  */
 export function calculateMonthlyTrendSummary(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): MonthlyTrendSummary[] {
   const validComplaints = filterValidComplaints(complaints);
   const monthMap = new Map<string, MonthlyTrendSummary>();
 
   validComplaints.forEach(complaint => {
-    if (!complaint.complaintDate) return;
+    if (!complaint.complaintDate || isAfterReferenceDate(complaint, referenceDate)) return;
 
     const date = complaint.complaintDate instanceof Date
       ? complaint.complaintDate
       : new Date(complaint.complaintDate);
-    const month = format(date, 'yyyy-MM');
+    const month = toBusinessMonthKey(date);
 
     if (!monthMap.has(month)) {
       monthMap.set(month, {
@@ -504,30 +521,35 @@ export function calculateMonthlyTrendSummary(
 
 /**
  * Calculates lender totals for complaints that meet criteria
+ * @param groupBy - Which plaintiff party to total by: the lender, or the
+ *   trustee, trust or servicer parsed from the plaintiff (names compared case-insensitively)
  */
 export function calculateLenderCriteriaSummary(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  groupBy: PlaintiffParty = 'lender'
 ): LenderCriteriaSummary[] {
   const validComplaints = filterValidComplaints(complaints);
-  const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
+  const qualifyingComplaints = validComplaints.filter(
+    c => meetsCriteria(c) && !isAfterReferenceDate(c, referenceDate)
+  );
 
   const lenderMap = new Map<string, LenderCriteriaSummary>();
 
   qualifyingComplaints.forEach(complaint => {
-    const lender = normalizeLender(
-      complaint.normalizedLender || complaint.lender || complaint.plaintiff
-    );
+    const lender = getPlaintiffParty(complaint, groupBy);
+    const key = lender.toLowerCase();
     const upb = typeof complaint.upb === 'number' && !isNaN(complaint.upb) ? complaint.upb : 0;
 
-    if (!lenderMap.has(lender)) {
-      lenderMap.set(lender, {
+    if (!lenderMap.has(key)) {
+      lenderMap.set(key, {
         lender,
         totalComplaints: 0,
         totalUPB: 0,
       });
     }
 
-    const stats = lenderMap.get(lender)!;
+    const stats = lenderMap.get(key)!;
     stats.totalComplaints++;
     stats.totalUPB += upb;
   });
@@ -539,12 +561,13 @@ export function calculateLenderCriteriaSummary(
  * Gets flow-through deals (YTD - all deals meeting criteria)
  */
 export function getFlowThroughYTD(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): FlowThroughDeal[] {
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
   
-  const yearStart = startOfYear(new Date());
+  const yearStart = startOfBusinessYear(referenceDate);
   
   return qualifyingComplaints
     .filter(c => {
@@ -552,7 +575,7 @@ export function getFlowThroughYTD(
       const date = c.complaintDate instanceof Date 
         ? c.complaintDate 
         : new Date(c.complaintDate);
-      return date >= yearStart;
+      return date >= yearStart && date <= referenceDate;
     })
     .map(c => {
       const date = c.complaintDate instanceof Date 
@@ -560,6 +583,7 @@ export function getFlowThroughYTD(
         : new Date(c.complaintDate!);
       
       return {
+        ...(c.rowId && { rowId: c.rowId }),
         propertyAddress: c.propertyAddress || 'Unknown',
         county: c.normalizedCounty || normalizeCounty(c.county),
         lender: c.normalizedLender || normalizeLender(c.lender || c.plaintiff),
@@ -572,16 +596,17 @@ export function getFlowThroughYTD(
 }
 
 /**
- * Gets flow-through deals (Last Week - deals meeting criteria in last 7 calendar days)
+ * Gets flow-through deals (Last Week - deals meeting criteria in the last 7 business days)
  */
 export function getFlowThroughLastWeek(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): FlowThroughDeal[] {
   const validComplaints = filterValidComplaints(complaints);
   const qualifyingComplaints = validComplaints.filter(c => meetsCriteria(c));
   
   // Last 7 calendar days (same as Last7DaysTable)
-  const lastWeekStart = subDays(new Date(), 7);
+  const lastWeekStart = startOfBusinessWindow(referenceDate, 7);
   
   return qualifyingComplaints
     .filter(c => {
@@ -589,7 +614,7 @@ export function getFlowThroughLastWeek(
       const date = c.complaintDate instanceof Date 
         ? c.complaintDate 
         : new Date(c.complaintDate);
-      return date >= lastWeekStart;
+      return date >= lastWeekStart && date <= referenceDate;
     })
     .map(c => {
       const date = c.complaintDate instanceof Date 
@@ -597,6 +622,7 @@ export function getFlowThroughLastWeek(
         : new Date(c.complaintDate!);
       
       return {
+        ...(c.rowId && { rowId: c.rowId }),
         propertyAddress: c.propertyAddress || 'Unknown',
         county: c.normalizedCounty || normalizeCounty(c.county),
         lender: c.normalizedLender || normalizeLender(c.lender || c.plaintiff),
@@ -610,14 +636,17 @@ export function getFlowThroughLastWeek(
 
 /**
  * Calculates region summary for current month
+ * @param regions - The region model giving the regions and their order
  */
 export function calculateCurrentMonthRegionSummary(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  regions: RegionModel = DEFAULT_REGION_MODEL
 ): RegionSummary[] {
   // Only process valid, non-duplicate complaints
   const validComplaints = filterValidComplaints(complaints);
   
-  const monthStart = startOfMonth(new Date());
+  const monthStart = startOfBusinessMonth(referenceDate);
   
   // Filter to current month
   const monthComplaints = validComplaints.filter(c => {
@@ -625,14 +654,14 @@ export function calculateCurrentMonthRegionSummary(
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= monthStart;
+    return date >= monthStart && date <= referenceDate;
   });
   
   // Group by region
   const regionMap = new Map<string, RegionSummary>();
   
   // Initialize all regions
-  getOrderedRegions().forEach(region => {
+  getOrderedRegions(regions).forEach(region => {
     regionMap.set(region, {
       region,
       totalComplaints: 0,
@@ -644,10 +673,10 @@ export function calculateCurrentMonthRegionSummary(
   
   // Process complaints
   monthComplaints.forEach(complaint => {
-    const region = getRegionFromCounty(complaint.normalizedCounty || complaint.county);
+    const region = getComplaintRegion(complaint, regions);
     
     // Skip Other/Unmapped regions (as per requirement)
-    if (region === 'Other/Unmapped') {
+    if (region === UNMAPPED_REGION) {
       return;
     }
     
@@ -669,7 +698,7 @@ export function calculateCurrentMonthRegionSummary(
   });
   
   // Convert to array and sort by region order
-  const orderedRegions = getOrderedRegions();
+  const orderedRegions = getOrderedRegions(regions);
   return orderedRegions
     .map(region => regionMap.get(region)!)
     .filter(stats => stats.totalComplaints > 0); // Only include regions with data
@@ -677,14 +706,17 @@ export function calculateCurrentMonthRegionSummary(
 
 /**
  * Calculates region summary for year-to-date
+ * @param regions - The region model giving the regions and their order
  */
 export function calculateYTDRegionSummary(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  regions: RegionModel = DEFAULT_REGION_MODEL
 ): RegionSummary[] {
   // Only process valid, non-duplicate complaints
   const validComplaints = filterValidComplaints(complaints);
   
-  const yearStart = startOfYear(new Date());
+  const yearStart = startOfBusinessYear(referenceDate);
   
   // Filter to YTD
   const ytdComplaints = validComplaints.filter(c => {
@@ -692,14 +724,14 @@ export function calculateYTDRegionSummary(
     const date = c.complaintDate instanceof Date 
       ? c.complaintDate 
       : new Date(c.complaintDate);
-    return date >= yearStart;
+    return date >= yearStart && date <= referenceDate;
   });
   
   // Group by region
   const regionMap = new Map<string, RegionSummary>();
   
   // Initialize all regions
-  getOrderedRegions().forEach(region => {
+  getOrderedRegions(regions).forEach(region => {
     regionMap.set(region, {
       region,
       totalComplaints: 0,
@@ -711,10 +743,10 @@ export function calculateYTDRegionSummary(
   
   // Process complaints
   ytdComplaints.forEach(complaint => {
-    const region = getRegionFromCounty(complaint.normalizedCounty || complaint.county);
+    const region = getComplaintRegion(complaint, regions);
     
     // Skip Other/Unmapped regions (as per requirement)
-    if (region === 'Other/Unmapped') {
+    if (region === UNMAPPED_REGION) {
       return;
     }
     
@@ -736,17 +768,71 @@ export function calculateYTDRegionSummary(
   });
   
   // Convert to array and sort by region order
-  const orderedRegions = getOrderedRegions();
+  const orderedRegions = getOrderedRegions(regions);
   return orderedRegions
     .map(region => regionMap.get(region)!)
     .filter(stats => stats.totalComplaints > 0); // Only include regions with data
 }
 
+/**
+ * Calculates year-to-date totals by the ZIP code of the property address,
+ * most complaints first (addresses without a ZIP code last)
+ */
+export function calculateZipSummary(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
+): ZipSummary[] {
+  const yearStart = startOfBusinessYear(referenceDate);
+  const ytdComplaints = filterValidComplaints(complaints).filter(c => {
+    if (!c.complaintDate) return false;
+    const date = c.complaintDate instanceof Date ? c.complaintDate : new Date(c.complaintDate);
+    return date >= yearStart && date <= referenceDate;
+  });
+
+  const zipMap = new Map<string, { summary: ZipSummary; places: Map<string, number> }>();
+  ytdComplaints.forEach(complaint => {
+    const zip = complaint.address?.zip ?? '';
+    const entry = zipMap.get(zip) ?? {
+      summary: { zip, totalComplaints: 0, totalUPB: 0, complaintsMeetingCriteria: 0, upbMeetingCriteria: 0 },
+      places: new Map<string, number>(),
+    };
+    zipMap.set(zip, entry);
+
+    const upb = typeof complaint.upb === 'number' && !isNaN(complaint.upb) ? complaint.upb : 0;
+    entry.summary.totalComplaints++;
+    entry.summary.totalUPB += upb;
+    if (meetsCriteria(complaint)) {
+      entry.summary.complaintsMeetingCriteria++;
+      entry.summary.upbMeetingCriteria += upb;
+    }
+
+    const { city, state } = complaint.address ?? {};
+    if (city || state) {
+      const place = `${city ?? ''}|${state ?? ''}`;
+      entry.places.set(place, (entry.places.get(place) ?? 0) + 1);
+    }
+  });
+
+  return [...zipMap.values()]
+    .map(({ summary, places }) => {
+      // The city and state most of its addresses name
+      const [place] = [...places.entries()].sort((a, b) => b[1] - a[1]);
+      if (!place) return summary;
+      const [city, state] = place[0].split('|');
+      return { ...summary, ...(city && { city }), ...(state && { state }) };
+    })
+    .sort((a, b) => {
+      if (!a.zip !== !b.zip) return a.zip ? -1 : 1;
+      return b.totalComplaints - a.totalComplaints || a.zip.localeCompare(b.zip);
+    });
+}
+
 /**
  * Calculates year-based summary (2024, 2025)
  */
 export function calculateYearSummary(
-  complaints: ProcessedComplaint[]
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date()
 ): YearSummary[] {
   // Only process valid, non-duplicate complaints
   const validComplaints = filterValidComplaints(complaints);
@@ -768,13 +854,13 @@ export function calculateYearSummary(
   
   // Process complaints
   validComplaints.forEach(complaint => {
-    if (!complaint.complaintDate) return;
+    if (!complaint.complaintDate || isAfterReferenceDate(complaint, referenceDate)) return;
     
     const date = complaint.complaintDate instanceof Date 
       ? complaint.complaintDate 
       : new Date(complaint.complaintDate);
     
-    const year = date.getFullYear().toString();
+    const year = getBusinessYear(date).toString();
     
     // Only process 2024, 2025
     if (!years.includes(year)) {
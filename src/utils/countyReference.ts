@@ -0,0 +1,163 @@
+// County reference lookups
+// Resolves county names from the sheet to a county in config/countyReference.ts
+// (and so its FIPS code), suggesting close matches for names it doesn't know.
+
+import { CountyReference, CountyResolution } from '../types';
+import { COUNTY_REFERENCE } from '../config/countyReference';
+import { normalizeCounty } from './normalization';
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Reduces a county name to the form names and aliases are compared in:
+ * normalized, without punctuation, with "Saint"/"Fort" shortened
+ */
+export function toReferenceKey(county: string): string {
+  // Spelled out first: normalizeCounty runs "St Lucie" together
+  const expanded = county.replace(/\bst\b\.?\s*/gi, 'saint ').replace(/\bft\b\.?\s*/gi, 'fort ');
+  return normalizeCounty(expanded)
+    .toLowerCase()
+    .replace(/[.']/g, '')
+    .replace(/-/g, ' ')
+    .replace(/\bsaint\b/g, 'st')
+    .replace(/\bfort\b/g, 'ft')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+interface ReferenceIndex {
+  byKey: Map<string, CountyReference[]>;
+  byFips: Map<string, CountyReference>;
+  states: Set<string>;
+}
+
+// Indexes are built once per reference list
+const indexes = new WeakMap<CountyReference[], ReferenceIndex>();
+
+function getIndex(reference: CountyReference[]): ReferenceIndex {
+  let index = indexes.get(reference);
+  if (!index) {
+    index = { byKey: new Map(), byFips: new Map(), states: new Set() };
+    for (const county of reference) {
+      for (const name of [county.name, ...county.aliases]) {
+        const key = toReferenceKey(name);
+        const matches = index.byKey.get(key) ?? [];
+        if (!matches.includes(county)) matches.push(county);
+        index.byKey.set(key, matches);
+      }
+      index.byFips.set(county.fips, county);
+      index.states.add(county.state);
+    }
+    indexes.set(reference, index);
+  }
+  return index;
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Counties whose name or an alias is within a couple of edits of the key,
+ * closest first (one edit for short names, two otherwise)
+ */
+function findSuggestions(key: string, candidates: CountyReference[]): CountyReference[] {
+  const maxDistance = key.length <= 4 ? 1 : 2;
+  const distances = new Map<CountyReference, number>();
+
+  for (const county of candidates) {
+    for (const name of [county.name, ...county.aliases]) {
+      const distance = editDistance(key, toReferenceKey(name));
+      if (distance <= maxDistance && distance < (distances.get(county) ?? Infinity)) {
+        distances.set(county, distance);
+      }
+    }
+  }
+
+  return Array.from(distances)
+    .sort(([a, da], [b, db]) => da - db || a.name.localeCompare(b.name) || a.state.localeCompare(b.state))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(([county]) => county);
+}
+
+/**
+ * Resolves a county name (in any spelling normalizeCounty understands, or a
+ * known alias) to a county in the reference
+ * @param state - Postal code narrowing the match, e.g. from the county's region
+ */
+export function resolveCounty(
+  county: string | undefined | null,
+  state?: string,
+  reference: CountyReference[] = COUNTY_REFERENCE
+): CountyResolution {
+  const index = getIndex(reference);
+  const key = county ? toReferenceKey(county) : '';
+  const inState = (candidates: CountyReference[]) =>
+    state ? candidates.filter(candidate => candidate.state === state) : candidates;
+
+  const exact = index.byKey.get(key) ?? [];
+  const matches = inState(exact);
+  if (matches.length === 1) return { status: 'resolved', county: matches[0] };
+  if (matches.length > 1) return { status: 'ambiguous', candidates: matches };
+
+  // A county of that name elsewhere is a better suggestion than a near miss in the state
+  const suggestions = key ? findSuggestions(key, inState(reference)) : [];
+  return { status: 'unresolved', suggestions: suggestions.length > 0 ? suggestions : exact.slice(0, MAX_SUGGESTIONS) };
+}
+
+/**
+ * The reference county with a FIPS code
+ */
+export function getCountyByFips(
+  fips: string | undefined,
+  reference: CountyReference[] = COUNTY_REFERENCE
+): CountyReference | undefined {
+  return fips ? getIndex(reference).byFips.get(fips) : undefined;
+}
+
+/**
+ * Whether the reference lists the counties of a state
+ */
+export function isStateCovered(state: string, reference: CountyReference[] = COUNTY_REFERENCE): boolean {
+  return getIndex(reference).states.has(state);
+}
+
+/**
+ * Describes a county the reference couldn't place, for the data-quality issues list
+ * @param state - The postal code the county was resolved in, if any
+ * Returns undefined for resolved counties
+ */
+export function describeCountyResolution(
+  county: string,
+  resolution: CountyResolution,
+  state?: string
+): string | undefined {
+  const label = (match: CountyReference) => `${match.name}, ${match.state}`;
+
+  if (resolution.status === 'ambiguous') {
+    const states = resolution.candidates.map(candidate => candidate.state).join(', ');
+    return `County "${county}" is in more than one state (${states}); give its region a state or add a State column`;
+  }
+  if (resolution.status === 'unresolved') {
+    const hint = resolution.suggestions.length > 0
+      ? ` (did you mean ${resolution.suggestions.map(label).join(' or ')}?)`
+      : '';
+    return `County "${county}" is not in the county reference${state ? ` for ${state}` : ''}${hint}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,249 @@
+// Criteria engine
+// Evaluates complaints against the configured criteria rules, explains which
+// rules passed or failed, and reconciles the result with the sheet's own flag.
+
+import {
+  CriteriaContext,
+  CriteriaEvaluation,
+  CriteriaMismatch,
+  CriteriaReconciliation,
+  CriteriaRule,
+  CriteriaRuleResult,
+  ProcessedComplaint,
+} from '../types';
+import { CRITERIA_RULES } from '../config/criteriaConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { DEFAULT_REGION_MODEL, UNMAPPED_REGION } from '../config/regionConfig';
+import { normalizeCounty, normalizeLender } from './normalization';
+import { getComplaintRegion, getOrderedRegions } from './regionMapping';
+import { resolveLender } from './lenderResolution';
+import { toBusinessDayKey } from './businessDate';
+import { getRowLabel } from './rowFingerprint';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the sheet's "Meets Criteria?" text says the complaint qualifies
+ */
+export function sheetMeetsCriteria(complaint: ProcessedComplaint): boolean {
+  if (!complaint.meetsCriteria) return false;
+
+  // Ensure it's a string
+  const criteria = typeof complaint.meetsCriteria === 'string'
+    ? complaint.meetsCriteria
+    : String(complaint.meetsCriteria || '');
+
+  return criteria.toLowerCase().includes('meets criteria');
+}
+
+const formatAmount = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Calendar days between two instants' business days
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.round(
+    (Date.parse(toBusinessDayKey(to)) - Date.parse(toBusinessDayKey(from))) / DAY_MS
+  );
+}
+
+function toComplaintDate(complaint: ProcessedComplaint): Date | undefined {
+  if (!complaint.complaintDate) return undefined;
+  const date = complaint.complaintDate instanceof Date
+    ? complaint.complaintDate
+    : new Date(complaint.complaintDate);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Checks one rule, returning whether it passed and why
+ */
+function evaluateRule(
+  rule: CriteriaRule,
+  complaint: ProcessedComplaint,
+  referenceDate: Date,
+  context: CriteriaContext
+): CriteriaRuleResult {
+  const result = (passed: boolean, detail: string): CriteriaRuleResult => ({
+    ruleId: rule.id,
+    label: rule.label,
+    passed,
+    detail,
+  });
+
+  switch (rule.type) {
+    case 'upb-range': {
+      const upb = complaint.upb;
+      if (typeof upb !== 'number' || isNaN(upb)) return result(false, 'No UPB');
+      if (rule.min !== undefined && upb < rule.min) {
+        return result(false, `UPB ${formatAmount(upb)} is below ${formatAmount(rule.min)}`);
+      }
+      if (rule.max !== undefined && upb > rule.max) {
+        return result(false, `UPB ${formatAmount(upb)} is above ${formatAmount(rule.max)}`);
+      }
+      return result(true, `UPB ${formatAmount(upb)}`);
+    }
+
+    case 'county': {
+      const county = complaint.normalizedCounty || normalizeCounty(complaint.county);
+      const allowed = rule.counties.some(name => sameName(normalizeCounty(name), county));
+      return result(allowed, allowed ? `${county} County` : `${county || 'Unknown'} County is not included`);
+    }
+
+    case 'region': {
+      const model = context.regions ?? DEFAULT_REGION_MODEL;
+      const region = getComplaintRegion(complaint, model);
+      const allowed = region !== UNMAPPED_REGION &&
+        (rule.regions ?? getOrderedRegions(model)).some(name => sameName(name, region));
+      return result(allowed, allowed ? region : `${region} is not a covered region`);
+    }
+
+    case 'lender-exclusion': {
+      // Both sides under their master list names, so "Wilmington Savings Fund
+      // Society" excludes the complaints consolidated as "Wilmington"
+      const lenders = context.lenders ?? DEFAULT_LENDER_MASTER_LIST;
+      const lender = complaint.normalizedLender || resolveLender(complaint.lender || complaint.plaintiff, lenders);
+      const excluded = rule.lenders.some(name => sameName(resolveLender(name, lenders), lender));
+      return result(!excluded, excluded ? `${lender} is excluded` : lender);
+    }
+
+    case 'complaint-age': {
+      const date = toComplaintDate(complaint);
+      if (!date) return result(false, 'No complaint date');
+      const age = daysBetween(date, referenceDate);
+      return age <= rule.maxDays
+        ? result(true, `Filed ${age} days ago`)
+        : result(false, `Filed ${age} days ago (limit ${rule.maxDays})`);
+    }
+
+    case 'document-title': {
+      const title = String(complaint.documentTitle || '').toLowerCase();
+      const keyword = rule.keywords.find(word => title.includes(word.toLowerCase()));
+      if (rule.mode === 'require') {
+        if (!title) return result(false, 'No document title');
+        return keyword
+          ? result(true, `Title mentions "${keyword}"`)
+          : result(false, `Title mentions none of ${rule.keywords.map(word => `"${word}"`).join(', ')}`);
+      }
+      return keyword
+        ? result(false, `Title mentions "${keyword}"`)
+        : result(true, 'No excluded keywords in the title');
+    }
+  }
+}
+
+/**
+ * Checks the enabled rules against the active settings: a region rule naming a
+ * region the model doesn't have (e.g. after a rename) would silently fail every
+ * complaint that was in it
+ * @returns A message for each problem, for the Criteria view
+ */
+export function validateCriteriaRules(
+  rules: CriteriaRule[] = CRITERIA_RULES,
+  context: CriteriaContext = {}
+): string[] {
+  const regions = getOrderedRegions(context.regions ?? DEFAULT_REGION_MODEL);
+  return rules
+    .filter(rule => rule.enabled !== false)
+    .flatMap(rule =>
+      rule.type === 'region'
+        ? (rule.regions ?? [])
+            .filter(name => !regions.some(region => sameName(region, name)))
+            .map(name => `"${rule.label}" names region "${name}", which the region model doesn't have`)
+        : []
+    );
+}
+
+/**
+ * Evaluates a complaint against every enabled rule
+ * @param referenceDate - The as-of date complaint ages are measured to
+ * @param context - The active settings rules are evaluated with, e.g. the lender master list
+ */
+export function evaluateCriteria(
+  complaint: ProcessedComplaint,
+  referenceDate: Date = new Date(),
+  rules: CriteriaRule[] = CRITERIA_RULES,
+  context: CriteriaContext = {}
+): CriteriaEvaluation {
+  const results = rules
+    .filter(rule => rule.enabled !== false)
+    .map(rule => evaluateRule(rule, complaint, referenceDate, context));
+
+  return { meetsCriteria: results.every(result => result.passed), results };
+}
+
+/**
+ * Attaches the engine's verdict to each complaint (as new objects)
+ */
+export function applyCriteria(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  rules: CriteriaRule[] = CRITERIA_RULES,
+  context: CriteriaContext = {}
+): ProcessedComplaint[] {
+  return complaints.map(complaint => ({
+    ...complaint,
+    criteria: evaluateCriteria(complaint, referenceDate, rules, context),
+  }));
+}
+
+/**
+ * Compares the engine's verdict with the sheet's "Meets Criteria?" flag for
+ * every valid, non-duplicate complaint
+ */
+export function reconcileCriteria(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  rules: CriteriaRule[] = CRITERIA_RULES,
+  context: CriteriaContext = {}
+): CriteriaReconciliation {
+  const reconciliation: CriteriaReconciliation = {
+    evaluated: 0,
+    agreed: 0,
+    engineOnly: [],
+    sheetOnly: [],
+    ruleFailures: rules
+      .filter(rule => rule.enabled !== false)
+      .map(rule => ({ ruleId: rule.id, label: rule.label, failed: 0 })),
+    ruleWarnings: validateCriteriaRules(rules, context),
+  };
+
+  complaints.forEach((complaint, rowIndex) => {
+    if (!complaint.isValid || complaint.isDuplicate) return;
+
+    const evaluation = evaluateCriteria(complaint, referenceDate, rules, context);
+    const sheetVerdict = sheetMeetsCriteria(complaint);
+    reconciliation.evaluated++;
+
+    evaluation.results.forEach(result => {
+      const failures = reconciliation.ruleFailures.find(rule => rule.ruleId === result.ruleId);
+      if (failures && !result.passed) failures.failed++;
+    });
+
+    if (evaluation.meetsCriteria === sheetVerdict) {
+      reconciliation.agreed++;
+      return;
+    }
+
+    const mismatch: CriteriaMismatch = {
+      rowIndex,
+      rowLabel: getRowLabel(complaint, rowIndex),
+      propertyAddress: complaint.propertyAddress || 'Unknown',
+      county: complaint.normalizedCounty || normalizeCounty(complaint.county),
+      lender: complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff),
+      upb: complaint.upb || 0,
+      complaintDate: toComplaintDate(complaint),
+      sheetValue: complaint.meetsCriteria ? String(complaint.meetsCriteria) : '',
+      sheetMeetsCriteria: sheetVerdict,
+      engineMeetsCriteria: evaluation.meetsCriteria,
+      failedRules: evaluation.results.filter(result => !result.passed),
+    };
+
+    (evaluation.meetsCriteria ? reconciliation.engineOnly : reconciliation.sheetOnly).push(mismatch);
+  });
+
+  return reconciliation;
+}
@@ -0,0 +1,253 @@
+// Criteria simulation
+// Re-runs the region, year and lender summaries with what-if thresholds layered
+// over the configured criteria rules, and lists the deals whose verdict changes.
+// The summaries are compared with the verdicts the dashboard uses (CRITERIA_SOURCE).
+
+import {
+  CriteriaEvaluation,
+  CriteriaRule,
+  CriteriaScenario,
+  CriteriaSimulation,
+  CriteriaSimulationDeal,
+  CriteriaSource,
+  LenderCriteriaDelta,
+  LenderMasterList,
+  LenderCriteriaSummary,
+  ProcessedComplaint,
+  RegionModel,
+  RegionSummary,
+  YearSummary,
+} from '../types';
+import { CRITERIA_RULES, CRITERIA_SOURCE } from '../config/criteriaConfig';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { evaluateCriteria, sheetMeetsCriteria } from './criteriaEngine';
+import {
+  calculateLenderCriteriaSummary,
+  calculateYearSummary,
+  calculateYTDRegionSummary,
+  formatCurrency,
+} from './calculations';
+import { normalizeCounty, normalizeLender } from './normalization';
+import { diffSummaries } from './snapshotDiff';
+import { getRowLabel } from './rowFingerprint';
+
+export const TOP_LENDER_COUNT = 10;
+
+const isEnabled = (rule: CriteriaRule) => rule.enabled !== false;
+
+/**
+ * Reads the scenario the configured rules already describe, as the simulator's starting point
+ */
+export function getScenarioFromRules(rules: CriteriaRule[] = CRITERIA_RULES): CriteriaScenario {
+  const enabled = rules.filter(isEnabled);
+  const upbRule = enabled.find(rule => rule.type === 'upb-range');
+
+  return {
+    minUpb: upbRule?.type === 'upb-range' && upbRule.min !== undefined ? upbRule.min : null,
+    includedCounties: enabled.flatMap(rule => (rule.type === 'county' ? rule.counties : [])),
+    excludedLenders: enabled.flatMap(rule => (rule.type === 'lender-exclusion' ? rule.lenders : [])),
+  };
+}
+
+/**
+ * Replaces the enabled rules of one type with a single rule (or none), keeping
+ * the first one's position so results stay in the configured order
+ */
+function replaceRules(
+  rules: CriteriaRule[],
+  type: CriteriaRule['type'],
+  replacement: CriteriaRule | null
+): CriteriaRule[] {
+  const position = rules.findIndex(rule => isEnabled(rule) && rule.type === type);
+  const kept = rules.filter(rule => !(isEnabled(rule) && rule.type === type));
+  if (!replacement) return kept;
+  if (position === -1) return [...kept, replacement];
+  kept.splice(position, 0, replacement);
+  return kept;
+}
+
+function describeUpbRange(min: number | undefined, max: number | undefined): string {
+  if (min !== undefined && max !== undefined) {
+    return `UPB between ${formatCurrency(min)} and ${formatCurrency(max)}`;
+  }
+  if (min !== undefined) return `UPB at least ${formatCurrency(min)}`;
+  if (max !== undefined) return `UPB at most ${formatCurrency(max)}`;
+  return 'Has a UPB';
+}
+
+/**
+ * Builds the rules a scenario stands for: the configured rules with the UPB
+ * minimum, the included counties and the excluded lenders swapped out
+ */
+export function toScenarioRules(
+  scenario: CriteriaScenario,
+  rules: CriteriaRule[] = CRITERIA_RULES
+): CriteriaRule[] {
+  const upbRule = rules.find(rule => isEnabled(rule) && rule.type === 'upb-range');
+  const max = upbRule?.type === 'upb-range' ? upbRule.max : undefined;
+  const min = scenario.minUpb ?? undefined;
+
+  let scenarioRules = replaceRules(
+    rules,
+    'upb-range',
+    min === undefined && max === undefined
+      ? null
+      : { id: upbRule?.id ?? 'upb-range', label: describeUpbRange(min, max), type: 'upb-range', min, max }
+  );
+
+  scenarioRules = replaceRules(
+    scenarioRules,
+    'county',
+    scenario.includedCounties.length === 0
+      ? null
+      : {
+          id: rules.find(rule => rule.type === 'county')?.id ?? 'counties',
+          label: 'In an included county',
+          type: 'county',
+          counties: scenario.includedCounties,
+        }
+  );
+
+  return replaceRules(
+    scenarioRules,
+    'lender-exclusion',
+    scenario.excludedLenders.length === 0
+      ? null
+      : {
+          id: rules.find(rule => rule.type === 'lender-exclusion')?.id ?? 'excluded-lenders',
+          label: 'Lender not excluded',
+          type: 'lender-exclusion',
+          lenders: scenario.excludedLenders,
+        }
+  );
+}
+
+/**
+ * Copies the complaints with one verdict written to both the sheet's flag and
+ * the engine's result, so meetsCriteria() honours it whatever CRITERIA_SOURCE is
+ */
+function withVerdicts(
+  complaints: ProcessedComplaint[],
+  verdicts: boolean[],
+  evaluations: CriteriaEvaluation[]
+): ProcessedComplaint[] {
+  return complaints.map((complaint, index) => ({
+    ...complaint,
+    meetsCriteria: verdicts[index] ? 'Meets criteria' : 'Does not meet criteria',
+    criteria: { ...evaluations[index], meetsCriteria: verdicts[index] },
+  }));
+}
+
+function diffTopLenders(
+  before: LenderCriteriaSummary[],
+  after: LenderCriteriaSummary[]
+): LenderCriteriaDelta[] {
+  const top = (rows: LenderCriteriaSummary[]) =>
+    [...rows]
+      .sort((a, b) => b.totalComplaints - a.totalComplaints || b.totalUPB - a.totalUPB)
+      .slice(0, TOP_LENDER_COUNT)
+      .map(row => row.lender);
+
+  const lenders = Array.from(new Set([...top(after), ...top(before)]));
+  const totals = (rows: LenderCriteriaSummary[], lender: string) => {
+    const row = rows.find(candidate => candidate.lender === lender);
+    return { totalComplaints: row?.totalComplaints ?? 0, totalUPB: row?.totalUPB ?? 0 };
+  };
+
+  return lenders
+    .map(lender => ({ lender, before: totals(before, lender), after: totals(after, lender) }))
+    .sort((a, b) => b.after.totalComplaints - a.after.totalComplaints || b.after.totalUPB - a.after.totalUPB);
+}
+
+function isCountedBy(complaint: ProcessedComplaint, referenceDate: Date): boolean {
+  if (!complaint.isValid || complaint.isDuplicate) return false;
+  if (!complaint.complaintDate) return true;
+  const date = complaint.complaintDate instanceof Date
+    ? complaint.complaintDate
+    : new Date(complaint.complaintDate);
+  return !(date > referenceDate);
+}
+
+function toDeal(
+  complaint: ProcessedComplaint,
+  rowIndex: number,
+  evaluation: CriteriaEvaluation
+): CriteriaSimulationDeal {
+  const date = complaint.complaintDate ? new Date(complaint.complaintDate) : undefined;
+  return {
+    rowIndex,
+    rowLabel: getRowLabel(complaint, rowIndex),
+    propertyAddress: complaint.propertyAddress || 'Unknown',
+    county: complaint.normalizedCounty || normalizeCounty(complaint.county),
+    lender: complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff),
+    upb: complaint.upb || 0,
+    complaintDate: date && !isNaN(date.getTime()) ? date : undefined,
+    failedRules: evaluation.results.filter(result => !result.passed),
+  };
+}
+
+export interface CriteriaSimulationOptions {
+  rules?: CriteriaRule[]; // The current criteria rules the scenario is layered over
+  regions?: RegionModel; // The region model complaints were assigned with, giving the region summary's order
+  lenders?: LenderMasterList; // The lender master list excluded lenders are resolved with
+  baseline?: CriteriaSource; // The verdicts the scenario is compared with; defaults to CRITERIA_SOURCE
+}
+
+/**
+ * Compares the summaries the dashboard shows with the summaries under a scenario
+ * With the sheet as the baseline, a deal keeps the sheet's verdict unless the
+ * scenario changes the rules' verdict on it, so an unchanged scenario changes nothing
+ */
+export function simulateCriteria(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date,
+  scenario: CriteriaScenario,
+  options: CriteriaSimulationOptions = {}
+): CriteriaSimulation {
+  const rules = options.rules ?? CRITERIA_RULES;
+  const regions = options.regions ?? DEFAULT_REGION_MODEL;
+  const context = { lenders: options.lenders ?? DEFAULT_LENDER_MASTER_LIST, regions };
+  const scenarioRules = toScenarioRules(scenario, rules);
+  const current = complaints.map(complaint => evaluateCriteria(complaint, referenceDate, rules, context));
+  const simulated = complaints.map(complaint => evaluateCriteria(complaint, referenceDate, scenarioRules, context));
+
+  const baseline = (options.baseline ?? CRITERIA_SOURCE) === 'sheet'
+    ? complaints.map(sheetMeetsCriteria)
+    : current.map(evaluation => evaluation.meetsCriteria);
+  const verdicts = baseline.map((verdict, index) =>
+    current[index].meetsCriteria === simulated[index].meetsCriteria ? verdict : simulated[index].meetsCriteria
+  );
+
+  const before = withVerdicts(complaints, baseline, current);
+  const after = withVerdicts(complaints, verdicts, simulated);
+
+  const newlyQualifying: CriteriaSimulationDeal[] = [];
+  const droppingOut: CriteriaSimulationDeal[] = [];
+  complaints.forEach((complaint, rowIndex) => {
+    if (!isCountedBy(complaint, referenceDate)) return;
+    const was = baseline[rowIndex];
+    const now = verdicts[rowIndex];
+    if (!was && now) newlyQualifying.push(toDeal(complaint, rowIndex, current[rowIndex]));
+    if (was && !now) droppingOut.push(toDeal(complaint, rowIndex, simulated[rowIndex]));
+  });
+
+  return {
+    ytdRegionSummary: diffSummaries<RegionSummary>(
+      calculateYTDRegionSummary(before, referenceDate, regions),
+      calculateYTDRegionSummary(after, referenceDate, regions),
+      row => row.region
+    ),
+    yearSummary: diffSummaries<YearSummary>(
+      calculateYearSummary(before, referenceDate),
+      calculateYearSummary(after, referenceDate),
+      row => row.year
+    ),
+    topLenders: diffTopLenders(
+      calculateLenderCriteriaSummary(before, referenceDate),
+      calculateLenderCriteriaSummary(after, referenceDate)
+    ),
+    newlyQualifying,
+    droppingOut,
+  };
+}
@@ -0,0 +1,234 @@
+// RFC 4180 CSV parsing shared by the browser and the backend
+// Parses incrementally, so large exports can be fed in chunks as they download
+// instead of being split into lines first (quoted cells may contain newlines).
+
+import { RawSheetRow, SourceParseError, SourceRows } from '../types';
+
+export interface CSVParser {
+  /** Feeds the next chunk of text; records may span chunks */
+  write(chunk: string): void;
+  /** Flushes the last record and returns every row and malformed record found */
+  end(): SourceRows;
+}
+
+type FieldState = 'start' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+interface Position {
+  line: number;
+  column: number;
+}
+
+/**
+ * Creates a streaming CSV parser
+ * - Quoted fields may contain delimiters, doubled quotes and line breaks
+ * - Records end at LF, CRLF or CR; a leading byte order mark is ignored
+ * - Blank lines are skipped
+ * - Ragged rows are padded or truncated to the header width and reported
+ * @throws When the header record itself is malformed
+ */
+export function createCSVParser(delimiter: string = ','): CSVParser {
+  const rows: RawSheetRow[] = [];
+  const parseErrors: SourceParseError[] = [];
+  let headers: string[] | null = null;
+
+  // Current record
+  let fields: string[] = [];
+  let fieldStarts: Position[] = [];
+  let field = '';
+  let state: FieldState = 'start';
+  let recordErrors: Omit<SourceParseError, 'rowIndex'>[] = [];
+  let quoteStart: Position = { line: 1, column: 1 };
+
+  // Position of the next character
+  let line = 1;
+  let column = 1;
+  let isFirstChunk = true;
+  let skipNextLineFeed = false;
+  let previousChar = '';
+
+  const report = (position: Position, message: string) => {
+    recordErrors.push({ line: position.line, column: position.column, message });
+  };
+
+  const startField = () => {
+    fieldStarts.push({ line, column });
+  };
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'start';
+  };
+
+  const endRecord = () => {
+    endField();
+
+    const isBlankLine = fields.length === 1 && fields[0].trim() === '' && recordErrors.length === 0;
+    if (!isBlankLine) {
+      emitRecord();
+    }
+
+    fields = [];
+    fieldStarts = [];
+    recordErrors = [];
+  };
+
+  const emitRecord = () => {
+    if (!headers) {
+      if (recordErrors.length > 0) {
+        const [first] = recordErrors;
+        throw new Error(`Malformed CSV header at line ${first.line}, column ${first.column}: ${first.message}`);
+      }
+      headers = fields;
+      return;
+    }
+
+    if (fields.length !== headers.length) {
+      const position = (fields.length > headers.length ? fieldStarts[headers.length] : undefined)
+        ?? fieldStarts[0]
+        ?? { line, column };
+      report(position, `Expected ${headers.length} fields but found ${fields.length}`);
+    }
+
+    const row: RawSheetRow = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index] ?? '';
+    });
+
+    const rowIndex = rows.length;
+    rows.push(row);
+    recordErrors.forEach(error => parseErrors.push({ rowIndex, ...error }));
+  };
+
+  const advance = (char: string) => {
+    // CRLF counts as a single line break
+    if (char === '\r' || (char === '\n' && previousChar !== '\r')) {
+      line++;
+      column = 1;
+    } else if (char !== '\n') {
+      column++;
+    }
+    previousChar = char;
+  };
+
+  const write = (chunk: string) => {
+    let text = chunk;
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) {
+        text = text.slice(1);
+      }
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      // The LF of a CRLF pair (possibly split across chunks) was already handled
+      if (skipNextLineFeed) {
+        skipNextLineFeed = false;
+        if (char === '\n') {
+          previousChar = char;
+          continue;
+        }
+      }
+
+      const isLineBreak = char === '\n' || char === '\r';
+
+      switch (state) {
+        case 'start':
+          startField();
+          if (char === '"') {
+            quoteStart = { line, column };
+            state = 'quoted';
+          } else if (char === delimiter) {
+            endField();
+          } else if (isLineBreak) {
+            endRecord();
+          } else {
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (char === delimiter) {
+            endField();
+          } else if (isLineBreak) {
+            endRecord();
+          } else {
+            if (char === '"') {
+              report({ line, column }, 'Unexpected quote in unquoted field');
+            }
+            field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            // Line breaks inside quotes are part of the value (CRLF is kept as-is)
+            field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            // Escaped quote
+            field += '"';
+            state = 'quoted';
+          } else if (char === delimiter) {
+            endField();
+          } else if (isLineBreak) {
+            endRecord();
+          } else {
+            report({ line, column }, 'Unexpected character after closing quote');
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+      }
+
+      if (isLineBreak && state === 'start' && char === '\r') {
+        skipNextLineFeed = true;
+      }
+      advance(char);
+    }
+  };
+
+  const end = (): SourceRows => {
+    if (state === 'quoted') {
+      report(quoteStart, 'Unterminated quoted field');
+    }
+    // Flush a final record without a trailing line break
+    if (state !== 'start' || fields.length > 0) {
+      if (state === 'start') {
+        startField(); // Empty field after a trailing delimiter
+      }
+      endRecord();
+    }
+    return { rows, parseErrors };
+  };
+
+  return { write, end };
+}
+
+/**
+ * Parses CSV text into header-keyed rows
+ */
+export function parseCSV(csvData: string): SourceRows {
+  const parser = createCSVParser();
+  parser.write(csvData);
+  return parser.end();
+}
+
+/**
+ * Parses a stream of CSV text chunks (e.g. a download or file read stream)
+ */
+export async function parseCSVStream(chunks: AsyncIterable<string>): Promise<SourceRows> {
+  const parser = createCSVParser();
+  for await (const chunk of chunks) {
+    parser.write(chunk);
+  }
+  return parser.end();
+}
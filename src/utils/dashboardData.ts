@@ -0,0 +1,133 @@
+// Processing pipeline shared by the browser and the backend
+// The server runs this once per sheet fetch and serves the result from /api/dashboard;
+// the browser only runs it when the backend is unreachable.
+
+import {
+  ComplaintRow,
+  DashboardData,
+  DashboardMetrics,
+  LenderMasterList,
+  ProcessedComplaint,
+  RegionModel,
+  WeekSettings,
+} from '../types';
+import { DEFAULT_WEEK_SETTINGS } from '../config/weekConfig';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { CRITERIA_RULES } from '../config/criteriaConfig';
+import { processRowsWithQualityChecks, QualityCheckOptions } from './dataQuality';
+import { resolveReferenceDate } from './reportingDate';
+import {
+  calculateFourWeekRollUpWeekly,
+  calculateMonthlyLenderData,
+  calculateMonthlyTrendSummary,
+  calculateLenderCriteriaSummary,
+  getFlowThroughYTD,
+  getFlowThroughLastWeek,
+  calculateCurrentMonthRegionSummary,
+  calculateYTDRegionSummary,
+  calculateYearSummary,
+  calculateZipSummary,
+} from './calculations';
+import { applyCriteria, reconcileCriteria } from './criteriaEngine';
+import { assignRegions, findUnmappedCounties } from './regionMapping';
+
+/**
+ * Calculates every metric shown on the dashboard
+ * @param referenceDate - The "as-of" date all time windows are anchored to
+ * @param weekSettings - How the weekly roll-up splits time into weeks
+ * @param regions - The region model the complaints were assigned with
+ * @param lenders - The lender master list the criteria rules resolve lenders with
+ */
+export function calculateDashboardMetrics(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  weekSettings: WeekSettings = DEFAULT_WEEK_SETTINGS,
+  regions: RegionModel = DEFAULT_REGION_MODEL,
+  lenders: LenderMasterList = DEFAULT_LENDER_MASTER_LIST
+): DashboardMetrics {
+  return {
+    fourWeekRollUpWeekly: calculateFourWeekRollUpWeekly(complaints, referenceDate, weekSettings),
+    monthlyLenders: calculateMonthlyLenderData(complaints, referenceDate),
+    monthlyTrendSummary: calculateMonthlyTrendSummary(complaints, referenceDate),
+    lenderCriteriaSummary: calculateLenderCriteriaSummary(complaints, referenceDate),
+    flowThroughYTD: getFlowThroughYTD(complaints, referenceDate),
+    flowThroughLastWeek: getFlowThroughLastWeek(complaints, referenceDate),
+    currentMonthRegionSummary: calculateCurrentMonthRegionSummary(complaints, referenceDate, regions),
+    ytdRegionSummary: calculateYTDRegionSummary(complaints, referenceDate, regions),
+    yearSummary: calculateYearSummary(complaints, referenceDate),
+    zipSummary: calculateZipSummary(complaints, referenceDate),
+    criteriaReconciliation: reconcileCriteria(complaints, referenceDate, CRITERIA_RULES, { lenders, regions }),
+    unmappedCounties: findUnmappedCounties(complaints, regions),
+  };
+}
+
+// The quality check options, whose regions also assign counties to regions
+export interface DashboardBuildOptions extends QualityCheckOptions {
+  generatedAt?: Date; // When the rows were fetched; defaults to now
+  asOfDate?: string | null; // "yyyy-MM-dd" date to calculate metrics as of; defaults to now
+  weekSettings?: WeekSettings; // How the weekly roll-up splits time into weeks
+}
+
+/**
+ * Runs mapped rows through quality checks, normalization, region assignment,
+ * the criteria engine and all calculations
+ */
+export function buildDashboardData(
+  rows: ComplaintRow[],
+  options: DashboardBuildOptions = {}
+): DashboardData {
+  const asOfDate = options.asOfDate ?? null;
+  const regions = options.regions ?? DEFAULT_REGION_MODEL;
+  const lenders = options.lenders ?? DEFAULT_LENDER_MASTER_LIST;
+
+  // Quality checks also set normalizedCounty / normalizedLender (and countyFips) on every row
+  const { processed, issues, summary, duplicateClusters } = processRowsWithQualityChecks(rows, options);
+  const referenceDate = resolveReferenceDate(asOfDate);
+  const complaints = applyCriteria(assignRegions(processed, regions), referenceDate, CRITERIA_RULES, {
+    lenders,
+    regions,
+  });
+
+  return {
+    generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+    asOfDate,
+    complaints,
+    issues,
+    summary,
+    metrics: calculateDashboardMetrics(
+      complaints,
+      referenceDate,
+      options.weekSettings ?? DEFAULT_WEEK_SETTINGS,
+      regions,
+      lenders
+    ),
+    regions,
+    lenders,
+    duplicateClusters,
+  };
+}
+
+/**
+ * Recalculates the metrics of already-processed data as of another date
+ * (and optionally with other week settings)
+ */
+export function withAsOfDate(
+  data: DashboardData,
+  asOfDate: string | null,
+  weekSettings: WeekSettings = DEFAULT_WEEK_SETTINGS
+): DashboardData {
+  // Complaint ages (and so the criteria verdicts) depend on the as-of date
+  const referenceDate = resolveReferenceDate(asOfDate);
+  const complaints = applyCriteria(data.complaints, referenceDate, CRITERIA_RULES, {
+    lenders: data.lenders,
+    regions: data.regions,
+  });
+
+  return {
+    ...data,
+    asOfDate,
+    complaints,
+    metrics: calculateDashboardMetrics(complaints, referenceDate, weekSettings, data.regions, data.lenders),
+  };
+}
@@ -1,38 +1,68 @@
 // Data quality handlers for duplicates and malformed data
 
-import { ComplaintRow, ProcessedComplaint } from '../types';
-import { normalizeCounty, normalizeLender } from './normalization';
+import {
+  ComplaintRow,
+  ProcessedComplaint,
+  DataQualityIssue,
+  DataQualitySummary,
+  QualityFinding,
+  QualityRuleCode,
+  SourceParseError,
+  DateParseStrategy,
+  LenderMasterList,
+  RegionModel,
+  ValidationSchema,
+  DuplicateCluster,
+  DuplicateDecision,
+  DuplicateStrategy,
+  ParsedAddress,
+} from '../types';
+import { DEFAULT_REGION_MODEL } from '../config/regionConfig';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { DUPLICATE_STRATEGY_CONFIDENCE } from '../config/duplicateConfig';
+import { extractDate } from './dateExtraction';
+import { NormalizationRegistry, normalizeCounty, normalizeLender, normalizeState } from './normalization';
+import { describeCountyResolution, isStateCovered, resolveCounty } from './countyReference';
+import { resolveLender, resolveNormalizedLender } from './lenderResolution';
+import { createNormalizationRegistry } from './normalizationRules';
+import { parsePlaintiff } from './plaintiffParser';
+import { isSameLocation, parseAddress, toAddressKey, toStreetKey } from './addressParser';
+import { getRegionFromCounty } from './regionMapping';
+import { createFinding, parseFieldValue, validateDateOrder, validateFields, VALIDATION_SCHEMA } from './rowValidation';
+import { fingerprintRow, identifyRows, normalizeForComparison, toComplaintDayKey } from './rowFingerprint';
+import {
+  buildDuplicateClusters,
+  DUPLICATE_STRATEGY_LABELS,
+  isDroppedFromCluster,
+  needsDuplicateReview,
+} from './duplicateClusters';
 
-export interface DataQualityIssue {
-  rowIndex: number;
-  row: ComplaintRow;
-  errors: string[];
-  isDuplicate: boolean;
-  duplicateOf?: number; // Index of the original row this duplicates
-}
+export type { DataQualityIssue, DataQualitySummary };
 
-/**
- * Normalizes a string for comparison (removes extra spaces, converts to lowercase)
- */
-function normalizeForComparison(str: string | undefined | null): string {
-  if (!str) return '';
-  
-  // Ensure it's a string
-  const strValue = typeof str === 'string' ? str : String(str || '');
-  
-  return strValue
-    .toLowerCase()
-    .trim()
-    .replace(/\s+/g, ' ')
-    .replace(/[^\w\s]/g, ''); // Remove punctuation for fuzzy matching
+const DUPLICATE_CODES = new Set<QualityRuleCode>(['duplicate-row', 'possible-duplicate']);
+
+interface DuplicateMatch {
+  isDuplicate: boolean;
+  duplicateOf?: number;
+  strategy?: DuplicateStrategy;
+  confidence?: number;
 }
 
 /**
- * Creates multiple keys for a row to detect duplicates with different strategies
+ * Creates a key for each duplicate strategy, strongest first
  * Uses proper normalization functions to ensure consistent matching
+ * Keys hold the street line, not where it is: rows with the same key only
+ * match when their ZIP codes (or cities and states) do too
  */
-function createRowKeys(row: ProcessedComplaint): string[] {
-  const address = normalizeForComparison(row.propertyAddress);
+function createRowKeys(
+  row: ProcessedComplaint,
+  parsedAddress: ParsedAddress | undefined
+): Array<{ strategy: DuplicateStrategy; key: string }> {
+  // Standardized address components, so "123 NW 5th St Apt 2" and
+  // "123 Northwest Fifth Street #2" key the same
+  const address = parsedAddress ? toAddressKey(parsedAddress) : normalizeForComparison(row.propertyAddress);
+  // Same street and house number, whatever the suffix or unit
+  const street = parsedAddress ? toStreetKey(parsedAddress) : address;
   
   // Use proper county normalization (handles "County" suffix, etc.)
   // Prefer normalizedCounty if already set, otherwise normalize the raw county
@@ -46,37 +76,29 @@ function createRowKeys(row: ProcessedComplaint): string[] {
     row.normalizedLender || normalizeLender(row.lender || row.plaintiff)
   );
   
-  const dateStr = row.complaintDate 
-    ? (row.complaintDate instanceof Date 
-        ? row.complaintDate.toISOString().split('T')[0] 
-        : new Date(row.complaintDate).toISOString().split('T')[0])
-    : '';
+  // Business day, so late-evening filings key the same wherever this runs
+  const dateStr = toComplaintDayKey(row.complaintDate);
   const upbStr = row.upb?.toString() || '';
 
-  // Strategy 1: Exact match on all key fields
-  const exactKey = [address, county, lender, dateStr, upbStr].join('|');
-  
-  // Strategy 2: Match without UPB (same property, same date, same lender)
-  const withoutUPB = [address, county, lender, dateStr].join('|');
-  
-  // Strategy 3: Match on address and date only (potential duplicates with different lenders)
-  const addressDate = [address, dateStr].join('|');
-  
-  // Strategy 4: Fuzzy match on address and lender (handles slight variations)
-  const fuzzyAddress = address.substring(0, 20); // First 20 chars of normalized address
-  const fuzzyKey = [fuzzyAddress, county, lender, dateStr].join('|');
-
-  return [exactKey, withoutUPB, addressDate, fuzzyKey];
+  return [
+    { strategy: 'exact', key: [address, county, lender, dateStr, upbStr].join('|') },
+    { strategy: 'same-lender-date', key: [address, county, lender, dateStr].join('|') },
+    { strategy: 'similar-address', key: [street, county, lender, dateStr].join('|') },
+    // Potential duplicates with different lenders (the location check stands in for the county)
+    { strategy: 'same-address-date', key: [address, dateStr].join('|') },
+  ];
 }
 
 /**
- * Detects duplicate rows using multiple strategies
+ * Detects duplicate rows using multiple strategies, recording the strongest
+ * strategy each duplicate matched its first occurrence by
  */
 export function detectDuplicates(
   rows: ProcessedComplaint[]
-): Map<number, { isDuplicate: boolean; duplicateOf?: number }> {
-  const duplicateMap = new Map<number, { isDuplicate: boolean; duplicateOf?: number }>();
-  const seenKeys = new Map<string, number>(); // Map of key to first occurrence index
+): Map<number, DuplicateMatch> {
+  const duplicateMap = new Map<number, DuplicateMatch>();
+  const seenKeys = new Map<string, number[]>(); // Map of key to the rows that registered it, in order
+  const addresses = rows.map(row => row.address ?? parseAddress(row.propertyAddress));
   
   rows.forEach((row, index) => {
     // Skip invalid rows from duplicate detection (but still mark them)
@@ -85,33 +107,32 @@ export function detectDuplicates(
       return;
     }
 
-    const keys = createRowKeys(row);
-    let isDuplicate = false;
-    let duplicateOf: number | undefined;
-
-    // Check each key strategy
-    for (const key of keys) {
-      if (key && seenKeys.has(key)) {
-        const originalIndex = seenKeys.get(key)!;
-        // Only mark as duplicate if it's not the same row
-        if (originalIndex !== index) {
-          isDuplicate = true;
-          duplicateOf = originalIndex;
-          break;
-        }
-      }
-    }
+    // Keys are per strategy, so different strategies' keys never match
+    const keys = createRowKeys(row, addresses[index])
+      .map(({ strategy, key }) => ({ strategy, key: `${strategy}:${key}` }));
+    const firstMatch = (key: string) =>
+      seenKeys.get(key)?.find(other => other !== index && isSameLocation(addresses[other], addresses[index]));
+    const match = keys
+      .map(({ strategy, key }) => ({ strategy, duplicateOf: firstMatch(key) }))
+      .find(({ duplicateOf }) => duplicateOf !== undefined);
 
-    // If not a duplicate, register all keys
-    if (!isDuplicate) {
-      keys.forEach(key => {
-        if (key && !seenKeys.has(key)) {
-          seenKeys.set(key, index);
-        }
+    if (match) {
+      duplicateMap.set(index, {
+        isDuplicate: true,
+        duplicateOf: match.duplicateOf,
+        strategy: match.strategy,
+        confidence: DUPLICATE_STRATEGY_CONFIDENCE[match.strategy],
       });
+      return;
     }
 
-    duplicateMap.set(index, { isDuplicate, duplicateOf });
+    // Not a duplicate: register all keys
+    keys.forEach(({ key }) => {
+      const seen = seenKeys.get(key);
+      if (seen) seen.push(index);
+      else seenKeys.set(key, [index]);
+    });
+    duplicateMap.set(index, { isDuplicate: false });
   });
   
   return duplicateMap;
@@ -264,277 +285,348 @@ function scanForJSONFields(row: ComplaintRow): Array<{ fieldName: string; value:
 }
 
 /**
- * Validates a single row and returns processed complaint with errors
+ * Orders findings errors first (keeping their order otherwise)
+ */
+function sortFindings(findings: QualityFinding[]): QualityFinding[] {
+  return [
+    ...findings.filter(finding => finding.severity === 'error'),
+    ...findings.filter(finding => finding.severity === 'warning'),
+  ];
+}
+
+const hasErrorFinding = (findings: QualityFinding[]) =>
+  findings.some(finding => finding.severity === 'error');
+
+/**
+ * Validates a single row against the validation schema and returns processed
+ * complaint with its findings
+ * @param schema - Defaults to the configured schema (see config/validationConfig.ts)
  */
 export function validateRow(
   row: ComplaintRow,
-  _index: number
+  _index: number,
+  schema: ValidationSchema = VALIDATION_SCHEMA
 ): ProcessedComplaint {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-  
-  // Check required fields (more thorough)
-  const propertyAddress = typeof row.propertyAddress === 'string' 
-    ? row.propertyAddress.trim() 
-    : row.propertyAddress;
-  if (!propertyAddress || propertyAddress === '') {
-    errors.push('Missing or empty property address');
-  } else if (propertyAddress.length < 5) {
-    warnings.push('Property address seems too short');
-  }
-  
-  const county = typeof row.county === 'string' 
-    ? row.county.trim() 
-    : row.county;
-  if (!county || county === '') {
-    errors.push('Missing or empty county');
-  }
-  
-  const lender = typeof row.lender === 'string' 
-    ? row.lender.trim() 
-    : row.lender;
-  const plaintiff = typeof row.plaintiff === 'string' 
-    ? row.plaintiff.trim() 
-    : row.plaintiff;
-  if ((!lender || lender === '') && (!plaintiff || plaintiff === '')) {
-    errors.push('Missing or empty lender/plaintiff');
-  }
-  const lenderValue: unknown = lender ?? plaintiff;
-  if (lenderValue instanceof Date) {
-    errors.push('Invalid lender/plaintiff value: date');
-  } else if (
-    lenderValue !== undefined &&
-    lenderValue !== null &&
-    typeof lenderValue !== 'string'
-  ) {
-    errors.push(`Invalid lender/plaintiff value type: ${typeof lenderValue}`);
-  }
-  
-  // Validate UPB (more thorough)
-  let upb: number | undefined;
-  if (row.upb !== undefined && row.upb !== null) {
-    if (typeof row.upb === 'string') {
-      const cleaned = (row.upb as string).trim().replace(/[^0-9.-]/g, '');
-      if (cleaned === '') {
-        errors.push('UPB is empty or contains no numbers');
-      } else {
-        const parsed = parseFloat(cleaned);
-        if (isNaN(parsed)) {
-          errors.push(`Invalid UPB format: "${row.upb}"`);
-        } else if (parsed < 0) {
-          warnings.push('UPB is negative');
-          upb = parsed;
-        } else if (parsed === 0) {
-          warnings.push('UPB is zero');
-          upb = parsed;
-        } else if (parsed > 1000000000) {
-          warnings.push('UPB seems unusually high');
-          upb = parsed;
-        } else {
-          upb = parsed;
-        }
-      }
-    } else if (typeof row.upb === 'number') {
-      if (row.upb < 0) {
-        warnings.push('UPB is negative');
-      } else if (row.upb === 0) {
-        warnings.push('UPB is zero');
-      } else if (row.upb > 1000000000) {
-        warnings.push('UPB seems unusually high');
-      }
-      upb = row.upb;
-    } else {
-      errors.push(`Invalid UPB type: ${typeof row.upb}`);
-    }
-  } else {
-    warnings.push('UPB is missing');
-  }
-  
-  // Validate date (more thorough)
-  let complaintDate: Date | undefined;
-  if (row.complaintDate) {
-    if (row.complaintDate instanceof Date) {
-      if (isNaN(row.complaintDate.getTime())) {
-        errors.push('Invalid Date object');
-      } else {
-        complaintDate = row.complaintDate;
-        // Check if date is in the future (might be an error)
-        if (complaintDate > new Date()) {
-          warnings.push('Complaint date is in the future');
-        }
-        // Check if date is too old (more than 10 years)
-        const tenYearsAgo = new Date();
-        tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-        if (complaintDate < tenYearsAgo) {
-          warnings.push('Complaint date is more than 10 years old');
-        }
-      }
-    } else if (typeof row.complaintDate === 'string') {
-      const trimmed = row.complaintDate.trim();
-      if (trimmed === '') {
-        errors.push('Complaint date is empty string');
-      } else {
-        const parsed = new Date(trimmed);
-        if (isNaN(parsed.getTime())) {
-          errors.push(`Invalid date format: "${trimmed}"`);
-        } else {
-          complaintDate = parsed;
-          // Same checks as above
-          if (complaintDate > new Date()) {
-            warnings.push('Complaint date is in the future');
-          }
-          const tenYearsAgo = new Date();
-          tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-          if (complaintDate < tenYearsAgo) {
-            warnings.push('Complaint date is more than 10 years old');
-          }
-        }
-      }
-    } else {
-      errors.push(`Invalid date type: ${typeof row.complaintDate}`);
-    }
-  } else {
-    warnings.push('Complaint date is missing');
-  }
+  const { findings, parsed } = validateFields(row, schema);
+
+  // The pipeline needs UPB and the complaint date even if the schema leaves them out
+  const upb = parsed.upb ?? parseFieldValue('number', row.upb, 'UPB');
+  const complaintDate = parsed.complaintDate ?? parseFieldValue('date', row.complaintDate, 'complaint date');
   
   // Comprehensive JSON field validation
   const jsonFields = scanForJSONFields(row);
   jsonFields.forEach(({ fieldName, value }) => {
     const result = validateJSONField(value, fieldName);
-    if (!result.isValid && result.error) {
-      errors.push(result.error);
-    } else if (result.wasFixed && result.error) {
-      warnings.push(result.error); // Auto-fixed JSON is a warning, not an error
+    const check = !result.isValid ? schema.json.invalid : result.wasFixed ? schema.json.fixed : undefined;
+    if (check && check.enabled !== false && result.error) {
+      findings.push(createFinding(check.severity, check.code, check.message ?? result.error, fieldName, value));
     }
   });
   
-  // Combine errors and warnings (warnings don't make row invalid, but are logged)
-  const allIssues = errors.length > 0 ? errors : warnings;
+  // Warnings don't make the row invalid, but are kept alongside any errors
+  const sorted = sortFindings(findings);
   
   return {
     ...row,
-    upb,
-    complaintDate,
-    isValid: errors.length === 0, // Only errors make it invalid, not warnings
-    errors: allIssues.length > 0 ? allIssues : undefined,
+    upb: typeof upb.value === 'number' ? upb.value : undefined,
+    complaintDate: complaintDate.value instanceof Date ? complaintDate.value : undefined,
+    ...(complaintDate.strategy && { complaintDateStrategy: complaintDate.strategy }),
+    ...(row.defaultDate !== undefined && { defaultDate: extractDate(row.defaultDate).date ?? row.defaultDate }),
+    isValid: !hasErrorFinding(sorted), // Only errors make it invalid, not warnings
+    ...(sorted.length > 0 && { findings: sorted }),
+    errors: sorted.length > 0 ? sorted.map(finding => finding.message) : undefined,
     normalizedCounty: '', // Will be set later during normalization
     normalizedLender: '', // Will be set later during normalization
   };
 }
 
+/**
+ * Groups malformed-record findings (with their file position) by row
+ */
+function groupParseErrors(parseErrors: SourceParseError[]): Map<number, QualityFinding[]> {
+  const byRow = new Map<number, QualityFinding[]>();
+  parseErrors.forEach(({ rowIndex, line, column, message }) => {
+    const findings = byRow.get(rowIndex) ?? [];
+    findings.push(
+      createFinding('error', 'malformed-record', `Malformed record at line ${line}, column ${column}: ${message}`)
+    );
+    byRow.set(rowIndex, findings);
+  });
+  return byRow;
+}
+
+/**
+ * Adds findings to a row, keeping its findings errors first, its messages in
+ * step and its validity in line with them
+ */
+function addFindings(row: ProcessedComplaint, added: QualityFinding[]): void {
+  if (added.length === 0) return;
+  row.findings = sortFindings([...(row.findings ?? []), ...added]);
+  row.errors = row.findings.map(finding => finding.message);
+  row.isValid = row.isValid && !hasErrorFinding(added);
+}
+
+/**
+ * Resolves a row's county against the county reference, in the row's State
+ * column (else the state of its county's region), setting its official name
+ * and FIPS code
+ * Returns warning findings when the county can't be placed, or when the State
+ * column disagrees with the region's state; counties in states the reference
+ * doesn't cover aren't checked
+ * @param normalizedCounty - The county after the registry's rules
+ */
+function applyCountyReference(
+  row: ProcessedComplaint,
+  regions: RegionModel,
+  normalizedCounty: string
+): QualityFinding[] {
+  const raw = typeof row.county === 'string' ? row.county.trim() : row.county;
+  if (!raw) return []; // Reported as a missing county
+  // A rule may have fixed a name the reference wouldn't know
+  const county = row.normalizationRules?.some(rule => rule.field === 'county') ? normalizedCounty : raw;
+  const findings: QualityFinding[] = [];
+
+  // The region is matched by county name alone, so its state is only a fallback
+  const regionName = getRegionFromCounty(normalizedCounty, regions);
+  const regionState = normalizeState(regions.regions.find(region => region.name === regionName)?.state);
+  const rowState = normalizeState(row.state);
+  if (rowState && regionState && rowState !== regionState) {
+    findings.push(
+      createFinding(
+        'warning',
+        'state-mismatch',
+        `State "${row.state}" isn't the state of region "${regionName}" (${regionState}); county "${raw}" was looked up in ${rowState}`,
+        'state',
+        row.state
+      )
+    );
+  }
+  const state = rowState ?? regionState;
+  if (state && !isStateCovered(state)) {
+    findings.push(
+      createFinding(
+        'warning',
+        'uncovered-state',
+        `County "${raw}" wasn't checked: the county reference doesn't cover ${state}, so it has no FIPS code`,
+        'county',
+        raw
+      )
+    );
+    return findings;
+  }
+
+  const resolution = resolveCounty(county, state);
+  if (resolution.status === 'resolved') {
+    row.normalizedCounty = resolution.county.name;
+    row.countyFips = resolution.county.fips;
+  }
+  const message = describeCountyResolution(String(county), resolution, state);
+  if (message) {
+    const code = resolution.status === 'ambiguous' ? 'ambiguous-county' : 'unresolved-county';
+    findings.push(createFinding('warning', code, message, 'county', raw));
+  }
+  return findings;
+}
+
+/**
+ * Splits a plaintiff into its parties, with the trustee and servicer under
+ * their master list names so they group like lenders do
+ */
+function resolvePlaintiffParties(
+  plaintiff: string | undefined,
+  lenders: LenderMasterList
+): ProcessedComplaint['plaintiffParties'] {
+  const parties = parsePlaintiff(plaintiff);
+  if (parties.trustee) parties.trustee = resolveLender(parties.trustee, lenders);
+  if (parties.servicer) parties.servicer = resolveLender(parties.servicer, lenders);
+  return parties;
+}
+
+export interface QualityCheckOptions {
+  parseErrors?: SourceParseError[]; // Malformed records found while reading the source; those rows are invalid
+  regions?: RegionModel; // The region model whose states counties are resolved in
+  lenders?: LenderMasterList; // The lender master list lender names are resolved with
+  // Registry counties and lenders are normalized with before the county reference
+  // and the master list; rows record the rules that changed them
+  normalization?: NormalizationRegistry;
+  duplicateDecisions?: DuplicateDecision[]; // Saved reviews of duplicate clusters
+}
+
 /**
  * Processes all rows with comprehensive quality checks
  */
 export function processRowsWithQualityChecks(
-  rows: ComplaintRow[]
+  rows: ComplaintRow[],
+  options: QualityCheckOptions = {}
 ): {
   processed: ProcessedComplaint[];
   issues: DataQualityIssue[];
-  summary: {
-    totalRows: number;
-    validRows: number;
-    invalidRows: number;
-    duplicateRows: number;
-    rowsWithJSONErrors: number;
-    rowsWithOtherErrors: number;
-  };
+  summary: DataQualitySummary;
+  duplicateClusters: DuplicateCluster[];
 } {
+  const regions = options.regions ?? DEFAULT_REGION_MODEL;
+  const lenders = options.lenders ?? DEFAULT_LENDER_MASTER_LIST;
+  const normalization = options.normalization ?? createNormalizationRegistry();
   const processed: ProcessedComplaint[] = [];
   const issues: DataQualityIssue[] = [];
-  let rowsWithJSONErrors = 0;
-  let rowsWithOtherErrors = 0;
+  const parseErrorsByRow = groupParseErrors(options.parseErrors ?? []);
   
   // First pass: validate all rows thoroughly
   rows.forEach((row, index) => {
     try {
       const validated = validateRow(row, index);
+
+      // A malformed record may have its values in the wrong columns
+      addFindings(validated, parseErrorsByRow.get(index) ?? []);
+
+      const county = normalization.traceCounty(validated.county);
+      const lender = normalization.traceLender(validated.lender || validated.plaintiff);
+      const applied = [...county.applied, ...lender.applied];
+      if (applied.length > 0) validated.normalizationRules = applied;
+      validated.normalizedLender = lender.value;
+
+      const countyFindings = applyCountyReference(validated, regions, county.value);
+      validated.normalizedCounty = validated.normalizedCounty || county.value;
+      addFindings(validated, countyFindings);
+
       processed.push(validated);
-      
-      // Track JSON errors separately
-      const hasJSONError = validated.errors?.some(err => 
-        err.toLowerCase().includes('json')
-      ) || false;
-      
-      if (hasJSONError) {
-        rowsWithJSONErrors++;
-      }
-      
-      if (!validated.isValid || (validated.errors && validated.errors.length > 0)) {
-        if (!hasJSONError) {
-          rowsWithOtherErrors++;
-        }
-        
-        issues.push({
-          rowIndex: index,
-          row,
-          errors: validated.errors || [],
-          isDuplicate: false,
-        });
-      }
     } catch (error) {
       // Catch any unexpected errors during validation
       const errorMsg = error instanceof Error ? error.message : 'Unknown validation error';
+      const failed = createFinding('error', 'validation-failed', `Validation failed: ${errorMsg}`);
       processed.push({
         ...row,
         isValid: false,
-        errors: [`Validation failed: ${errorMsg}`],
+        findings: [failed],
+        errors: [failed.message],
         normalizedCounty: '',
         normalizedLender: '',
       });
-      issues.push({
-        rowIndex: index,
-        row,
-        errors: [`Validation exception: ${errorMsg}`],
-        isDuplicate: false,
-      });
-      rowsWithOtherErrors++;
     }
   });
+
+  // An ambiguous date is only in doubt when its column has dates the configured order can't read
+  validateDateOrder(rows).forEach((findings, index) => addFindings(processed[index], findings));
   
-  // Normalize counties and lenders BEFORE duplicate detection
+  // Normalize counties, lenders and addresses BEFORE duplicate detection
   // This ensures "Broward" and "Broward County" are treated as the same
+  // (counties the reference resolved already have their official name, and
+  // lenders are already normalized by the registry)
   processed.forEach(row => {
-    row.normalizedCounty = normalizeCounty(row.county);
-    row.normalizedLender = normalizeLender(row.lender || row.plaintiff);
+    row.normalizedCounty = row.normalizedCounty || normalizeCounty(row.county);
+    row.normalizedLender = resolveNormalizedLender(
+      row.normalizedLender || normalizeLender(row.lender || row.plaintiff),
+      lenders
+    );
+    row.plaintiffParties = resolvePlaintiffParties(row.plaintiff || row.lender, lenders);
+    const address = parseAddress(row.propertyAddress);
+    if (address) row.address = address;
   });
   
-  // Second pass: detect duplicates with multiple strategies
+  // Second pass: detect duplicates with multiple strategies, and cluster them
+  // so rows are only dropped when the match is sure or an analyst confirmed it
   const duplicateMap = detectDuplicates(processed);
+  const identities = identifyRows(rows);
+  processed.forEach((row, index) => {
+    row.fingerprint = fingerprintRow(row);
+    row.rowId = identities[index].rowId;
+    row.sheetRow = identities[index].sheetRow;
+    row.rowLabel = identities[index].rowLabel;
+  });
+  const duplicateClusters = buildDuplicateClusters(processed, duplicateMap, options.duplicateDecisions);
   let duplicateCount = 0;
   
-  duplicateMap.forEach((duplicateInfo, index) => {
-    if (duplicateInfo.isDuplicate) {
-      duplicateCount++;
-      processed[index].isDuplicate = true;
-      
-      // Add to issues or update existing issue
-      const existingIssue = issues.find(issue => issue.rowIndex === index);
-      if (existingIssue) {
-        existingIssue.isDuplicate = true;
-        existingIssue.duplicateOf = duplicateInfo.duplicateOf;
-        if (!existingIssue.errors.includes('Duplicate row')) {
-          existingIssue.errors.unshift(
-            `Duplicate row (matches row ${(duplicateInfo.duplicateOf ?? 0) + 1})`
-          );
-        }
+  duplicateClusters.forEach(cluster => {
+    cluster.members.forEach(({ rowIndex, strategy, confidence, addedSinceDecision }) => {
+      const row = processed[rowIndex];
+      row.duplicateClusterId = cluster.id;
+      // Rows that joined after the decision weren't part of it
+      const status = addedSinceDecision ? 'pending' : cluster.status;
+      if (rowIndex === cluster.survivor || status === 'rejected') return;
+
+      const match = strategy
+        ? `${DUPLICATE_STRATEGY_LABELS[strategy].toLowerCase()}, ${Math.round((confidence ?? 0) * 100)}% confidence`
+        : 'the row kept';
+      // Sheet rows, so the message holds however the rows are sorted
+      const kept = identities[cluster.survivor].rowLabel;
+      if (isDroppedFromCluster(cluster, rowIndex)) {
+        duplicateCount++;
+        row.isDuplicate = true;
+        addFindings(row, [
+          createFinding(
+            'warning',
+            'duplicate-row',
+            status === 'confirmed'
+              ? `Duplicate row (confirmed; row ${kept} kept)`
+              : `Duplicate row (matches row ${kept}: ${match})`
+          ),
+        ]);
       } else {
-        issues.push({
-          rowIndex: index,
-          row: rows[index],
-          errors: [`Duplicate row (matches row ${(duplicateInfo.duplicateOf ?? 0) + 1})`],
-          isDuplicate: true,
-          duplicateOf: duplicateInfo.duplicateOf,
-        });
+        addFindings(row, [
+          createFinding(
+            'warning',
+            'possible-duplicate',
+            `Possible duplicate of row ${kept} (${match}); counted until it's reviewed`
+          ),
+        ]);
       }
+    });
+  });
+
+  // Every row with a finding is an issue
+  processed.forEach(({ findings }, index) => {
+    if (!findings?.length) return;
+    const cluster = duplicateClusters.find(({ id }) => id === processed[index].duplicateClusterId);
+    const isDuplicate = !!processed[index].isDuplicate;
+    issues.push({
+      rowIndex: index,
+      rowId: identities[index].rowId,
+      rowLabel: identities[index].rowLabel,
+      row: rows[index],
+      findings,
+      errors: findings.map(finding => finding.message),
+      isDuplicate,
+      ...(isDuplicate && cluster && {
+        duplicateOf: cluster.survivor,
+        duplicateOfRowId: identities[cluster.survivor].rowId,
+        duplicateOfRowLabel: identities[cluster.survivor].rowLabel,
+      }),
+    });
+  });
+
+  const findingCounts: Partial<Record<QualityRuleCode, number>> = {};
+  let rowsWithJSONErrors = 0;
+  let rowsWithOtherErrors = 0;
+  let rowsWithWarnings = 0;
+  issues.forEach(({ findings }) => {
+    findings.forEach(({ code }) => {
+      findingCounts[code] = (findingCounts[code] ?? 0) + 1;
+    });
+    const errors = findings.filter(finding => finding.severity === 'error');
+    if (errors.some(finding => finding.code === 'invalid-json')) {
+      rowsWithJSONErrors++;
+    } else if (errors.length > 0) {
+      rowsWithOtherErrors++;
+    }
+    if (findings.some(finding => finding.severity === 'warning' && !DUPLICATE_CODES.has(finding.code))) {
+      rowsWithWarnings++;
     }
   });
   
   const validRows = processed.filter(p => p.isValid && !p.isDuplicate).length;
   const invalidRows = processed.length - validRows;
+
+  const dateParseStrategies: Partial<Record<DateParseStrategy, number>> = {};
+  processed.forEach(({ complaintDateStrategy }) => {
+    if (complaintDateStrategy) {
+      dateParseStrategies[complaintDateStrategy] = (dateParseStrategies[complaintDateStrategy] ?? 0) + 1;
+    }
+  });
   
   return {
     processed,
     issues,
+    duplicateClusters,
     summary: {
       totalRows: rows.length,
       validRows,
@@ -542,6 +634,10 @@ export function processRowsWithQualityChecks(
       duplicateRows: duplicateCount,
       rowsWithJSONErrors,
       rowsWithOtherErrors,
+      rowsWithWarnings,
+      findingCounts,
+      pendingDuplicateClusters: duplicateClusters.filter(needsDuplicateReview).length,
+      dateParseStrategies,
     },
   };
 }
@@ -0,0 +1,305 @@
+// Date extraction for sheet cells such as the "Processing Log" column
+// Reads Sheets serial numbers, ISO strings, US-style dates and free-text logs
+// with timestamped entries, and reports how each date was read.
+
+import { DateParseStrategy, NumericDateOrder, QualityRuleCode } from '../types';
+import { NUMERIC_DATE_ORDER, TIME_ZONE } from '../config/dateConfig';
+import { DateTimeParts, zonedTimeToUtc } from './timeZone';
+
+export interface DateExtraction {
+  date?: Date;
+  strategy?: DateParseStrategy;
+  matchedText?: string; // The part of the value the date was read from
+  ambiguous?: boolean; // A numeric date either part of which could be the month
+  impliedOrder?: NumericDateOrder; // The only order a numeric date with a part over 12 can be read in
+  warnings: DateWarning[];
+}
+
+export interface DateWarning {
+  code: Extract<QualityRuleCode, 'ambiguous-date' | 'unfiled-log-date'>;
+  message: string;
+}
+
+export interface DateExtractionOptions {
+  timeZone?: string; // Zone for dates without an explicit offset; defaults to TIME_ZONE
+  // Reading of ambiguous numeric dates; defaults to NUMERIC_DATE_ORDER. With null
+  // they're read month first and each one is flagged.
+  numericOrder?: NumericDateOrder | null;
+}
+
+interface DateMatch {
+  index: number;
+  text: string;
+  strategy: DateParseStrategy;
+  date: Date;
+  ambiguous: boolean;
+  impliedOrder?: NumericDateOrder;
+}
+
+// Sheets serial day numbers for 1950-01-01 and 2100-01-01; other numbers aren't dates
+const MIN_SERIAL = 18264;
+const MAX_SERIAL = 73051;
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+const TIME = '(?:,?\\s+(?:at\\s+)?(\\d{1,2}):(\\d{2})(?::(\\d{2}))?\\s*([ap]\\.?m\\.?)?)?';
+
+const ISO_PATTERN =
+  /(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?)?/gi;
+const NUMERIC_PATTERN = new RegExp(`\\b(\\d{1,2})[/-](\\d{1,2})[/-](\\d{4}|\\d{2})\\b${TIME}`, 'gi');
+const MONTH_DAY_PATTERN = new RegExp(
+  `\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b${TIME}`,
+  'gi'
+);
+const DAY_MONTH_PATTERN = new RegExp(`\\b(\\d{1,2})\\s+${MONTH_NAME},?\\s+(\\d{4})\\b${TIME}`, 'gi');
+
+// Log entries that record the filing itself
+const FILING_PATTERN = /\b(filed|filing|file[- ]stamped|complaint)\b/i;
+
+/**
+ * Whether the parts name a real calendar date and time
+ */
+function isValidParts({ year, month, day, hour = 0, minute = 0, second = 0 }: DateTimeParts): boolean {
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return (
+    check.getUTCFullYear() === year &&
+    check.getUTCMonth() === month - 1 &&
+    check.getUTCDate() === day &&
+    hour < 24 &&
+    minute < 60 &&
+    second < 60
+  );
+}
+
+function toFullYear(year: string): number {
+  const value = Number(year);
+  if (year.length > 2) return value;
+  return value < 70 ? 2000 + value : 1900 + value;
+}
+
+/**
+ * Reads an optional time group (hour, minute, second, am/pm)
+ */
+function toTime(
+  hour: string | undefined,
+  minute: string | undefined,
+  second: string | undefined,
+  meridiem: string | undefined
+): Pick<DateTimeParts, 'hour' | 'minute' | 'second'> {
+  if (hour === undefined) return {};
+
+  let hours = Number(hour);
+  const suffix = meridiem?.toLowerCase().replace(/\./g, '');
+  if (suffix === 'pm' && hours < 12) hours += 12;
+  if (suffix === 'am' && hours === 12) hours = 0;
+
+  return { hour: hours, minute: Number(minute), second: second ? Number(second) : 0 };
+}
+
+/**
+ * The instant of a date and time with an explicit UTC offset ("Z", "+05:30", "-0400")
+ */
+function toOffsetDate({ year, month, day, hour = 0, minute = 0, second = 0 }: DateTimeParts, offset: string): Date {
+  const utc = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (offset.toUpperCase() === 'Z') return new Date(utc);
+
+  const [, sign, hours, minutes] = offset.match(/([+-])(\d{2}):?(\d{2})/) ?? [];
+  const offsetMs = (Number(hours) * 60 + Number(minutes)) * 60 * 1000;
+  return new Date(sign === '-' ? utc + offsetMs : utc - offsetMs);
+}
+
+function findMatches(text: string, timeZone: string, numericOrder: NumericDateOrder): DateMatch[] {
+  const matches: DateMatch[] = [];
+  const add = (
+    match: RegExpExecArray,
+    strategy: DateParseStrategy,
+    parts: DateTimeParts,
+    ambiguous = false,
+    offset?: string,
+    impliedOrder?: NumericDateOrder
+  ) => {
+    if (!isValidParts(parts)) return;
+    matches.push({
+      index: match.index,
+      text: match[0].trim(),
+      strategy,
+      // An explicit offset pins the instant, whatever the configured zone
+      date: offset ? toOffsetDate(parts, offset) : zonedTimeToUtc(parts, timeZone),
+      ambiguous,
+      ...(impliedOrder && { impliedOrder }),
+    });
+  };
+
+  for (const match of text.matchAll(ISO_PATTERN)) {
+    const [, year, month, day, hour, minute, second, offset] = match;
+    add(match, 'iso', {
+      year: Number(year),
+      month: Number(month),
+      day: Number(day),
+      ...toTime(hour, minute, second, undefined),
+    }, false, offset);
+  }
+
+  for (const match of text.matchAll(NUMERIC_PATTERN)) {
+    const [, first, second, year, hour, minute, seconds, meridiem] = match;
+    const a = Number(first);
+    const b = Number(second);
+    // A part over 12 can only be the day; otherwise use the configured order
+    const dayFirst = a > 12 || (b <= 12 && numericOrder === 'DMY');
+    const ambiguous = a <= 12 && b <= 12 && a !== b;
+    const impliedOrder = a > 12 ? 'DMY' : b > 12 ? 'MDY' : undefined;
+    add(match, 'numeric', {
+      year: toFullYear(year),
+      month: dayFirst ? b : a,
+      day: dayFirst ? a : b,
+      ...toTime(hour, minute, seconds, meridiem),
+    }, ambiguous, undefined, impliedOrder);
+  }
+
+  for (const match of text.matchAll(MONTH_DAY_PATTERN)) {
+    const [, month, day, year, hour, minute, second, meridiem] = match;
+    add(match, 'month-name', {
+      year: Number(year),
+      month: MONTHS.indexOf(month.toLowerCase()) + 1,
+      day: Number(day),
+      ...toTime(hour, minute, second, meridiem),
+    });
+  }
+
+  for (const match of text.matchAll(DAY_MONTH_PATTERN)) {
+    const [, day, month, year, hour, minute, second, meridiem] = match;
+    add(match, 'month-name', {
+      year: Number(year),
+      month: MONTHS.indexOf(month.toLowerCase()) + 1,
+      day: Number(day),
+      ...toTime(hour, minute, second, meridiem),
+    });
+  }
+
+  return matches.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Reads a Sheets serial date (the fraction is the time of day in the given zone)
+ */
+function fromSerial(serial: number, timeZone: string): Date | undefined {
+  if (serial < MIN_SERIAL || serial > MAX_SERIAL) return undefined;
+
+  const wallClock = new Date(SERIAL_EPOCH + Math.round(serial * DAY_MS / 1000) * 1000);
+  return zonedTimeToUtc({
+    year: wallClock.getUTCFullYear(),
+    month: wallClock.getUTCMonth() + 1,
+    day: wallClock.getUTCDate(),
+    hour: wallClock.getUTCHours(),
+    minute: wallClock.getUTCMinutes(),
+    second: wallClock.getUTCSeconds(),
+  }, timeZone);
+}
+
+function describeDate(date: Date, timeZone: string): string {
+  return date.toLocaleDateString('en-US', { timeZone, month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+const describeOrder = (order: NumericDateOrder) => (order === 'MDY' ? 'MM/DD' : 'DD/MM');
+
+/**
+ * The order ambiguous numeric dates are read in, or null when none is configured
+ */
+function getConfiguredOrder(options: DateExtractionOptions): NumericDateOrder | null {
+  return options.numericOrder === undefined ? NUMERIC_DATE_ORDER : options.numericOrder;
+}
+
+/**
+ * Warns that an ambiguous date may have been read in the wrong order
+ * @param conflict - A date from the same column that can only be read in the
+ *   other order; without one, the warning says no order is configured
+ */
+export function describeAmbiguousDate(
+  extraction: DateExtraction & { date: Date },
+  conflict?: DateExtraction,
+  options: DateExtractionOptions = {}
+): DateWarning {
+  const order = getConfiguredOrder(options) ?? 'MDY';
+  const read = `Ambiguous date "${extraction.matchedText}" read as ${describeDate(extraction.date, options.timeZone ?? TIME_ZONE)}`;
+  const message = conflict?.impliedOrder
+    ? `${read} (${describeOrder(order)}), but "${conflict.matchedText}" in the same column is ${describeOrder(conflict.impliedOrder)}`
+    : `${read} (${describeOrder(order)}; no date order is configured)`;
+  return { code: 'ambiguous-date', message };
+}
+
+/**
+ * Extracts a date from a sheet cell
+ * - Sheets serial numbers (e.g. 45306 or "45306.5")
+ * - ISO strings; those without an offset are read in the configured time zone
+ * - US-style numeric dates and dates with month names, with an optional time
+ * - Logs with several dated entries (one per line, or separated by ";" or "|"):
+ *   the entry mentioning the filing is used, otherwise the earliest date
+ * Ambiguous numeric dates (e.g. 03/04/2024) are read in the configured order;
+ * they're only reported as warnings when no order is configured (see
+ * validateDateOrder for dates the rest of their column contradicts).
+ */
+export function extractDate(value: unknown, options: DateExtractionOptions = {}): DateExtraction {
+  const timeZone = options.timeZone ?? TIME_ZONE;
+  const configuredOrder = getConfiguredOrder(options);
+  const numericOrder = configuredOrder ?? 'MDY';
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? { warnings: [] }
+      : { date: value, strategy: 'date-object', warnings: [] };
+  }
+
+  const text = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (text === '') return { warnings: [] };
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const date = fromSerial(Number(text), timeZone);
+    return date
+      ? { date, strategy: 'sheets-serial', matchedText: text, warnings: [] }
+      : { warnings: [] };
+  }
+
+  // The first date in each log entry (a plain date cell is a single entry)
+  const entries = text
+    .split(/\r?\n|\r|;|\|/)
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '')
+    .map(entry => ({ entry, match: findMatches(entry, timeZone, numericOrder)[0] }))
+    .filter((dated): dated is { entry: string; match: DateMatch } => !!dated.match);
+
+  if (entries.length === 0) return { warnings: [] };
+
+  const warnings: DateWarning[] = [];
+  let chosen = entries[0].match;
+  let strategy = chosen.strategy;
+
+  const isLog = entries.length > 1 || entries[0].entry !== chosen.text;
+  if (isLog) {
+    strategy = 'log-entry';
+    const filing = entries.find(({ entry }) => FILING_PATTERN.test(entry));
+    if (filing) {
+      chosen = filing.match;
+    } else {
+      chosen = entries.reduce((earliest, { match }) => (match.date < earliest.date ? match : earliest), chosen);
+      if (entries.length > 1) {
+        warnings.push({
+          code: 'unfiled-log-date',
+          message: `No filing entry in log; used the earliest date "${chosen.text}"`,
+        });
+      }
+    }
+  }
+
+  const extraction: DateExtraction & { date: Date } = {
+    date: chosen.date,
+    strategy,
+    matchedText: chosen.text,
+    ...(chosen.ambiguous && { ambiguous: true }),
+    ...(chosen.impliedOrder && { impliedOrder: chosen.impliedOrder }),
+    warnings,
+  };
+  if (chosen.ambiguous && !configuredOrder) warnings.push(describeAmbiguousDate(extraction, undefined, options));
+  return extraction;
+}
@@ -0,0 +1,197 @@
+// Duplicate clusters
+// Groups the rows duplicate detection matched into clusters that say how they
+// matched and how sure the match is, and applies the analyst's saved decisions
+// (keyed by row fingerprints) to them. A decision still applies when rows join
+// its cluster; the new rows are handled as if the cluster were pending
+
+import {
+  DuplicateCluster,
+  DuplicateClusterMember,
+  DuplicateDecision,
+  DuplicateDecisionList,
+  DuplicateStrategy,
+  ProcessedComplaint,
+} from '../types';
+import { AUTO_MERGE_CONFIDENCE } from '../config/duplicateConfig';
+import { hashText } from './rowFingerprint';
+
+const MAX_CLUSTER_ID_LENGTH = 100;
+const MAX_CLUSTER_SIZE = 1000;
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  exact: 'Identical',
+  'same-lender-date': 'Same property, lender and date',
+  'similar-address': 'Similar address, same lender and date',
+  'same-address-date': 'Same address and date',
+};
+
+/**
+ * The id of a cluster of rows, from their fingerprints in any order
+ */
+export function toDuplicateClusterId(fingerprints: string[]): string {
+  return `dup-${hashText([...fingerprints].sort().join('|'))}`;
+}
+
+/**
+ * The decision for a cluster: the one saved under its id, else the one covering
+ * the most of its rows among those made before other rows joined it
+ */
+function findDecision(
+  id: string,
+  fingerprints: Set<string>,
+  decisions: DuplicateDecision[]
+): DuplicateDecision | undefined {
+  const exact = decisions.find(decision => decision.clusterId === id);
+  if (exact) return exact;
+  return decisions
+    .filter(decision => decision.fingerprints.every(fingerprint => fingerprints.has(fingerprint)))
+    .reduce<DuplicateDecision | undefined>(
+      (best, decision) => (!best || decision.fingerprints.length >= best.fingerprints.length ? decision : best),
+      undefined
+    );
+}
+
+/**
+ * Builds the duplicate clusters, applying saved decisions
+ * @param rows - Processed rows with their fingerprints
+ * @param matches - Each duplicate row's match from detectDuplicates
+ */
+export function buildDuplicateClusters(
+  rows: ProcessedComplaint[],
+  matches: Map<number, { isDuplicate: boolean; duplicateOf?: number; strategy?: DuplicateStrategy; confidence?: number }>,
+  decisions: DuplicateDecision[] = []
+): DuplicateCluster[] {
+  // Duplicates always match the first row of their cluster
+  const membersByFirst = new Map<number, DuplicateClusterMember[]>();
+  [...matches.entries()]
+    .sort(([a], [b]) => a - b)
+    .forEach(([rowIndex, match]) => {
+      if (!match.isDuplicate || match.duplicateOf === undefined || !match.strategy) return;
+      const first = match.duplicateOf;
+      const members = membersByFirst.get(first) ?? [{ rowIndex: first, fingerprint: rows[first].fingerprint ?? '' }];
+      members.push({
+        rowIndex,
+        fingerprint: rows[rowIndex].fingerprint ?? '',
+        strategy: match.strategy,
+        confidence: match.confidence ?? 0,
+      });
+      membersByFirst.set(first, members);
+    });
+
+  return [...membersByFirst.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([first, members]) => {
+      const weakest = members
+        .slice(1)
+        .reduce((lowest, member) => ((member.confidence ?? 0) < (lowest.confidence ?? 0) ? member : lowest));
+      const id = toDuplicateClusterId(members.map(member => member.fingerprint));
+      const decision = findDecision(id, new Set(members.map(member => member.fingerprint)), decisions);
+      const status = decision?.status ?? 'pending';
+      if (decision && decision.clusterId !== id) {
+        const decided = new Set(decision.fingerprints);
+        members.forEach(member => {
+          if (!decided.has(member.fingerprint)) member.addedSinceDecision = true;
+        });
+      }
+      const survivor = status === 'confirmed'
+        ? members.find(member => member.fingerprint === decision?.survivor)?.rowIndex ?? first
+        : first;
+      const confidence = weakest.confidence ?? 0;
+
+      return {
+        id,
+        members,
+        strategy: weakest.strategy!,
+        confidence,
+        status,
+        ...(decision && { decisionId: decision.clusterId }),
+        survivor,
+        autoMerged: status === 'pending' && confidence >= AUTO_MERGE_CONFIDENCE,
+      };
+    });
+}
+
+/**
+ * Rows of a cluster dropped from the metrics: all but the survivor once it's
+ * confirmed (or auto-merged), none once it's rejected. Rows added since the
+ * decision are dropped only when they matched surely enough to auto-merge.
+ */
+export function isDroppedFromCluster(cluster: DuplicateCluster, rowIndex: number): boolean {
+  if (rowIndex === cluster.survivor) return false;
+  const member = cluster.members.find(candidate => candidate.rowIndex === rowIndex);
+  if (member?.addedSinceDecision) return (member.confidence ?? 0) >= AUTO_MERGE_CONFIDENCE;
+  return cluster.status === 'confirmed' || cluster.autoMerged;
+}
+
+/**
+ * Whether a cluster needs an analyst: nobody has reviewed it, or rows joined
+ * it after its decision
+ */
+export function needsDuplicateReview(cluster: DuplicateCluster): boolean {
+  return cluster.status === 'pending' || cluster.members.some(member => member.addedSinceDecision);
+}
+
+/**
+ * Records the decision for a cluster (a cluster has at most one), replacing
+ * the decisions of smaller clusters its rows have grown from
+ */
+export function setDuplicateDecision(list: DuplicateDecisionList, decision: DuplicateDecision): DuplicateDecisionList {
+  const fingerprints = new Set(decision.fingerprints);
+  const replaced = (existing: DuplicateDecision) =>
+    existing.clusterId === decision.clusterId ||
+    existing.fingerprints.every(fingerprint => fingerprints.has(fingerprint));
+  return { decisions: [...list.decisions.filter(existing => !replaced(existing)), decision] };
+}
+
+/**
+ * Validates a decision from a request or the decision file
+ * @throws When the cluster id, status, fingerprints or survivor are missing or invalid
+ */
+export function sanitizeDuplicateDecision(value: unknown): DuplicateDecision {
+  const decision = (value ?? {}) as Partial<DuplicateDecision>;
+  const clusterId = typeof decision.clusterId === 'string' ? decision.clusterId.trim() : '';
+  if (!clusterId || clusterId.length > MAX_CLUSTER_ID_LENGTH) {
+    throw new Error(`A decision needs a cluster id of 1-${MAX_CLUSTER_ID_LENGTH} characters`);
+  }
+  if (decision.status !== 'confirmed' && decision.status !== 'rejected') {
+    throw new Error(`The decision for ${clusterId} must be "confirmed" or "rejected"`);
+  }
+  const { fingerprints } = decision;
+  if (
+    !Array.isArray(fingerprints) ||
+    fingerprints.length < 2 ||
+    fingerprints.length > MAX_CLUSTER_SIZE ||
+    !fingerprints.every(fingerprint => typeof fingerprint === 'string' && /^[0-9a-f]{1,32}$/.test(fingerprint))
+  ) {
+    throw new Error(`The decision for ${clusterId} needs the fingerprints of the cluster's rows`);
+  }
+  if (toDuplicateClusterId(fingerprints) !== clusterId) {
+    throw new Error(`The fingerprints don't match cluster ${clusterId}`);
+  }
+
+  const sanitized: DuplicateDecision = {
+    clusterId,
+    status: decision.status,
+    fingerprints,
+    decidedAt: typeof decision.decidedAt === 'string' ? decision.decidedAt : new Date().toISOString(),
+  };
+  if (decision.status === 'confirmed') {
+    if (typeof decision.survivor !== 'string' || !fingerprints.includes(decision.survivor)) {
+      throw new Error(`Pick the record to keep in ${clusterId}`);
+    }
+    sanitized.survivor = decision.survivor;
+  }
+  return sanitized;
+}
+
+/**
+ * Validates a decision list
+ * @throws As sanitizeDuplicateDecision
+ */
+export function sanitizeDuplicateDecisionList(value: unknown): DuplicateDecisionList {
+  const decisions = (value as DuplicateDecisionList | null)?.decisions;
+  if (!Array.isArray(decisions)) {
+    throw new Error('Expected { decisions: [{ clusterId, status, fingerprints, survivor }] }');
+  }
+  return decisions.map(sanitizeDuplicateDecision).reduce(setDuplicateDecision, { decisions: [] });
+}
@@ -0,0 +1,151 @@
+// Geography drill-down
+// Groups complaints by state, region and county, with the same totals as the
+// region summaries at every level and the individual deals under each county.
+
+import {
+  CountyDrillDown,
+  DrillDownDeal,
+  DrillDownPeriod,
+  ProcessedComplaint,
+  RegionDrillDown,
+  RegionModel,
+  StateDrillDown,
+  SummaryTotals,
+} from '../types';
+import { DEFAULT_REGION_MODEL, UNMAPPED_REGION } from '../config/regionConfig';
+import { UNKNOWN_STATE, US_STATES } from '../config/usStates';
+import { meetsCriteria } from './calculations';
+import { normalizeCounty, normalizeLender, normalizeState } from './normalization';
+import { getComplaintRegion } from './regionMapping';
+import { startOfBusinessMonth, startOfBusinessYear } from './businessDate';
+import { getRowLabel } from './rowFingerprint';
+
+export const DRILL_DOWN_PERIOD_LABELS: Record<DrillDownPeriod, string> = {
+  month: 'Current month',
+  ytd: 'Year to date',
+  all: 'All time',
+};
+
+const emptyTotals = (): SummaryTotals => ({
+  totalComplaints: 0,
+  totalUPB: 0,
+  complaintsMeetingCriteria: 0,
+  upbMeetingCriteria: 0,
+});
+
+function addDeal(totals: SummaryTotals, deal: DrillDownDeal): void {
+  totals.totalComplaints++;
+  totals.totalUPB += deal.upb;
+  if (deal.meetsCriteria) {
+    totals.complaintsMeetingCriteria++;
+    totals.upbMeetingCriteria += deal.upb;
+  }
+}
+
+function getPeriodStart(period: DrillDownPeriod, referenceDate: Date): Date | null {
+  if (period === 'month') return startOfBusinessMonth(referenceDate);
+  if (period === 'ytd') return startOfBusinessYear(referenceDate);
+  return null;
+}
+
+/**
+ * The complaint's state: assigned with its region, else read from its State column
+ */
+function getComplaintState(complaint: ProcessedComplaint, model: RegionModel): string {
+  if (complaint.normalizedState) return complaint.normalizedState;
+  const regionName = getComplaintRegion(complaint, model);
+  const region = model.regions.find(candidate => candidate.name === regionName);
+  return normalizeState(region?.state) ?? normalizeState(complaint.state) ?? UNKNOWN_STATE;
+}
+
+/**
+ * Builds the state -> region -> county -> deal tree for valid, non-duplicate
+ * complaints filed in the period. Unlike the region summaries, complaints
+ * outside every region are kept (under Other/Unmapped) so nothing is hidden.
+ * @param regions - The region model giving the states' and regions' order
+ */
+export function calculateGeographyDrillDown(
+  complaints: ProcessedComplaint[],
+  referenceDate: Date = new Date(),
+  regions: RegionModel = DEFAULT_REGION_MODEL,
+  period: DrillDownPeriod = 'ytd'
+): StateDrillDown[] {
+  const periodStart = getPeriodStart(period, referenceDate);
+  const states = new Map<string, StateDrillDown>();
+
+  complaints.forEach((complaint, rowIndex) => {
+    if (!complaint.isValid || complaint.isDuplicate || !complaint.complaintDate) return;
+    const date = complaint.complaintDate instanceof Date
+      ? complaint.complaintDate
+      : new Date(complaint.complaintDate);
+    if (isNaN(date.getTime()) || date > referenceDate) return;
+    if (periodStart && date < periodStart) return;
+
+    const deal: DrillDownDeal = {
+      rowIndex,
+      rowLabel: getRowLabel(complaint, rowIndex),
+      propertyAddress: complaint.propertyAddress || 'Unknown',
+      lender: complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff),
+      upb: typeof complaint.upb === 'number' && !isNaN(complaint.upb) ? complaint.upb : 0,
+      complaintDate: date,
+      meetsCriteria: meetsCriteria(complaint),
+    };
+
+    const stateCode = getComplaintState(complaint, regions);
+    if (!states.has(stateCode)) {
+      states.set(stateCode, { state: stateCode, stateName: US_STATES[stateCode], ...emptyTotals(), regions: [] });
+    }
+    const state = states.get(stateCode)!;
+
+    const regionName = getComplaintRegion(complaint, regions);
+    let region = state.regions.find(candidate => candidate.region === regionName);
+    if (!region) {
+      region = { region: regionName, ...emptyTotals(), counties: [] };
+      state.regions.push(region);
+    }
+
+    const countyName = complaint.normalizedCounty || normalizeCounty(complaint.county);
+    let county = region.counties.find(candidate => candidate.county === countyName);
+    if (!county) {
+      county = { county: countyName, ...emptyTotals(), deals: [] };
+      region.counties.push(county);
+    }
+
+    [state, region, county].forEach(totals => addDeal(totals, deal));
+    county.deals.push(deal);
+  });
+
+  // States and regions follow the model; anything outside it goes last
+  const regionOrder = [...regions.regions.map(region => region.name), UNMAPPED_REGION];
+  const stateOrder = regions.regions
+    .map(region => normalizeState(region.state))
+    .filter((code): code is string => !!code);
+  const rank = (order: string[], value: string) => {
+    const index = order.indexOf(value);
+    return index === -1 ? order.length : index;
+  };
+
+  const sortCounties = (counties: CountyDrillDown[]) =>
+    counties
+      .sort((a, b) => b.totalComplaints - a.totalComplaints || a.county.localeCompare(b.county))
+      .forEach(county =>
+        county.deals.sort((a, b) => (b.complaintDate?.getTime() ?? 0) - (a.complaintDate?.getTime() ?? 0))
+      );
+
+  const sortRegions = (stateRegions: RegionDrillDown[]) =>
+    stateRegions
+      .sort((a, b) => rank(regionOrder, a.region) - rank(regionOrder, b.region))
+      .forEach(region => sortCounties(region.counties));
+
+  return Array.from(states.values())
+    .sort((a, b) => {
+      if (a.state === UNKNOWN_STATE || b.state === UNKNOWN_STATE) {
+        return Number(a.state === UNKNOWN_STATE) - Number(b.state === UNKNOWN_STATE);
+      }
+      return rank(stateOrder, a.state) - rank(stateOrder, b.state) || a.state.localeCompare(b.state);
+    })
+    .map(state => {
+      sortRegions(state.regions);
+      return state;
+    });
+}
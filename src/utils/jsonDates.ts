@@ -0,0 +1,21 @@
+// JSON date revival shared by the API clients and the server's file stores
+
+// Matches the ISO timestamps produced by JSON.stringify(new Date())
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Timestamps that are declared as strings on our types and must stay strings
+const STRING_TIMESTAMP_KEYS = new Set(['generatedAt', 'createdAt']);
+
+/**
+ * JSON reviver that turns serialized dates back into Date objects
+ * (generatedAt / createdAt stay strings, as declared on DashboardData and SnapshotMeta)
+ */
+export function reviveDates(key: string, value: unknown): unknown {
+  if (!STRING_TIMESTAMP_KEYS.has(key) && typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,310 @@
+// Lender entity resolution
+// Lenders are data (see LenderMasterList): the backend serves the saved master
+// list and the built-in one in config/lenderConfig.ts is used otherwise
+
+import {
+  LenderEntity,
+  LenderMasterList,
+  LenderMergeSuggestion,
+  LenderNameCount,
+  ProcessedComplaint,
+} from '../types';
+import { DEFAULT_LENDER_MASTER_LIST } from '../config/lenderConfig';
+import { normalizeLender } from './normalization';
+
+const MAX_NAME_LENGTH = 200;
+const MAX_PATTERN_LENGTH = 200;
+
+// Names at least this similar are suggested as the same lender
+export const MERGE_SIMILARITY_THRESHOLD = 0.5;
+
+// Words most lender names share, which say nothing about which lender it is
+const GENERIC_TOKENS = new Set([
+  'a', 'and', 'as', 'association', 'bank', 'by', 'capacity', 'company', 'corporation',
+  'federal', 'financial', 'for', 'fsb', 'fund', 'group', 'in', 'incorporated', 'its',
+  'liability', 'limited', 'llc', 'merger', 'mortgage', 'national', 'not', 'of', 'partnership',
+  'savings', 'service', 'solely', 'successor', 'the', 'to', 'trust', 'trustee', 'unknown',
+]);
+
+const toLenderKey = (lender: string) => normalizeLender(lender).toLowerCase();
+
+interface LenderLookup {
+  byKey: Map<string, string>; // Normalized name or alias -> canonical name
+  patterns: Array<{ regex: RegExp; name: string }>;
+}
+
+// Lookups are built once per master list
+const lookups = new WeakMap<LenderMasterList, LenderLookup>();
+
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function getLookup(list: LenderMasterList): LenderLookup {
+  let lookup = lookups.get(list);
+  if (!lookup) {
+    lookup = { byKey: new Map(), patterns: [] };
+    for (const entity of list.lenders) {
+      for (const name of [entity.name, ...entity.aliases]) {
+        // Both as written (aliases approved from suggestions are already
+        // normalized, and normalizing twice can change them) and normalized
+        for (const key of [name.trim().toLowerCase(), toLenderKey(name)]) {
+          if (!lookup.byKey.has(key)) lookup.byKey.set(key, entity.name);
+        }
+      }
+      for (const pattern of entity.patterns) {
+        const regex = compilePattern(pattern);
+        if (regex) lookup.patterns.push({ regex, name: entity.name });
+      }
+    }
+    lookups.set(list, lookup);
+  }
+  return lookup;
+}
+
+/**
+ * Maps a lender/plaintiff name to its canonical name: the master list entity
+ * whose name or alias it normalizes to, else the first whose pattern matches
+ * the normalized name, else the normalized name itself
+ */
+export function resolveLender(
+  lender: string | undefined | null | Date,
+  list: LenderMasterList = DEFAULT_LENDER_MASTER_LIST
+): string {
+  return resolveNormalizedLender(normalizeLender(lender), list);
+}
+
+/**
+ * Maps an already-normalized lender name (e.g. from a NormalizationRegistry) to
+ * its canonical name, without normalizing it again
+ */
+export function resolveNormalizedLender(
+  normalized: string,
+  list: LenderMasterList = DEFAULT_LENDER_MASTER_LIST
+): string {
+  if (normalized === 'Unknown') return normalized;
+
+  const lookup = getLookup(list);
+  const byName = lookup.byKey.get(normalized.toLowerCase());
+  if (byName) return byName;
+  return lookup.patterns.find(({ regex }) => regex.test(normalized))?.name ?? normalized;
+}
+
+/**
+ * The words of a lender name that tell lenders apart
+ */
+export function getLenderTokens(lender: string): Set<string> {
+  return new Set(
+    lender
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(token => token && !GENERIC_TOKENS.has(token))
+  );
+}
+
+/**
+ * Jaccard similarity of two token sets (0 when either is empty)
+ */
+export function tokenSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Clusters the names the master list resolves the complaints' lenders to by
+ * token similarity, for analysts to approve as aliases. Two names that are
+ * both master list entities are never linked, so the list's own distinctions hold.
+ * @param threshold - Lowest similarity (0-1) at which two names are linked
+ */
+export function suggestLenderMerges(
+  complaints: ProcessedComplaint[],
+  list: LenderMasterList = DEFAULT_LENDER_MASTER_LIST,
+  threshold: number = MERGE_SIMILARITY_THRESHOLD
+): LenderMergeSuggestion[] {
+  const counts = new Map<string, number>();
+  complaints.forEach(complaint => {
+    const name = resolveLender(complaint.lender || complaint.plaintiff, list);
+    if (name !== 'Unknown') counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  const names = Array.from(counts.keys()).sort((a, b) => a.localeCompare(b));
+  const tokens = names.map(getLenderTokens);
+  const entityNames = new Set(list.lenders.map(entity => entity.name.toLowerCase()));
+  const isEntity = (index: number) => entityNames.has(names[index].toLowerCase());
+
+  // Only names sharing a token can be similar
+  const byToken = new Map<string, number[]>();
+  tokens.forEach((set, index) =>
+    set.forEach(token => byToken.set(token, [...(byToken.get(token) ?? []), index]))
+  );
+
+  const links: Array<{ a: number; b: number; similarity: number }> = [];
+  const compared = new Set<string>();
+  byToken.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [a, b] = [indexes[i], indexes[j]];
+        const pair = `${a}|${b}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        if (isEntity(a) && isEntity(b)) continue;
+        const similarity = tokenSimilarity(tokens[a], tokens[b]);
+        if (similarity >= threshold) links.push({ a, b, similarity });
+      }
+    }
+  });
+
+  // Strongest links first, so each cluster's last join is its weakest link
+  const parent = names.map((_, index) => index);
+  const weakest = names.map(() => 1);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  links
+    .sort((x, y) => y.similarity - x.similarity)
+    .forEach(({ a, b, similarity }) => {
+      const [rootA, rootB] = [find(a), find(b)];
+      if (rootA === rootB) return;
+      parent[rootB] = rootA;
+      weakest[rootA] = Math.min(weakest[rootA], weakest[rootB], similarity);
+    });
+
+  const clusters = new Map<number, number[]>();
+  names.forEach((_, index) => {
+    const root = find(index);
+    clusters.set(root, [...(clusters.get(root) ?? []), index]);
+  });
+
+  return Array.from(clusters)
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]): LenderMergeSuggestion => {
+      const cluster: LenderNameCount[] = members
+        .map(index => ({ name: names[index], complaints: counts.get(names[index]) ?? 0 }))
+        .sort((a, b) => b.complaints - a.complaints || a.name.localeCompare(b.name));
+      const entity = cluster.find(({ name }) => entityNames.has(name.toLowerCase()));
+      return {
+        canonical: (entity ?? cluster[0]).name,
+        names: cluster,
+        similarity: weakest[root],
+      };
+    })
+    .sort((a, b) => {
+      const total = (suggestion: LenderMergeSuggestion) =>
+        suggestion.names.reduce((sum, { complaints }) => sum + complaints, 0);
+      return total(b) - total(a) || a.canonical.localeCompare(b.canonical);
+    });
+}
+
+/**
+ * Adds approved names to an entity's aliases (creating the entity when the
+ * canonical name isn't one yet), as a new list. Names that are other entities
+ * or already resolve to the canonical name are left out.
+ */
+export function approveLenderMerge(
+  list: LenderMasterList,
+  canonical: string,
+  names: string[]
+): LenderMasterList {
+  const canonicalKey = toLenderKey(canonical);
+  const existing = list.lenders.find(entity => toLenderKey(entity.name) === canonicalKey);
+  const entity: LenderEntity = existing ?? { name: canonical, aliases: [], patterns: [] };
+  const otherEntities = new Set(
+    list.lenders.filter(other => other !== existing).map(other => toLenderKey(other.name))
+  );
+  const known = new Set([entity.name, ...entity.aliases].map(toLenderKey));
+
+  const aliases = [...entity.aliases];
+  names.forEach(name => {
+    const key = toLenderKey(name);
+    if (known.has(key) || otherEntities.has(key)) return;
+    known.add(key);
+    aliases.push(name);
+  });
+
+  const updated = { ...entity, aliases };
+  return {
+    ...list,
+    lenders: existing
+      ? list.lenders.map(other => (other === existing ? updated : other))
+      : [...list.lenders, updated],
+  };
+}
+
+/**
+ * Validates a lender master list from a request or a stored file
+ * @throws When an entity is unnamed or duplicated, a name or alias belongs to
+ *   two entities, or a pattern isn't a valid regular expression
+ */
+export function sanitizeLenderMasterList(value: unknown): LenderMasterList {
+  const lenders = (value as LenderMasterList | null)?.lenders;
+  if (!Array.isArray(lenders)) {
+    throw new Error('Expected { lenders: [{ name, aliases, patterns }] }');
+  }
+
+  const claimed = new Map<string, string>();
+  const claim = (name: string, owner: string) => {
+    const key = toLenderKey(name);
+    const current = claimed.get(key);
+    if (current && current !== owner) {
+      throw new Error(`"${name}" is used by both "${current}" and "${owner}"`);
+    }
+    claimed.set(key, owner);
+    return !current;
+  };
+
+  // Names are claimed first so an alias can't take another entity's name
+  const names = lenders.map((entry: Partial<LenderEntity>, index) => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Lender ${index + 1} needs a name of 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (claimed.has(toLenderKey(name))) {
+      throw new Error(`There are two lenders named "${name}"`);
+    }
+    claim(name, name);
+    return name;
+  });
+
+  const sanitized = lenders.map((entry: Partial<LenderEntity>, index): LenderEntity => {
+    const name = names[index];
+    const aliases = entry.aliases ?? [];
+    const patterns = entry.patterns ?? [];
+    if (!Array.isArray(aliases) || aliases.some(alias => typeof alias !== 'string')) {
+      throw new Error(`Aliases for "${name}" must be a list of names`);
+    }
+    if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+      throw new Error(`Patterns for "${name}" must be a list of regular expressions`);
+    }
+
+    const keptAliases = aliases
+      .map(alias => alias.trim())
+      .filter(alias => alias && alias.length <= MAX_NAME_LENGTH && claim(alias, name));
+
+    const keptPatterns = patterns
+      .map(pattern => pattern.trim())
+      .filter(pattern => pattern !== '');
+    keptPatterns.forEach(pattern => {
+      if (pattern.length > MAX_PATTERN_LENGTH || !compilePattern(pattern)) {
+        throw new Error(
+          `Pattern "${pattern}" for "${name}" must be a valid regular expression of up to ${MAX_PATTERN_LENGTH} characters`
+        );
+      }
+    });
+
+    return { name, aliases: keptAliases, patterns: Array.from(new Set(keptPatterns)) };
+  });
+
+  return { lenders: sanitized };
+}
@@ -1,4 +1,11 @@
-// Normalization utilities for counties and lenders
+// Normalization utilities for counties, states and lenders
+
+import { AppliedNormalizationRule, NormalizationField } from '../types';
+import { US_STATES } from '../config/usStates';
+
+const STATE_CODES = new Map(
+  Object.entries(US_STATES).map(([code, name]) => [name.toLowerCase(), code])
+);
 
 /**
  * Normalizes county names to a consistent format
@@ -71,6 +78,7 @@ export function normalizeCounty(county: string | undefined | null): string {
 /**
  * Normalizes lender/plaintiff names
  * Handles abbreviations, punctuation, casing variations, and common name variations
+ * (Consolidating variations of one lender is the master list's job; see lenderResolution.ts)
  */
 export function normalizeLender(lender: string | undefined | null | Date): string {
   if (!lender) return 'Unknown';
@@ -183,54 +191,6 @@ export function normalizeLender(lender: string | undefined | null | Date): strin
   // Remove extra whitespace
   normalized = normalized.replace(/\s+/g, ' ').trim();
 
-  // Consolidate all Wilmington variations into one lender
-  if (/^wilmington\b/i.test(normalized)) {
-    return 'Wilmington';
-  }
-
-  // Consolidate JPMorgan variations into one lender
-  if (/^jpmorgan\b/i.test(normalized)) {
-    return 'JPMorgan';
-  }
-
-  // Consolidate Wells Fargo variations into one lender
-  if (/^wells\s*fargo\b/i.test(normalized)) {
-    return 'Wells Fargo';
-  }
-
-  // Consolidate Computershare Trust Company National into Computer Trust Company
-  if (/^computershare\s+trust\s+company\s+national\b/i.test(normalized)) {
-    return 'Computer Trust Company';
-  }
-
-  // Consolidate Lincoln Street variations into one lender
-  if (/^lincoln\s+street\b/i.test(normalized)) {
-    return 'Lincoln Street';
-  }
-
-  // Consolidate American General Life Insurance into American General Life
-  if (/^american\s+general\s+life\s+insurance\b/i.test(normalized)) {
-    return 'American General Life';
-  }
-
-  // Consolidate EF Mortgage variations into one lender
-  if (/ef\s+mortgage/i.test(normalized)) {
-    return 'EF Mortgage';
-  }
-
-  // Consolidate Tryon/Tyron Street variations into one lender
-  if (/(tryon|tyron)\s+street/i.test(normalized)) {
-    return 'Tryon Street';
-  }
-
-  // Consolidate SIG RCRS separately from Sig Cre
-  if (/^sig\s*rcrs\b/i.test(normalized)) {
-    return 'SIG RCRS';
-  }
-  if (/^sig\s*cre\b/i.test(normalized)) {
-    return 'Sig Cre';
-  }
-  
   // Capitalize first letter of each word (title case)
   normalized = normalized
     .split(' ')
@@ -247,36 +207,77 @@ export function normalizeLender(lender: string | undefined | null | Date): strin
   return normalized;
 }
 
+/**
+ * Normalizes a State column value ("fl", "Florida", "FL.") to its postal code
+ * Returns undefined for values that aren't a US state
+ */
+export function normalizeState(state: unknown): string | undefined {
+  if (typeof state !== 'string') return undefined;
+  const cleaned = state.trim().replace(/\.$/, '');
+  const code = cleaned.toUpperCase();
+  if (US_STATES[code]) return code;
+  return STATE_CODES.get(cleaned.toLowerCase());
+}
+
+type Rule = (value: string) => string;
+
+interface RegisteredRule {
+  id: string;
+  apply: Rule;
+}
+
+// A normalized value and the registered rules that changed it
+export interface NormalizationTrace {
+  value: string;
+  applied: AppliedNormalizationRule[];
+}
+
 /**
  * Extensible normalization registry
- * Can be extended with custom rules
+ * Runs the built-in normalization, then its rules in order. The pipeline takes
+ * one built from the configured rule set (see normalizationRules.ts) and records
+ * on each row which rules changed it.
  */
 export class NormalizationRegistry {
-  private countyRules: Array<(county: string) => string> = [];
-  private lenderRules: Array<(lender: string) => string> = [];
-  
-  addCountyRule(rule: (county: string) => string): void {
-    this.countyRules.push(rule);
+  private countyRules: RegisteredRule[] = [];
+  private lenderRules: RegisteredRule[] = [];
+
+  /**
+   * @param id - Recorded on rows the rule changes; numbered when not given
+   */
+  addCountyRule(rule: Rule, id: string = `county-rule-${this.countyRules.length + 1}`): void {
+    this.countyRules.push({ id, apply: rule });
   }
-  
-  addLenderRule(rule: (lender: string) => string): void {
-    this.lenderRules.push(rule);
+
+  addLenderRule(rule: Rule, id: string = `lender-rule-${this.lenderRules.length + 1}`): void {
+    this.lenderRules.push({ id, apply: rule });
   }
-  
+
+  traceCounty(county: string | undefined | null): NormalizationTrace {
+    return applyRules(normalizeCounty(county), this.countyRules, 'county');
+  }
+
+  traceLender(lender: string | undefined | null | Date): NormalizationTrace {
+    return applyRules(normalizeLender(lender), this.lenderRules, 'lender');
+  }
+
   normalizeCounty(county: string): string {
-    let result = normalizeCounty(county);
-    this.countyRules.forEach(rule => {
-      result = rule(result);
-    });
-    return result;
+    return this.traceCounty(county).value;
   }
-  
+
   normalizeLender(lender: string): string {
-    let result = normalizeLender(lender);
-    this.lenderRules.forEach(rule => {
-      result = rule(result);
-    });
-    return result;
+    return this.traceLender(lender).value;
   }
 }
 
+function applyRules(value: string, rules: RegisteredRule[], field: NormalizationField): NormalizationTrace {
+  const applied: AppliedNormalizationRule[] = [];
+  const result = rules.reduce((current, { id, apply }) => {
+    const next = apply(current);
+    if (next !== current) {
+      applied.push({ ruleId: id, field, before: current, after: next });
+    }
+    return next;
+  }, value);
+  return { value: result, applied };
+}
@@ -0,0 +1,78 @@
+// Normalization audit
+// Lists every distinct raw county or lender value next to what it normalized
+// to, so analysts can see why names were merged or kept apart
+
+import { NormalizationAuditEntry, NormalizationField, ProcessedComplaint } from '../types';
+
+// Normalized names with at least this many raw variants are highlighted
+export const MANY_VARIANTS_THRESHOLD = 3;
+
+/**
+ * Reduces a raw value to what it looks like: lowercase letters and digits only,
+ * so "ABC Bank, N.A." and "abc bank na" look alike
+ */
+export function toLookalikeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+const getRawValue = (complaint: ProcessedComplaint, field: NormalizationField): string => {
+  const value = field === 'county' ? complaint.county : complaint.lender || complaint.plaintiff;
+  return value === undefined || value === null ? '' : String(value).trim();
+};
+
+/**
+ * Builds the audit table for one field from every loaded row (invalid and
+ * duplicate rows are normalized too), most rows first
+ */
+export function buildNormalizationAudit(
+  complaints: ProcessedComplaint[],
+  field: NormalizationField
+): NormalizationAuditEntry[] {
+  // A raw value can normalize differently on different rows (e.g. a county name used in two states)
+  const entries = new Map<string, NormalizationAuditEntry>();
+
+  complaints.forEach(complaint => {
+    const raw = getRawValue(complaint, field);
+    const normalized = field === 'county' ? complaint.normalizedCounty : complaint.normalizedLender;
+    const key = `${raw}\u0000${normalized}`;
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { field, raw, normalized, rows: 0, totalUPB: 0, variants: 0, lookalikes: [], rules: [] };
+      entries.set(key, entry);
+    }
+
+    entry.rows++;
+    if (typeof complaint.upb === 'number' && !isNaN(complaint.upb)) {
+      entry.totalUPB += complaint.upb;
+    }
+    complaint.normalizationRules?.forEach(({ ruleId, field: ruleField }) => {
+      if (ruleField === field && !entry!.rules.includes(ruleId)) entry!.rules.push(ruleId);
+    });
+  });
+
+  const all = Array.from(entries.values());
+  const byNormalized = new Map<string, number>();
+  const byLookalike = new Map<string, NormalizationAuditEntry[]>();
+  all.forEach(entry => {
+    byNormalized.set(entry.normalized, (byNormalized.get(entry.normalized) ?? 0) + 1);
+    const lookalikeKey = toLookalikeKey(entry.raw);
+    byLookalike.set(lookalikeKey, [...(byLookalike.get(lookalikeKey) ?? []), entry]);
+  });
+
+  all.forEach(entry => {
+    entry.variants = byNormalized.get(entry.normalized) ?? 1;
+    entry.lookalikes = (byLookalike.get(toLookalikeKey(entry.raw)) ?? [])
+      .filter(other => other.normalized !== entry.normalized)
+      .map(({ raw, normalized }) => ({ raw, normalized }));
+  });
+
+  return all.sort((a, b) => b.rows - a.rows || a.raw.localeCompare(b.raw));
+}
+
+/**
+ * Whether an entry should be highlighted: its normalized name comes from many
+ * raw variants, or a raw value that looks like it normalized differently
+ */
+export function isFlaggedAuditEntry(entry: NormalizationAuditEntry): boolean {
+  return entry.variants >= MANY_VARIANTS_THRESHOLD || entry.lookalikes.length > 0;
+}
@@ -0,0 +1,174 @@
+// Declarative normalization rules
+// Rule sets are data (see NormalizationRuleFile): the backend reads them from a
+// JSON rule file, and the pipeline normalizes with a registry built from the
+// tenant's set, so each row can record which rules changed it
+
+import { NormalizationField, NormalizationRule, NormalizationRuleFile, NormalizationRuleSet } from '../types';
+import { DEFAULT_NORMALIZATION_RULES } from '../config/normalizationConfig';
+import { NormalizationRegistry, normalizeCounty, normalizeLender } from './normalization';
+
+const MAX_ID_LENGTH = 100;
+const MAX_TEXT_LENGTH = 200;
+
+const FIELD_NORMALIZERS: Record<NormalizationField, (value: string) => string> = {
+  county: normalizeCounty,
+  lender: normalizeLender,
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tidy = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Turns a rule into a function of an (already normalized) county or lender
+ */
+function compileRule(rule: NormalizationRule): (value: string) => string {
+  switch (rule.type) {
+    case 'replace': {
+      const find = new RegExp(escapeRegExp(rule.find), 'gi');
+      return value => tidy(value.replace(find, () => rule.replaceWith));
+    }
+    case 'regex': {
+      const pattern = new RegExp(rule.pattern, 'gi');
+      return value => tidy(value.replace(pattern, rule.replaceWith));
+    }
+    case 'map': {
+      // Compared after normalization, so "ABC Bank, N.A." and "Abc Bank National Association" are one name
+      const normalize = FIELD_NORMALIZERS[rule.field];
+      const names = new Set(rule.from.flatMap(name => [name.trim().toLowerCase(), normalize(name).toLowerCase()]));
+      return value => (names.has(value.toLowerCase()) ? rule.to : value);
+    }
+  }
+}
+
+/**
+ * Builds the registry the pipeline normalizes counties and lenders with
+ * @param ruleSet - Already checked with sanitizeNormalizationRuleSet
+ */
+export function createNormalizationRegistry(
+  ruleSet: NormalizationRuleSet = DEFAULT_NORMALIZATION_RULES
+): NormalizationRegistry {
+  const registry = new NormalizationRegistry();
+  ruleSet.rules.forEach(rule => {
+    if (rule.field === 'county') {
+      registry.addCountyRule(compileRule(rule), rule.id);
+    } else {
+      registry.addLenderRule(compileRule(rule), rule.id);
+    }
+  });
+  return registry;
+}
+
+/**
+ * The rule set for a tenant: its own, else the file's default, else none
+ * Only the file's own tenants count, so a sheet named e.g. "constructor"
+ * doesn't pick up an object built-in
+ */
+export function getTenantRuleSet(file: NormalizationRuleFile, tenant: string): NormalizationRuleSet {
+  const { tenants } = file;
+  const own = tenants && Object.prototype.hasOwnProperty.call(tenants, tenant) ? tenants[tenant] : undefined;
+  return own ?? file.default ?? DEFAULT_NORMALIZATION_RULES;
+}
+
+const isText = (value: unknown, maxLength: number = MAX_TEXT_LENGTH): value is string =>
+  typeof value === 'string' && value.length <= maxLength;
+
+function sanitizeRule(entry: Partial<NormalizationRule>, index: number): NormalizationRule {
+  const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+  if (!id || id.length > MAX_ID_LENGTH) {
+    throw new Error(`Rule ${index + 1} needs an id of 1-${MAX_ID_LENGTH} characters`);
+  }
+  const field = entry.field;
+  if (field !== 'county' && field !== 'lender') {
+    throw new Error(`Rule "${id}" needs a field of "county" or "lender"`);
+  }
+
+  switch (entry.type) {
+    case 'replace': {
+      const { find, replaceWith } = entry as Partial<Extract<NormalizationRule, { type: 'replace' }>>;
+      if (!isText(find) || !find.trim() || !isText(replaceWith)) {
+        throw new Error(`Rule "${id}" needs the text to find and the text to replace it with`);
+      }
+      return { id, field, type: 'replace', find, replaceWith };
+    }
+    case 'regex': {
+      const { pattern, replaceWith } = entry as Partial<Extract<NormalizationRule, { type: 'regex' }>>;
+      if (!isText(pattern) || !pattern || !isText(replaceWith)) {
+        throw new Error(`Rule "${id}" needs a pattern and the text to replace matches with`);
+      }
+      try {
+        new RegExp(pattern, 'gi');
+      } catch {
+        throw new Error(`Pattern "${pattern}" of rule "${id}" must be a valid regular expression`);
+      }
+      return { id, field, type: 'regex', pattern, replaceWith };
+    }
+    case 'map': {
+      const { from, to } = entry as Partial<Extract<NormalizationRule, { type: 'map' }>>;
+      if (!Array.isArray(from) || from.length === 0 || !from.every(name => isText(name) && name.trim())) {
+        throw new Error(`Rule "${id}" needs a list of names to map`);
+      }
+      if (!isText(to) || !to.trim()) {
+        throw new Error(`Rule "${id}" needs the canonical name to map to`);
+      }
+      return { id, field, type: 'map', from: from.map(name => name.trim()), to: to.trim() };
+    }
+    default:
+      throw new Error(`Rule "${id}" needs a type of "replace", "regex" or "map"`);
+  }
+}
+
+/**
+ * Validates one rule set
+ * @throws When a rule is incomplete, its id is used twice, or a pattern isn't a valid regular expression
+ */
+export function sanitizeNormalizationRuleSet(value: unknown): NormalizationRuleSet {
+  const rules = (value as NormalizationRuleSet | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Expected { rules: [{ id, field, type, ... }] }');
+  }
+
+  const ids = new Set<string>();
+  return {
+    rules: rules.map((entry: Partial<NormalizationRule>, index) => {
+      const rule = sanitizeRule(entry, index);
+      if (ids.has(rule.id)) {
+        throw new Error(`There are two rules with the id "${rule.id}"`);
+      }
+      ids.add(rule.id);
+      return rule;
+    }),
+  };
+}
+
+/**
+ * Validates a rule file
+ * @throws As sanitizeNormalizationRuleSet, naming the tenant whose set is invalid
+ */
+export function sanitizeNormalizationRuleFile(value: unknown): NormalizationRuleFile {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Expected { default?: { rules }, tenants?: { [sheet]: { rules } } }');
+  }
+  const file = value as NormalizationRuleFile;
+  const withTenant = (tenant: string, set: unknown) => {
+    try {
+      return sanitizeNormalizationRuleSet(set);
+    } catch (error) {
+      throw new Error(`${tenant}: ${(error as Error).message}`);
+    }
+  };
+
+  const sanitized: NormalizationRuleFile = {};
+  if (file.default !== undefined) {
+    sanitized.default = withTenant('Default rules', file.default);
+  }
+  if (file.tenants !== undefined) {
+    if (!file.tenants || typeof file.tenants !== 'object' || Array.isArray(file.tenants)) {
+      throw new Error('Tenants must map sheet names to rule sets');
+    }
+    sanitized.tenants = Object.fromEntries(
+      Object.entries(file.tenants).map(([tenant, set]) => [tenant, withTenant(`Rules for "${tenant}"`, set)])
+    );
+  }
+  return sanitized;
+}
@@ -0,0 +1,133 @@
+// Plaintiff parsing
+// Foreclosure plaintiffs are usually a trustee suing for a securitization trust,
+// sometimes through a servicer: "Wilmington Savings Fund Society, FSB, as trustee
+// for XYZ Trust 2021-1, by its servicer ABC Loan Servicing, LLC". This splits
+// them into their parties so the trust or servicer isn't hidden by the trustee.
+
+import { ParsedPlaintiff, PlaintiffParty, ProcessedComplaint } from '../types';
+import { normalizeLender } from './normalization';
+
+// Shown for complaints whose plaintiff doesn't name the party being grouped by
+export const UNNAMED_PARTY = 'Not named';
+
+export const PLAINTIFF_PARTY_LABELS: Record<PlaintiffParty, string> = {
+  lender: 'Lender',
+  trustee: 'Trustee',
+  trust: 'Trust',
+  servicer: 'Servicer',
+};
+
+// ", not in its individual capacity but solely as owner trustee", ", as Trustee"
+const CAPACITY_PATTERN = new RegExp(
+  ',?\\s*\\b(' +
+    '(?:not\\s+(?:in\\s+its\\s+individual\\s+capacity|individually)\\s*,?\\s*but\\s+)?' +
+    '(?:solely\\s+)?(?:in\\s+its\\s+capacity\\s+)?' +
+    'as\\s+(?:(?:owner|indenture|successor|separate|grantor|co|delaware)[\\s-]+)*' +
+    '(?:trustee|custodian|collateral\\s+agent)' +
+    ')\\b',
+  'i'
+);
+
+const SERVICER_ROLE = '(?:(?:mortgage|loan|sub-?)\\s*)?(?:servicer|servicing\\s+agent|attorney[\\s-]+in[\\s-]+fact)';
+
+// Tried in order against the end of the plaintiff; the first group is the servicer
+const SERVICER_PATTERNS = [
+  /,?\s*\bc\/o\s+(.+)$/i,
+  // "by its servicer X", "by and through its attorney-in-fact, X"
+  new RegExp(
+    `,?\\s*\\b(?:by\\s+and\\s+through|by|through)\\s+(?:its\\s+)?${SERVICER_ROLE}` +
+      `(?:\\s+and\\s+${SERVICER_ROLE})?\\s*,?\\s+(.+)$`,
+    'i'
+  ),
+  // "by X, as servicer"
+  new RegExp(
+    `,?\\s*\\b(?:by\\s+and\\s+through|by|through)\\s+(.+?)\\s*,?\\s+as\\s+(?:its\\s+)?${SERVICER_ROLE}\\b.*$`,
+    'i'
+  ),
+  /,?\s*\bas\s+serviced\s+by\s+(.+)$/i,
+];
+
+// Words between the capacity and the trust's name
+const TRUST_LEADS = [
+  /^(?:for\s+the\s+benefit\s+of|on\s+behalf\s+of|in\s+trust\s+for|f\/b\/o|for|of)\s+/i,
+  /^(?:the\s+)?(?:registered\s+)?(?:holders|certificate-?\s*holders|noteholders)\s+of\s+/i,
+  /^the\s+/i,
+];
+
+// ", Asset-Backed Pass-Through Certificates, Series 2006-1" after the trust's name
+const CERTIFICATES_TAIL = /,\s*(?:[\w-]+\s+)*(?:certificates|notes)\b(.*)$/i;
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').replace(/^[\s,;]+|[\s,;]+$/g, '');
+
+/**
+ * Reads the trust's name from the text after the capacity, without the
+ * certificate description (keeping its series when the name lacks it)
+ */
+function parseTrust(text: string): string | undefined {
+  let trust = clean(text);
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const lead of TRUST_LEADS) {
+      if (lead.test(trust)) {
+        trust = clean(trust.replace(lead, ''));
+        stripped = true;
+      }
+    }
+  }
+
+  const tail = trust.match(CERTIFICATES_TAIL);
+  if (tail && tail.index) {
+    trust = clean(trust.slice(0, tail.index));
+    const series = tail[1].match(/\bseries\s+([\w-]+)/i)?.[1];
+    if (series && !trust.toLowerCase().includes(series.toLowerCase())) {
+      trust = `${trust}, Series ${series}`;
+    }
+  }
+
+  return trust || undefined;
+}
+
+/**
+ * Splits a plaintiff into its trustee, the capacity it sues in, the trust or
+ * series it sues for, and the servicer acting for it. Parties the plaintiff
+ * doesn't name are left out, so a plain lender parses to {}.
+ */
+export function parsePlaintiff(plaintiff: string | undefined | null | Date): ParsedPlaintiff {
+  if (typeof plaintiff !== 'string') return {};
+  let text = clean(plaintiff);
+  const parsed: ParsedPlaintiff = {};
+
+  for (const pattern of SERVICER_PATTERNS) {
+    const match = text.match(pattern);
+    if (match && match.index) {
+      parsed.servicer = clean(match[1]) || undefined;
+      text = clean(text.slice(0, match.index));
+      break;
+    }
+  }
+
+  const capacity = text.match(CAPACITY_PATTERN);
+  if (capacity && capacity.index) {
+    parsed.trustee = clean(text.slice(0, capacity.index)) || undefined;
+    parsed.capacity = clean(capacity[1]).toLowerCase();
+    parsed.trust = parseTrust(text.slice(capacity.index + capacity[0].length));
+  } else if (/\btrust\b/i.test(text) && /\d/.test(text)) {
+    // A trust suing in its own name, e.g. "CSMC 2021-RPL1 Trust"
+    parsed.trust = parseTrust(text);
+  }
+
+  return Object.fromEntries(
+    Object.entries(parsed).filter(([, value]) => value !== undefined)
+  ) as ParsedPlaintiff;
+}
+
+/**
+ * The name of one of a complaint's plaintiff parties, for grouping
+ */
+export function getPlaintiffParty(complaint: ProcessedComplaint, party: PlaintiffParty): string {
+  if (party === 'lender') {
+    return complaint.normalizedLender || normalizeLender(complaint.lender || complaint.plaintiff);
+  }
+  return complaint.plaintiffParties?.[party] || UNNAMED_PARTY;
+}
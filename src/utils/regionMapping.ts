@@ -1,90 +1,178 @@
 // Region mapping utilities
+// Regions are data (see RegionModel): the backend serves the saved model and
+// the built-in one in config/regionConfig.ts is used otherwise
 
-import { normalizeCounty } from './normalization';
+import { ProcessedComplaint, RegionDefinition, RegionModel, UnmappedCounty } from '../types';
+import { DEFAULT_REGION_MODEL, UNMAPPED_REGION } from '../config/regionConfig';
+import { normalizeCounty, normalizeState } from './normalization';
+import { getCountyByFips } from './countyReference';
 
-export type Region = 'Miami-Dade' | 'Other Florida' | 'New York' | 'Other/Unmapped';
+// A region name from the active model, or UNMAPPED_REGION
+export type Region = string;
+
+const MAX_NAME_LENGTH = 100;
+
+// County lookups are built once per model
+const lookups = new WeakMap<RegionModel, Map<string, string>>();
+
+const toCountyKey = (county: string) => normalizeCounty(county).toLowerCase();
+
+function getLookup(model: RegionModel): Map<string, string> {
+  let lookup = lookups.get(model);
+  if (!lookup) {
+    lookup = new Map();
+    for (const region of model.regions) {
+      for (const county of region.counties) {
+        const key = toCountyKey(county);
+        if (!lookup.has(key)) lookup.set(key, region.name);
+      }
+    }
+    lookups.set(model, lookup);
+  }
+  return lookup;
+}
 
 /**
- * Maps counties to regions
- * Handles variations and aliases
+ * Maps a county name to its region
+ * Returns "Other/Unmapped" for counties no region includes
+ * @param state - The row's state, when known; a region with another state
+ *   doesn't include the county (Orange, NY isn't in a Florida region)
  */
-const REGION_MAPPING: Record<string, Region> = {
-  // Miami-Dade region
-  'Miami-Dade': 'Miami-Dade',
-  'Dade': 'Miami-Dade',
-  'Miami Dade': 'Miami-Dade',
-  'Miami-Dade County': 'Miami-Dade',
-  'Miami Dade County': 'Miami-Dade',
-  
-  // Other Florida region
-  'Pinellas': 'Other Florida',
-  'Pinellas County': 'Other Florida',
-  'Orange': 'Other Florida',
-  'Orange County': 'Other Florida',
-  'Broward': 'Other Florida',
-  'Broward County': 'Other Florida',
-  'Collier': 'Other Florida',
-  'Collier County': 'Other Florida',
-  'Volusia': 'Other Florida',
-  'Volusia County': 'Other Florida',
-  
-  // New York region
-  'Kings': 'New York',
-  'Kings County': 'New York',
-  'Suffolk': 'New York',
-  'Suffolk County': 'New York',
-  'Bronx': 'New York',
-  'Bronxs': 'New York', // Handle typo variation
-  'Bronx County': 'New York',
-  'New York': 'New York',
-  'New York County': 'New York',
-  'Queens': 'New York',
-  'Queens County': 'New York',
-  'Nassau': 'New York',
-  'Nassau County': 'New York',
-  'Rockland': 'New York',
-  'Rockland County': 'New York',
-  'Westchester': 'New York',
-  'Westchester County': 'New York',
-};
+export function getRegionFromCounty(
+  county: string | undefined | null,
+  model: RegionModel = DEFAULT_REGION_MODEL,
+  state?: string
+): Region {
+  if (!county) return UNMAPPED_REGION;
+  const name = getLookup(model).get(toCountyKey(county));
+  if (!name) return UNMAPPED_REGION;
+  const regionState = normalizeState(model.regions.find(region => region.name === name)?.state);
+  const rowState = normalizeState(state);
+  return regionState && rowState && regionState !== rowState ? UNMAPPED_REGION : name;
+}
 
 /**
- * Maps a county name to its region
- * Returns "Other/Unmapped" for counties not in the mapping
+ * The region a processed complaint was assigned, falling back to mapping its county
  */
-export function getRegionFromCounty(county: string | undefined | null): Region {
-  if (!county) return 'Other/Unmapped';
-  
-  // First normalize the county name
-  const normalized = normalizeCounty(county);
-  
-  // Check direct mapping
-  if (REGION_MAPPING[normalized]) {
-    return REGION_MAPPING[normalized];
-  }
-  
-  // Check case-insensitive match
-  const normalizedLower = normalized.toLowerCase();
-  for (const [key, region] of Object.entries(REGION_MAPPING)) {
-    if (key.toLowerCase() === normalizedLower) {
-      return region;
-    }
-  }
-  
-  // Not found in mapping
-  return 'Other/Unmapped';
+export function getComplaintRegion(
+  complaint: ProcessedComplaint,
+  model: RegionModel = DEFAULT_REGION_MODEL
+): Region {
+  return (
+    complaint.region ?? getRegionFromCounty(complaint.normalizedCounty || complaint.county, model, complaint.state)
+  );
 }
 
 /**
  * Gets the ordered list of regions (excluding Other/Unmapped)
  */
-export function getOrderedRegions(): Region[] {
-  return ['Miami-Dade', 'Other Florida', 'New York'];
+export function getOrderedRegions(model: RegionModel = DEFAULT_REGION_MODEL): Region[] {
+  return model.regions.map(region => region.name);
 }
 
 /**
  * Gets all regions including Other/Unmapped
  */
-export function getAllRegions(): Region[] {
-  return ['Miami-Dade', 'Other Florida', 'New York', 'Other/Unmapped'];
+export function getAllRegions(model: RegionModel = DEFAULT_REGION_MODEL): Region[] {
+  return [...getOrderedRegions(model), UNMAPPED_REGION];
+}
+
+/**
+ * Assigns each complaint its region and state (as new objects)
+ * A county is only in a region of the complaint's own state, when the sheet
+ * has a State column. The state is the region's, or for complaints outside
+ * every region (and regions without a state) the sheet's State column, then
+ * the state of the county's FIPS code
+ */
+export function assignRegions(
+  complaints: ProcessedComplaint[],
+  model: RegionModel = DEFAULT_REGION_MODEL
+): ProcessedComplaint[] {
+  const states = new Map(model.regions.map(region => [region.name, normalizeState(region.state)]));
+
+  return complaints.map(complaint => {
+    const region = getRegionFromCounty(complaint.normalizedCounty || complaint.county, model, complaint.state);
+    return {
+      ...complaint,
+      region,
+      normalizedState:
+        states.get(region) ?? normalizeState(complaint.state) ?? getCountyByFips(complaint.countyFips)?.state,
+    };
+  });
+}
+
+/**
+ * Lists the counties of valid, non-duplicate complaints that no region includes,
+ * most complaints first
+ */
+export function findUnmappedCounties(
+  complaints: ProcessedComplaint[],
+  model: RegionModel = DEFAULT_REGION_MODEL
+): UnmappedCounty[] {
+  const counts = new Map<string, number>();
+  complaints.forEach(complaint => {
+    if (!complaint.isValid || complaint.isDuplicate) return;
+    if (getComplaintRegion(complaint, model) !== UNMAPPED_REGION) return;
+    const county = complaint.normalizedCounty || normalizeCounty(complaint.county);
+    counts.set(county, (counts.get(county) ?? 0) + 1);
+  });
+
+  return Array.from(counts, ([county, count]) => ({ county, complaints: count }))
+    .sort((a, b) => b.complaints - a.complaints || a.county.localeCompare(b.county));
+}
+
+/**
+ * Validates a region model from a request or a stored file
+ * @throws When a region is unnamed or duplicated, or a county is in two regions
+ */
+export function sanitizeRegionModel(value: unknown): RegionModel {
+  const regions = (value as RegionModel | null)?.regions;
+  if (!Array.isArray(regions)) {
+    throw new Error('Expected { regions: [{ name, state?, counties }] }');
+  }
+
+  const names = new Set<string>();
+  const claimed = new Map<string, string>();
+  const sanitized = regions.map((entry: Partial<RegionDefinition>, index): RegionDefinition => {
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new Error(`Region ${index + 1} needs a name of 1-${MAX_NAME_LENGTH} characters`);
+    }
+    if (name.toLowerCase() === UNMAPPED_REGION.toLowerCase()) {
+      throw new Error(`"${UNMAPPED_REGION}" is reserved for counties no region includes`);
+    }
+    if (names.has(name.toLowerCase())) {
+      throw new Error(`There are two regions named "${name}"`);
+    }
+    names.add(name.toLowerCase());
+    if (entry.state !== undefined && typeof entry.state !== 'string') {
+      throw new Error(`State for "${name}" must be text`);
+    }
+    if (!Array.isArray(entry.counties) || entry.counties.some(county => typeof county !== 'string')) {
+      throw new Error(`Counties for "${name}" must be a list of county names`);
+    }
+
+    const counties: string[] = [];
+    entry.counties.forEach(county => {
+      const trimmed = county.trim();
+      if (!trimmed) return;
+      const key = toCountyKey(trimmed);
+      const owner = claimed.get(key);
+      if (owner === name) return;
+      if (owner) {
+        throw new Error(`${trimmed} is in both "${owner}" and "${name}"`);
+      }
+      claimed.set(key, name);
+      counties.push(trimmed);
+    });
+
+    // Stored as the postal code so it matches the State column
+    const state = entry.state?.trim() ? normalizeState(entry.state) : undefined;
+    if (entry.state?.trim() && !state) {
+      throw new Error(`"${entry.state.trim()}" for "${name}" is not a US state`);
+    }
+    return { name, ...(state ? { state } : {}), counties };
+  });
+
+  return { regions: sanitized };
 }
@@ -0,0 +1,35 @@
+// Reporting "as-of" date helpers
+
+import { isValid, parse } from 'date-fns';
+import { endOfBusinessDay, parseBusinessDay, toBusinessDayKey } from './businessDate';
+
+/**
+ * Format of as-of dates in the UI, query strings and API payloads
+ */
+export const AS_OF_DATE_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Checks if a value is a valid as-of date string ("yyyy-MM-dd")
+ */
+export function isValidAsOfDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  return isValid(parse(value, AS_OF_DATE_FORMAT, new Date()));
+}
+
+/**
+ * Resolves an as-of date into the reference date used by the calculations.
+ * The reference date is the end of that day in the business time zone, so
+ * complaints filed on it are included.
+ * Returns the current time when no (valid) as-of date is given.
+ */
+export function resolveReferenceDate(asOfDate?: string | null): Date {
+  if (!isValidAsOfDate(asOfDate)) return new Date();
+  return endOfBusinessDay(parseBusinessDay(asOfDate));
+}
+
+/**
+ * Formats a date as an as-of date string ("yyyy-MM-dd"), i.e. its business day
+ */
+export function formatAsOfDate(date: Date): string {
+  return toBusinessDayKey(date);
+}
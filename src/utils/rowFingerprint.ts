@@ -0,0 +1,136 @@
+// Row fingerprints
+// A short hash of a row's address, county, lender, business day and UPB, as
+// they appear in the sheet, so saved decisions (e.g. duplicate reviews) find
+// the same row on every refresh whatever its position or the normalization rules.
+// Row ids hash every value instead, so any edit shows up as a changed row.
+
+import { ComplaintRow, ProcessedComplaint } from '../types';
+import { toBusinessDayKey } from './businessDate';
+
+/**
+ * Normalizes a string for comparison (removes extra spaces, converts to lowercase)
+ */
+export function normalizeForComparison(str: string | undefined | null): string {
+  if (!str) return '';
+  
+  // Ensure it's a string
+  const strValue = typeof str === 'string' ? str : String(str || '');
+  
+  return strValue
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/[^\w\s]/g, ''); // Remove punctuation for fuzzy matching
+}
+
+/**
+ * 53-bit hash of a string (cyrb53), as 14 hex digits
+ */
+export function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * The business day of a complaint date, or '' when it has none
+ */
+export function toComplaintDayKey(complaintDate: ProcessedComplaint['complaintDate']): string {
+  const date = complaintDate instanceof Date
+    ? complaintDate
+    : complaintDate ? new Date(complaintDate) : undefined;
+  return date && !isNaN(date.getTime()) ? toBusinessDayKey(date) : '';
+}
+
+/**
+ * Fingerprints a validated row; rows with the same key fields share a fingerprint
+ */
+export function fingerprintRow(row: ProcessedComplaint): string {
+  const lender = typeof row.lender === 'string' && row.lender.trim() ? row.lender : row.plaintiff;
+  return hashText(
+    [
+      normalizeForComparison(row.propertyAddress),
+      normalizeForComparison(row.county),
+      normalizeForComparison(lender),
+      toComplaintDayKey(row.complaintDate),
+      row.upb?.toString() ?? '',
+    ].join('|')
+  );
+}
+
+/**
+ * Hashes every mapped value of a row (empty ones are skipped, so adding an
+ * empty column keeps the hash)
+ */
+export function hashRowContent(row: ComplaintRow): string {
+  const values = Object.keys(row)
+    .filter(field => field !== 'fieldSources')
+    .sort()
+    .flatMap(field => {
+      const value = row[field];
+      if (value === undefined || value === null || value === '') return [];
+      const text = value instanceof Date
+        ? (isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString())
+        : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return [`${field}=${text}`];
+    });
+  return hashText(values.join('\u001f'));
+}
+
+/**
+ * Identifies rows across refreshes
+ * - rowId: the content hash, with "-2", "-3"... on later copies of an identical row
+ * - sheetRow: the row's number in its sheet or tab, counting the header row
+ * - rowLabel: the sheet row as analysts are shown it, with its tab when the
+ *   rows come from more than one (e.g. "12 (Broward)")
+ */
+export function identifyRows(rows: ComplaintRow[]): Array<{ rowId: string; sheetRow: number; rowLabel: string }> {
+  const occurrences = new Map<string, number>();
+  const rowsPerTab = new Map<string, number>();
+  const showTab = new Set(rows.map(row => row.sourceTab ?? '')).size > 1;
+
+  return rows.map(row => {
+    const hash = hashRowContent(row);
+    const occurrence = (occurrences.get(hash) ?? 0) + 1;
+    occurrences.set(hash, occurrence);
+
+    const tab = row.sourceTab ?? '';
+    const position = (rowsPerTab.get(tab) ?? 0) + 1;
+    rowsPerTab.set(tab, position);
+
+    const sheetRow = position + 1;
+    return {
+      rowId: occurrence === 1 ? hash : `${hash}-${occurrence}`,
+      sheetRow,
+      rowLabel: showTab && tab ? `${sheetRow} (${tab})` : String(sheetRow),
+    };
+  });
+}
+
+/**
+ * A processed row's label (see identifyRows); rows that were never identified
+ * fall back to their position below the header row
+ */
+export function getRowLabel(row: Pick<ProcessedComplaint, 'rowLabel'>, rowIndex: number): string {
+  return row.rowLabel ?? String(rowIndex + 2);
+}
+
+/**
+ * Finds a row by what an analyst typed: its label ("12 (Broward)"), or a
+ * sheet row number, which picks the first tab's row with several tabs
+ */
+export function findRowByLabel<T extends Pick<ProcessedComplaint, 'rowLabel' | 'sheetRow'>>(
+  rows: T[],
+  text: string
+): T | undefined {
+  const label = text.trim();
+  if (label === '') return undefined;
+  return rows.find(row => row.rowLabel === label) ?? rows.find(row => row.sheetRow === Number(label));
+}
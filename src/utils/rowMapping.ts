@@ -0,0 +1,208 @@
+// Raw sheet row mapping shared by the browser and the backend
+
+import {
+  ColumnMapping,
+  ColumnMappingSettings,
+  ComplaintRow,
+  FieldMapping,
+  FieldMappingRule,
+} from '../types';
+import { DEFAULT_COLUMN_MAPPING, toLookupKey } from '../config/columnMapping';
+
+const MAPPING_RULES: FieldMappingRule[] = ['coalesce', 'sum', 'concatenate'];
+
+/**
+ * Reads a numeric cell such as "250000", "$250,000.00" or "-1,200"
+ */
+function parseAmount(text: string): number | undefined {
+  const amount = Number(text.replace(/[$,\s]/g, ''));
+  return isNaN(amount) ? undefined : amount;
+}
+
+/**
+ * Builds one field's value from its source columns, and lists the columns it came from
+ */
+function applyFieldMapping(
+  cells: { column: string; text: string }[],
+  field: string,
+  { rule, separator = ' ' }: FieldMapping
+): { value: unknown; sources: string[] } {
+  const filled = cells.filter(cell => cell.text.trim() !== '');
+
+  if (rule === 'sum') {
+    const amounts = filled
+      .map(cell => ({ column: cell.column, amount: parseAmount(cell.text) }))
+      .filter((cell): cell is { column: string; amount: number } => cell.amount !== undefined);
+    return amounts.length === 0
+      ? { value: undefined, sources: [] }
+      : {
+          value: amounts.reduce((total, cell) => total + cell.amount, 0),
+          sources: amounts.map(cell => cell.column),
+        };
+  }
+
+  if (rule === 'concatenate') {
+    return {
+      value: parseValue(filled.map(cell => cell.text.trim()).join(separator), field),
+      sources: filled.map(cell => cell.column),
+    };
+  }
+
+  // Coalesce: an empty higher-priority column falls through to the next one
+  const [first] = filled;
+  return first
+    ? { value: parseValue(first.text, field), sources: [first.column] }
+    : { value: undefined, sources: [] };
+}
+
+/**
+ * Maps a raw sheet row (header -> cell text) to standard field names
+ * and parses each value to its appropriate type
+ * - Each mapped field is built from its source columns by the field's rule
+ *   (see FieldMapping), and the columns used are recorded in fieldSources
+ * - Columns that aren't mapped keep their header as the field name
+ * @param mapping - Active column mapping; the built-in mapping when omitted
+ */
+export function mapRawRow(
+  row: Record<string, unknown>,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): ComplaintRow {
+  const mapped: ComplaintRow = {};
+  const fieldSources: Record<string, string[]> = {};
+  const headers = new Map(Object.keys(row).map(key => [toLookupKey(key), key]));
+  const mappedHeaders = new Set<string>();
+
+  Object.entries(mapping).forEach(([field, fieldMapping]) => {
+    const cells: { column: string; text: string }[] = [];
+    fieldMapping.columns.forEach(column => {
+      const header = headers.get(toLookupKey(column));
+      if (header === undefined) return;
+
+      mappedHeaders.add(header);
+      cells.push({ column: header, text: String(row[header] || '') });
+    });
+
+    if (cells.length === 0) return;
+    const { value, sources } = applyFieldMapping(cells, field, fieldMapping);
+    mapped[field] = value;
+    if (sources.length > 0) {
+      fieldSources[field] = sources;
+    }
+  });
+
+  Object.keys(row).forEach(key => {
+    const field = key.trim();
+    if (!mappedHeaders.has(key) && mapped[field] === undefined) {
+      mapped[field] = parseValue(String(row[key] || ''), field);
+    }
+  });
+
+  mapped.fieldSources = fieldSources;
+  return mapped;
+}
+
+/**
+ * Finds the field a sheet column is mapped to and its priority for that field
+ * (0 = tried first), or null when the column isn't mapped
+ */
+export function getMappedField(
+  column: string,
+  mapping: ColumnMapping
+): { field: string; priority: number } | null {
+  const key = toLookupKey(column);
+  for (const [field, { columns }] of Object.entries(mapping)) {
+    const priority = columns.findIndex(candidate => toLookupKey(candidate) === key);
+    if (priority !== -1) {
+      return { field, priority };
+    }
+  }
+  return null;
+}
+
+/**
+ * The active profile's mapping, or the built-in mapping when none is active
+ */
+export function resolveActiveMapping(settings: ColumnMappingSettings): ColumnMapping {
+  return settings.profiles.find(profile => profile.name === settings.activeProfile)?.mapping
+    ?? DEFAULT_COLUMN_MAPPING;
+}
+
+/**
+ * Collects the headers of a set of rows, in first-seen order
+ */
+export function collectHeaders(rows: Record<string, unknown>[]): string[] {
+  const headers = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(header => headers.add(header)));
+  return [...headers];
+}
+
+/**
+ * Validates a column mapping received from a client or read from storage:
+ * field names and columns are trimmed, blanks and repeated columns dropped
+ * A plain list of columns is accepted as shorthand for a coalesce rule
+ * @throws When a field's columns or rule are malformed
+ */
+export function sanitizeColumnMapping(value: unknown): ColumnMapping {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Expected a mapping of field names to column lists');
+  }
+
+  const mapping: ColumnMapping = {};
+  Object.entries(value as Record<string, unknown>).forEach(([field, entry]) => {
+    const fieldMapping = (Array.isArray(entry) ? { columns: entry } : entry ?? {}) as Partial<FieldMapping>;
+    const { columns, rule = 'coalesce', separator } = fieldMapping;
+
+    if (!Array.isArray(columns) || columns.some(column => typeof column !== 'string')) {
+      throw new Error(`Columns for "${field}" must be a list of column names`);
+    }
+    if (!MAPPING_RULES.includes(rule)) {
+      throw new Error(`Unknown rule "${rule}" for "${field}", expected ${MAPPING_RULES.join(', ')}`);
+    }
+    if (separator !== undefined && typeof separator !== 'string') {
+      throw new Error(`Separator for "${field}" must be text`);
+    }
+
+    const unique: string[] = [];
+    columns.forEach(column => {
+      const trimmed = column.trim();
+      if (trimmed && !unique.some(existing => toLookupKey(existing) === toLookupKey(trimmed))) {
+        unique.push(trimmed);
+      }
+    });
+
+    if (field.trim() && unique.length > 0) {
+      mapping[field.trim()] = {
+        columns: unique,
+        rule,
+        ...(rule === 'concatenate' && separator !== undefined ? { separator } : {}),
+      };
+    }
+  });
+
+  return mapping;
+}
+
+// Kept as text here and read by extractDate during validation, so the parse
+// strategy and any ambiguity can be reported as data-quality issues
+const DATE_FIELDS = new Set(['complaintDate', 'defaultDate']);
+
+/**
+ * Parses a value to appropriate type
+ * Date fields are returned as trimmed text (see utils/dateExtraction.ts)
+ */
+export function parseValue(value: string, fieldName?: string): unknown {
+  if (!value || value.trim() === '') return undefined;
+
+  if (fieldName && DATE_FIELDS.has(fieldName)) {
+    return value.trim();
+  }
+
+  // Try to parse as number
+  const numValue = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  if (!isNaN(numValue) && value.trim() === numValue.toString()) {
+    return numValue;
+  }
+
+  // Return as string
+  return value.trim();
+}
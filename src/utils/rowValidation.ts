@@ -0,0 +1,271 @@
+// Schema-driven row validation
+// Checks each field of a row against the validation schema (see
+// config/validationConfig.ts): required-ness, type, length, pattern and ranges,
+// then the schema's custom rules, and across rows the order of each date
+// column's ambiguous dates. Rules are switched off or re-thresholded by code
+// with applyValidationOverrides
+
+import {
+  ComplaintRow,
+  DateParseStrategy,
+  FieldValidation,
+  QualityFinding,
+  QualityRuleCode,
+  QualitySeverity,
+  ValidationCheck,
+  ValidationFieldType,
+  ValidationRuleOverride,
+  ValidationSchema,
+} from '../types';
+import { DEFAULT_VALIDATION_SCHEMA, VALIDATION_RULE_OVERRIDES } from '../config/validationConfig';
+import { NUMERIC_DATE_ORDER } from '../config/dateConfig';
+import { DateExtraction, DateWarning, describeAmbiguousDate, extractDate } from './dateExtraction';
+
+const MAX_FINDING_VALUE_LENGTH = 200;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Builds a finding, keeping the raw value (if any) as text
+ */
+export function createFinding(
+  severity: QualitySeverity,
+  code: QualityRuleCode,
+  message: string,
+  field?: string,
+  value?: unknown
+): QualityFinding {
+  const finding: QualityFinding = { severity, code, message };
+  if (field) finding.field = field;
+  if (value !== undefined && value !== null && value !== '') {
+    const text = value instanceof Date
+      ? (isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString())
+      : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    finding.value = text.slice(0, MAX_FINDING_VALUE_LENGTH);
+  }
+  return finding;
+}
+
+/**
+ * Applies overrides to every rule with their code, wherever it is in the schema
+ */
+export function applyValidationOverrides(
+  schema: ValidationSchema,
+  overrides: Partial<Record<QualityRuleCode, ValidationRuleOverride>>
+): ValidationSchema {
+  const apply = <T extends ValidationCheck>(check: T): T =>
+    overrides[check.code] ? { ...check, ...overrides[check.code] } : check;
+  const applyOptional = <T extends ValidationCheck>(check: T | undefined): T | undefined =>
+    check && apply(check);
+
+  return {
+    fields: Object.fromEntries(
+      Object.entries(schema.fields).map(([field, spec]): [string, FieldValidation] => [
+        field,
+        {
+          ...spec,
+          required: applyOptional(spec.required),
+          invalid: applyOptional(spec.invalid),
+          minLength: applyOptional(spec.minLength),
+          pattern: applyOptional(spec.pattern),
+          ranges: spec.ranges?.map(apply),
+          parseWarnings: spec.parseWarnings?.map(apply),
+        },
+      ])
+    ),
+    json: { invalid: apply(schema.json.invalid), fixed: apply(schema.json.fixed) },
+    custom: schema.custom.map(apply),
+  };
+}
+
+// The configured schema with the configured overrides
+export const VALIDATION_SCHEMA = applyValidationOverrides(DEFAULT_VALIDATION_SCHEMA, VALIDATION_RULE_OVERRIDES);
+
+/**
+ * A field's value as read for its type
+ */
+export interface ParsedField {
+  value?: string | number | Date; // Unset when the field is empty or invalid
+  invalidMessage?: string;
+  strategy?: DateParseStrategy; // How a date was read
+  warnings?: DateWarning[];
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * The first of a field and its fallbacks with a value
+ */
+const resolveField = (row: ComplaintRow, name: string, spec: FieldValidation) =>
+  [name, ...(spec.fallbackFields ?? [])].find(candidate => !isEmpty(row[candidate])) ?? name;
+
+/**
+ * Reads a raw value as text, a number or a date
+ */
+export function parseFieldValue(type: ValidationFieldType, raw: unknown, label: string): ParsedField {
+  if (isEmpty(raw)) return {};
+
+  switch (type) {
+    case 'text':
+      if (typeof raw === 'string') return { value: raw.trim() };
+      return {
+        invalidMessage: raw instanceof Date
+          ? `Invalid ${label} value: date`
+          : `Invalid ${label} value type: ${typeof raw}`,
+      };
+    case 'number': {
+      if (typeof raw === 'number') {
+        return isNaN(raw) ? { invalidMessage: `Invalid ${label} format: "${raw}"` } : { value: raw };
+      }
+      if (typeof raw !== 'string') return { invalidMessage: `Invalid ${label} type: ${typeof raw}` };
+      const cleaned = raw.trim().replace(/[^0-9.-]/g, '');
+      if (cleaned === '') return { invalidMessage: `${capitalize(label)} contains no numbers` };
+      const parsed = parseFloat(cleaned);
+      return isNaN(parsed) ? { invalidMessage: `Invalid ${label} format: "${raw}"` } : { value: parsed };
+    }
+    case 'date': {
+      if (!(raw instanceof Date) && typeof raw !== 'string' && typeof raw !== 'number') {
+        return { invalidMessage: `Invalid ${label} type: ${typeof raw}` };
+      }
+      // Serials, US/ISO formats and Processing Log entries; see dateExtraction.ts
+      const extracted = extractDate(raw);
+      if (!extracted.date) {
+        return { invalidMessage: `Invalid ${label} format: "${String(raw).trim()}"` };
+      }
+      return { value: extracted.date, strategy: extracted.strategy, warnings: extracted.warnings };
+    }
+  }
+}
+
+/**
+ * Fills "{value}" and the rule's limits into a message
+ */
+function formatMessage(message: string, check: ValidationCheck, raw: unknown): string {
+  const values: Record<string, unknown> = { ...check, value: raw };
+  return message.replace(/\{(value|limit|below|above|equals)\}/g, (match, key: string) =>
+    values[key] === undefined ? match : String(values[key])
+  );
+}
+
+/**
+ * Validates a row's fields and runs the custom rules
+ * @returns The findings (in schema order) and each field's value as read for its type
+ */
+export function validateFields(
+  row: ComplaintRow,
+  schema: ValidationSchema = VALIDATION_SCHEMA
+): { findings: QualityFinding[]; parsed: Record<string, ParsedField> } {
+  const findings: QualityFinding[] = [];
+  const parsed: Record<string, ParsedField> = {};
+  const report = (check: ValidationCheck | undefined, message: string, field?: string, raw?: unknown) => {
+    if (!check || check.enabled === false) return;
+    findings.push(
+      createFinding(check.severity, check.code, formatMessage(check.message ?? message, check, raw), field, raw)
+    );
+  };
+
+  Object.entries(schema.fields).forEach(([name, spec]) => {
+    const field = resolveField(row, name, spec);
+    const raw = row[field];
+    const result = parseFieldValue(spec.type, raw, spec.label);
+    parsed[name] = result;
+
+    if (isEmpty(raw)) {
+      report(spec.required, `Missing or empty ${spec.label}`, field);
+      return;
+    }
+    if (result.invalidMessage) {
+      report(spec.invalid, result.invalidMessage, field, raw);
+      return;
+    }
+
+    result.warnings?.forEach(({ code, message }) =>
+      report(spec.parseWarnings?.find(check => check.code === code), message, field, raw)
+    );
+
+    const { value } = result;
+    if (typeof value === 'string') {
+      if (spec.minLength && value.length < spec.minLength.limit) {
+        report(spec.minLength, `${capitalize(spec.label)} seems too short`, field, raw);
+      }
+      if (spec.pattern && !new RegExp(spec.pattern.pattern, 'i').test(value)) {
+        report(spec.pattern, `${capitalize(spec.label)} is not in the expected format`, field, raw);
+      }
+    }
+
+    // Dates are compared by their age in years
+    const amount = value instanceof Date
+      ? (Date.now() - value.getTime()) / MS_PER_YEAR
+      : typeof value === 'number' ? value : undefined;
+    if (amount !== undefined) {
+      spec.ranges?.forEach(range => {
+        if (
+          (range.below !== undefined && amount < range.below) ||
+          (range.above !== undefined && amount > range.above) ||
+          (range.equals !== undefined && amount === range.equals)
+        ) {
+          report(range, range.message, field, raw);
+        }
+      });
+    }
+  });
+
+  schema.custom.forEach(rule => {
+    if (rule.enabled === false) return;
+    const message = rule.validate(row);
+    if (message) report(rule, message);
+  });
+
+  return { findings, parsed };
+}
+
+/**
+ * Flags ambiguous dates (e.g. 03/04/2024) in columns where another row's date
+ * can only be read in the other order (e.g. 25/04/2024 when MM/DD is
+ * configured), as the configured order is then likely wrong for that column
+ * With no order configured, each ambiguous date is flagged by validateFields instead
+ * @returns The findings by row index
+ */
+export function validateDateOrder(
+  rows: ComplaintRow[],
+  schema: ValidationSchema = VALIDATION_SCHEMA
+): Map<number, QualityFinding[]> {
+  const found = new Map<number, QualityFinding[]>();
+  if (!NUMERIC_DATE_ORDER) return found;
+
+  Object.entries(schema.fields).forEach(([name, spec]) => {
+    const check = spec.parseWarnings?.find(warning => warning.code === 'ambiguous-date');
+    if (spec.type !== 'date' || !check || check.enabled === false) return;
+
+    // Fallbacks are separate columns, so each is checked on its own
+    const columns = new Map<string, { index: number; raw: unknown; extraction: DateExtraction }[]>();
+    rows.forEach((row, index) => {
+      const field = resolveField(row, name, spec);
+      const raw = row[field];
+      if (isEmpty(raw)) return;
+      const dates = columns.get(field) ?? [];
+      dates.push({ index, raw, extraction: extractDate(raw) });
+      columns.set(field, dates);
+    });
+
+    columns.forEach((dates, field) => {
+      const conflict = dates.find(({ extraction }) =>
+        extraction.impliedOrder && extraction.impliedOrder !== NUMERIC_DATE_ORDER
+      );
+      if (!conflict) return;
+      dates.forEach(({ index, raw, extraction }) => {
+        const { date } = extraction;
+        if (!extraction.ambiguous || !date) return;
+        const { message } = describeAmbiguousDate({ ...extraction, date }, conflict.extraction);
+        found.set(index, [
+          ...(found.get(index) ?? []),
+          createFinding(check.severity, check.code, formatMessage(check.message ?? message, check, raw), field, raw),
+        ]);
+      });
+    });
+  });
+
+  return found;
+}
@@ -0,0 +1,251 @@
+// Point-in-time comparison of two processed-data snapshots
+
+import {
+  ChangedComplaint,
+  ComplaintFieldChange,
+  ProcessedComplaint,
+  RegionSummary,
+  RowChanges,
+  Snapshot,
+  SnapshotComparison,
+  SnapshotMeta,
+  SummaryTotals,
+  SummaryTotalsDelta,
+  YearSummary,
+} from '../types';
+
+// Derived fields that change whenever their source field does
+const IGNORED_FIELDS = new Set([
+  'normalizedCounty',
+  'normalizedLender',
+  'region',
+  'normalizedState',
+  'countyFips',
+  'plaintiffParties',
+  'address',
+  'normalizationRules',
+  'errors',
+  'findings',
+  'fingerprint',
+  'rowId',
+  'sheetRow',
+  'rowLabel',
+  'duplicateClusterId',
+  'fieldSources',
+  'complaintDateStrategy',
+  'criteria',
+]);
+
+const EMPTY_TOTALS: SummaryTotals = {
+  totalComplaints: 0,
+  totalUPB: 0,
+  complaintsMeetingCriteria: 0,
+  upbMeetingCriteria: 0,
+};
+
+/**
+ * Key used to match a row across snapshots: the sheet ID when there is one,
+ * otherwise the whitespace/case-normalized property address
+ */
+export function getComplaintKey(complaint: ProcessedComplaint): string {
+  if (complaint.id !== undefined && String(complaint.id).trim() !== '') {
+    return `id:${String(complaint.id).trim()}`;
+  }
+  const address = String(complaint.propertyAddress ?? '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `address:${address}`;
+}
+
+/**
+ * Keys every row, numbering repeated keys in sheet order (e.g. a property
+ * with two complaints) so each row has exactly one counterpart
+ */
+function keyComplaints(complaints: ProcessedComplaint[]): Map<string, ProcessedComplaint> {
+  const keyed = new Map<string, ProcessedComplaint>();
+  const occurrences = new Map<string, number>();
+
+  complaints.forEach(complaint => {
+    const baseKey = getComplaintKey(complaint);
+    const occurrence = (occurrences.get(baseKey) ?? 0) + 1;
+    occurrences.set(baseKey, occurrence);
+    keyed.set(occurrence === 1 ? baseKey : `${baseKey}#${occurrence}`, complaint);
+  });
+
+  return keyed;
+}
+
+/**
+ * Comparable form of a cell value (dates may be Date objects or ISO strings)
+ */
+function toComparable(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  return String(value);
+}
+
+/**
+ * Lists the fields whose values differ between two versions of a row
+ */
+export function diffComplaint(
+  before: ProcessedComplaint,
+  after: ProcessedComplaint
+): ComplaintFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: ComplaintFieldChange[] = [];
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+    if (toComparable(before[field]) !== toComparable(after[field])) {
+      changes.push({ field, before: before[field], after: after[field] });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compares two loads of the same sheet. Rows are matched by row id (the same
+ * values, wherever the row moved), then the rest by row key (see getComplaintKey)
+ * and then by sheet row, so an edited row counts as changed rather than removed
+ * and added
+ */
+export function diffRows(before: ProcessedComplaint[], after: ProcessedComplaint[]): RowChanges {
+  const idsOf = (complaints: ProcessedComplaint[]) =>
+    new Set(complaints.flatMap(complaint => (complaint.rowId ? [complaint.rowId] : [])));
+  const beforeIds = idsOf(before);
+  const afterIds = idsOf(after);
+
+  // Rows with the same id are unchanged
+  const remaining = new Set(before.filter(complaint => !complaint.rowId || !afterIds.has(complaint.rowId)));
+  let unmatched = after.filter(complaint => !complaint.rowId || !beforeIds.has(complaint.rowId));
+
+  const changed: ChangedComplaint[] = [];
+  const matchBy = (getKey: (complaint: ProcessedComplaint) => string | undefined) => {
+    const byKey = new Map<string, ProcessedComplaint[]>();
+    remaining.forEach(complaint => {
+      const key = getKey(complaint);
+      if (key === undefined) return;
+      const matches = byKey.get(key);
+      if (matches) matches.push(complaint);
+      else byKey.set(key, [complaint]);
+    });
+
+    unmatched = unmatched.filter(complaint => {
+      const key = getKey(complaint);
+      const counterpart = key !== undefined ? byKey.get(key)?.shift() : undefined;
+      if (!counterpart) return true;
+      remaining.delete(counterpart);
+      const changes = diffComplaint(counterpart, complaint);
+      if (changes.length > 0) {
+        changed.push({ key: complaint.rowId ?? getComplaintKey(complaint), before: counterpart, after: complaint, changes });
+      }
+      return false;
+    });
+  };
+
+  matchBy(getComplaintKey);
+  matchBy(complaint =>
+    complaint.sheetRow !== undefined ? `${complaint.sourceTab ?? ''}|${complaint.sheetRow}` : undefined
+  );
+
+  return { added: unmatched, changed, removed: [...remaining] };
+}
+
+/**
+ * Pairs summary rows by label; a label missing on one side counts as zero
+ */
+export function diffSummaries<T extends SummaryTotals>(
+  before: T[],
+  after: T[],
+  getLabel: (row: T) => string
+): SummaryTotalsDelta[] {
+  const toTotals = (row: T | undefined): SummaryTotals => row
+    ? {
+        totalComplaints: row.totalComplaints,
+        totalUPB: row.totalUPB,
+        complaintsMeetingCriteria: row.complaintsMeetingCriteria,
+        upbMeetingCriteria: row.upbMeetingCriteria,
+      }
+    : { ...EMPTY_TOTALS };
+
+  const labels: string[] = [];
+  [...before, ...after].forEach(row => {
+    const label = getLabel(row);
+    if (!labels.includes(label)) labels.push(label);
+  });
+
+  return labels.map(label => ({
+    label,
+    before: toTotals(before.find(row => getLabel(row) === label)),
+    after: toTotals(after.find(row => getLabel(row) === label)),
+  }));
+}
+
+/**
+ * Strips a snapshot down to its list entry
+ */
+export function toSnapshotMeta(snapshot: Snapshot): SnapshotMeta {
+  return {
+    id: snapshot.id,
+    sheetName: snapshot.sheetName,
+    createdAt: snapshot.createdAt,
+    contentHash: snapshot.contentHash,
+    totalRows: snapshot.totalRows,
+    validRows: snapshot.validRows,
+  };
+}
+
+/**
+ * Compares two snapshots: rows added, removed and changed between them, and
+ * how the YTD region and year summary totals moved
+ */
+export function compareSnapshots(from: Snapshot, to: Snapshot): SnapshotComparison {
+  const fromRows = keyComplaints(from.complaints);
+  const toRows = keyComplaints(to.complaints);
+
+  const added: ProcessedComplaint[] = [];
+  const removed: ProcessedComplaint[] = [];
+  const changed: ChangedComplaint[] = [];
+  let unchangedCount = 0;
+
+  toRows.forEach((after, key) => {
+    const before = fromRows.get(key);
+    if (!before) {
+      added.push(after);
+      return;
+    }
+    const changes = diffComplaint(before, after);
+    if (changes.length > 0) {
+      changed.push({ key, before, after, changes });
+    } else {
+      unchangedCount++;
+    }
+  });
+
+  fromRows.forEach((before, key) => {
+    if (!toRows.has(key)) {
+      removed.push(before);
+    }
+  });
+
+  return {
+    from: toSnapshotMeta(from),
+    to: toSnapshotMeta(to),
+    added,
+    removed,
+    changed,
+    unchangedCount,
+    ytdRegionSummary: diffSummaries<RegionSummary>(
+      from.metrics.ytdRegionSummary,
+      to.metrics.ytdRegionSummary,
+      row => row.region
+    ),
+    yearSummary: diffSummaries<YearSummary>(
+      from.metrics.yearSummary,
+      to.metrics.yearSummary,
+      row => row.year
+    ),
+  };
+}
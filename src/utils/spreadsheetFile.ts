@@ -0,0 +1,108 @@
+// Spreadsheet export parsing (CSV and XLSX) shared by the browser and the backend
+
+import { read, utils } from 'xlsx';
+import { RawSheetRow, SourceRows } from '../types';
+import { parseCSV } from './csv';
+
+/**
+ * Column added to every workbook row naming the tab it came from
+ * (mapped to the `sourceTab` field in columnMapping.ts)
+ */
+export const SOURCE_TAB_COLUMN = 'Source Tab';
+
+export interface WorkbookTab {
+  name: string;
+  rows: RawSheetRow[];
+}
+
+/**
+ * Whether a file name looks like an Excel workbook
+ */
+export function isWorkbookFile(fileName: string): boolean {
+  return /\.(xlsx|xlsm|xls)$/i.test(fileName);
+}
+
+/**
+ * Lists a workbook's tab names in workbook order
+ */
+export function listWorkbookTabs(data: ArrayBuffer): string[] {
+  // Only the workbook structure is needed, not the cell data
+  return read(data, { type: 'array', bookSheets: true }).SheetNames;
+}
+
+/**
+ * Reads every tab of a workbook as header-keyed rows
+ * The first row of each tab is its header row; tabs without data rows are skipped
+ */
+export function parseWorkbook(data: ArrayBuffer): WorkbookTab[] {
+  const workbook = read(data, { type: 'array', cellDates: false });
+
+  return workbook.SheetNames
+    .map(name => ({
+      name,
+      // Formatted cell text, so values match what a CSV export of the tab would contain
+      rows: utils.sheet_to_json<RawSheetRow>(workbook.Sheets[name], { defval: '', raw: false }),
+    }))
+    .filter(tab => tab.rows.length > 0);
+}
+
+/**
+ * Picks the default tab to import: the configured sheet name when the workbook
+ * has it (case-insensitive), otherwise the first tab
+ */
+export function getDefaultTab(tabNames: string[], preferredName: string): string | undefined {
+  return tabNames.find(name => name.trim().toLowerCase() === preferredName.trim().toLowerCase())
+    ?? tabNames[0];
+}
+
+/**
+ * Resolves a tab selection such as "Complaints", "2024,2025" or "*" (every tab)
+ * against a workbook's tabs; falls back to the default tab when nothing matches
+ */
+export function resolveTabSelection(tabNames: string[], selection: string): string[] {
+  if (selection.trim() === '*') return tabNames;
+
+  const requested = selection.split(',').map(name => name.trim().toLowerCase());
+  const matched = tabNames.filter(name => requested.includes(name.trim().toLowerCase()));
+  if (matched.length > 0) return matched;
+
+  const fallback = getDefaultTab(tabNames, selection);
+  return fallback ? [fallback] : [];
+}
+
+/**
+ * Combines the selected tabs into one row set, tagging each row with its tab
+ * @param tabNames - Tabs to include, in order; all tabs when omitted
+ */
+export function combineWorkbookTabs(tabs: WorkbookTab[], tabNames?: string[]): RawSheetRow[] {
+  const selected = tabNames
+    ? tabNames
+        .map(name => tabs.find(tab => tab.name === name))
+        .filter((tab): tab is WorkbookTab => !!tab)
+    : tabs;
+
+  return selected.flatMap(tab =>
+    tab.rows.map(row => ({ ...row, [SOURCE_TAB_COLUMN]: tab.name }))
+  );
+}
+
+/**
+ * Parses an exported sheet into header-keyed rows
+ * CSV files are parsed as text; workbooks are read from the given tabs
+ * (the first tab when none are given) and tagged with a Source Tab column
+ */
+export function parseSpreadsheetFile(
+  fileName: string,
+  data: ArrayBuffer,
+  tabNames?: string[]
+): SourceRows {
+  if (!isWorkbookFile(fileName)) {
+    return parseCSV(new TextDecoder('utf-8').decode(data));
+  }
+
+  const tabs = parseWorkbook(data);
+  return {
+    rows: combineWorkbookTabs(tabs, tabNames ?? tabs.slice(0, 1).map(tab => tab.name)),
+    parseErrors: [],
+  };
+}
@@ -0,0 +1,91 @@
+// Time zone conversion helpers (built on Intl, so they work in the browser and on the backend)
+
+export interface DateTimeParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour?: number;
+  minute?: number;
+  second?: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is a time zone name Intl recognises (e.g. "America/New_York")
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): Required<DateTimeParts> {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(part => {
+      if (part.type !== 'literal') values[part.type] = Number(part.value);
+    });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds (e.g. -5h for New York in winter)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which a time zone's clocks show the given date and time
+ * Times skipped by a DST change resolve to the instant one hour later
+ */
+export function zonedTimeToUtc(parts: DateTimeParts, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+
+  // The offset at the wall-clock time is usually right; re-check once for DST transitions
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+}
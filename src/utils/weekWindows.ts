@@ -0,0 +1,181 @@
+// Week windows for the weekly roll-up
+// Splits the weeks up to a reference date into rolling, ISO, custom or fiscal
+// weeks. Week boundaries are midnight in the business time zone.
+
+import { WeekMode, WeekSettings, WeekWindow } from '../types';
+import { DEFAULT_WEEK_SETTINGS, MAX_WEEKS } from '../config/weekConfig';
+import {
+  formatBusinessDate,
+  parseBusinessDay,
+  startOfBusinessWindow,
+  subBusinessDays,
+  toBusinessDayKey,
+} from './businessDate';
+
+const WEEK_MODES: WeekMode[] = ['rolling', 'iso', 'custom', 'fiscal'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar days are handled as day numbers (days since 1970-01-01) so the
+// arithmetic is independent of any time zone
+function toDayNumber(dayKey: string): number {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function toDayKey(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+function getWeekday(dayNumber: number): number {
+  return new Date(dayNumber * DAY_MS).getUTCDay();
+}
+
+function startOfWeek(dayNumber: number, weekStartsOn: number): number {
+  return dayNumber - ((getWeekday(dayNumber) - weekStartsOn + 7) % 7);
+}
+
+const formatDay = (date: Date) => formatBusinessDate(date, { month: 'short', day: 'numeric' });
+
+/**
+ * Whether a value is a valid "MM-dd" fiscal year start (February 29th is not allowed)
+ */
+export function isValidFiscalYearStart(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{2}-\d{2}$/.test(value)) return false;
+  const [month, day] = value.split('-').map(Number);
+  const check = new Date(Date.UTC(2001, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+}
+
+/**
+ * ISO 8601 week label of the week starting on a Monday, e.g. "2024-W24"
+ */
+function getIsoWeekLabel(monday: number): string {
+  // The ISO year is the year of the week's Thursday
+  const thursday = new Date((monday + 3) * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((monday + 3 - Date.UTC(year, 0, 1) / DAY_MS) / 7) + 1;
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Fiscal week label of a calendar week, e.g. "FY2025 W05"
+ * Week 1 is the week containing the fiscal year start, and fiscal years are
+ * named after the calendar year they end in.
+ */
+function getFiscalWeekLabel(weekStart: number, settings: WeekSettings): string {
+  const [month, day] = settings.fiscalYearStart.split('-').map(Number);
+  const year = new Date(weekStart * DAY_MS).getUTCFullYear();
+
+  // The week of next year's start can begin before it (e.g. Dec 29th for a Jan 1st start)
+  const fiscalYear = [year + 1, year, year - 1].find(
+    candidate => startOfWeek(Date.UTC(candidate, month - 1, day) / DAY_MS, settings.weekStartsOn) <= weekStart
+  )!;
+  const firstWeek = startOfWeek(Date.UTC(fiscalYear, month - 1, day) / DAY_MS, settings.weekStartsOn);
+  const week = (weekStart - firstWeek) / 7 + 1;
+  const name = month === 1 && day === 1 ? fiscalYear : fiscalYear + 1;
+
+  return `FY${name} W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Week windows ending at the reference date, most recent (week 1) first
+ * Rolling weeks are the 7 business days ending 7 × (N - 1) days before the reference
+ * date. Calendar weeks run from their start day; week 1 is the week containing the
+ * reference date and ends at it.
+ */
+export function getWeekWindows(
+  referenceDate: Date,
+  settings: WeekSettings = DEFAULT_WEEK_SETTINGS
+): WeekWindow[] {
+  const windows: WeekWindow[] = [];
+
+  if (settings.mode === 'rolling') {
+    for (let week = 1; week <= settings.weeks; week++) {
+      const start = startOfBusinessWindow(referenceDate, week * 7);
+      const end = week === 1
+        ? referenceDate
+        : new Date(startOfBusinessWindow(referenceDate, (week - 1) * 7).getTime() - 1);
+      windows.push({
+        week,
+        start,
+        end,
+        label: formatDay(start),
+        rangeLabel: `${formatDay(start)}–${formatDay(subBusinessDays(referenceDate, (week - 1) * 7))}`,
+      });
+    }
+    return windows;
+  }
+
+  const weekStartsOn = settings.mode === 'iso' ? 1 : settings.weekStartsOn;
+  const referenceDay = toDayNumber(toBusinessDayKey(referenceDate));
+  const currentWeek = startOfWeek(referenceDay, weekStartsOn);
+
+  for (let week = 1; week <= settings.weeks; week++) {
+    const firstDay = currentWeek - (week - 1) * 7;
+    const lastDay = Math.min(firstDay + 6, referenceDay);
+    const start = parseBusinessDay(toDayKey(firstDay));
+    const end = week === 1
+      ? referenceDate
+      : new Date(parseBusinessDay(toDayKey(firstDay + 7)).getTime() - 1);
+    const rangeLabel = `${formatDay(start)}–${formatDay(parseBusinessDay(toDayKey(lastDay)))}`;
+
+    let label = formatDay(start);
+    if (settings.mode === 'iso') label = getIsoWeekLabel(firstDay);
+    if (settings.mode === 'fiscal') label = getFiscalWeekLabel(firstDay, { ...settings, weekStartsOn });
+
+    windows.push({ week, start, end, label, rangeLabel });
+  }
+
+  return windows;
+}
+
+/**
+ * Reads week settings from query-string style values, falling back to the
+ * defaults for anything missing. Returns null when a value is invalid.
+ */
+export function parseWeekSettings(values: Record<string, unknown>): WeekSettings | null {
+  const { weekMode, weeks, weekStartsOn, fiscalYearStart } = values;
+  const settings = { ...DEFAULT_WEEK_SETTINGS };
+
+  if (weekMode !== undefined) {
+    if (!WEEK_MODES.includes(weekMode as WeekMode)) return null;
+    settings.mode = weekMode as WeekMode;
+  }
+  if (weeks !== undefined) {
+    const count = Number(weeks);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_WEEKS) return null;
+    settings.weeks = count;
+  }
+  if (weekStartsOn !== undefined) {
+    const day = Number(weekStartsOn);
+    if (!Number.isInteger(day) || day < 0 || day > 6) return null;
+    settings.weekStartsOn = day;
+  }
+  if (fiscalYearStart !== undefined) {
+    if (!isValidFiscalYearStart(fiscalYearStart)) return null;
+    settings.fiscalYearStart = fiscalYearStart;
+  }
+
+  return settings;
+}
+
+/**
+ * Query-string values for the settings that differ from the defaults
+ */
+export function toWeekQuery(settings: WeekSettings): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (settings.mode !== DEFAULT_WEEK_SETTINGS.mode) query.weekMode = settings.mode;
+  if (settings.weeks !== DEFAULT_WEEK_SETTINGS.weeks) query.weeks = String(settings.weeks);
+  if (settings.weekStartsOn !== DEFAULT_WEEK_SETTINGS.weekStartsOn) query.weekStartsOn = String(settings.weekStartsOn);
+  if (settings.fiscalYearStart !== DEFAULT_WEEK_SETTINGS.fiscalYearStart) {
+    query.fiscalYearStart = settings.fiscalYearStart;
+  }
+  return query;
+}
+
+/**
+ * Whether the settings are the defaults (the backend's cached metrics use these)
+ */
+export function isDefaultWeekSettings(settings: WeekSettings): boolean {
+  return Object.keys(toWeekQuery(settings)).length === 0;
+}